@@ -1,8 +1,9 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import type EventEmitter from "events";
 
 vi.mock("../../utils/logger.js", () => ({
   log: vi.fn(),
+  noopLog: () => {},
   isLogLevelEnabled: vi.fn(() => true),
 }));
 
@@ -25,22 +26,45 @@ vi.mock("@stoqey/ib", async () => {
     accountDownloadEnd: "accountDownloadEnd",
     contractDetails: "contractDetails",
     contractDetailsEnd: "contractDetailsEnd",
+    pnl: "pnl",
+    pnlSingle: "pnlSingle",
     tickPrice: "tickPrice",
     tickSize: "tickSize",
     tickGeneric: "tickGeneric",
     tickString: "tickString",
     tickReqParams: "tickReqParams",
     tickSnapshotEnd: "tickSnapshotEnd",
+    orderStatus: "orderStatus",
+    openOrder: "openOrder",
+    openOrderEnd: "openOrderEnd",
+    accountSummary: "accountSummary",
+    accountSummaryEnd: "accountSummaryEnd",
+    position: "position",
+    positionEnd: "positionEnd",
+    execDetails: "execDetails",
+    execDetailsEnd: "execDetailsEnd",
+    commissionReport: "commissionReport",
   };
 
   class MockIBApiClass extends events.EventEmitter {
     connect = vi.fn();
     disconnect = vi.fn();
     cancelOrder = vi.fn();
+    placeOrder = vi.fn();
+    reqAllOpenOrders = vi.fn();
     reqAccountUpdates = vi.fn();
     reqContractDetails = vi.fn();
     reqMktData = vi.fn();
     cancelMktData = vi.fn();
+    reqPnL = vi.fn();
+    cancelPnL = vi.fn();
+    reqPnLSingle = vi.fn();
+    cancelPnLSingle = vi.fn();
+    reqAccountSummary = vi.fn();
+    cancelAccountSummary = vi.fn();
+    reqPositions = vi.fn();
+    cancelPositions = vi.fn();
+    reqExecutions = vi.fn();
   }
 
   return {
@@ -117,12 +141,177 @@ describe("IBKRBroker", () => {
     });
   });
 
+  describe("placeOrder", () => {
+    let mockApi: EventEmitter & { placeOrder: ReturnType<typeof vi.fn> };
+
+    beforeEach(async () => {
+      const connectPromise = broker.connect({ host: "127.0.0.1", port: 4002, clientId: 1 });
+      const maybeApi = Reflect.get(broker, "api");
+      if (!maybeApi) throw new Error("Expected api to be initialized after connect()");
+      mockApi = maybeApi;
+      mockApi.emit(EventName.connected);
+      mockApi.emit(EventName.nextValidId, 100);
+      await connectPromise;
+    });
+
+    it("places orders with consecutive ids starting at nextValidId", async () => {
+      const first = broker.placeOrder({ symbol: "AAPL", action: "BUY", quantity: 10, orderType: "MKT" });
+      const second = broker.placeOrder({ symbol: "MSFT", action: "SELL", quantity: 5, orderType: "LMT", limitPrice: 300 });
+
+      expect(mockApi.placeOrder.mock.calls.map(([orderId]) => orderId)).toEqual([100, 101]);
+
+      mockApi.emit(EventName.orderStatus, 100, "Submitted", 0, 10, 0);
+      mockApi.emit(EventName.orderStatus, 101, "PreSubmitted", 0, 5, 0);
+
+      await expect(first).resolves.toEqual(expect.objectContaining({ id: 100, status: "Submitted" }));
+      await expect(second).resolves.toEqual(expect.objectContaining({ id: 101, status: "PreSubmitted" }));
+    });
+
+    it("returns working orders from getOpenOrders", async () => {
+      const pending = broker.getOpenOrders();
+      mockApi.emit(
+        EventName.openOrder,
+        55,
+        { conId: 265598, symbol: "AAPL", currency: "USD" },
+        { action: "BUY", totalQuantity: 10, orderType: "LMT", lmtPrice: 140 },
+        { status: "Submitted" },
+      );
+      mockApi.emit(EventName.openOrderEnd);
+
+      await expect(pending).resolves.toEqual([
+        expect.objectContaining({ id: 55, symbol: "AAPL", orderType: "LMT", status: "Submitted" }),
+      ]);
+    });
+
+    it("rejects when not connected", async () => {
+      await broker.disconnect();
+
+      await expect(
+        broker.placeOrder({ symbol: "AAPL", action: "BUY", quantity: 10, orderType: "MKT" }),
+      ).rejects.toThrow("Not connected");
+      await expect(
+        broker.previewOrder({ symbol: "AAPL", action: "BUY", quantity: 10, orderType: "MKT" }),
+      ).rejects.toThrow("Not connected");
+    });
+
+    it("rejects getOpenOrders after the gateway connection drops", async () => {
+      mockApi.emit(EventName.disconnected);
+
+      await expect(broker.getOpenOrders()).rejects.toThrow("Not connected");
+    });
+
+    it("previews orders as whatIf without adding them to the blotter", async () => {
+      const preview = broker.previewOrder({ symbol: "AAPL", action: "BUY", quantity: 10, orderType: "MKT" });
+
+      expect(mockApi.placeOrder).toHaveBeenCalledWith(100, expect.anything(), expect.objectContaining({ whatIf: true }));
+      mockApi.emit(
+        EventName.openOrder,
+        100,
+        { symbol: "AAPL", currency: "USD" },
+        { action: "BUY", totalQuantity: 10, orderType: "MKT", whatIf: true },
+        { initMarginChange: 375, maintMarginChange: 340, equityWithLoanAfter: 99_000, commission: 1, commissionCurrency: "USD" },
+      );
+
+      await expect(preview).resolves.toEqual(expect.objectContaining({ initMarginChange: 375, commission: 1 }));
+
+      const next = broker.placeOrder({ symbol: "AAPL", action: "BUY", quantity: 10, orderType: "MKT" });
+      expect(mockApi.placeOrder).toHaveBeenLastCalledWith(101, expect.anything(), expect.objectContaining({ transmit: true }));
+      mockApi.emit(EventName.orderStatus, 101, "Submitted", 0, 10, 0);
+      await next;
+    });
+  });
+
+  describe("account requests", () => {
+    let mockApi: EventEmitter & { reqPositions: ReturnType<typeof vi.fn>; reqContractDetails: ReturnType<typeof vi.fn> };
+
+    beforeEach(async () => {
+      const connectPromise = broker.connect({ host: "127.0.0.1", port: 4002, clientId: 1 });
+      const maybeApi = Reflect.get(broker, "api");
+      if (!maybeApi) throw new Error("Expected api to be initialized after connect()");
+      mockApi = maybeApi;
+      mockApi.emit(EventName.connected);
+      mockApi.emit(EventName.nextValidId, 100);
+      mockApi.emit(EventName.managedAccounts, "U111,U222");
+      await connectPromise;
+    });
+
+    it("resolves the active account's summary", async () => {
+      const pending = broker.getAccountSummary();
+      mockApi.emit(EventName.accountSummary, 650_000, "U111", "NetLiquidation", "1000", "USD");
+      mockApi.emit(EventName.accountSummaryEnd, 650_000);
+
+      await expect(pending).resolves.toEqual(expect.objectContaining({ accountId: "U111", netLiquidation: 1_000 }));
+    });
+
+    it("shares one reqPositions across concurrent callers and enriches market hours", async () => {
+      const first = broker.getPositions();
+      const second = broker.getPositions();
+      expect(mockApi.reqPositions).toHaveBeenCalledTimes(1);
+
+      const contract = { conId: 265598, symbol: "AAPL", currency: "USD", secType: "STK" };
+      mockApi.emit(EventName.position, "U222", contract, 50, 130);
+      mockApi.emit(EventName.position, "U111", contract, 100, 140);
+      mockApi.emit(EventName.positionEnd);
+      expect(mockApi.reqContractDetails).toHaveBeenCalledWith(600_000, expect.objectContaining({ conId: 265598 }));
+
+      mockApi.emit(EventName.contractDetails, 600_000, { contract: { conId: 265598 }, timeZoneId: "US/Eastern" });
+      mockApi.emit(EventName.contractDetailsEnd, 600_000);
+
+      const positions = await first;
+      expect(await second).toBe(positions);
+      expect(positions.map((position) => [position.accountId, position.quantity])).toEqual([
+        ["U111", 100],
+        ["U222", 50],
+      ]);
+      expect(positions[0].marketHours?.timeZoneId).toBe("US/Eastern");
+
+      void broker.getPositions();
+      expect(mockApi.reqPositions).toHaveBeenCalledTimes(2);
+    });
+
+    it("rejects when not connected", async () => {
+      await broker.disconnect();
+
+      await expect(broker.getAccountSummary()).rejects.toThrow("Not connected");
+      await expect(broker.getPositions()).rejects.toThrow("Not connected");
+    });
+  });
+
+  describe("subscribeQuote", () => {
+    it("throws when not connected", () => {
+      expect(() => broker.subscribeQuote("AAPL", vi.fn())).toThrow("Not connected");
+    });
+
+    it("requests market data per symbol with distinct ticker ids and emits quotes", async () => {
+      const connectPromise = broker.connect({ host: "127.0.0.1", port: 4002, clientId: 1 });
+      const mockApi: EventEmitter & { reqMktData: ReturnType<typeof vi.fn>; cancelMktData: ReturnType<typeof vi.fn> } =
+        Reflect.get(broker, "api");
+      mockApi.emit(EventName.nextValidId, 1);
+      await connectPromise;
+
+      const callback = vi.fn();
+      const unsubscribe = broker.subscribeQuote("AAPL", callback);
+      broker.subscribeQuote("MSFT", vi.fn());
+
+      const [[aaplReqId], [msftReqId]] = mockApi.reqMktData.mock.calls;
+      expect(aaplReqId).not.toBe(msftReqId);
+
+      mockApi.emit(EventName.tickPrice, aaplReqId, 4, 210, false);
+      expect(callback).toHaveBeenLastCalledWith(expect.objectContaining({ symbol: "AAPL", last: 210 }));
+
+      unsubscribe();
+      expect(mockApi.cancelMktData).toHaveBeenCalledWith(aaplReqId);
+    });
+  });
+
   describe("subscribePortfolio", () => {
     let mockApi: EventEmitter & {
       reqAccountUpdates: ReturnType<typeof vi.fn>;
       reqContractDetails: ReturnType<typeof vi.fn>;
       reqMktData: ReturnType<typeof vi.fn>;
       cancelMktData: ReturnType<typeof vi.fn>;
+      reqPnL: ReturnType<typeof vi.fn>;
+      reqPnLSingle: ReturnType<typeof vi.fn>;
     };
 
     beforeEach(async () => {
@@ -135,6 +324,35 @@ describe("IBKRBroker", () => {
       mockApi.emit(EventName.managedAccounts, "DU123456");
     });
 
+    it("reports managed accounts and subscribes to the selected one", () => {
+      const onAccounts = vi.fn();
+      broker.onAccounts(onAccounts);
+
+      mockApi.emit(EventName.managedAccounts, "U111,U222");
+      expect(onAccounts).toHaveBeenLastCalledWith(["U111", "U222"], "U111");
+
+      broker.setAccount("U222");
+      broker.subscribePortfolio(vi.fn());
+
+      expect(mockApi.reqAccountUpdates).toHaveBeenCalledWith(true, "U222");
+    });
+
+    it("keeps a preferred account across a reconnect and warns when it is not managed", () => {
+      const statuses: string[] = [];
+      broker.onStatus((status) => statuses.push(status.message));
+      const onAccounts = vi.fn();
+      broker.onAccounts(onAccounts);
+
+      broker.setAccount("U222");
+      mockApi.emit(EventName.managedAccounts, "U111,U222");
+      expect(onAccounts).toHaveBeenLastCalledWith(["U111", "U222"], "U222");
+
+      broker.setAccount("U999");
+      mockApi.emit(EventName.managedAccounts, "U111,U222");
+      expect(onAccounts).toHaveBeenLastCalledWith(["U111", "U222"], "U222");
+      expect(statuses).toContain("Account U999 is not managed by this login; using U222");
+    });
+
     it("returns an unsubscribe function", () => {
       const callback = vi.fn();
       const unsubscribe = broker.subscribePortfolio(callback);
@@ -142,19 +360,23 @@ describe("IBKRBroker", () => {
       expect(typeof unsubscribe).toBe("function");
     });
 
-    it("subscribes to account updates only", () => {
+    it("subscribes to account updates", () => {
       const callback = vi.fn();
       broker.subscribePortfolio(callback);
 
       expect(mockApi.reqAccountUpdates).toHaveBeenCalledWith(true, "DU123456");
     });
 
-    it("does not subscribe to pnl or pnlSingle", () => {
+    it("subscribes to pnl and pnlSingle for held positions after the account download", () => {
       const callback = vi.fn();
       broker.subscribePortfolio(callback);
 
-      expect(mockApi).not.toHaveProperty("reqPnL");
-      expect(mockApi).not.toHaveProperty("reqPnLSingle");
+      mockApi.emit(EventName.updatePortfolio, { symbol: "AAPL", conId: 265598, currency: "USD" }, 100, 150.5, 15050, 145.0, 550, 0, "DU123456");
+      expect(mockApi.reqPnL).not.toHaveBeenCalled();
+
+      mockApi.emit(EventName.accountDownloadEnd, "DU123456");
+      expect(mockApi.reqPnL).toHaveBeenCalledWith(expect.any(Number), "DU123456", null);
+      expect(mockApi.reqPnLSingle).toHaveBeenCalledWith(expect.any(Number), "DU123456", null, 265598);
     });
 
     it("calls callback with position updates", () => {
@@ -315,7 +537,7 @@ describe("IBKRBroker", () => {
       expect(callback).not.toHaveBeenCalled();
     });
 
-    it("ignores NetLiquidation account updates", () => {
+    it("keeps NetLiquidation in accountValues without changing portfolio totals", () => {
       const callback = vi.fn();
       broker.subscribePortfolio(callback);
 
@@ -336,11 +558,16 @@ describe("IBKRBroker", () => {
         0,
         "DU123456"
       );
-      const callsBefore = callback.mock.calls.length;
+      const equityBefore = callback.mock.lastCall?.[0].totalEquity;
 
-      mockApi.emit(EventName.updateAccountValue, "NetLiquidation", "25000.50", "BASE", "DU123456");
+      mockApi.emit(EventName.updateAccountValue, "NetLiquidation", "25000.50", "USD", "DU123456");
 
-      expect(callback.mock.calls.length).toBe(callsBefore);
+      expect(callback).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          totalEquity: equityBefore,
+          accountValues: expect.objectContaining({ netLiquidation: 25_000.5 }),
+        }),
+      );
     });
 
     it("computes totalEquity as positionsMarketValue + cashBalance", () => {
@@ -481,7 +708,7 @@ describe("IBKRBroker", () => {
       const [reqId] = mockApi.reqContractDetails.mock.calls[0];
 
       mockApi.emit(EventName.contractDetails, reqId, {
-        contract: { conId: 265598 },
+        contract: { conId: 265598, exchange: "SMART", primaryExch: "NASDAQ" },
         timeZoneId: "America/New_York",
         liquidHours: "20260210:0930-1600;20260211:0930-1600",
         tradingHours: "20260210:0400-2000;20260211:0400-2000",
@@ -491,6 +718,7 @@ describe("IBKRBroker", () => {
       const lastCall = callback.mock.calls.at(-1)?.[0];
       expect(lastCall.positions[0].marketHours).toEqual({
         timeZoneId: "America/New_York",
+        exchange: "NASDAQ",
         liquidHours: "20260210:0930-1600;20260211:0930-1600",
         tradingHours: "20260210:0400-2000;20260211:0400-2000",
       });
@@ -518,4 +746,93 @@ describe("IBKRBroker", () => {
       expect(lastCall.totalEquity).toBe(30000);
     });
   });
+
+  describe("session alerts", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("keeps alerting for the connection after the portfolio stream is swapped for the household", async () => {
+      vi.useFakeTimers();
+      // 15:50 in New York, ten minutes before the regular close.
+      vi.setSystemTime(new Date("2026-02-10T20:50:00Z"));
+      const onStatus = vi.fn();
+      broker.onStatus(onStatus);
+      broker.setSessionAlerts([15]);
+      const connectPromise = broker.connect({ host: "127.0.0.1", port: 4002, clientId: 1 });
+      const mockApi = Reflect.get(broker, "api");
+      if (!mockApi) throw new Error("Expected api to be initialized after connect()");
+      mockApi.emit(EventName.nextValidId, 1);
+      await connectPromise;
+      mockApi.emit(EventName.managedAccounts, "U111,U222");
+
+      const unsubscribe = broker.subscribePortfolio(vi.fn());
+      mockApi.emit(
+        EventName.updatePortfolio,
+        { symbol: "AAPL", conId: 265598, currency: "USD", exchange: "SMART", secType: "STK" },
+        100, 150.5, 15050, 145.0, 550, 0, "U111"
+      );
+      const [reqId] = mockApi.reqContractDetails.mock.calls[0];
+      mockApi.emit(EventName.contractDetails, reqId, {
+        contract: { conId: 265598, primaryExch: "NASDAQ" },
+        timeZoneId: "America/New_York",
+        liquidHours: "20260210:0930-20260210:1600",
+        tradingHours: "20260210:0400-20260210:2000",
+      });
+      mockApi.emit(EventName.contractDetailsEnd, reqId);
+      unsubscribe();
+
+      // Household downloads carry no market hours; the cached ones still apply.
+      broker.subscribeHousehold(vi.fn());
+      mockApi.emit(
+        EventName.updatePortfolio,
+        { symbol: "AAPL", conId: 265598, currency: "USD", exchange: "SMART", secType: "STK" },
+        100, 150.5, 15050, 145.0, 550, 0, "U111"
+      );
+      mockApi.emit(EventName.accountDownloadEnd, "U111");
+
+      const sessionStatuses = () => onStatus.mock.calls.filter(([status]) => status.kind === "session");
+      vi.advanceTimersByTime(30_000);
+      expect(sessionStatuses()).toEqual([
+        [expect.objectContaining({ level: "info", message: "NASDAQ regular session closes in 10m (AAPL)" })],
+      ]);
+
+      await broker.disconnect();
+      vi.advanceTimersByTime(15 * 60_000);
+      expect(sessionStatuses()).toHaveLength(1);
+    });
+  });
+
+  describe("subscribeExecutions", () => {
+    it("stamps fills from a household account other than the selected one with its FX rate", async () => {
+      const connectPromise = broker.connect({ host: "127.0.0.1", port: 4002, clientId: 1 });
+      const mockApi = Reflect.get(broker, "api");
+      if (!mockApi) throw new Error("Expected api to be initialized after connect()");
+      mockApi.emit(EventName.nextValidId, 1);
+      await connectPromise;
+      mockApi.emit(EventName.managedAccounts, "U111,U222");
+      broker.setAccount("U222");
+
+      // The household downloads U111 first; it is never subscribed on its own.
+      broker.subscribeHousehold(vi.fn());
+      mockApi.emit(EventName.updateAccountValue, "NetLiquidation", "0", "USD", "U111");
+      mockApi.emit(EventName.updateAccountValue, "ExchangeRate", "1.1", "EUR", "U111");
+      mockApi.emit(EventName.accountDownloadEnd, "U111");
+
+      const callback = vi.fn();
+      broker.subscribeExecutions(callback);
+      const reqId = mockApi.reqExecutions.mock.calls[0][0];
+      mockApi.emit(
+        EventName.execDetails,
+        reqId,
+        { conId: 14094, symbol: "SAP", currency: "EUR", secType: "STK" },
+        { execId: "0002.01", orderId: 3, acctNumber: "U111", exchange: "IBIS", side: "BOT", shares: 10, price: 120, time: "20260210 10:15:00" },
+      );
+      mockApi.emit(EventName.execDetailsEnd, reqId);
+
+      expect(callback).toHaveBeenLastCalledWith([
+        expect.objectContaining({ execId: "0002.01", accountId: "U111", baseCurrencyCode: "USD", fxRateToBase: 1.1 }),
+      ]);
+    });
+  });
 });
@@ -3,15 +3,33 @@ import type {
   Broker,
   ConnectionConfig,
   AccountSummary,
+  AccountPosition,
   Position,
+  PositionMarketHours,
   Order,
+  OrderPreview,
+  OrderRequest,
+  Execution,
   Quote,
   PortfolioUpdate,
+  HouseholdUpdate,
   BrokerStatus,
   BrokerStatusLevel,
 } from "../types.js";
 import { log, isLogLevelEnabled } from "../../utils/logger.js";
 import { createPortfolioSubscription } from "./portfolio/createPortfolioSubscription.js";
+import { createHouseholdSubscription } from "./portfolio/createHouseholdSubscription.js";
+import { createOrderTracker } from "./orders/createOrderTracker.js";
+import { createQuoteSubscription } from "./market-data/createQuoteSubscription.js";
+import { createExecutionSubscription } from "./orders/createExecutionSubscription.js";
+import { requestAccountSummary } from "./account/requestAccountSummary.js";
+import { requestPositions } from "./account/requestPositions.js";
+import { createContractDetailsTracker } from "./portfolio/contractDetailsTracker.js";
+import { createSessionScheduler } from "./market-hours/index.js";
+import type { SessionScheduler } from "./market-hours/index.js";
+import type { ContractDetailsTracker } from "./portfolio/contractDetailsTracker.js";
+import type { ExecutionFxRate, OrderTracker } from "./orders/types.js";
+import type { PortfolioSnapshot } from "./portfolio/types.js";
 
 const DEFAULT_CONFIG: ConnectionConfig = {
   host: process.env.IBKR_HOST || "127.0.0.1",
@@ -19,13 +37,40 @@ const DEFAULT_CONFIG: ConnectionConfig = {
   clientId: 1,
 };
 
+// Keeps quote tickers clear of the portfolio FX (700_000+) and contract details ids.
+const QUOTE_REQ_ID_START = 800_000;
+const ACCOUNT_SUMMARY_REQ_ID_START = 650_000;
+const EXECUTIONS_REQ_ID_START = 550_000;
+// getPositions keeps its own contract details ids, apart from the portfolio's 90_000+.
+const POSITIONS_CONTRACT_DETAILS_REQ_ID_START = 600_000;
+
 export class IBKRBroker implements Broker {
   private api: IBApi | null = null;
   private connected = false;
   private nextOrderId = 0;
+  private nextQuoteReqId = QUOTE_REQ_ID_START;
+  private nextAccountSummaryReqId = ACCOUNT_SUMMARY_REQ_ID_START;
+  private nextExecutionsReqId = EXECUTIONS_REQ_ID_START;
   private accountId = "";
+  private preferredAccountId: string | null = null;
+  private sessionAlertLeadMinutes: number[] = [];
+  private accounts: string[] = [];
+  private orderTracker: OrderTracker | null = null;
+  private sessionScheduler: SessionScheduler | null = null;
+  private positionDetailsTracker: ContractDetailsTracker | null = null;
+  // reqPositions has no request id, so concurrent callers share one request.
+  private positionsRequest: Promise<AccountPosition[]> | null = null;
+  // Latest ExchangeRate values per account from its portfolio or household
+  // stream; fills are stamped with them.
+  private exchangeRatesByAccount = new Map<string, { baseCurrencyCode: string; rates: Record<string, number> }>();
+  // Latest positions per account from the same streams, returned with its
+  // account summary.
+  private positionsByAccount = new Map<string, Position[]>();
+  // Market hours seen on the portfolio stream; household downloads carry none.
+  private marketHoursByConId = new Map<number, PositionMarketHours>();
   private disconnectCallbacks: Set<() => void> = new Set();
   private statusCallbacks: Set<(status: BrokerStatus) => void> = new Set();
+  private accountsCallbacks: Set<(accounts: string[], activeAccountId: string) => void> = new Set();
 
   private emitStatus(status: Omit<BrokerStatus, "at"> & { at?: number }): void {
     const payload: BrokerStatus = {
@@ -34,6 +79,7 @@ export class IBKRBroker implements Broker {
       message: status.message,
       code: status.code,
       reqId: status.reqId,
+      kind: status.kind,
     };
     this.statusCallbacks.forEach((callback) => callback(payload));
   }
@@ -95,11 +141,21 @@ export class IBKRBroker implements Broker {
     });
 
     this.api.on(EventName.managedAccounts, (accountsList: string) => {
-      const accounts = accountsList.split(",");
-      if (accounts.length > 0) {
-        this.accountId = accounts[0];
+      const accounts = accountsList.split(",").map((account) => account.trim()).filter(Boolean);
+      this.accounts = accounts;
+      if (this.preferredAccountId && accounts.includes(this.preferredAccountId)) {
+        this.accountId = this.preferredAccountId;
+      } else if (!accounts.includes(this.accountId)) {
+        this.accountId = accounts[0] ?? "";
+      }
+      if (this.preferredAccountId && !accounts.includes(this.preferredAccountId)) {
+        this.emitStatus({
+          level: "warn",
+          message: `Account ${this.preferredAccountId} is not managed by this login; using ${this.accountId || "none"}`,
+        });
       }
       log("debug", "event.managedAccounts", `accounts=${accountsList} selectedAccount=${this.accountId}`);
+      this.accountsCallbacks.forEach((callback) => callback([...accounts], this.accountId));
     });
 
     if (wireLogEnabled) {
@@ -123,6 +179,11 @@ export class IBKRBroker implements Broker {
     });
     this.api = api;
     this.setupEventHandlers();
+    this.orderTracker?.dispose();
+    this.orderTracker = createOrderTracker({ api, clientId: config.clientId, log });
+    this.startSessionScheduler();
+    this.positionDetailsTracker = createContractDetailsTracker(POSITIONS_CONTRACT_DETAILS_REQ_ID_START);
+    this.positionsRequest = null;
 
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
@@ -140,6 +201,12 @@ export class IBKRBroker implements Broker {
 
   async disconnect(): Promise<void> {
     log("info", "connection", "disconnect requested");
+    if (this.orderTracker) {
+      this.orderTracker.dispose();
+      this.orderTracker = null;
+    }
+    this.sessionScheduler?.dispose();
+    this.sessionScheduler = null;
     if (this.api) {
       this.api.disconnect();
     }
@@ -164,19 +231,90 @@ export class IBKRBroker implements Broker {
     };
   }
 
+  onAccounts(callback: (accounts: string[], activeAccountId: string) => void): () => void {
+    this.accountsCallbacks.add(callback);
+    return () => {
+      this.accountsCallbacks.delete(callback);
+    };
+  }
+
+  setAccount(accountId: string): void {
+    this.preferredAccountId = accountId;
+    // Before managedAccounts arrives the preference is applied once the list is known.
+    if (this.accounts.includes(accountId)) {
+      this.accountId = accountId;
+    }
+    log("info", "account", `select account=${accountId} active=${this.accountId || "<pending>"}`);
+  }
+
+  setSessionAlerts(leadMinutes: number[]): void {
+    this.sessionAlertLeadMinutes = [...leadMinutes];
+    if (this.connected) this.startSessionScheduler();
+  }
+
+  // Runs for the whole connection over the selected account's latest positions,
+  // so account switches and household mode do not interrupt alerts.
+  private startSessionScheduler(): void {
+    this.sessionScheduler?.dispose();
+    this.sessionScheduler = null;
+    if (this.sessionAlertLeadMinutes.length === 0) return;
+    this.sessionScheduler = createSessionScheduler({
+      getHoldings: () =>
+        (this.positionsByAccount.get(this.accountId) ?? [])
+          .filter((position) => position.quantity !== 0)
+          .map((position) => ({
+            symbol: position.symbol,
+            marketHours: position.marketHours ?? this.marketHoursByConId.get(position.conId),
+          })),
+      leadMinutes: this.sessionAlertLeadMinutes,
+      onEvent: (event) => this.emitStatus({ level: "info", message: event.message, kind: "session", at: event.at }),
+      log,
+    });
+  }
+
   async getAccountSummary(): Promise<AccountSummary> {
-    // TODO: Implement using reqAccountSummary
-    throw new Error("Not implemented");
+    if (!this.api || !this.connected) {
+      throw new Error("Not connected");
+    }
+    return requestAccountSummary({
+      api: this.api,
+      reqId: this.nextAccountSummaryReqId++,
+      accountId: this.accountId,
+      positionsFor: (accountId) => this.positionsByAccount.get(accountId) ?? [],
+      log,
+    });
   }
 
-  async getPositions(): Promise<Position[]> {
-    // TODO: Implement using reqPositions
-    throw new Error("Not implemented");
+  async getPositions(): Promise<AccountPosition[]> {
+    if (!this.api || !this.positionDetailsTracker || !this.connected) {
+      throw new Error("Not connected");
+    }
+    if (!this.positionsRequest) {
+      const request = requestPositions({ api: this.api, tracker: this.positionDetailsTracker, log });
+      this.positionsRequest = request;
+      const clear = (): void => {
+        if (this.positionsRequest === request) this.positionsRequest = null;
+      };
+      request.then(clear, clear);
+    }
+    return this.positionsRequest;
   }
 
-  async placeOrder(_order: Omit<Order, "id" | "status">): Promise<Order> {
-    // TODO: Implement using placeOrder
-    throw new Error("Not implemented");
+  async placeOrder(order: OrderRequest): Promise<Order> {
+    if (!this.api || !this.orderTracker || !this.connected) {
+      throw new Error("Not connected");
+    }
+    const orderId = this.nextOrderId++;
+    return this.orderTracker.place(orderId, order);
+  }
+
+  async previewOrder(order: OrderRequest): Promise<OrderPreview> {
+    if (!this.api || !this.orderTracker || !this.connected) {
+      throw new Error("Not connected");
+    }
+    // whatIf orders consume an order id like any other placeOrder call.
+    const orderId = this.nextOrderId++;
+    return this.orderTracker.preview(orderId, order);
   }
 
   async cancelOrder(orderId: number): Promise<void> {
@@ -186,13 +324,50 @@ export class IBKRBroker implements Broker {
   }
 
   async getOpenOrders(): Promise<Order[]> {
-    // TODO: Implement using reqOpenOrders
-    throw new Error("Not implemented");
+    if (!this.api || !this.orderTracker || !this.connected) {
+      throw new Error("Not connected");
+    }
+    return this.orderTracker.requestOpenOrders();
+  }
+
+  subscribeOrders(callback: (orders: Order[]) => void): () => void {
+    if (!this.orderTracker) {
+      throw new Error("Not connected");
+    }
+    const tracker = this.orderTracker;
+    const unsubscribe = tracker.subscribe(callback);
+    // Seed the blotter with orders that were working before this session started.
+    tracker.requestOpenOrders().catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      log("warn", "orders.open", `initial open orders load failed error=${message}`);
+    });
+    return unsubscribe;
   }
 
-  subscribeQuote(_symbol: string, _callback: (quote: Quote) => void): () => void {
-    // TODO: Implement using reqMktData
-    throw new Error("Not implemented");
+  subscribeExecutions(callback: (executions: Execution[]) => void): () => void {
+    if (!this.api) {
+      throw new Error("Not connected");
+    }
+    return createExecutionSubscription({
+      api: this.api,
+      reqId: this.nextExecutionsReqId++,
+      callback,
+      getFxRate: (accountId, currency) => this.getFxRate(accountId, currency),
+      log,
+    });
+  }
+
+  subscribeQuote(symbol: string, callback: (quote: Quote) => void): () => void {
+    if (!this.api) {
+      throw new Error("Not connected");
+    }
+    return createQuoteSubscription({
+      api: this.api,
+      reqId: this.nextQuoteReqId++,
+      symbol,
+      callback,
+      log,
+    });
   }
 
   subscribePortfolio(callback: (update: PortfolioUpdate) => void): () => void {
@@ -202,7 +377,46 @@ export class IBKRBroker implements Broker {
     return createPortfolioSubscription({
       api: this.api,
       accountId: () => this.accountId,
+      callback: (update) => {
+        if (update.accountId) this.rememberAccountSnapshot(update.accountId, update);
+        callback(update);
+      },
+      log,
+    });
+  }
+
+  private rememberAccountSnapshot(accountId: string, portfolio: PortfolioSnapshot): void {
+    this.positionsByAccount.set(accountId, portfolio.positions);
+    for (const position of portfolio.positions) {
+      if (position.marketHours) this.marketHoursByConId.set(position.conId, position.marketHours);
+    }
+    if (portfolio.baseCurrencyCode) {
+      this.exchangeRatesByAccount.set(accountId, {
+        baseCurrencyCode: portfolio.baseCurrencyCode,
+        rates: portfolio.cashExchangeRatesByCurrency,
+      });
+    }
+  }
+
+  private getFxRate(accountId: string, currency: string): ExecutionFxRate | null {
+    const account = this.exchangeRatesByAccount.get(accountId);
+    if (!account) return null;
+    if (currency === account.baseCurrencyCode) return { baseCurrencyCode: account.baseCurrencyCode, rate: 1 };
+    const rate = account.rates[currency];
+    return rate === undefined ? null : { baseCurrencyCode: account.baseCurrencyCode, rate };
+  }
+
+  subscribeHousehold(callback: (update: HouseholdUpdate) => void): () => void {
+    if (!this.api) {
+      throw new Error("Not connected");
+    }
+    return createHouseholdSubscription({
+      api: this.api,
+      accounts: () => this.accounts,
       callback,
+      // Household mode covers every account, so fills from accounts other than
+      // the selected one get FX rates too.
+      onAccountSnapshot: (accountId, portfolio) => this.rememberAccountSnapshot(accountId, portfolio),
       log,
     });
   }
@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import EventEmitter from "events";
+import { requestAccountSummary } from "./requestAccountSummary.js";
+import type { Position } from "../../types.js";
+
+const createMockApi = () =>
+  Object.assign(new EventEmitter(), {
+    reqAccountSummary: vi.fn(),
+    cancelAccountSummary: vi.fn(),
+    removeListener: EventEmitter.prototype.removeListener,
+  });
+
+const position: Position = {
+  symbol: "AAPL",
+  quantity: 10,
+  avgCost: 150,
+  marketValue: 1_600,
+  unrealizedPnL: 100,
+  dailyPnL: 0,
+  realizedPnL: 0,
+  marketPrice: 160,
+  currency: "USD",
+  conId: 265598,
+  marketValueBase: 1_600,
+  unrealizedPnLBase: 100,
+  realizedPnLBase: 0,
+  fxRateToBase: 1,
+  isFxPending: false,
+};
+
+describe("requestAccountSummary", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("resolves the requested account at accountSummaryEnd and cancels the request", async () => {
+    const api = createMockApi();
+    const positionsFor = vi.fn((accountId: string) => (accountId === "U222" ? [position] : []));
+    const pending = requestAccountSummary({ api, reqId: 650_000, accountId: "U222", positionsFor, now: () => 42 });
+
+    expect(api.reqAccountSummary).toHaveBeenCalledWith(650_000, "All", expect.stringContaining("Cushion"));
+    api.emit("accountSummary", 650_000, "U111", "NetLiquidation", "1", "USD");
+    api.emit("accountSummary", 650_000, "U222", "NetLiquidation", "100000", "EUR");
+    api.emit("accountSummary", 650_000, "U222", "Cushion", "0.25", "");
+    api.emit("accountSummary", 1, "U222", "SMA", "5", "EUR");
+    api.emit("accountSummaryEnd", 650_000);
+
+    await expect(pending).resolves.toEqual(
+      expect.objectContaining({
+        accountId: "U222",
+        currency: "EUR",
+        netLiquidation: 100_000,
+        cushion: 0.25,
+        sma: null,
+        updatedAt: 42,
+        positions: [position],
+      }),
+    );
+    expect(positionsFor).toHaveBeenCalledWith("U222");
+    expect(api.cancelAccountSummary).toHaveBeenCalledWith(650_000);
+    expect(api.listenerCount("accountSummary")).toBe(0);
+  });
+
+  it("falls back to the first reported account while none is selected", async () => {
+    const api = createMockApi();
+    const pending = requestAccountSummary({ api, reqId: 1, accountId: "" });
+
+    api.emit("accountSummary", 1, "U111", "NetLiquidation", "500", "USD");
+    api.emit("accountSummaryEnd", 1);
+
+    await expect(pending).resolves.toEqual(expect.objectContaining({ accountId: "U111", netLiquidation: 500 }));
+  });
+
+  it("rejects on a request error or timeout", async () => {
+    const api = createMockApi();
+    const failed = requestAccountSummary({ api, reqId: 1, accountId: "U111" });
+    api.emit("error", new Error("Max number of account summary requests exceeded"), 322, 1);
+    await expect(failed).rejects.toThrow("Max number of account summary requests exceeded");
+
+    vi.useFakeTimers();
+    const stalled = requestAccountSummary({ api, reqId: 2, accountId: "U111", timeoutMs: 5_000 });
+    vi.advanceTimersByTime(5_000);
+    await expect(stalled).rejects.toThrow("Account summary timeout");
+    expect(api.cancelAccountSummary.mock.calls).toEqual([[1], [2]]);
+  });
+});
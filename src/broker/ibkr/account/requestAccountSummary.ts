@@ -0,0 +1,129 @@
+import { EventName } from "@stoqey/ib";
+import type { AccountSummary, Position } from "../../types.js";
+import { noopLog } from "../../../utils/logger.js";
+import type { LogFn } from "../../../utils/logger.js";
+import type { AccountApi } from "./types.js";
+
+const ACCOUNT_SUMMARY_TIMEOUT_MS = 10_000;
+
+export const ACCOUNT_SUMMARY_TAGS = [
+  "NetLiquidation",
+  "TotalCashValue",
+  "BuyingPower",
+  "ExcessLiquidity",
+  "InitMarginReq",
+  "MaintMarginReq",
+  "Cushion",
+  "SMA",
+  "GrossPositionValue",
+  "Leverage",
+] as const;
+
+type Params = {
+  api: AccountApi;
+  reqId: number;
+  // Empty until managedAccounts arrives; the first reported account is used then.
+  accountId: string;
+  positionsFor?: (accountId: string) => Position[];
+  now?: () => number;
+  timeoutMs?: number;
+  log?: LogFn;
+};
+
+type TagValue = { value: number; currency: string };
+
+const toSummary = (
+  accountId: string,
+  values: Map<string, TagValue>,
+  positions: Position[],
+  updatedAt: number,
+): AccountSummary => {
+  const read = (tag: string): number | null => values.get(tag)?.value ?? null;
+  return {
+    accountId,
+    currency: values.get("NetLiquidation")?.currency || null,
+    netLiquidation: read("NetLiquidation") ?? 0,
+    totalCashValue: read("TotalCashValue") ?? 0,
+    buyingPower: read("BuyingPower") ?? 0,
+    excessLiquidity: read("ExcessLiquidity"),
+    initMarginReq: read("InitMarginReq"),
+    maintMarginReq: read("MaintMarginReq"),
+    cushion: read("Cushion"),
+    sma: read("SMA"),
+    grossPositionValue: read("GrossPositionValue"),
+    leverage: read("Leverage"),
+    updatedAt,
+    positions,
+  };
+};
+
+/**
+ * One-shot reqAccountSummary for all accounts, resolved with the requested
+ * account's values at accountSummaryEnd. The subscription is always cancelled
+ * afterwards; IB allows only two account summary requests at a time.
+ */
+export const requestAccountSummary = ({
+  api,
+  reqId,
+  accountId,
+  positionsFor = () => [],
+  now = () => Date.now(),
+  timeoutMs = ACCOUNT_SUMMARY_TIMEOUT_MS,
+  log = noopLog,
+}: Params): Promise<AccountSummary> =>
+  new Promise((resolve, reject) => {
+    const valuesByAccount = new Map<string, Map<string, TagValue>>();
+
+    const cleanup = (): void => {
+      clearTimeout(timer);
+      api.removeListener(EventName.accountSummary, onSummary);
+      api.removeListener(EventName.accountSummaryEnd, onSummaryEnd);
+      api.removeListener(EventName.error, onError);
+      api.cancelAccountSummary(reqId);
+    };
+
+    const onSummary = (id: number, account: string, tag: string, value: string, currency: string) => {
+      if (id !== reqId) return;
+      const parsed = Number.parseFloat(value);
+      if (!Number.isFinite(parsed)) {
+        log("debug", "account.summary", `ignored reqId=${reqId} account=${account} tag=${tag} value=${value}`);
+        return;
+      }
+      const values = valuesByAccount.get(account) ?? new Map<string, TagValue>();
+      values.set(tag, { value: parsed, currency });
+      valuesByAccount.set(account, values);
+    };
+
+    const onSummaryEnd = (id: number) => {
+      if (id !== reqId) return;
+      cleanup();
+      const resolvedAccountId = accountId || (valuesByAccount.keys().next().value ?? "");
+      const values = valuesByAccount.get(resolvedAccountId);
+      if (!values) {
+        log("warn", "account.summary", `no values reqId=${reqId} account=${resolvedAccountId || "<pending>"}`);
+        reject(new Error(`No account summary for ${resolvedAccountId || "any account"}`));
+        return;
+      }
+      log("debug", "account.summary", `end reqId=${reqId} account=${resolvedAccountId} tags=${values.size}`);
+      resolve(toSummary(resolvedAccountId, values, positionsFor(resolvedAccountId), now()));
+    };
+
+    const onError = (error: Error, code: number, id: number) => {
+      if (id !== reqId) return;
+      cleanup();
+      log("warn", "account.summary", `error reqId=${reqId} code=${code} message=${error.message}`);
+      reject(new Error(error.message));
+    };
+
+    const timer = setTimeout(() => {
+      cleanup();
+      log("warn", "account.summary", `timeout reqId=${reqId} afterMs=${timeoutMs}`);
+      reject(new Error("Account summary timeout"));
+    }, timeoutMs);
+
+    api.on(EventName.accountSummary, onSummary);
+    api.on(EventName.accountSummaryEnd, onSummaryEnd);
+    api.on(EventName.error, onError);
+    log("debug", "account.summary", `reqAccountSummary reqId=${reqId} account=${accountId || "<pending>"}`);
+    api.reqAccountSummary(reqId, "All", ACCOUNT_SUMMARY_TAGS.join(","));
+  });
@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import EventEmitter from "events";
+import { createContractDetailsTracker } from "../portfolio/contractDetailsTracker.js";
+import { requestPositions } from "./requestPositions.js";
+
+const createMockApi = () =>
+  Object.assign(new EventEmitter(), {
+    reqPositions: vi.fn(),
+    cancelPositions: vi.fn(),
+    reqContractDetails: vi.fn(),
+    removeListener: EventEmitter.prototype.removeListener,
+  });
+
+const AAPL = { conId: 265598, symbol: "AAPL", currency: "USD", secType: "STK", exchange: "NASDAQ" };
+const SAP = { conId: 14204, symbol: "SAP", currency: "EUR", secType: "STK" };
+
+describe("requestPositions", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("resolves every account's positions after positionEnd and contract details", async () => {
+    const api = createMockApi();
+    const tracker = createContractDetailsTracker(600_000);
+    const pending = requestPositions({ api, tracker });
+
+    api.emit("position", "U222", SAP, 20, 180);
+    api.emit("position", "U111", AAPL, 100, 140);
+    api.emit("position", "U111", { ...AAPL, conId: 1, symbol: "FLAT" }, 0, 0);
+    api.emit("positionEnd");
+
+    expect(api.cancelPositions).toHaveBeenCalledTimes(1);
+    expect(api.reqContractDetails.mock.calls.map(([reqId]) => reqId)).toEqual([600_000, 600_001]);
+    api.emit("contractDetails", 600_000, { timeZoneId: "MET", liquidHours: "20260210:0900-1730" });
+    api.emit("contractDetailsEnd", 600_000);
+    api.emit("error", new Error("No security definition"), 200, 600_001);
+
+    await expect(pending).resolves.toEqual([
+      expect.objectContaining({
+        accountId: "U111",
+        symbol: "AAPL",
+        exchange: "NASDAQ",
+        quantity: 100,
+        avgCost: 140,
+        marketHours: undefined,
+      }),
+      expect.objectContaining({
+        accountId: "U222",
+        symbol: "SAP",
+        exchange: null,
+        quantity: 20,
+        marketHours: { timeZoneId: "MET", exchange: null, liquidHours: "20260210:0900-1730", tradingHours: null },
+      }),
+    ]);
+    expect(api.listenerCount("position")).toBe(0);
+  });
+
+  it("reuses cached market hours without new contract details requests", async () => {
+    const api = createMockApi();
+    const tracker = createContractDetailsTracker(600_000);
+    const first = requestPositions({ api, tracker });
+    api.emit("position", "U111", AAPL, 100, 140);
+    api.emit("positionEnd");
+    api.emit("contractDetails", 600_000, { timeZoneId: "US/Eastern" });
+    api.emit("contractDetailsEnd", 600_000);
+    await first;
+
+    const second = requestPositions({ api, tracker });
+    api.emit("position", "U111", AAPL, 100, 140);
+    api.emit("positionEnd");
+
+    await expect(second).resolves.toEqual([
+      expect.objectContaining({ marketHours: expect.objectContaining({ timeZoneId: "US/Eastern" }) }),
+    ]);
+    expect(api.reqContractDetails).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects without positionEnd and resolves without market hours when only details are late", async () => {
+    vi.useFakeTimers();
+    const api = createMockApi();
+    const tracker = createContractDetailsTracker(600_000);
+
+    const stalled = requestPositions({ api, tracker, timeoutMs: 5_000 });
+    vi.advanceTimersByTime(5_000);
+    await expect(stalled).rejects.toThrow("Positions timeout");
+    expect(api.cancelPositions).toHaveBeenCalledTimes(1);
+
+    const slowDetails = requestPositions({ api, tracker, timeoutMs: 5_000 });
+    api.emit("position", "U111", AAPL, 100, 140);
+    api.emit("positionEnd");
+    vi.advanceTimersByTime(5_000);
+    await expect(slowDetails).resolves.toEqual([expect.objectContaining({ symbol: "AAPL", marketHours: undefined })]);
+  });
+});
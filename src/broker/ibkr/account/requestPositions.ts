@@ -0,0 +1,152 @@
+import { EventName } from "@stoqey/ib";
+import type { AccountPosition } from "../../types.js";
+import { noopLog } from "../../../utils/logger.js";
+import type { LogFn } from "../../../utils/logger.js";
+import type { ContractDetailsTracker } from "../portfolio/contractDetailsTracker.js";
+import type { ContractDetailsPayload } from "../portfolio/types.js";
+import type { PositionContract, PositionsApi } from "./types.js";
+
+const POSITIONS_TIMEOUT_MS = 10_000;
+
+type Params = {
+  api: PositionsApi;
+  // Shared across requests so contract details are fetched once per conId.
+  tracker: ContractDetailsTracker;
+  timeoutMs?: number;
+  log?: LogFn;
+};
+
+type PositionRow = {
+  accountId: string;
+  conId: number;
+  contract: PositionContract;
+  quantity: number;
+  avgCost: number;
+};
+
+const comparePositions = (a: AccountPosition, b: AccountPosition): number =>
+  a.accountId.localeCompare(b.accountId) || a.symbol.localeCompare(b.symbol) || a.conId - b.conId;
+
+/**
+ * One-shot reqPositions across every managed account. After positionEnd the
+ * position stream is cancelled and contract details are requested for conIds
+ * without cached market hours; the promise resolves once those answer. If the
+ * timeout hits while only contract details are outstanding, positions resolve
+ * without market hours instead of failing.
+ */
+export const requestPositions = ({
+  api,
+  tracker,
+  timeoutMs = POSITIONS_TIMEOUT_MS,
+  log = noopLog,
+}: Params): Promise<AccountPosition[]> =>
+  new Promise((resolve, reject) => {
+    const rows = new Map<string, PositionRow>();
+    const pendingDetailReqIds = new Set<number>();
+    let positionsComplete = false;
+
+    const cleanup = (): void => {
+      clearTimeout(timer);
+      api.removeListener(EventName.position, onPosition);
+      api.removeListener(EventName.positionEnd, onPositionEnd);
+      api.removeListener(EventName.contractDetails, onContractDetails);
+      api.removeListener(EventName.contractDetailsEnd, onContractDetailsEnd);
+      api.removeListener(EventName.error, onError);
+      if (!positionsComplete) api.cancelPositions();
+    };
+
+    const finish = (): void => {
+      cleanup();
+      const positions = Array.from(rows.values())
+        .map((row): AccountPosition => ({
+          accountId: row.accountId,
+          conId: row.conId,
+          symbol: row.contract.symbol ?? row.contract.localSymbol ?? "",
+          secType: row.contract.secType ?? null,
+          currency: row.contract.currency ?? "USD",
+          exchange: row.contract.exchange || null,
+          quantity: row.quantity,
+          avgCost: row.avgCost,
+          marketHours: tracker.getCachedMarketHours(row.conId),
+        }))
+        .sort(comparePositions);
+      log("debug", "account.positions", `resolved positions=${positions.length}`);
+      resolve(positions);
+    };
+
+    const onPosition = (account: string, contract: PositionContract, pos: number, avgCost?: number) => {
+      const conId = contract.conId;
+      if (conId === undefined || conId === null) return;
+      const key = `${account}:${conId}`;
+      // Positions closed earlier in the day are still reported with pos 0.
+      if (pos === 0) {
+        rows.delete(key);
+        return;
+      }
+      rows.set(key, { accountId: account, conId, contract, quantity: pos, avgCost: avgCost ?? 0 });
+    };
+
+    const onPositionEnd = () => {
+      if (positionsComplete) return;
+      positionsComplete = true;
+      api.cancelPositions();
+
+      const requested = new Set<number>();
+      for (const row of rows.values()) {
+        if (requested.has(row.conId)) continue;
+        requested.add(row.conId);
+        const request = tracker.nextRequest(row.contract);
+        if (!request) continue;
+        pendingDetailReqIds.add(request.reqId);
+        api.reqContractDetails(request.reqId, request.contract);
+      }
+      log(
+        "debug",
+        "account.positions",
+        `positionEnd positions=${rows.size} contractDetailsRequests=${pendingDetailReqIds.size}`,
+      );
+      if (pendingDetailReqIds.size === 0) finish();
+    };
+
+    const settleDetails = (reqId: number): void => {
+      tracker.onContractDetailsEnd(reqId);
+      pendingDetailReqIds.delete(reqId);
+      if (positionsComplete && pendingDetailReqIds.size === 0) finish();
+    };
+
+    const onContractDetails = (reqId: number, details: ContractDetailsPayload) => {
+      if (!pendingDetailReqIds.has(reqId)) return;
+      tracker.onContractDetails(reqId, details);
+    };
+
+    const onContractDetailsEnd = (reqId: number) => {
+      if (!pendingDetailReqIds.has(reqId)) return;
+      settleDetails(reqId);
+    };
+
+    const onError = (error: Error, code: number, reqId: number) => {
+      if (!pendingDetailReqIds.has(reqId)) return;
+      log("warn", "account.positions", `contract details error reqId=${reqId} code=${code} message=${error.message}`);
+      settleDetails(reqId);
+    };
+
+    const timer = setTimeout(() => {
+      if (positionsComplete) {
+        log("warn", "account.positions", `contract details timeout pending=${pendingDetailReqIds.size} afterMs=${timeoutMs}`);
+        for (const reqId of pendingDetailReqIds) tracker.onContractDetailsEnd(reqId);
+        finish();
+        return;
+      }
+      cleanup();
+      log("warn", "account.positions", `timeout positions=${rows.size} afterMs=${timeoutMs}`);
+      reject(new Error("Positions timeout"));
+    }, timeoutMs);
+
+    api.on(EventName.position, onPosition);
+    api.on(EventName.positionEnd, onPositionEnd);
+    api.on(EventName.contractDetails, onContractDetails);
+    api.on(EventName.contractDetailsEnd, onContractDetailsEnd);
+    api.on(EventName.error, onError);
+    log("debug", "account.positions", "reqPositions");
+    api.reqPositions();
+  });
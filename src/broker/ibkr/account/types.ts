@@ -0,0 +1,46 @@
+import type { ContractDetailsPayload, PortfolioContractSeed } from "../portfolio/types.js";
+
+export type AccountEventMap = {
+  accountSummary: [reqId: number, account: string, tag: string, value: string, currency: string];
+  accountSummaryEnd: [reqId: number];
+  error: [error: Error, code: number, reqId: number, advancedOrderReject?: unknown];
+};
+
+export type AccountApi = {
+  on<E extends keyof AccountEventMap>(
+    event: E,
+    handler: (...args: AccountEventMap[E]) => void,
+  ): void;
+  removeListener<E extends keyof AccountEventMap>(
+    event: E,
+    handler: (...args: AccountEventMap[E]) => void,
+  ): void;
+  reqAccountSummary(reqId: number, group: string, tags: string): void;
+  cancelAccountSummary(reqId: number): void;
+};
+
+export type PositionContract = PortfolioContractSeed & {
+  localSymbol?: string;
+};
+
+export type PositionsEventMap = {
+  position: [account: string, contract: PositionContract, pos: number, avgCost?: number];
+  positionEnd: [];
+  contractDetails: [reqId: number, details: ContractDetailsPayload];
+  contractDetailsEnd: [reqId: number];
+  error: [error: Error, code: number, reqId: number, advancedOrderReject?: unknown];
+};
+
+export type PositionsApi = {
+  on<E extends keyof PositionsEventMap>(
+    event: E,
+    handler: (...args: PositionsEventMap[E]) => void,
+  ): void;
+  removeListener<E extends keyof PositionsEventMap>(
+    event: E,
+    handler: (...args: PositionsEventMap[E]) => void,
+  ): void;
+  reqPositions(): void;
+  cancelPositions(): void;
+  reqContractDetails(reqId: number, contract: PortfolioContractSeed): void;
+};
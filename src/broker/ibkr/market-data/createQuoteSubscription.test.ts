@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from "vitest";
+import EventEmitter from "events";
+import { createQuoteSubscription } from "./createQuoteSubscription.js";
+
+const createMockApi = () =>
+  Object.assign(new EventEmitter(), {
+    reqMktData: vi.fn(),
+    reqMarketDataType: vi.fn(),
+    cancelMktData: vi.fn(),
+    removeListener: EventEmitter.prototype.removeListener,
+  });
+
+describe("createQuoteSubscription", () => {
+  it("requests market data with the delayed fallback and builds quotes from ticks", () => {
+    const api = createMockApi();
+    const callback = vi.fn();
+
+    createQuoteSubscription({ api, reqId: 800_000, symbol: "AAPL", callback, now: () => 5_000 });
+
+    expect(api.reqMarketDataType).toHaveBeenCalledWith(3);
+    expect(api.reqMktData).toHaveBeenCalledWith(
+      800_000,
+      { symbol: "AAPL", currency: "USD", exchange: "SMART", secType: "STK" },
+      "",
+      false,
+      false,
+    );
+
+    api.emit("tickPrice", 800_000, 9, 200, false);
+    api.emit("tickPrice", 800_000, 1, 209.9, false);
+    api.emit("tickPrice", 800_000, 2, 210.1, false);
+    api.emit("tickPrice", 800_000, 4, 210, false);
+    api.emit("tickSize", 800_000, 8, 12_345);
+
+    expect(callback).toHaveBeenLastCalledWith({
+      symbol: "AAPL",
+      bid: 209.9,
+      ask: 210.1,
+      last: 210,
+      volume: 12_345,
+      close: 200,
+      changePercent: 5,
+      isDelayed: false,
+      error: null,
+      updatedAt: 5_000,
+    });
+  });
+
+  it("accepts delayed ticks and flags the quote as delayed", () => {
+    const api = createMockApi();
+    const callback = vi.fn();
+
+    createQuoteSubscription({ api, reqId: 1, symbol: "MSFT", callback });
+    api.emit("tickPrice", 1, 68, 400, false);
+    api.emit("tickSize", 1, 74, 900);
+
+    expect(callback).toHaveBeenLastCalledWith(expect.objectContaining({ last: 400, volume: 900, isDelayed: true }));
+  });
+
+  it("ignores other tickers, unknown tick types, and placeholder prices", () => {
+    const api = createMockApi();
+    const callback = vi.fn();
+
+    createQuoteSubscription({ api, reqId: 1, symbol: "MSFT", callback });
+    api.emit("tickPrice", 2, 4, 400, false);
+    api.emit("tickPrice", 1, 14, 400, false);
+    api.emit("tickPrice", 1, 1, -1, false);
+    api.emit("tickSize", 1, 0, 100);
+
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it("surfaces ticker errors but treats delayed-data notices as informational", () => {
+    const api = createMockApi();
+    const callback = vi.fn();
+
+    createQuoteSubscription({ api, reqId: 1, symbol: "NOPE", callback });
+    api.emit("error", new Error("Requested market data is not subscribed. Displaying delayed market data."), 10167, 1);
+    expect(callback).toHaveBeenLastCalledWith(expect.objectContaining({ isDelayed: true, error: null }));
+
+    api.emit("error", new Error("No security definition has been found for the request"), 200, 1);
+    expect(callback).toHaveBeenLastCalledWith(expect.objectContaining({ error: "No security definition has been found for the request" }));
+  });
+
+  it("cancels market data and stops listening on unsubscribe", () => {
+    const api = createMockApi();
+    const callback = vi.fn();
+
+    const unsubscribe = createQuoteSubscription({ api, reqId: 7, symbol: "AAPL", callback });
+    unsubscribe();
+
+    expect(api.cancelMktData).toHaveBeenCalledWith(7);
+    expect(api.listenerCount("tickPrice")).toBe(0);
+    expect(api.listenerCount("tickSize")).toBe(0);
+    expect(api.listenerCount("error")).toBe(0);
+  });
+});
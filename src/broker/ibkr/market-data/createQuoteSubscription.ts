@@ -0,0 +1,117 @@
+import { EventName } from "@stoqey/ib";
+import type { Quote } from "../../types.js";
+import { noopLog } from "../../../utils/logger.js";
+import type { LogFn } from "../../../utils/logger.js";
+import { applyPriceTick, applySizeTick, isDelayedTick, MARKET_DATA_TYPE_DELAYED } from "./ticks.js";
+import type { TickQuote } from "./ticks.js";
+import type { MarketDataApi, QuoteContractSeed } from "./types.js";
+
+// "Requested market data is not subscribed. Displaying delayed market data." and
+// its variants: informational once delayed data has been requested.
+const DELAYED_DATA_NOTICE_CODES = new Set([10167, 10168]);
+
+type Params = {
+  api: MarketDataApi;
+  reqId: number;
+  symbol: string;
+  callback: (quote: Quote) => void;
+  now?: () => number;
+  log?: LogFn;
+};
+
+export const toQuoteContract = (symbol: string): QuoteContractSeed => ({
+  symbol,
+  currency: "USD",
+  exchange: "SMART",
+  secType: "STK",
+});
+
+const toQuote = (symbol: string, ticks: TickQuote, isDelayed: boolean, error: string | null, updatedAt: number): Quote => {
+  const last = ticks.last ?? null;
+  const close = ticks.close ?? null;
+  return {
+    symbol,
+    bid: ticks.bid ?? null,
+    ask: ticks.ask ?? null,
+    last,
+    volume: ticks.volume ?? null,
+    close,
+    changePercent: last !== null && close !== null ? ((last - close) / close) * 100 : null,
+    isDelayed,
+    error,
+    updatedAt,
+  };
+};
+
+export const createQuoteSubscription = ({
+  api,
+  reqId,
+  symbol,
+  callback,
+  now = () => Date.now(),
+  log = noopLog,
+}: Params): (() => void) => {
+  const ticks: TickQuote = {};
+  let isDelayed = false;
+  let error: string | null = null;
+
+  const emit = () => callback(toQuote(symbol, ticks, isDelayed, error, now()));
+
+  const onTickPrice = (tickReqId: number, tickType: number, price: number) => {
+    if (tickReqId !== reqId) return;
+    if (applyPriceTick(ticks, tickType, price) === null) return;
+    isDelayed = isDelayed || isDelayedTick(tickType);
+    error = null;
+    log("debug", "event.tickPrice.quote", `reqId=${reqId} sym=${symbol} tickType=${tickType} price=${price}`);
+    emit();
+  };
+
+  const onTickSize = (tickReqId: number, tickType?: number, size?: number) => {
+    if (tickReqId !== reqId) return;
+    if (!applySizeTick(ticks, tickType, size)) return;
+    isDelayed = isDelayed || (tickType !== undefined && isDelayedTick(tickType));
+    emit();
+  };
+
+  const onError = (err: Error, code: number, errReqId: number) => {
+    if (errReqId !== reqId) return;
+    if (DELAYED_DATA_NOTICE_CODES.has(code)) {
+      log("info", "event.error.quote", `reqId=${reqId} sym=${symbol} code=${code} message=${err.message}`);
+      isDelayed = true;
+      emit();
+      return;
+    }
+    log("warn", "event.error.quote", `reqId=${reqId} sym=${symbol} code=${code} message=${err.message}`);
+    error = err.message;
+    emit();
+  };
+
+  api.on(EventName.tickPrice, onTickPrice);
+  api.on(EventName.tickSize, onTickSize);
+  api.on(EventName.error, onError);
+
+  log("info", "subscription.quote", `reqMktData start reqId=${reqId} sym=${symbol}`);
+  try {
+    // Same fallback as the FX subscriptions: delayed data when live is not subscribed.
+    api.reqMarketDataType?.(MARKET_DATA_TYPE_DELAYED);
+    api.reqMktData(reqId, toQuoteContract(symbol), "", false, false);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    log("error", "subscription.quote", `reqMktData failed reqId=${reqId} sym=${symbol} error=${message}`);
+    error = message;
+    emit();
+  }
+
+  return () => {
+    api.removeListener(EventName.tickPrice, onTickPrice);
+    api.removeListener(EventName.tickSize, onTickSize);
+    api.removeListener(EventName.error, onError);
+    log("info", "subscription.quote", `cancelMktData reqId=${reqId} sym=${symbol}`);
+    try {
+      api.cancelMktData(reqId);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      log("warn", "subscription.quote", `cancelMktData failed reqId=${reqId} sym=${symbol} error=${message}`);
+    }
+  };
+};
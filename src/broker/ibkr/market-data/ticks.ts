@@ -0,0 +1,70 @@
+// IB tick type ids shared by every reqMktData consumer. Delayed variants arrive
+// when reqMarketDataType(3) falls back to delayed data for unsubscribed markets.
+export const TICK_BID = 1;
+export const TICK_ASK = 2;
+export const TICK_LAST = 4;
+export const TICK_VOLUME = 8;
+export const TICK_CLOSE = 9;
+export const TICK_MARK = 37;
+export const TICK_DELAYED_BID = 66;
+export const TICK_DELAYED_ASK = 67;
+export const TICK_DELAYED_LAST = 68;
+export const TICK_DELAYED_VOLUME = 74;
+export const TICK_DELAYED_CLOSE = 75;
+export const TICK_DELAYED_MARK = 79;
+
+export const MARKET_DATA_TYPE_DELAYED = 3;
+
+export type TickQuote = {
+  bid?: number;
+  ask?: number;
+  last?: number;
+  mark?: number;
+  close?: number;
+  volume?: number;
+};
+
+export type PriceTickField = "bid" | "ask" | "last" | "mark" | "close";
+
+const PRICE_TICK_FIELDS = new Map<number, PriceTickField>([
+  [TICK_BID, "bid"],
+  [TICK_DELAYED_BID, "bid"],
+  [TICK_ASK, "ask"],
+  [TICK_DELAYED_ASK, "ask"],
+  [TICK_LAST, "last"],
+  [TICK_DELAYED_LAST, "last"],
+  [TICK_MARK, "mark"],
+  [TICK_DELAYED_MARK, "mark"],
+  [TICK_CLOSE, "close"],
+  [TICK_DELAYED_CLOSE, "close"],
+]);
+
+const DELAYED_TICK_TYPES = new Set([
+  TICK_DELAYED_BID,
+  TICK_DELAYED_ASK,
+  TICK_DELAYED_LAST,
+  TICK_DELAYED_VOLUME,
+  TICK_DELAYED_CLOSE,
+  TICK_DELAYED_MARK,
+]);
+
+export const isDelayedTick = (tickType: number): boolean => DELAYED_TICK_TYPES.has(tickType);
+
+/**
+ * Records a tickPrice on the quote. Returns the field that changed, or null for
+ * tick types we do not track and non-positive prices (IB sends -1 for "no data").
+ */
+export const applyPriceTick = (quote: TickQuote, tickType: number, price: number): PriceTickField | null => {
+  if (!Number.isFinite(price) || price <= 0) return null;
+  const field = PRICE_TICK_FIELDS.get(tickType);
+  if (!field) return null;
+  quote[field] = price;
+  return field;
+};
+
+export const applySizeTick = (quote: TickQuote, tickType: number | undefined, size: number | undefined): boolean => {
+  if (tickType !== TICK_VOLUME && tickType !== TICK_DELAYED_VOLUME) return false;
+  if (size === undefined || !Number.isFinite(size) || size < 0) return false;
+  quote.volume = size;
+  return true;
+};
@@ -0,0 +1,32 @@
+export type QuoteContractSeed = {
+  symbol?: string;
+  currency?: string;
+  exchange?: string;
+  secType?: string;
+};
+
+export type MarketDataEventMap = {
+  tickPrice: [reqId: number, tickType: number, price: number, canAutoExecute: boolean];
+  tickSize: [reqId: number, tickType?: number, size?: number];
+  error: [error: Error, code: number, reqId: number, advancedOrderReject?: unknown];
+};
+
+export type MarketDataApi = {
+  on<E extends keyof MarketDataEventMap>(
+    event: E,
+    handler: (...args: MarketDataEventMap[E]) => void,
+  ): void;
+  removeListener<E extends keyof MarketDataEventMap>(
+    event: E,
+    handler: (...args: MarketDataEventMap[E]) => void,
+  ): void;
+  reqMktData(
+    reqId: number,
+    contract: QuoteContractSeed,
+    genericTickList: string,
+    snapshot: boolean,
+    regulatorySnapshot: boolean,
+  ): void;
+  reqMarketDataType?(marketDataType: number): void;
+  cancelMktData(reqId: number): void;
+};
@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { PositionMarketHours } from "../../types.js";
+import { createSessionScheduler } from "./createSessionScheduler.js";
+import type { SessionEvent, SessionHolding } from "./createSessionScheduler.js";
+
+const NASDAQ_HOURS: PositionMarketHours = {
+  timeZoneId: "US/Eastern",
+  exchange: "NASDAQ",
+  liquidHours: "20260210:0930-20260210:1600",
+  tradingHours: "20260210:0400-20260210:2000",
+};
+
+const holdings: SessionHolding[] = [
+  { symbol: "AAPL", marketHours: NASDAQ_HOURS },
+  { symbol: "MSFT", marketHours: NASDAQ_HOURS },
+  { symbol: "NEW", marketHours: undefined },
+];
+
+// Epoch ms of a New York wall-clock time on 2026-02-10 (EST, UTC-5).
+const newYork = (hour: number, minute: number): number => Date.UTC(2026, 1, 10, hour + 5, minute);
+
+const createScheduler = (leadMinutes: number[]) => {
+  let nowMs = 0;
+  const events: SessionEvent[] = [];
+  const scheduler = createSessionScheduler({
+    getHoldings: () => holdings,
+    leadMinutes,
+    onEvent: (event) => events.push(event),
+    now: () => nowMs,
+  });
+  const checkAt = (ms: number) => {
+    nowMs = ms;
+    scheduler.check();
+  };
+  return { scheduler, events, checkAt };
+};
+
+describe("createSessionScheduler", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("alerts once at each lead time before the regular close", () => {
+    const { scheduler, events, checkAt } = createScheduler([15, 5]);
+
+    checkAt(newYork(15, 40));
+    checkAt(newYork(15, 45));
+    checkAt(newYork(15, 46));
+    checkAt(newYork(15, 55));
+
+    expect(events.map((event) => event.message)).toEqual([
+      "NASDAQ regular session closes in 15m (AAPL, MSFT)",
+      "NASDAQ regular session closes in 5m (AAPL, MSFT)",
+    ]);
+    expect(events[0]).toEqual(
+      expect.objectContaining({ kind: "upcoming", exchange: "NASDAQ", symbols: ["AAPL", "MSFT"], at: newYork(15, 45) }),
+    );
+    scheduler.dispose();
+  });
+
+  it("fires only the nearest passed lead time after a late start", () => {
+    const { scheduler, events, checkAt } = createScheduler([15, 5]);
+
+    checkAt(newYork(15, 57));
+    checkAt(newYork(15, 58));
+
+    expect(events.map((event) => event.message)).toEqual(["NASDAQ regular session closes in 3m (AAPL, MSFT)"]);
+    scheduler.dispose();
+  });
+
+  it("reports session changes and upcoming pre-market and post-market transitions", () => {
+    const { scheduler, events, checkAt } = createScheduler([10]);
+
+    checkAt(newYork(3, 55));
+    checkAt(newYork(4, 0));
+    checkAt(newYork(9, 25));
+    checkAt(newYork(16, 0));
+    checkAt(newYork(19, 50));
+
+    expect(events.map((event) => `${event.kind}: ${event.message}`)).toEqual([
+      "upcoming: NASDAQ opens in 5m (AAPL, MSFT)",
+      "changed: NASDAQ is now pre-market (AAPL, MSFT)",
+      "upcoming: NASDAQ regular session opens in 5m (AAPL, MSFT)",
+      "changed: NASDAQ is now post-market (AAPL, MSFT)",
+      "upcoming: NASDAQ post-market closes in 10m (AAPL, MSFT)",
+    ]);
+    scheduler.dispose();
+  });
+
+  it("checks on its interval until disposed", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(newYork(15, 50));
+    const onEvent = vi.fn();
+    const scheduler = createSessionScheduler({ getHoldings: () => holdings, leadMinutes: [15], onEvent, intervalMs: 30_000 });
+
+    vi.advanceTimersByTime(30_000);
+    expect(onEvent).toHaveBeenCalledTimes(1);
+
+    scheduler.dispose();
+    vi.setSystemTime(newYork(16, 5));
+    vi.advanceTimersByTime(60_000);
+    expect(onEvent).toHaveBeenCalledTimes(1);
+  });
+});
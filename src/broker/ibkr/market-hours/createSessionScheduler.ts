@@ -0,0 +1,137 @@
+import type { PositionMarketHours } from "../../types.js";
+import { noopLog } from "../../../utils/logger.js";
+import type { LogFn } from "../../../utils/logger.js";
+import { resolveMarketHours } from "./resolveMarketHours.js";
+import type { MarketHoursStatus } from "./resolveMarketHours.js";
+
+const DEFAULT_CHECK_INTERVAL_MS = 30_000;
+
+export type SessionHolding = {
+  symbol: string;
+  marketHours: PositionMarketHours | undefined;
+};
+
+export type SessionEvent = {
+  // "upcoming" fires at a lead time before a transition, "changed" once it happened.
+  kind: "upcoming" | "changed";
+  exchange: string | null;
+  timeZoneId: string;
+  session: MarketHoursStatus;
+  symbols: string[];
+  message: string;
+  at: number;
+};
+
+export type SessionScheduler = {
+  check(): void;
+  dispose(): void;
+};
+
+type Params = {
+  getHoldings: () => SessionHolding[];
+  // Minutes before an open or close at which to alert, e.g. [15, 5].
+  leadMinutes: number[];
+  onEvent: (event: SessionEvent) => void;
+  now?: () => number;
+  intervalMs?: number;
+  log?: LogFn;
+};
+
+type MarketGroup = {
+  exchange: string | null;
+  timeZoneId: string;
+  session: MarketHoursStatus;
+  symbols: string[];
+};
+
+const formatMinutes = (minutes: number): string =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+
+const describeTransition = (session: MarketHoursStatus): string => {
+  if (session.transition === "open") return session.status === "pre-market" ? "regular session opens" : "opens";
+  return session.status === "post-market" ? "post-market closes" : "regular session closes";
+};
+
+// Holdings on one exchange share a schedule; the first one found speaks for the group.
+const groupByMarket = (holdings: SessionHolding[], nowMs: number): Map<string, MarketGroup> => {
+  const groups = new Map<string, MarketGroup>();
+  for (const holding of holdings) {
+    const timeZoneId = holding.marketHours?.timeZoneId;
+    if (!timeZoneId) continue;
+    const exchange = holding.marketHours?.exchange ?? null;
+    const key = `${timeZoneId}|${exchange ?? ""}`;
+    const group = groups.get(key);
+    if (group) {
+      group.symbols.push(holding.symbol);
+      continue;
+    }
+    const session = resolveMarketHours(holding.marketHours, nowMs);
+    if (session.status === "unknown") continue;
+    groups.set(key, { exchange, timeZoneId, session, symbols: [holding.symbol] });
+  }
+  return groups;
+};
+
+/**
+ * Checks the markets of held positions on an interval and reports when one is
+ * about to open or close (at each lead time) and when its session changes.
+ * Each lead time fires once per transition; after a late start only the
+ * nearest lead time that has already passed fires.
+ */
+export const createSessionScheduler = ({
+  getHoldings,
+  leadMinutes,
+  onEvent,
+  now = () => Date.now(),
+  intervalMs = DEFAULT_CHECK_INTERVAL_MS,
+  log = noopLog,
+}: Params): SessionScheduler => {
+  const leads = [...leadMinutes].sort((a, b) => a - b);
+  const statusByMarket = new Map<string, MarketHoursStatus["status"]>();
+  // Alert key → minute of the transition it announced, pruned once it has passed.
+  const firedAlerts = new Map<string, number>();
+
+  const emit = (kind: SessionEvent["kind"], group: MarketGroup, message: string, at: number): void => {
+    log("info", "session", `${kind} exchange=${group.exchange ?? "n/a"} tz=${group.timeZoneId} status=${group.session.status} ${message}`);
+    onEvent({ kind, ...group, message, at });
+  };
+
+  const check = (): void => {
+    const nowMs = now();
+    const nowMinute = Math.floor(nowMs / 60_000);
+    for (const [key, transitionMinute] of firedAlerts) {
+      if (transitionMinute < nowMinute) firedAlerts.delete(key);
+    }
+
+    for (const [key, group] of groupByMarket(getHoldings(), nowMs)) {
+      const label = group.exchange ?? group.timeZoneId;
+      const symbols = group.symbols.join(", ");
+      const { session } = group;
+
+      const previousStatus = statusByMarket.get(key);
+      statusByMarket.set(key, session.status);
+      if (previousStatus !== undefined && previousStatus !== session.status) {
+        emit("changed", group, `${label} is now ${session.status} (${symbols})`, nowMs);
+      }
+
+      const minutes = session.minutesToNextTransition;
+      if (!session.transition || minutes === null) continue;
+      const due = leads.filter((lead) => minutes <= lead);
+      if (due.length === 0) continue;
+      const transitionMinute = nowMinute + minutes;
+      const alertKey = (lead: number) => `${key}|${session.transition}|${transitionMinute}|${lead}`;
+      if (firedAlerts.has(alertKey(due[0]))) continue;
+      due.forEach((lead) => firedAlerts.set(alertKey(lead), transitionMinute));
+      emit("upcoming", group, `${label} ${describeTransition(session)} in ${formatMinutes(minutes)} (${symbols})`, nowMs);
+    }
+  };
+
+  const timer = setInterval(check, intervalMs);
+  if (typeof timer.unref === "function") timer.unref();
+
+  const dispose = (): void => {
+    clearInterval(timer);
+  };
+
+  return { check, dispose };
+};
@@ -1,6 +1,17 @@
 export {
   resolveMarketHours,
   formatMarketHoursCountdown,
+  formatMarketLocalTime,
+  resolveMarketSchedule,
+  findScheduleExceptions,
   type MarketHoursState,
   type MarketHoursStatus,
+  type MarketScheduleDay,
+  type MarketScheduleDayKind,
 } from "./resolveMarketHours.js";
+export {
+  createSessionScheduler,
+  type SessionEvent,
+  type SessionHolding,
+  type SessionScheduler,
+} from "./createSessionScheduler.js";
@@ -1,19 +1,62 @@
 import { describe, expect, it } from "vitest";
-import { resolveMarketHours, formatMarketHoursCountdown } from "./resolveMarketHours.js";
+import {
+  resolveMarketHours,
+  formatMarketHoursCountdown,
+  resolveMarketSchedule,
+  findScheduleExceptions,
+} from "./resolveMarketHours.js";
+
+// CME equity futures, legacy format: Sunday to Friday sessions from 17:00 to
+// 16:00 the next day (Chicago), closed over the weekend.
+const CME_LEGACY_HOURS = {
+  timeZoneId: "US/Central",
+  exchange: "CME",
+  liquidHours: null,
+  tradingHours:
+    "20260210:1700-1600;20260211:1700-1600;20260212:1700-1600;20260213:CLOSED;20260214:CLOSED;20260215:1700-1600",
+};
+
+// US equity: extended hours 04:00-20:00, regular hours 09:30-16:00 (New York).
+const US_EQUITY_HOURS = {
+  timeZoneId: "US/Eastern",
+  exchange: "NASDAQ",
+  liquidHours: "20260210:0930-20260210:1600;20260211:0930-20260211:1600",
+  tradingHours: "20260210:0400-20260210:2000;20260211:0400-20260211:2000",
+};
+
+// NYSE over Thanksgiving: closed Thursday, early close at 13:00 on Friday.
+const NYSE_THANKSGIVING_HOURS = {
+  timeZoneId: "US/Eastern",
+  exchange: "NYSE",
+  liquidHours:
+    "20261123:0930-20261123:1600;20261124:0930-20261124:1600;20261125:0930-20261125:1600;" +
+    "20261126:CLOSED;20261127:0930-20261127:1300;20261128:CLOSED;20261129:CLOSED;20261130:0930-20261130:1600",
+  tradingHours: null,
+};
+
+// Eurex index futures, v970+ format (MET): 01:10-22:00 on weekdays.
+const EUREX_HOURS = {
+  timeZoneId: "MET",
+  exchange: "EUREX",
+  liquidHours: null,
+  tradingHours:
+    "20260213:0110-20260213:2200;20260214:CLOSED;20260215:CLOSED;20260216:0110-20260216:2200",
+};
 
 describe("resolveMarketHours", () => {
-  it("returns OPEN and time-to-close for US equity hours", () => {
+  it("returns REGULAR and time-to-close for US equity hours", () => {
     const now = Date.parse("2026-02-10T15:00:00.000Z"); // 10:00 New York
     const session = resolveMarketHours(
       {
         timeZoneId: "America/New_York",
+        exchange: null,
         liquidHours: "20260210:0930-1600;20260211:0930-1600",
         tradingHours: "20260210:0400-2000;20260211:0400-2000",
       },
       now
     );
 
-    expect(session.status).toBe("open");
+    expect(session.status).toBe("regular");
     expect(formatMarketHoursCountdown(session)).toBe("6h 0m to close");
   });
 
@@ -22,6 +65,7 @@ describe("resolveMarketHours", () => {
     const session = resolveMarketHours(
       {
         timeZoneId: "America/New_York",
+        exchange: null,
         liquidHours: "20260210:0930-1600;20260211:0930-1600",
         tradingHours: null,
       },
@@ -37,13 +81,14 @@ describe("resolveMarketHours", () => {
     const session = resolveMarketHours(
       {
         timeZoneId: "Asia/Tokyo",
+        exchange: null,
         liquidHours: "20260210:0900-1500;20260211:0900-1500",
         tradingHours: null,
       },
       now
     );
 
-    expect(session.status).toBe("open");
+    expect(session.status).toBe("regular");
     expect(formatMarketHoursCountdown(session)).toBe("5h 0m to close");
   });
 
@@ -52,13 +97,14 @@ describe("resolveMarketHours", () => {
     const session = resolveMarketHours(
       {
         timeZoneId: "EST",
+        exchange: null,
         liquidHours: "20260710:0930-1600;20260713:0930-1600",
         tradingHours: null,
       },
       now
     );
 
-    expect(session.status).toBe("open");
+    expect(session.status).toBe("regular");
     expect(formatMarketHoursCountdown(session)).toBe("5h 0m to close");
   });
 
@@ -67,13 +113,14 @@ describe("resolveMarketHours", () => {
     const session = resolveMarketHours(
       {
         timeZoneId: "US/Eastern",
+        exchange: null,
         liquidHours: "20260210:0930-20260210:1600;20260211:0930-20260211:1600",
         tradingHours: "20260210:0400-20260210:2000;20260211:0400-20260211:2000",
       },
       now
     );
 
-    expect(session.status).toBe("open");
+    expect(session.status).toBe("regular");
     expect(formatMarketHoursCountdown(session)).toBe("6h 0m to close");
   });
 
@@ -86,9 +133,159 @@ describe("resolveMarketHours", () => {
   it("returns unknown for missing timeZoneId", () => {
     const session = resolveMarketHours({
       timeZoneId: null,
+      exchange: null,
       liquidHours: "20260210:0930-1600",
       tradingHours: null,
     });
     expect(session.status).toBe("unknown");
   });
+
+  describe("overnight and multi-day sessions", () => {
+    it("treats a legacy end before the start as the next day's close", () => {
+      const now = Date.parse("2026-02-11T08:00:00.000Z"); // 02:00 Chicago, Wednesday
+      const session = resolveMarketHours(CME_LEGACY_HOURS, now);
+
+      expect(session.status).toBe("regular");
+      expect(formatMarketHoursCountdown(session)).toBe("14h 0m to close");
+    });
+
+    it("reports the daily maintenance break between overnight sessions", () => {
+      const now = Date.parse("2026-02-11T22:30:00.000Z"); // 16:30 Chicago
+      const session = resolveMarketHours(CME_LEGACY_HOURS, now);
+
+      expect(session.status).toBe("closed");
+      expect(formatMarketHoursCountdown(session)).toBe("0h 30m to open");
+    });
+
+    it("counts down across the weekend to the Sunday evening open", () => {
+      const now = Date.parse("2026-02-14T00:00:00.000Z"); // Friday 18:00 Chicago
+      const session = resolveMarketHours(CME_LEGACY_HOURS, now);
+
+      expect(session.status).toBe("closed");
+      expect(formatMarketHoursCountdown(session)).toBe("47h 0m to open");
+    });
+
+    it("keeps later legacy ranges of an overnight segment on the next day", () => {
+      const hours = { timeZoneId: "US/Central", exchange: null, liquidHours: "20260210:1700-1515,1530-1600", tradingHours: null };
+
+      const inBreak = resolveMarketHours(hours, Date.parse("2026-02-11T21:20:00.000Z")); // Wed 15:20 Chicago
+      expect(inBreak.status).toBe("closed");
+      expect(formatMarketHoursCountdown(inBreak)).toBe("0h 10m to open");
+
+      const inSettlement = resolveMarketHours(hours, Date.parse("2026-02-11T21:45:00.000Z")); // Wed 15:45 Chicago
+      expect(inSettlement.status).toBe("regular");
+      expect(formatMarketHoursCountdown(inSettlement)).toBe("0h 15m to close");
+    });
+
+    it("counts down over a Eurex weekend in the MET timezone", () => {
+      const now = Date.parse("2026-02-13T21:30:00.000Z"); // Friday 22:30 MET
+      const session = resolveMarketHours(EUREX_HOURS, now);
+
+      expect(session.status).toBe("closed");
+      expect(formatMarketHoursCountdown(session)).toBe("50h 40m to open");
+    });
+
+    it("merges sessions split at midnight into one window", () => {
+      const now = Date.parse("2026-02-10T20:00:00.000Z"); // 21:00 MET
+      const session = resolveMarketHours(
+        {
+          timeZoneId: "MET",
+          exchange: null,
+          liquidHours: "20260210:0800-20260211:0000;20260211:0000-20260211:2200",
+          tradingHours: null,
+        },
+        now
+      );
+
+      expect(session.status).toBe("regular");
+      expect(formatMarketHoursCountdown(session)).toBe("25h 0m to close");
+    });
+
+    it("handles a v970+ window spanning several days", () => {
+      const now = Date.parse("2026-02-18T17:00:00.000Z"); // Wednesday 12:00 New York
+      const session = resolveMarketHours(
+        { timeZoneId: "US/Eastern", exchange: null, liquidHours: null, tradingHours: "20260215:1715-20260220:1700" },
+        now
+      );
+
+      expect(session.status).toBe("regular");
+      expect(formatMarketHoursCountdown(session)).toBe("53h 0m to close");
+    });
+  });
+
+  describe("extended hours", () => {
+    it("reports pre-market before the regular open", () => {
+      const session = resolveMarketHours(US_EQUITY_HOURS, Date.parse("2026-02-10T13:00:00.000Z")); // 08:00 New York
+
+      expect(session.status).toBe("pre-market");
+      expect(formatMarketHoursCountdown(session)).toBe("1h 30m to open");
+    });
+
+    it("reports post-market after the regular close until the extended close", () => {
+      const session = resolveMarketHours(US_EQUITY_HOURS, Date.parse("2026-02-10T22:00:00.000Z")); // 17:00 New York
+
+      expect(session.status).toBe("post-market");
+      expect(formatMarketHoursCountdown(session)).toBe("3h 0m to close");
+    });
+
+    it("counts down to the next pre-market open when fully closed", () => {
+      const session = resolveMarketHours(US_EQUITY_HOURS, Date.parse("2026-02-11T02:00:00.000Z")); // 21:00 New York
+
+      expect(session.status).toBe("closed");
+      expect(formatMarketHoursCountdown(session)).toBe("7h 0m to open");
+    });
+
+    it("treats trading hours as regular when liquid hours are missing", () => {
+      const session = resolveMarketHours(
+        { ...US_EQUITY_HOURS, liquidHours: null },
+        Date.parse("2026-02-10T13:00:00.000Z")
+      );
+
+      expect(session.status).toBe("regular");
+      expect(formatMarketHoursCountdown(session)).toBe("12h 0m to close");
+    });
+  });
+
+  describe("schedule", () => {
+    it("lists each day with holidays, early closes and weekends", () => {
+      const schedule = resolveMarketSchedule(NYSE_THANKSGIVING_HOURS);
+
+      expect(schedule.map((day) => [day.date, day.kind])).toEqual([
+        ["2026-11-23", "open"],
+        ["2026-11-24", "open"],
+        ["2026-11-25", "open"],
+        ["2026-11-26", "holiday"],
+        ["2026-11-27", "early-close"],
+        ["2026-11-28", "weekend"],
+        ["2026-11-29", "weekend"],
+        ["2026-11-30", "open"],
+      ]);
+      expect(schedule[4]).toEqual({
+        date: "2026-11-27",
+        kind: "early-close",
+        sessions: [{ open: "09:30", close: "13:00" }],
+        minutes: 210,
+      });
+    });
+
+    it("treats the closed Friday of an overnight futures schedule as the weekend", () => {
+      const schedule = resolveMarketSchedule(CME_LEGACY_HOURS);
+
+      expect(schedule.find((day) => day.date === "2026-02-13")?.kind).toBe("weekend");
+      expect(schedule.filter((day) => day.kind === "open")).toHaveLength(4);
+      expect(findScheduleExceptions(CME_LEGACY_HOURS, Date.parse("2026-02-10T18:00:00.000Z"))).toEqual([]);
+    });
+
+    it("finds holidays and early closes from the exchange's date through the next 7 days", () => {
+      const exceptions = (nowIso: string) =>
+        findScheduleExceptions(NYSE_THANKSGIVING_HOURS, Date.parse(nowIso)).map((day) => day.date);
+
+      expect(exceptions("2026-11-20T15:00:00.000Z")).toEqual(["2026-11-26"]);
+      expect(exceptions("2026-11-23T15:00:00.000Z")).toEqual(["2026-11-26", "2026-11-27"]);
+      // 23:00 Thursday in New York, already Friday in UTC
+      expect(exceptions("2026-11-27T04:00:00.000Z")).toEqual(["2026-11-26", "2026-11-27"]);
+      expect(exceptions("2026-11-28T15:00:00.000Z")).toEqual([]);
+      expect(findScheduleExceptions({ ...NYSE_THANKSGIVING_HOURS, timeZoneId: null })).toEqual([]);
+    });
+  });
 });
@@ -1,6 +1,8 @@
 import type { PositionMarketHours } from "../../types.js";
 
-export type MarketHoursState = "open" | "closed" | "unknown";
+// Regular hours come from liquidHours; pre- and post-market are the parts of a
+// tradingHours (extended) session before and after them.
+export type MarketHoursState = "pre-market" | "regular" | "post-market" | "closed" | "unknown";
 
 export type MarketHoursStatus = {
   status: MarketHoursState;
@@ -8,6 +10,17 @@ export type MarketHoursStatus = {
   transition: "open" | "close" | null;
 };
 
+export type MarketScheduleDayKind = "open" | "early-close" | "holiday" | "weekend";
+
+export type MarketScheduleDay = {
+  // Exchange-local date the sessions are listed under, "YYYY-MM-DD".
+  date: string;
+  kind: MarketScheduleDayKind;
+  // Regular sessions in exchange-local "HH:MM"; a close may fall on a later day.
+  sessions: Array<{ open: string; close: string }>;
+  minutes: number;
+};
+
 type LocalParts = {
   year: number;
   month: number;
@@ -18,6 +31,11 @@ type LocalParts = {
 
 type Window = { startKey: number; endKey: number };
 
+const MINUTES_PER_DAY = 24 * 60;
+const DATE_PATTERN = /^\d{8}$/;
+// A day whose sessions are shorter than this share of the usual length closes early.
+const EARLY_CLOSE_RATIO = 0.75;
+
 const IB_TZ_ALIASES: Record<string, string> = {
   EST: "America/New_York",
   EDT: "America/New_York",
@@ -82,13 +100,40 @@ const parseDateTimeToken = (token: string): [string, string] | null => {
   return null;
 };
 
-const parseIbHours = (hours: string): Window[] => {
-  const windows: Window[] = [];
+// Legacy "HHMM" tokens carry no date of their own. Times within a segment run
+// forward, so a token that would land before `after` (or on it, for an end) is
+// on a following day: "20260210:1700-1600" closes on 20260211 at 16:00.
+const legacyKey = (day: string, time: string, after: number | null, allowEqual: boolean): number => {
+  let key = toMinuteKey(parseDate(day, time));
+  if (after === null) return key;
+  while (allowEqual ? key < after : key <= after) key += MINUTES_PER_DAY;
+  return key;
+};
+
+// Overlapping or touching windows become one, so a session split at midnight or
+// continuing across days counts down to its real close.
+const mergeWindows = (windows: Window[]): Window[] => {
+  const merged: Window[] = [];
+  for (const window of [...windows].sort((a, b) => a.startKey - b.startKey)) {
+    const last = merged[merged.length - 1];
+    if (last && window.startKey <= last.endKey) {
+      last.endKey = Math.max(last.endKey, window.endKey);
+    } else {
+      merged.push({ ...window });
+    }
+  }
+  return merged;
+};
+
+// Windows per day prefix, in the order listed; CLOSED days map to no windows.
+const parseIbDays = (hours: string): Map<string, Window[]> => {
+  const days = new Map<string, Window[]>();
 
   // Formats supported:
   // Legacy:  "20260210:0930-1600;20260211:0930-1600"
   // v970+:   "20260210:0930-20260210:1600;20260211:0930-20260211:1600"
   // Mixed:   "20260210:CLOSED;20260211:0930-1600"
+  // Overnight (legacy): "20260210:1700-1515,1530-1600" (closes 20260211)
   for (const segment of hours.split(";")) {
     const trimmed = segment.trim();
     if (!trimmed) continue;
@@ -99,8 +144,12 @@ const parseIbHours = (hours: string): Window[] => {
 
     const day = trimmed.slice(0, firstColon);
     const remainder = trimmed.slice(firstColon + 1);
-    if (!day || !remainder || remainder === "CLOSED") continue;
+    if (!day || !remainder) continue;
+    const windows = days.get(day) ?? [];
+    days.set(day, windows);
+    if (remainder === "CLOSED") continue;
 
+    let previousEndKey: number | null = null;
     for (const rawRange of remainder.split(",")) {
       const dashIdx = rawRange.indexOf("-");
       if (dashIdx === -1) continue;
@@ -111,40 +160,71 @@ const parseIbHours = (hours: string): Window[] => {
 
       // Parse start: could be "0930" (legacy) or "20260210:0930" (v970+)
       const startParsed = parseDateTimeToken(startPart);
-      const startDate = startParsed ? startParsed[0] : day;
-      const startTime = startParsed ? startParsed[1] : startPart;
+      const startKey: number = startParsed
+        ? toMinuteKey(parseDate(startParsed[0], startParsed[1]))
+        : legacyKey(day, startPart, previousEndKey, true);
 
       // Parse end: could be "1600" (legacy) or "20260210:1600" (v970+)
       const endParsed = parseDateTimeToken(endPart);
-      const endDate = endParsed ? endParsed[0] : day;
-      const endTime = endParsed ? endParsed[1] : endPart;
+      const endKey: number = endParsed
+        ? toMinuteKey(parseDate(endParsed[0], endParsed[1]))
+        : legacyKey(day, endPart, startKey, false);
 
-      const startKey = toMinuteKey(parseDate(startDate, startTime));
-      const endKey = toMinuteKey(parseDate(endDate, endTime));
-      if (endKey > startKey) windows.push({ startKey, endKey });
+      if (endKey > startKey) {
+        windows.push({ startKey, endKey });
+        previousEndKey = endKey;
+      }
     }
   }
 
-  return windows.sort((a, b) => a.startKey - b.startKey);
+  return days;
 };
 
+const parseIbHours = (hours: string): Window[] => mergeWindows([...parseIbDays(hours).values()].flat());
+
+const formatClock = (hour: number, minute: number): string =>
+  `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+
+const formatMinuteKey = (key: number): string => {
+  const date = new Date(key * 60_000);
+  return formatClock(date.getUTCHours(), date.getUTCMinutes());
+};
+
+const formatDate = (utcMs: number): string => new Date(utcMs).toISOString().slice(0, 10);
+
+const dayToUtcMs = (day: string): number =>
+  Date.UTC(Number(day.slice(0, 4)), Number(day.slice(4, 6)) - 1, Number(day.slice(6, 8)));
+
+// Most frequent session length, the longer one on a tie.
+const typicalLength = (lengths: number[]): number | null => {
+  const counts = new Map<number, number>();
+  lengths.forEach((length) => counts.set(length, (counts.get(length) ?? 0) + 1));
+  let typical: number | null = null;
+  for (const [length, count] of counts) {
+    const typicalCount = typical === null ? 0 : (counts.get(typical) ?? 0);
+    if (typical === null || count > typicalCount || (count === typicalCount && length > typical)) typical = length;
+  }
+  return typical;
+};
+
+const UNKNOWN: MarketHoursStatus = { status: "unknown", minutesToNextTransition: null, transition: null };
+
+const findActive = (windows: Window[], nowKey: number): Window | undefined =>
+  windows.find((w) => nowKey >= w.startKey && nowKey < w.endKey);
+
+const findNext = (windows: Window[], nowKey: number): Window | undefined =>
+  windows.find((w) => w.startKey > nowKey);
+
 export const resolveMarketHours = (
   marketHours: PositionMarketHours | null | undefined,
   nowMs = Date.now()
 ): MarketHoursStatus => {
-  if (!marketHours?.timeZoneId) {
-    return { status: "unknown", minutesToNextTransition: null, transition: null };
-  }
-
-  const schedule = marketHours.liquidHours ?? marketHours.tradingHours;
-  if (!schedule) {
-    return { status: "unknown", minutesToNextTransition: null, transition: null };
-  }
+  if (!marketHours?.timeZoneId) return UNKNOWN;
 
-  const windows = parseIbHours(schedule);
-  if (windows.length === 0) {
-    return { status: "unknown", minutesToNextTransition: null, transition: null };
-  }
+  // Without liquidHours the trading hours are all there is, and count as regular.
+  const regular = parseIbHours(marketHours.liquidHours ?? marketHours.tradingHours ?? "");
+  const extended = marketHours.liquidHours ? parseIbHours(marketHours.tradingHours ?? "") : [];
+  if (regular.length === 0 && extended.length === 0) return UNKNOWN;
 
   const timeZone = normalizeTimeZone(marketHours.timeZoneId);
 
@@ -152,22 +232,42 @@ export const resolveMarketHours = (
   try {
     nowKey = toMinuteKey(toLocalParts(nowMs, timeZone));
   } catch {
-    return { status: "unknown", minutesToNextTransition: null, transition: null };
+    return UNKNOWN;
   }
-  const active = windows.find((w) => nowKey >= w.startKey && nowKey < w.endKey);
-  if (active) {
+
+  const activeRegular = findActive(regular, nowKey);
+  if (activeRegular) {
     return {
-      status: "open",
-      minutesToNextTransition: active.endKey - nowKey,
+      status: "regular",
+      minutesToNextTransition: activeRegular.endKey - nowKey,
       transition: "close",
     };
   }
 
-  const next = windows.find((w) => w.startKey > nowKey);
-  if (next) {
+  const nextRegular = findNext(regular, nowKey);
+  const activeExtended = findActive(extended, nowKey);
+  if (activeExtended) {
+    // Pre-market when regular hours start later in this extended session.
+    if (nextRegular && nextRegular.startKey < activeExtended.endKey) {
+      return {
+        status: "pre-market",
+        minutesToNextTransition: nextRegular.startKey - nowKey,
+        transition: "open",
+      };
+    }
+    return {
+      status: "post-market",
+      minutesToNextTransition: activeExtended.endKey - nowKey,
+      transition: "close",
+    };
+  }
+
+  const nextExtended = findNext(extended, nowKey);
+  const nextStartKey = Math.min(nextRegular?.startKey ?? Infinity, nextExtended?.startKey ?? Infinity);
+  if (Number.isFinite(nextStartKey)) {
     return {
       status: "closed",
-      minutesToNextTransition: next.startKey - nowKey,
+      minutesToNextTransition: nextStartKey - nowKey,
       transition: "open",
     };
   }
@@ -175,6 +275,74 @@ export const resolveMarketHours = (
   return { status: "closed", minutesToNextTransition: null, transition: null };
 };
 
+/**
+ * The regular schedule IB returned, one entry per listed day. Closed weekdays
+ * are holidays; Saturdays and Sundays are the weekend, and so are Fridays for
+ * overnight products (sessions running past midnight or opening on Sunday),
+ * whose sessions IB lists under the day they open. Days much shorter than the
+ * usual session length close early.
+ */
+export const resolveMarketSchedule = (marketHours: PositionMarketHours | null | undefined): MarketScheduleDay[] => {
+  const days = [...parseIbDays(marketHours?.liquidHours ?? marketHours?.tradingHours ?? "")]
+    .filter(([day]) => DATE_PATTERN.test(day))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const lengthOf = (windows: Window[]) => windows.reduce((sum, w) => sum + w.endKey - w.startKey, 0);
+  const typical = typicalLength(days.filter(([, windows]) => windows.length > 0).map(([, windows]) => lengthOf(windows)));
+  const overnight = days.some(
+    ([day, windows]) =>
+      (windows.length > 0 && new Date(dayToUtcMs(day)).getUTCDay() === 0) ||
+      windows.some((w) => Math.floor(w.startKey / MINUTES_PER_DAY) !== Math.floor((w.endKey - 1) / MINUTES_PER_DAY)),
+  );
+
+  return days.map(([day, windows]): MarketScheduleDay => {
+    const minutes = lengthOf(windows);
+    const weekday = new Date(dayToUtcMs(day)).getUTCDay();
+    let kind: MarketScheduleDayKind = "open";
+    if (windows.length === 0) {
+      kind = weekday === 0 || weekday === 6 || (overnight && weekday === 5) ? "weekend" : "holiday";
+    } else if (typical !== null && minutes < typical * EARLY_CLOSE_RATIO) {
+      kind = "early-close";
+    }
+    return {
+      date: formatDate(dayToUtcMs(day)),
+      kind,
+      sessions: windows.map((w) => ({ open: formatMinuteKey(w.startKey), close: formatMinuteKey(w.endKey) })),
+      minutes,
+    };
+  });
+};
+
+// Holidays and early closes from the exchange's current date through the next `days` days.
+export const findScheduleExceptions = (
+  marketHours: PositionMarketHours | null | undefined,
+  nowMs = Date.now(),
+  days = 7
+): MarketScheduleDay[] => {
+  if (!marketHours?.timeZoneId) return [];
+  let today: LocalParts;
+  try {
+    today = toLocalParts(nowMs, normalizeTimeZone(marketHours.timeZoneId));
+  } catch {
+    return [];
+  }
+  const from = formatDate(Date.UTC(today.year, today.month - 1, today.day));
+  const until = formatDate(Date.UTC(today.year, today.month - 1, today.day + days));
+  return resolveMarketSchedule(marketHours).filter(
+    (day) => (day.kind === "holiday" || day.kind === "early-close") && day.date >= from && day.date < until,
+  );
+};
+
+// "HH:MM" wall-clock time at the exchange; null when the timezone is unknown.
+export const formatMarketLocalTime = (timeZoneId: string | null, nowMs = Date.now()): string | null => {
+  if (!timeZoneId) return null;
+  try {
+    const local = toLocalParts(nowMs, normalizeTimeZone(timeZoneId));
+    return formatClock(local.hour, local.minute);
+  } catch {
+    return null;
+  }
+};
+
 export const formatMarketHoursCountdown = (session: MarketHoursStatus): string => {
   if (!session.transition || session.minutesToNextTransition === null) return "n/a";
   const hours = Math.floor(session.minutesToNextTransition / 60);
@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from "vitest";
+import EventEmitter from "events";
+import { createExecutionSubscription } from "./createExecutionSubscription.js";
+import { parseExecutionTime } from "./executionMapping.js";
+
+const createMockApi = () =>
+  Object.assign(new EventEmitter(), {
+    reqExecutions: vi.fn(),
+    removeListener: EventEmitter.prototype.removeListener,
+  });
+
+const AAPL = { conId: 265598, symbol: "AAPL", currency: "USD", secType: "STK" };
+const UNSET_DOUBLE = Number.MAX_VALUE;
+
+const fill = (execId: string, side: string, shares: number, price: number, time: string) => ({
+  execId,
+  orderId: 7,
+  acctNumber: "U111",
+  exchange: "ISLAND",
+  side,
+  shares,
+  price,
+  time,
+});
+
+describe("createExecutionSubscription", () => {
+  it("loads today's fills and joins commission reports in either order", () => {
+    const api = createMockApi();
+    const callback = vi.fn();
+
+    createExecutionSubscription({ api, reqId: 550_000, callback });
+    expect(api.reqExecutions).toHaveBeenCalledWith(550_000, {});
+
+    api.emit("commissionReport", { execId: "0001.02", commission: 1.05, currency: "USD", realizedPNL: 42.5 });
+    api.emit("execDetails", 550_000, AAPL, fill("0001.02", "SLD", 10, 151, "20260210 10:15:00 US/Eastern"));
+    api.emit("execDetails", 550_000, AAPL, fill("0001.01", "BOT", 10, 150, "20260210 09:31:05 US/Eastern"));
+    expect(callback).not.toHaveBeenCalled();
+
+    api.emit("execDetailsEnd", 550_000);
+    api.emit("commissionReport", { execId: "0001.01", commission: 1, currency: "USD", realizedPNL: UNSET_DOUBLE });
+
+    expect(callback).toHaveBeenCalledTimes(2);
+    const executions = callback.mock.lastCall?.[0];
+    expect(executions).toEqual([
+      expect.objectContaining({ execId: "0001.01", side: "BUY", commission: 1, realizedPnL: null }),
+      expect.objectContaining({
+        execId: "0001.02",
+        side: "SELL",
+        accountId: "U111",
+        exchange: "ISLAND",
+        commission: 1.05,
+        commissionCurrency: "USD",
+        realizedPnL: 42.5,
+        time: Date.UTC(2026, 1, 10, 15, 15, 0),
+      }),
+    ]);
+  });
+
+  it("follows live fills after the initial load and stops on unsubscribe", () => {
+    const api = createMockApi();
+    const callback = vi.fn();
+
+    const unsubscribe = createExecutionSubscription({ api, reqId: 550_000, callback, now: () => 1_000 });
+    api.emit("execDetailsEnd", 550_000);
+    expect(callback).toHaveBeenLastCalledWith([]);
+
+    api.emit("execDetails", -1, AAPL, fill("0002.01", "BOT", 5, 149, ""));
+    expect(callback).toHaveBeenLastCalledWith([expect.objectContaining({ execId: "0002.01", time: 1_000 })]);
+
+    api.emit("execDetails", 42, AAPL, fill("0003.01", "BOT", 5, 149, ""));
+    expect(callback).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    expect(api.listenerCount("execDetails")).toBe(0);
+    expect(api.listenerCount("commissionReport")).toBe(0);
+  });
+
+  it("stamps the FX rate to base once it is known and keeps it afterwards", () => {
+    const api = createMockApi();
+    const callback = vi.fn();
+    let rate: number | null = null;
+    const getFxRate = vi.fn((accountId: string, currency: string) =>
+      accountId === "U111" && currency === "EUR" && rate !== null ? { baseCurrencyCode: "USD", rate } : null,
+    );
+    const SAP = { conId: 14204, symbol: "SAP", currency: "EUR", secType: "STK" };
+
+    createExecutionSubscription({ api, reqId: 550_000, callback, getFxRate });
+    api.emit("execDetails", 550_000, SAP, fill("0004.01", "BOT", 10, 180, "20260210 09:00:00 Europe/Berlin"));
+    api.emit("execDetailsEnd", 550_000);
+    expect(callback).toHaveBeenLastCalledWith([
+      expect.objectContaining({ baseCurrencyCode: null, fxRateToBase: null }),
+    ]);
+
+    rate = 1.08;
+    api.emit("commissionReport", { execId: "0004.01", commission: 3, currency: "EUR" });
+    rate = 1.1;
+    api.emit("execDetails", -1, SAP, fill("0004.02", "BOT", 5, 181, "20260210 09:05:00 Europe/Berlin"));
+
+    expect(callback.mock.lastCall?.[0]).toEqual([
+      expect.objectContaining({ execId: "0004.01", commission: 3, baseCurrencyCode: "USD", fxRateToBase: 1.08 }),
+      expect.objectContaining({ execId: "0004.02", baseCurrencyCode: "USD", fxRateToBase: 1.1 }),
+    ]);
+  });
+});
+
+describe("parseExecutionTime", () => {
+  it("reads zoned and local execution times", () => {
+    expect(parseExecutionTime("20260710 09:30:00 US/Eastern")).toBe(Date.UTC(2026, 6, 10, 13, 30, 0));
+    expect(parseExecutionTime("20260210  09:31:05")).toBe(new Date(2026, 1, 10, 9, 31, 5).getTime());
+    expect(parseExecutionTime("20260210 09:31:05 Not/AZone")).toBeNull();
+    expect(parseExecutionTime("yesterday")).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+import { EventName } from "@stoqey/ib";
+import type { Execution } from "../../types.js";
+import { noopLog } from "../../../utils/logger.js";
+import type { LogFn } from "../../../utils/logger.js";
+import { applyCommissionReport, fromExecDetails } from "./executionMapping.js";
+import type {
+  CommissionReportPayload,
+  ExecutionFxRate,
+  ExecutionPayload,
+  ExecutionsApi,
+  OrderContractSeed,
+} from "./types.js";
+
+// Fills of orders placed while the subscription is open arrive unrequested.
+const UNSOLICITED_REQ_ID = -1;
+
+type Params = {
+  api: ExecutionsApi;
+  reqId: number;
+  callback: (executions: Execution[]) => void;
+  // Rate from `currency` to the account's base, or null while it is unknown.
+  getFxRate?: (accountId: string, currency: string) => ExecutionFxRate | null;
+  now?: () => number;
+  log?: LogFn;
+};
+
+/**
+ * Loads today's executions with reqExecutions and keeps following live fills.
+ * Commission reports are joined by execId, in either arrival order. The first
+ * callback fires at execDetailsEnd so the initial load is not replayed fill by
+ * fill; after that every change pushes the full list, oldest first. Each fill
+ * keeps the FX rate to base from when it was first seen; fills seen before the
+ * rate was known pick it up on the next change.
+ */
+export const createExecutionSubscription = ({
+  api,
+  reqId,
+  callback,
+  getFxRate = () => null,
+  now = () => Date.now(),
+  log = noopLog,
+}: Params): (() => void) => {
+  const executions = new Map<string, Execution>();
+  const reportsByExecId = new Map<string, CommissionReportPayload>();
+  let initialLoadComplete = false;
+
+  const stampFxRate = (execution: Execution): Execution => {
+    if (execution.fxRateToBase !== null) return execution;
+    const fx = getFxRate(execution.accountId, execution.currency);
+    return fx ? { ...execution, baseCurrencyCode: fx.baseCurrencyCode, fxRateToBase: fx.rate } : execution;
+  };
+
+  const emit = (): void => {
+    if (!initialLoadComplete) return;
+    for (const [execId, execution] of executions) {
+      executions.set(execId, stampFxRate(execution));
+    }
+    callback(Array.from(executions.values()).sort((a, b) => a.time - b.time || a.execId.localeCompare(b.execId)));
+  };
+
+  const onExecDetails = (id: number, contract: OrderContractSeed, payload: ExecutionPayload) => {
+    if (id !== reqId && id !== UNSOLICITED_REQ_ID) return;
+    const execution = fromExecDetails(contract, payload, now());
+    if (!execution) {
+      log("debug", "event.execDetails", `ignored reqId=${id} execId=${payload.execId ?? "n/a"}`);
+      return;
+    }
+    const report = reportsByExecId.get(execution.execId);
+    executions.set(execution.execId, report ? applyCommissionReport(execution, report) : execution);
+    log(
+      "debug",
+      "event.execDetails",
+      `reqId=${id} execId=${execution.execId} ${execution.side} ${execution.quantity} ${execution.symbol} @ ${execution.price}`,
+    );
+    emit();
+  };
+
+  const onExecDetailsEnd = (id: number) => {
+    if (id !== reqId) return;
+    initialLoadComplete = true;
+    log("debug", "event.execDetailsEnd", `reqId=${id} executions=${executions.size}`);
+    emit();
+  };
+
+  const onCommissionReport = (report: CommissionReportPayload) => {
+    if (!report.execId) return;
+    reportsByExecId.set(report.execId, report);
+    const execution = executions.get(report.execId);
+    if (!execution) return;
+    executions.set(report.execId, applyCommissionReport(execution, report));
+    log("debug", "event.commissionReport", `execId=${report.execId} commission=${report.commission ?? "n/a"}`);
+    emit();
+  };
+
+  api.on(EventName.execDetails, onExecDetails);
+  api.on(EventName.execDetailsEnd, onExecDetailsEnd);
+  api.on(EventName.commissionReport, onCommissionReport);
+  log("info", "subscription.executions", `reqExecutions reqId=${reqId}`);
+  api.reqExecutions(reqId, {});
+
+  return () => {
+    api.removeListener(EventName.execDetails, onExecDetails);
+    api.removeListener(EventName.execDetailsEnd, onExecDetailsEnd);
+    api.removeListener(EventName.commissionReport, onCommissionReport);
+    log("info", "subscription.executions", `stop reqId=${reqId}`);
+  };
+};
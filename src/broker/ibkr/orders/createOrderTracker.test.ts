@@ -0,0 +1,329 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import EventEmitter from "events";
+import { createOrderTracker } from "./createOrderTracker.js";
+
+const createMockApi = () =>
+  Object.assign(new EventEmitter(), {
+    placeOrder: vi.fn(),
+    reqAllOpenOrders: vi.fn(),
+    removeListener: EventEmitter.prototype.removeListener,
+  });
+
+describe("createOrderTracker", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("books the order to the requested account", () => {
+    const api = createMockApi();
+    const tracker = createOrderTracker({ api });
+
+    void tracker.place(3, { symbol: "AAPL", action: "BUY", quantity: 1, orderType: "MKT", account: "U222" }).catch(() => {});
+
+    expect(api.placeOrder).toHaveBeenCalledWith(3, expect.anything(), expect.objectContaining({ account: "U222" }));
+    tracker.dispose();
+  });
+
+  it("sends a limit order and resolves once the gateway acknowledges it", async () => {
+    const api = createMockApi();
+    const tracker = createOrderTracker({ api });
+
+    const placed = tracker.place(42, {
+      symbol: "AAPL",
+      action: "BUY",
+      quantity: 10,
+      orderType: "LMT",
+      limitPrice: 150.25,
+      conId: 265598,
+      currency: "USD",
+    });
+
+    expect(api.placeOrder).toHaveBeenCalledWith(
+      42,
+      { conId: 265598, symbol: "AAPL", currency: "USD", exchange: "SMART", secType: undefined },
+      expect.objectContaining({ action: "BUY", totalQuantity: 10, orderType: "LMT", lmtPrice: 150.25, auxPrice: undefined, transmit: true }),
+    );
+    expect(tracker.get(42)?.status).toBe("PendingSubmit");
+
+    api.emit("orderStatus", 42, "Submitted", 0, 10, 0);
+
+    await expect(placed).resolves.toEqual(expect.objectContaining({ id: 42, status: "Submitted", remaining: 10 }));
+  });
+
+  it("maps STP_LMT to the IB order type and carries both prices", async () => {
+    const api = createMockApi();
+    const tracker = createOrderTracker({ api });
+
+    const placed = tracker.place(7, {
+      symbol: "MSFT",
+      action: "SELL",
+      quantity: 5,
+      orderType: "STP_LMT",
+      limitPrice: 299,
+      stopPrice: 300,
+    });
+
+    expect(api.placeOrder).toHaveBeenCalledWith(
+      7,
+      { symbol: "MSFT", currency: "USD", exchange: "SMART", secType: "STK" },
+      expect.objectContaining({ orderType: "STP LMT", lmtPrice: 299, auxPrice: 300 }),
+    );
+    api.emit("orderStatus", 7, "PreSubmitted", 0, 5, 0);
+    await expect(placed).resolves.toEqual(expect.objectContaining({ orderType: "STP_LMT", stopPrice: 300 }));
+  });
+
+  it("tracks PendingSubmit -> Submitted -> Filled and ignores duplicate working statuses after fill", async () => {
+    const api = createMockApi();
+    const tracker = createOrderTracker({ api });
+
+    const placed = tracker.place(1, { symbol: "AAPL", action: "BUY", quantity: 10, orderType: "MKT" });
+    api.emit("orderStatus", 1, "PreSubmitted", 0, 10, 0);
+    await placed;
+
+    api.emit("orderStatus", 1, "Submitted", 4, 6, 150);
+    expect(tracker.get(1)).toEqual(expect.objectContaining({ status: "Submitted", filled: 4, remaining: 6, avgFillPrice: 150 }));
+
+    api.emit("orderStatus", 1, "Filled", 10, 0, 150.1);
+    api.emit("orderStatus", 1, "Submitted", 10, 0, 150.1);
+    expect(tracker.get(1)).toEqual(expect.objectContaining({ status: "Filled", filled: 10, remaining: 0 }));
+  });
+
+  it("rejects when the gateway returns an order error", async () => {
+    const api = createMockApi();
+    const tracker = createOrderTracker({ api });
+
+    const placed = tracker.place(3, { symbol: "AAPL", action: "BUY", quantity: 10, orderType: "MKT" });
+    api.emit("error", new Error("Order rejected - reason: insufficient funds"), 201, 3);
+
+    await expect(placed).rejects.toThrow("Order 3 rejected: Order rejected - reason: insufficient funds");
+    expect(tracker.get(3)?.status).toBe("Inactive");
+  });
+
+  it("ignores errors of other requests that share the order id", async () => {
+    const api = createMockApi();
+    const tracker = createOrderTracker({ api });
+
+    const placed = tracker.place(90_000, { symbol: "AAPL", action: "BUY", quantity: 1, orderType: "MKT" });
+    const preview = tracker.preview(90_001, { symbol: "AAPL", action: "BUY", quantity: 1, orderType: "MKT" });
+    api.emit("error", new Error("Requested market data is not subscribed"), 354, 90_000);
+    api.emit("error", new Error("Error validating request"), 321, 90_001);
+    api.emit("orderStatus", 90_000, "Submitted", 0, 1, 0);
+    api.emit("openOrder", 90_001, { symbol: "AAPL" }, { whatIf: true }, { status: "PreSubmitted", commission: 1 });
+
+    await expect(placed).resolves.toEqual(expect.objectContaining({ status: "Submitted" }));
+    await expect(preview).resolves.toEqual(expect.objectContaining({ commission: 1 }));
+  });
+
+  it("does not reject on order warnings", async () => {
+    const api = createMockApi();
+    const tracker = createOrderTracker({ api });
+
+    const placed = tracker.place(4, { symbol: "AAPL", action: "BUY", quantity: 1, orderType: "MKT" });
+    api.emit("error", new Error("Order will not be placed at the exchange until market opens"), 399, 4);
+    api.emit("orderStatus", 4, "PreSubmitted", 0, 1, 0);
+
+    await expect(placed).resolves.toEqual(expect.objectContaining({ status: "PreSubmitted" }));
+  });
+
+  it("rejects invalid requests without sending them", async () => {
+    const api = createMockApi();
+    const tracker = createOrderTracker({ api });
+
+    await expect(
+      tracker.place(5, { symbol: "AAPL", action: "BUY", quantity: 10, orderType: "LMT" }),
+    ).rejects.toThrow("LMT order requires a limit price");
+    expect(api.placeOrder).not.toHaveBeenCalled();
+  });
+
+  it("rejects when no acknowledgement arrives before the timeout", async () => {
+    vi.useFakeTimers();
+    const api = createMockApi();
+    const tracker = createOrderTracker({ api, ackTimeoutMs: 1_000 });
+
+    const placed = tracker.place(6, { symbol: "AAPL", action: "BUY", quantity: 1, orderType: "MKT" });
+    vi.advanceTimersByTime(1_000);
+
+    await expect(placed).rejects.toThrow("Order 6 was not acknowledged within 1s");
+  });
+
+  it("tracks orders placed outside this session from openOrder", () => {
+    const api = createMockApi();
+    const tracker = createOrderTracker({ api });
+
+    api.emit(
+      "openOrder",
+      99,
+      { conId: 265598, symbol: "AAPL", currency: "USD", exchange: "SMART", secType: "STK" },
+      { action: "SELL", totalQuantity: 3, orderType: "STP", auxPrice: 140 },
+      { status: "PreSubmitted" },
+    );
+
+    expect(tracker.list()).toEqual([
+      expect.objectContaining({ id: 99, symbol: "AAPL", action: "SELL", orderType: "STP", stopPrice: 140, status: "PreSubmitted" }),
+    ]);
+  });
+
+  it("keeps orders entered in TWS apart by permId although they all report orderId 0", () => {
+    const api = createMockApi();
+    const tracker = createOrderTracker({ api });
+    const contract = { conId: 265598, symbol: "AAPL", currency: "USD" };
+
+    api.emit("openOrder", 0, contract, { permId: 501, action: "BUY", totalQuantity: 1, orderType: "LMT", lmtPrice: 140 }, { status: "Submitted" });
+    api.emit("openOrder", 0, contract, { permId: 502, action: "SELL", totalQuantity: 2, orderType: "MKT" }, { status: "Submitted" });
+    api.emit("orderStatus", 0, "Filled", 2, 0, 150, 502);
+
+    expect(tracker.list()).toEqual([
+      expect.objectContaining({ id: 0, permId: 501, action: "BUY", status: "Submitted" }),
+      expect.objectContaining({ id: 0, permId: 502, action: "SELL", status: "Filled", filled: 2 }),
+    ]);
+  });
+
+  it("moves an order placed here to its permId once IB reports one", async () => {
+    const api = createMockApi();
+    const tracker = createOrderTracker({ api, clientId: 1 });
+
+    const placed = tracker.place(12, { symbol: "AAPL", action: "BUY", quantity: 10, orderType: "MKT" });
+    api.emit("orderStatus", 12, "Submitted", 0, 10, 0, 9001, 0, 0, 1);
+    await expect(placed).resolves.toEqual(expect.objectContaining({ id: 12, permId: 9001, status: "Submitted" }));
+
+    api.emit("orderStatus", 12, "Filled", 10, 0, 150, 9001, 0, 150, 1);
+    expect(tracker.list()).toEqual([expect.objectContaining({ id: 12, permId: 9001, status: "Filled" })]);
+    expect(tracker.get(12)?.status).toBe("Filled");
+  });
+
+  it("keeps another client's order with the same orderId apart from the one placed here", async () => {
+    const api = createMockApi();
+    const tracker = createOrderTracker({ api, clientId: 1 });
+    const contract = { conId: 272093, symbol: "MSFT", currency: "USD" };
+
+    const placed = tracker.place(12, { symbol: "AAPL", action: "BUY", quantity: 10, orderType: "MKT" });
+    api.emit("openOrder", 12, contract, { permId: 7000, clientId: 2, action: "SELL", totalQuantity: 5, orderType: "MKT" }, { status: "Submitted" });
+    api.emit("orderStatus", 12, "Filled", 5, 0, 300, 7000, 0, 300, 2);
+
+    expect(tracker.list()).toEqual([
+      expect.objectContaining({ id: 12, symbol: "AAPL", status: "PendingSubmit" }),
+      expect.objectContaining({ id: 12, permId: 7000, symbol: "MSFT", status: "Filled" }),
+    ]);
+
+    api.emit("orderStatus", 12, "Submitted", 0, 10, 0, 9001, 0, 0, 1);
+    await expect(placed).resolves.toEqual(expect.objectContaining({ symbol: "AAPL", permId: 9001, status: "Submitted" }));
+  });
+
+  it("rejects pending orders and stops listening on dispose", async () => {
+    const api = createMockApi();
+    const tracker = createOrderTracker({ api });
+
+    const placed = tracker.place(8, { symbol: "AAPL", action: "BUY", quantity: 1, orderType: "MKT" });
+    tracker.dispose();
+
+    await expect(placed).rejects.toThrow("Order 8 not acknowledged before disconnect");
+    expect(api.listenerCount("orderStatus")).toBe(0);
+    expect(api.listenerCount("openOrder")).toBe(0);
+  });
+
+  it("resolves open orders with working orders once openOrderEnd arrives", async () => {
+    const api = createMockApi();
+    const tracker = createOrderTracker({ api });
+
+    const pending = tracker.requestOpenOrders();
+    expect(api.reqAllOpenOrders).toHaveBeenCalledTimes(1);
+
+    api.emit(
+      "openOrder",
+      10,
+      { conId: 265598, symbol: "AAPL", currency: "USD" },
+      { action: "BUY", totalQuantity: 10, orderType: "LMT", lmtPrice: 140 },
+      { status: "Submitted" },
+    );
+    api.emit(
+      "openOrder",
+      11,
+      { conId: 272093, symbol: "MSFT", currency: "USD" },
+      { action: "SELL", totalQuantity: 5, orderType: "MKT" },
+      { status: "Filled" },
+    );
+    api.emit("openOrderEnd");
+
+    await expect(pending).resolves.toEqual([
+      expect.objectContaining({ id: 10, symbol: "AAPL", limitPrice: 140, status: "Submitted" }),
+    ]);
+  });
+
+  it("pushes the full order list to subscribers on every change", () => {
+    const api = createMockApi();
+    const tracker = createOrderTracker({ api });
+    const callback = vi.fn();
+
+    tracker.subscribe(callback);
+    expect(callback).toHaveBeenLastCalledWith([]);
+
+    void tracker.place(20, { symbol: "AAPL", action: "BUY", quantity: 10, orderType: "MKT" });
+    expect(callback).toHaveBeenLastCalledWith([expect.objectContaining({ id: 20, status: "PendingSubmit" })]);
+
+    api.emit("orderStatus", 20, "Filled", 10, 0, 150);
+    expect(callback).toHaveBeenLastCalledWith([expect.objectContaining({ id: 20, status: "Filled", filled: 10 })]);
+  });
+
+  it("previews a whatIf order and resolves with margin and commission estimates", async () => {
+    const api = createMockApi();
+    const tracker = createOrderTracker({ api });
+
+    const preview = tracker.preview(30, { symbol: "AAPL", conId: 265598, action: "BUY", quantity: 100, orderType: "MKT" });
+
+    expect(api.placeOrder).toHaveBeenCalledWith(
+      30,
+      expect.objectContaining({ conId: 265598 }),
+      expect.objectContaining({ action: "BUY", totalQuantity: 100, orderType: "MKT", whatIf: true }),
+    );
+
+    api.emit(
+      "openOrder",
+      30,
+      { conId: 265598, symbol: "AAPL", currency: "USD" },
+      { action: "BUY", totalQuantity: 100, orderType: "MKT", whatIf: true },
+      {
+        status: "PreSubmitted",
+        initMarginChange: 3750.5,
+        maintMarginChange: 3400,
+        equityWithLoanAfter: 98_500,
+        commission: Number.MAX_VALUE,
+        minCommission: 1,
+        maxCommission: 1.5,
+        commissionCurrency: "USD",
+      },
+    );
+
+    await expect(preview).resolves.toEqual(expect.objectContaining({
+      initMarginChange: 3750.5,
+      maintMarginChange: 3400,
+      equityWithLoanAfter: 98_500,
+      initMarginAfter: null,
+      commission: null,
+      minCommission: 1,
+      maxCommission: 1.5,
+      commissionCurrency: "USD",
+      warningText: null,
+    }));
+    expect(tracker.list()).toEqual([]);
+  });
+
+  it("rejects a preview when the gateway returns an order error", async () => {
+    const api = createMockApi();
+    const tracker = createOrderTracker({ api });
+
+    const preview = tracker.preview(31, { symbol: "AAPL", action: "SELL", quantity: 1, orderType: "MKT" });
+    api.emit("error", new Error("No trading permissions"), 201, 31);
+
+    await expect(preview).rejects.toThrow("Order preview rejected: No trading permissions");
+  });
+
+  it("rejects a pending preview on dispose", async () => {
+    const api = createMockApi();
+    const tracker = createOrderTracker({ api });
+
+    const preview = tracker.preview(32, { symbol: "AAPL", action: "SELL", quantity: 1, orderType: "MKT" });
+    tracker.dispose();
+
+    await expect(preview).rejects.toThrow("Order preview interrupted by disconnect");
+  });
+});
@@ -0,0 +1,412 @@
+import { EventName } from "@stoqey/ib";
+import type { Order, OrderPreview, OrderRequest } from "../../types.js";
+import { noopLog } from "../../../utils/logger.js";
+import type { LogFn } from "../../../utils/logger.js";
+import {
+  fromOpenOrder,
+  fromWhatIfState,
+  isTerminalOrderStatus,
+  parseOrderStatus,
+  toIbContract,
+  toIbOrder,
+  validateOrderRequest,
+} from "./orderMapping.js";
+import type {
+  OrdersApi,
+  OrderContractSeed,
+  OrderTicket,
+  OrderStatePayload,
+  OrderTracker,
+} from "./types.js";
+
+const ORDER_ACK_TIMEOUT_MS = 10_000;
+const OPEN_ORDERS_TIMEOUT_MS = 10_000;
+// Order-scoped warnings that do not prevent the order from being accepted.
+const ORDER_WARNING_CODES = new Set([399, 2109]);
+// Codes IB uses to reject or cancel an order. Contract details, market data,
+// account summary, P&L and executions requests share the reqId space with
+// order ids, so their errors must not reject an order that happens to match.
+const ORDER_ERROR_CODES = new Set([
+  103, 104, 105, 106, 107, 109, 110, 111, 113, 114, 115, 116, 117, 118, 119, 120, 121, 122, 123, 124, 125, 126, 129,
+  131, 132, 133, 134, 135, 136, 137, 140, 141, 144, 145, 146, 147, 148, 151, 152, 153, 154, 155, 156, 157, 158, 159,
+  160, 161, 163, 164, 200, 201, 202, 203, 382, 383, 387, 388, 434, 435, 436, 10147, 10148, 10149,
+]);
+
+type PendingAck = {
+  resolve: (order: Order) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+type PendingPreview = {
+  resolve: (preview: OrderPreview) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+type OpenOrdersWaiter = {
+  resolve: (orders: Order[]) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+// Orders entered in TWS all report orderId 0, so orders are keyed by permId
+// once IB has assigned one and by orderId until then.
+const orderKey = (orderId: number, permId: number | undefined): string =>
+  permId ? `perm:${permId}` : `id:${orderId}`;
+
+type Params = {
+  api: OrdersApi;
+  // API client id of this session; other clients report the same orderIds.
+  clientId?: number;
+  ackTimeoutMs?: number;
+  openOrdersTimeoutMs?: number;
+  log?: LogFn;
+};
+
+export const createOrderTracker = ({
+  api,
+  clientId,
+  ackTimeoutMs = ORDER_ACK_TIMEOUT_MS,
+  openOrdersTimeoutMs = OPEN_ORDERS_TIMEOUT_MS,
+  log = noopLog,
+}: Params): OrderTracker => {
+  const orders = new Map<string, Order>();
+  // orderId → key of the orders placed by this session, until they are done.
+  const placedKeys = new Map<number, string>();
+  const pendingAcks = new Map<number, PendingAck>();
+  const pendingPreviews = new Map<number, PendingPreview>();
+  const openOrdersWaiters = new Set<OpenOrdersWaiter>();
+  const subscribers = new Set<(orders: Order[]) => void>();
+
+  const list = (): Order[] =>
+    Array.from(orders.values()).sort((a, b) => a.id - b.id || (a.permId ?? 0) - (b.permId ?? 0));
+
+  // An order placed here moves to its permId key when IB first reports one.
+  // Other clients use the same orderIds, so only events from this client can
+  // claim it (or reach it without a permId).
+  const keyFor = (orderId: number, permId: number | undefined, eventClientId: number | undefined): string => {
+    const key = orderKey(orderId, permId);
+    const placedKey = placedKeys.get(orderId);
+    if (!placedKey || placedKey === key) return key;
+    if (eventClientId !== clientId) return key;
+    if (!permId) return placedKey;
+    const placed = orders.get(placedKey);
+    if (placed && placed.permId === undefined) {
+      orders.delete(placedKey);
+      orders.set(key, { ...placed, permId });
+      placedKeys.set(orderId, key);
+    }
+    return key;
+  };
+
+  // Done orders keep their key in `orders`; IB sends nothing more to migrate.
+  const forgetIfDone = (orderId: number, key: string): void => {
+    const order = orders.get(key);
+    if (order && isTerminalOrderStatus(order.status) && placedKeys.get(orderId) === key) placedKeys.delete(orderId);
+  };
+
+  const listWorking = (): Order[] => list().filter((order) => !isTerminalOrderStatus(order.status));
+
+  const notify = (): void => {
+    if (subscribers.size === 0) return;
+    const snapshot = list();
+    subscribers.forEach((callback) => callback(snapshot));
+  };
+
+  const settle = (orderId: number): PendingAck | null => {
+    const pending = pendingAcks.get(orderId);
+    if (!pending) return null;
+    clearTimeout(pending.timer);
+    pendingAcks.delete(orderId);
+    return pending;
+  };
+
+  const settlePreview = (orderId: number): PendingPreview | null => {
+    const pending = pendingPreviews.get(orderId);
+    if (!pending) return null;
+    clearTimeout(pending.timer);
+    pendingPreviews.delete(orderId);
+    return pending;
+  };
+
+  const acknowledge = (orderId: number, key: string): void => {
+    if (placedKeys.get(orderId) !== key) return;
+    const order = orders.get(key);
+    if (!order) return;
+    const pending = settle(orderId);
+    if (!pending) return;
+    log("info", "orders.ack", `orderId=${orderId} status=${order.status}`);
+    pending.resolve(order);
+  };
+
+  const onOrderStatus = (
+    orderId: number,
+    rawStatus: string,
+    filled: number,
+    remaining: number,
+    avgFillPrice: number,
+    permId?: number,
+    _parentId?: number,
+    _lastFillPrice?: number,
+    eventClientId?: number,
+  ) => {
+    log("debug", "event.orderStatus", `orderId=${orderId} permId=${permId ?? "n/a"} status=${rawStatus} filled=${filled} remaining=${remaining} avgFillPrice=${avgFillPrice}`);
+    const status = parseOrderStatus(rawStatus);
+    if (!status) {
+      log("debug", "event.orderStatus", `ignored unknown status=${rawStatus} orderId=${orderId}`);
+      return;
+    }
+    const key = keyFor(orderId, permId, eventClientId);
+    const existing = orders.get(key);
+    if (!existing) {
+      log("debug", "event.orderStatus", `ignored untracked orderId=${orderId} permId=${permId ?? "n/a"}`);
+      return;
+    }
+    // IB often repeats orderStatus; never regress a terminal order back to a working state.
+    if (isTerminalOrderStatus(existing.status) && !isTerminalOrderStatus(status)) {
+      log("debug", "event.orderStatus", `ignored regression orderId=${orderId} ${existing.status}->${status}`);
+      return;
+    }
+    if (existing.status !== status) {
+      log("info", "orders.transition", `orderId=${orderId} ${existing.status}->${status}`);
+    }
+    orders.set(key, {
+      ...existing,
+      status,
+      filled,
+      remaining,
+      avgFillPrice,
+    });
+    acknowledge(orderId, key);
+    forgetIfDone(orderId, key);
+    notify();
+  };
+
+  const onOpenOrder = (
+    orderId: number,
+    contract: OrderContractSeed,
+    ticket: OrderTicket,
+    orderState: OrderStatePayload,
+  ) => {
+    log("debug", "event.openOrder", `orderId=${orderId} conId=${contract.conId ?? "n/a"} sym=${contract.symbol ?? ""} action=${ticket.action ?? "n/a"} type=${ticket.orderType ?? "n/a"} status=${orderState.status ?? "n/a"}`);
+    const preview = settlePreview(orderId);
+    if (preview) {
+      const result = fromWhatIfState(orderState);
+      log("info", "orders.preview", `orderId=${orderId} initMarginChange=${result.initMarginChange ?? "n/a"} maintMarginChange=${result.maintMarginChange ?? "n/a"} equityWithLoanAfter=${result.equityWithLoanAfter ?? "n/a"} commission=${result.commission ?? "n/a"} ${result.commissionCurrency ?? ""}`);
+      preview.resolve(result);
+      return;
+    }
+    if (ticket.whatIf) return;
+    const key = keyFor(orderId, ticket.permId, ticket.clientId);
+    const existing = orders.get(key);
+    const status = parseOrderStatus(orderState.status) ?? existing?.status ?? "Submitted";
+
+    if (existing) {
+      if (isTerminalOrderStatus(existing.status) && !isTerminalOrderStatus(status)) return;
+      orders.set(key, {
+        ...existing,
+        conId: existing.conId ?? contract.conId,
+        currency: existing.currency ?? contract.currency,
+        status,
+      });
+    } else {
+      const order = fromOpenOrder(orderId, contract, ticket, status);
+      if (!order) {
+        log("debug", "event.openOrder", `ignored unsupported order orderId=${orderId} action=${ticket.action ?? "n/a"} type=${ticket.orderType ?? "n/a"}`);
+        return;
+      }
+      orders.set(key, order);
+    }
+    acknowledge(orderId, key);
+    forgetIfDone(orderId, key);
+    notify();
+  };
+
+  const onOpenOrderEnd = () => {
+    log("debug", "event.openOrderEnd", `received waiters=${openOrdersWaiters.size} tracked=${orders.size}`);
+    if (openOrdersWaiters.size === 0) return;
+    const working = listWorking();
+    for (const waiter of openOrdersWaiters) {
+      clearTimeout(waiter.timer);
+      waiter.resolve(working);
+    }
+    openOrdersWaiters.clear();
+  };
+
+  const onError = (error: Error, code: number, reqId: number) => {
+    if (!pendingPreviews.has(reqId) && !pendingAcks.has(reqId)) return;
+    if (!ORDER_WARNING_CODES.has(code) && !ORDER_ERROR_CODES.has(code)) {
+      log("debug", "event.error.order", `ignored non-order error orderId=${reqId} code=${code} message=${error.message}`);
+      return;
+    }
+    if (pendingPreviews.has(reqId)) {
+      if (ORDER_WARNING_CODES.has(code)) {
+        log("warn", "event.error.order", `preview orderId=${reqId} code=${code} message=${error.message}`);
+        return;
+      }
+      log("warn", "event.error.order", `preview rejected orderId=${reqId} code=${code} message=${error.message}`);
+      settlePreview(reqId)?.reject(new Error(`Order preview rejected: ${error.message}`));
+      return;
+    }
+    if (ORDER_WARNING_CODES.has(code)) {
+      log("warn", "event.error.order", `orderId=${reqId} code=${code} message=${error.message}`);
+      return;
+    }
+    const pending = settle(reqId);
+    const key = placedKeys.get(reqId);
+    const existing = key ? orders.get(key) : undefined;
+    if (key && existing) {
+      orders.set(key, { ...existing, status: "Inactive" });
+      forgetIfDone(reqId, key);
+    }
+    log("error", "event.error.order", `rejected orderId=${reqId} code=${code} message=${error.message}`);
+    pending?.reject(new Error(`Order ${reqId} rejected: ${error.message}`));
+    notify();
+  };
+
+  const place = (orderId: number, request: OrderRequest): Promise<Order> => {
+    const invalid = validateOrderRequest(request);
+    if (invalid) return Promise.reject(new Error(invalid));
+
+    const contract = toIbContract(request);
+    const ticket = toIbOrder(request);
+    const key = orderKey(orderId, undefined);
+    placedKeys.set(orderId, key);
+    orders.set(key, {
+      ...request,
+      id: orderId,
+      status: "PendingSubmit",
+      filled: 0,
+      remaining: request.quantity,
+      avgFillPrice: 0,
+    });
+    notify();
+
+    return new Promise<Order>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pendingAcks.delete(orderId);
+        log("warn", "orders.ack", `timeout orderId=${orderId} afterMs=${ackTimeoutMs}`);
+        reject(new Error(`Order ${orderId} was not acknowledged within ${ackTimeoutMs / 1000}s`));
+      }, ackTimeoutMs);
+      pendingAcks.set(orderId, { resolve, reject, timer });
+
+      log(
+        "info",
+        "orders.place",
+        `orderId=${orderId} ${request.action} ${request.quantity} ${request.symbol || request.conId} type=${ticket.orderType} lmt=${ticket.lmtPrice ?? "n/a"} aux=${ticket.auxPrice ?? "n/a"}`
+      );
+      try {
+        api.placeOrder(orderId, contract, ticket);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log("error", "orders.place", `failed orderId=${orderId} error=${message}`);
+        settle(orderId);
+        orders.delete(key);
+        placedKeys.delete(orderId);
+        notify();
+        reject(new Error(`Order ${orderId} could not be sent: ${message}`));
+      }
+    });
+  };
+
+  // A whatIf order is answered with a single openOrder carrying margin and
+  // commission estimates; it is never routed, so it is not tracked as an order.
+  const preview = (orderId: number, request: OrderRequest): Promise<OrderPreview> => {
+    const invalid = validateOrderRequest(request);
+    if (invalid) return Promise.reject(new Error(invalid));
+
+    const contract = toIbContract(request);
+    const ticket: OrderTicket = { ...toIbOrder(request), whatIf: true };
+
+    return new Promise<OrderPreview>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pendingPreviews.delete(orderId);
+        log("warn", "orders.preview", `timeout orderId=${orderId} afterMs=${ackTimeoutMs}`);
+        reject(new Error(`Order preview timed out after ${ackTimeoutMs / 1000}s`));
+      }, ackTimeoutMs);
+      pendingPreviews.set(orderId, { resolve, reject, timer });
+
+      log(
+        "info",
+        "orders.preview",
+        `whatIf orderId=${orderId} ${request.action} ${request.quantity} ${request.symbol || request.conId} type=${ticket.orderType}`
+      );
+      try {
+        api.placeOrder(orderId, contract, ticket);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log("error", "orders.preview", `failed orderId=${orderId} error=${message}`);
+        settlePreview(orderId);
+        reject(new Error(`Order preview could not be sent: ${message}`));
+      }
+    });
+  };
+
+  const get = (orderId: number): Order | undefined => {
+    const placedKey = placedKeys.get(orderId);
+    if (placedKey) return orders.get(placedKey);
+    return Array.from(orders.values()).find((order) => order.id === orderId);
+  };
+
+  // reqAllOpenOrders answers with openOrder events for every working order
+  // (across API clients and TWS) followed by a single openOrderEnd.
+  const requestOpenOrders = (): Promise<Order[]> =>
+    new Promise<Order[]>((resolve, reject) => {
+      const waiter: OpenOrdersWaiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          openOrdersWaiters.delete(waiter);
+          log("warn", "orders.open", `timeout waiting for openOrderEnd afterMs=${openOrdersTimeoutMs}`);
+          reject(new Error(`Open orders request timed out after ${openOrdersTimeoutMs / 1000}s`));
+        }, openOrdersTimeoutMs),
+      };
+      openOrdersWaiters.add(waiter);
+
+      log("info", "orders.open", "reqAllOpenOrders");
+      try {
+        api.reqAllOpenOrders();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log("error", "orders.open", `reqAllOpenOrders failed error=${message}`);
+        clearTimeout(waiter.timer);
+        openOrdersWaiters.delete(waiter);
+        reject(new Error(`Open orders request failed: ${message}`));
+      }
+    });
+
+  const subscribe = (callback: (orders: Order[]) => void): (() => void) => {
+    subscribers.add(callback);
+    callback(list());
+    return () => {
+      subscribers.delete(callback);
+    };
+  };
+
+  api.on(EventName.orderStatus, onOrderStatus);
+  api.on(EventName.openOrder, onOpenOrder);
+  api.on(EventName.openOrderEnd, onOpenOrderEnd);
+  api.on(EventName.error, onError);
+
+  const dispose = (): void => {
+    api.removeListener(EventName.orderStatus, onOrderStatus);
+    api.removeListener(EventName.openOrder, onOpenOrder);
+    api.removeListener(EventName.openOrderEnd, onOpenOrderEnd);
+    api.removeListener(EventName.error, onError);
+    for (const orderId of Array.from(pendingAcks.keys())) {
+      settle(orderId)?.reject(new Error(`Order ${orderId} not acknowledged before disconnect`));
+    }
+    for (const orderId of Array.from(pendingPreviews.keys())) {
+      settlePreview(orderId)?.reject(new Error("Order preview interrupted by disconnect"));
+    }
+    for (const waiter of openOrdersWaiters) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error("Open orders request interrupted by disconnect"));
+    }
+    openOrdersWaiters.clear();
+    subscribers.clear();
+  };
+
+  return { place, preview, get, list, requestOpenOrders, subscribe, dispose };
+};
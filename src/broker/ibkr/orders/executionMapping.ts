@@ -0,0 +1,87 @@
+import type { Execution } from "../../types.js";
+import type { CommissionReportPayload, ExecutionPayload, OrderContractSeed } from "./types.js";
+
+// IB leaves commission and realized P&L it has not computed as Number.MAX_VALUE (UNSET_DOUBLE).
+const UNSET_DOUBLE_THRESHOLD = 1e300;
+const EXECUTION_TIME_RE = /^(\d{4})(\d{2})(\d{2})\s+(\d{2}):(\d{2}):(\d{2})(?:\s+(\S+))?$/;
+
+const fromReportValue = (value: number | undefined): number | null => {
+  if (value === undefined || !Number.isFinite(value) || Math.abs(value) >= UNSET_DOUBLE_THRESHOLD) return null;
+  return value;
+};
+
+// Offset of `timeZone` from UTC at the given instant, in milliseconds.
+const getZoneOffsetMs = (epochMs: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(epochMs));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value ?? "0");
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return asUtc - epochMs;
+};
+
+/**
+ * Parses IB execution times: "20260210  09:31:05" in the TWS login time zone
+ * (taken as local time) or "20260210 09:31:05 US/Eastern" on newer gateways.
+ * Returns null for anything else.
+ */
+export const parseExecutionTime = (raw: string): number | null => {
+  const match = EXECUTION_TIME_RE.exec(raw.trim());
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, timeZone] = match;
+  const fields = [year, month, day, hour, minute, second].map(Number);
+  if (!timeZone) {
+    return new Date(fields[0], fields[1] - 1, fields[2], fields[3], fields[4], fields[5]).getTime();
+  }
+  const wallClockAsUtc = Date.UTC(fields[0], fields[1] - 1, fields[2], fields[3], fields[4], fields[5]);
+  try {
+    // Two passes settle the offset across DST transitions.
+    const firstGuess = wallClockAsUtc - getZoneOffsetMs(wallClockAsUtc, timeZone);
+    return wallClockAsUtc - getZoneOffsetMs(firstGuess, timeZone);
+  } catch {
+    return null;
+  }
+};
+
+export const fromExecDetails = (
+  contract: OrderContractSeed,
+  execution: ExecutionPayload,
+  receivedAt: number,
+): Execution | null => {
+  if (!execution.execId || contract.conId === undefined) return null;
+  const parsedTime = execution.time ? parseExecutionTime(execution.time) : null;
+  return {
+    execId: execution.execId,
+    orderId: execution.orderId ?? 0,
+    accountId: execution.acctNumber ?? "",
+    conId: contract.conId,
+    symbol: contract.symbol ?? "",
+    secType: contract.secType ?? null,
+    currency: contract.currency ?? "USD",
+    exchange: execution.exchange ?? contract.exchange ?? "",
+    // IB reports BOT / SLD.
+    side: execution.side === "SLD" ? "SELL" : "BUY",
+    quantity: execution.shares ?? 0,
+    price: execution.price ?? 0,
+    time: parsedTime ?? receivedAt,
+    commission: null,
+    commissionCurrency: null,
+    realizedPnL: null,
+    baseCurrencyCode: null,
+    fxRateToBase: null,
+  };
+};
+
+export const applyCommissionReport = (execution: Execution, report: CommissionReportPayload): Execution => ({
+  ...execution,
+  commission: fromReportValue(report.commission),
+  commissionCurrency: report.currency || null,
+  realizedPnL: fromReportValue(report.realizedPNL),
+});
@@ -0,0 +1,155 @@
+import type { Order, OrderPreview, OrderRequest, OrderStatus } from "../../types.js";
+import type { OrderContractSeed, OrderStatePayload, OrderTicket } from "./types.js";
+
+const IB_ORDER_TYPES: Record<Order["orderType"], string> = {
+  MKT: "MKT",
+  LMT: "LMT",
+  STP: "STP",
+  STP_LMT: "STP LMT",
+};
+
+const ORDER_TYPES_BY_IB: Record<string, Order["orderType"] | undefined> = {
+  MKT: "MKT",
+  LMT: "LMT",
+  STP: "STP",
+  "STP LMT": "STP_LMT",
+};
+
+const ORDER_STATUSES: ReadonlySet<string> = new Set<OrderStatus>([
+  "PendingSubmit",
+  "PendingCancel",
+  "PreSubmitted",
+  "Submitted",
+  "Filled",
+  "Cancelled",
+  "ApiCancelled",
+  "Inactive",
+]);
+
+const TERMINAL_ORDER_STATUSES: ReadonlySet<OrderStatus> = new Set<OrderStatus>([
+  "Filled",
+  "Cancelled",
+  "ApiCancelled",
+  "Inactive",
+]);
+
+const isOrderStatus = (raw: string): raw is OrderStatus => ORDER_STATUSES.has(raw);
+
+export const parseOrderStatus = (raw: string | undefined): OrderStatus | null => {
+  if (!raw || !isOrderStatus(raw)) return null;
+  return raw;
+};
+
+export const isTerminalOrderStatus = (status: OrderStatus): boolean =>
+  TERMINAL_ORDER_STATUSES.has(status);
+
+export const fromIbOrderType = (raw: string | undefined): Order["orderType"] | null =>
+  raw ? ORDER_TYPES_BY_IB[raw] ?? null : null;
+
+const fromIbAction = (raw: string | undefined): Order["action"] | null => {
+  if (raw === "BUY" || raw === "SELL") return raw;
+  return null;
+};
+
+const isPositivePrice = (value: number | undefined): value is number =>
+  value !== undefined && Number.isFinite(value) && value > 0;
+
+export const validateOrderRequest = (order: OrderRequest): string | null => {
+  if (!order.symbol && order.conId === undefined) return "Order requires a symbol or conId";
+  if (!Number.isFinite(order.quantity) || order.quantity <= 0) return "Order quantity must be positive";
+  const needsLimit = order.orderType === "LMT" || order.orderType === "STP_LMT";
+  const needsStop = order.orderType === "STP" || order.orderType === "STP_LMT";
+  if (needsLimit && !isPositivePrice(order.limitPrice)) return `${order.orderType} order requires a limit price`;
+  if (needsStop && !isPositivePrice(order.stopPrice)) return `${order.orderType} order requires a stop price`;
+  return null;
+};
+
+export const toIbContract = (order: OrderRequest): OrderContractSeed => {
+  if (order.conId !== undefined) {
+    return {
+      conId: order.conId,
+      symbol: order.symbol || undefined,
+      currency: order.currency,
+      exchange: order.exchange ?? "SMART",
+      secType: order.secType,
+    };
+  }
+  return {
+    symbol: order.symbol,
+    currency: order.currency ?? "USD",
+    exchange: order.exchange ?? "SMART",
+    secType: order.secType ?? "STK",
+  };
+};
+
+export const toIbOrder = (order: OrderRequest): OrderTicket => {
+  const needsLimit = order.orderType === "LMT" || order.orderType === "STP_LMT";
+  const needsStop = order.orderType === "STP" || order.orderType === "STP_LMT";
+  return {
+    action: order.action,
+    totalQuantity: order.quantity,
+    orderType: IB_ORDER_TYPES[order.orderType],
+    lmtPrice: needsLimit ? order.limitPrice : undefined,
+    auxPrice: needsStop ? order.stopPrice : undefined,
+    account: order.account,
+    transmit: true,
+  };
+};
+
+// Builds an Order from an openOrder event, for orders this session did not place
+// (e.g. entered in TWS or by another API client).
+export const fromOpenOrder = (
+  orderId: number,
+  contract: OrderContractSeed,
+  ticket: OrderTicket,
+  status: OrderStatus,
+): Order | null => {
+  const action = fromIbAction(ticket.action);
+  const orderType = fromIbOrderType(ticket.orderType);
+  if (!action || !orderType) return null;
+  const quantity = ticket.totalQuantity ?? 0;
+  const needsLimit = orderType === "LMT" || orderType === "STP_LMT";
+  const needsStop = orderType === "STP" || orderType === "STP_LMT";
+
+  return {
+    id: orderId,
+    permId: ticket.permId || undefined,
+    symbol: contract.symbol ?? "",
+    action,
+    quantity,
+    orderType,
+    limitPrice: needsLimit ? ticket.lmtPrice : undefined,
+    stopPrice: needsStop ? ticket.auxPrice : undefined,
+    conId: contract.conId,
+    currency: contract.currency,
+    exchange: contract.exchange,
+    secType: contract.secType,
+    account: ticket.account || undefined,
+    status,
+    filled: 0,
+    remaining: quantity,
+    avgFillPrice: 0,
+  };
+};
+
+// IB fills what-if fields it could not compute with Number.MAX_VALUE (UNSET_DOUBLE).
+const UNSET_DOUBLE_THRESHOLD = 1e300;
+
+const fromWhatIfValue = (value: number | undefined): number | null => {
+  if (value === undefined || !Number.isFinite(value) || Math.abs(value) >= UNSET_DOUBLE_THRESHOLD) return null;
+  return value;
+};
+
+export const fromWhatIfState = (orderState: OrderStatePayload): OrderPreview => ({
+  initMarginChange: fromWhatIfValue(orderState.initMarginChange),
+  maintMarginChange: fromWhatIfValue(orderState.maintMarginChange),
+  equityWithLoanChange: fromWhatIfValue(orderState.equityWithLoanChange),
+  initMarginAfter: fromWhatIfValue(orderState.initMarginAfter),
+  maintMarginAfter: fromWhatIfValue(orderState.maintMarginAfter),
+  equityWithLoanAfter: fromWhatIfValue(orderState.equityWithLoanAfter),
+  commission: fromWhatIfValue(orderState.commission),
+  minCommission: fromWhatIfValue(orderState.minCommission),
+  maxCommission: fromWhatIfValue(orderState.maxCommission),
+  commissionCurrency: orderState.commissionCurrency || null,
+  warningText: orderState.warningText || null,
+});
@@ -0,0 +1,126 @@
+import type { Order, OrderPreview, OrderRequest } from "../../types.js";
+
+export type OrderContractSeed = {
+  conId?: number;
+  symbol?: string;
+  currency?: string;
+  exchange?: string;
+  secType?: string;
+};
+
+export type OrderTicket = {
+  orderId?: number;
+  permId?: number;
+  clientId?: number;
+  action?: string;
+  totalQuantity?: number;
+  orderType?: string;
+  lmtPrice?: number;
+  auxPrice?: number;
+  account?: string;
+  transmit?: boolean;
+  whatIf?: boolean;
+};
+
+export type OrderStatePayload = {
+  status?: string;
+  initMarginChange?: number;
+  maintMarginChange?: number;
+  equityWithLoanChange?: number;
+  initMarginAfter?: number;
+  maintMarginAfter?: number;
+  equityWithLoanAfter?: number;
+  commission?: number;
+  minCommission?: number;
+  maxCommission?: number;
+  commissionCurrency?: string;
+  warningText?: string;
+};
+
+export type OrdersEventMap = {
+  openOrder: [orderId: number, contract: OrderContractSeed, order: OrderTicket, orderState: OrderStatePayload];
+  openOrderEnd: [];
+  orderStatus: [
+    orderId: number,
+    status: string,
+    filled: number,
+    remaining: number,
+    avgFillPrice: number,
+    permId?: number,
+    parentId?: number,
+    lastFillPrice?: number,
+    clientId?: number,
+    whyHeld?: string,
+  ];
+  error: [error: Error, code: number, reqId: number, advancedOrderReject?: unknown];
+};
+
+export type OrdersApi = {
+  on<E extends keyof OrdersEventMap>(
+    event: E,
+    handler: (...args: OrdersEventMap[E]) => void,
+  ): void;
+  removeListener<E extends keyof OrdersEventMap>(
+    event: E,
+    handler: (...args: OrdersEventMap[E]) => void,
+  ): void;
+  placeOrder(orderId: number, contract: OrderContractSeed, order: OrderTicket): void;
+  reqAllOpenOrders(): void;
+};
+
+export type ExecutionPayload = {
+  execId?: string;
+  orderId?: number;
+  time?: string;
+  acctNumber?: string;
+  exchange?: string;
+  side?: string;
+  shares?: number;
+  price?: number;
+};
+
+export type CommissionReportPayload = {
+  execId?: string;
+  commission?: number;
+  currency?: string;
+  realizedPNL?: number;
+};
+
+export type ExecutionFilterSeed = {
+  acctCode?: string;
+  time?: string;
+  symbol?: string;
+};
+
+export type ExecutionFxRate = {
+  baseCurrencyCode: string;
+  rate: number;
+};
+
+export type ExecutionsEventMap = {
+  execDetails: [reqId: number, contract: OrderContractSeed, execution: ExecutionPayload];
+  execDetailsEnd: [reqId: number];
+  commissionReport: [report: CommissionReportPayload];
+};
+
+export type ExecutionsApi = {
+  on<E extends keyof ExecutionsEventMap>(
+    event: E,
+    handler: (...args: ExecutionsEventMap[E]) => void,
+  ): void;
+  removeListener<E extends keyof ExecutionsEventMap>(
+    event: E,
+    handler: (...args: ExecutionsEventMap[E]) => void,
+  ): void;
+  reqExecutions(reqId: number, filter: ExecutionFilterSeed): void;
+};
+
+export type OrderTracker = {
+  place(orderId: number, order: OrderRequest): Promise<Order>;
+  preview(orderId: number, order: OrderRequest): Promise<OrderPreview>;
+  get(orderId: number): Order | undefined;
+  list(): Order[];
+  requestOpenOrders(): Promise<Order[]>;
+  subscribe(callback: (orders: Order[]) => void): () => void;
+  dispose(): void;
+};
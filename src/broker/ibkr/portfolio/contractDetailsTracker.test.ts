@@ -38,7 +38,7 @@ describe("createContractDetailsTracker", () => {
     expect(req).toBeDefined();
     if (!req) throw new Error("expected request");
     tracker.onContractDetails(req.reqId, {
-      contract: { conId: 265598 },
+      contract: { conId: 265598, exchange: "NYSE" },
       timeZoneId: "America/New_York",
       liquidHours: "20260210:0930-1600",
       tradingHours: "20260210:0400-2000",
@@ -48,6 +48,7 @@ describe("createContractDetailsTracker", () => {
     const cached = tracker.getCachedMarketHours(265598);
     expect(cached).toEqual({
       timeZoneId: "America/New_York",
+      exchange: "NYSE",
       liquidHours: "20260210:0930-1600",
       tradingHours: "20260210:0400-2000",
     });
@@ -47,6 +47,7 @@ export const createContractDetailsTracker = (startReqId = 90_000) => {
     if (!conId) return null;
     const marketHours: PositionMarketHours = {
       timeZoneId: details.timeZoneId ?? null,
+      exchange: details.contract?.primaryExch || details.contract?.exchange || null,
       liquidHours: details.liquidHours ?? null,
       tradingHours: details.tradingHours ?? null,
     };
@@ -65,3 +66,5 @@ export const createContractDetailsTracker = (startReqId = 90_000) => {
 
   return { nextRequest, onContractDetails, onContractDetailsEnd, getCachedMarketHours };
 };
+
+export type ContractDetailsTracker = ReturnType<typeof createContractDetailsTracker>;
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import EventEmitter from "events";
+import { createHouseholdSubscription } from "./createHouseholdSubscription.js";
+
+const createMockApi = () =>
+  Object.assign(new EventEmitter(), {
+    reqAccountUpdates: vi.fn(),
+    reqContractDetails: vi.fn(),
+    reqMktData: vi.fn(),
+    reqMarketDataType: vi.fn(),
+    cancelMktData: vi.fn(),
+    reqPnL: vi.fn(),
+    cancelPnL: vi.fn(),
+    reqPnLSingle: vi.fn(),
+    cancelPnLSingle: vi.fn(),
+    removeListener: EventEmitter.prototype.removeListener,
+  });
+
+const downloadAccount = (api: ReturnType<typeof createMockApi>, accountId: string, quantity: number, cash: string) => {
+  api.emit("updateAccountValue", "NetLiquidation", "0", "USD", accountId);
+  api.emit("updatePortfolio", { symbol: "AAPL", conId: 265598, currency: "USD" }, quantity, 150, quantity * 150, 140, 0, 0, accountId);
+  api.emit("updateAccountValue", "TotalCashBalance", cash, "USD", accountId);
+  api.emit("accountDownloadEnd", accountId);
+};
+
+describe("createHouseholdSubscription", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("downloads one account at a time and emits the merged household", () => {
+    vi.useFakeTimers();
+    const api = createMockApi();
+    const callback = vi.fn();
+
+    const unsubscribe = createHouseholdSubscription({ api, accounts: ["U111", "U222"], callback });
+    expect(api.reqAccountUpdates.mock.calls).toEqual([[true, "U111"]]);
+
+    downloadAccount(api, "U111", 100, "1000");
+    expect(api.reqAccountUpdates).toHaveBeenLastCalledWith(false, "U111");
+    expect(callback).toHaveBeenLastCalledWith(expect.objectContaining({ initialLoadComplete: false }));
+
+    vi.advanceTimersByTime(0);
+    expect(api.reqAccountUpdates).toHaveBeenLastCalledWith(true, "U222");
+    downloadAccount(api, "U222", 50, "500");
+
+    expect(callback).toHaveBeenLastCalledWith(
+      expect.objectContaining({ initialLoadComplete: true, totalEquity: 150 * 150 + 1_500 }),
+    );
+    unsubscribe();
+  });
+
+  it("keeps the last complete download on screen while refreshing an account", () => {
+    vi.useFakeTimers();
+    const api = createMockApi();
+    const callback = vi.fn();
+
+    createHouseholdSubscription({ api, accounts: ["U111"], callback, refreshIntervalMs: 60_000 });
+    downloadAccount(api, "U111", 100, "1000");
+    const callsAfterFirstPass = callback.mock.calls.length;
+
+    vi.advanceTimersByTime(60_000);
+    expect(api.reqAccountUpdates).toHaveBeenLastCalledWith(true, "U111");
+    api.emit("updatePortfolio", { symbol: "AAPL", conId: 265598, currency: "USD" }, 10, 150, 1_500, 140, 0, 0, "U111");
+    expect(callback).toHaveBeenCalledTimes(callsAfterFirstPass);
+
+    api.emit("accountDownloadEnd", "U111");
+    expect(callback).toHaveBeenLastCalledWith(expect.objectContaining({ positionsMarketValue: 1_500 }));
+  });
+
+  it("moves on when an account download stalls and stops the active stream on unsubscribe", () => {
+    vi.useFakeTimers();
+    const api = createMockApi();
+    const log = vi.fn();
+
+    const unsubscribe = createHouseholdSubscription({
+      api,
+      accounts: ["U111", "U222"],
+      callback: vi.fn(),
+      log,
+      downloadTimeoutMs: 30_000,
+    });
+
+    vi.advanceTimersByTime(30_000);
+    expect(log).toHaveBeenCalledWith("warn", "subscription.household", expect.stringContaining("account=U111"));
+    expect(api.reqAccountUpdates.mock.calls).toEqual([
+      [true, "U111"],
+      [false, "U111"],
+      [true, "U222"],
+    ]);
+
+    unsubscribe();
+    expect(api.reqAccountUpdates).toHaveBeenLastCalledWith(false, "U222");
+    expect(api.listenerCount("updatePortfolio")).toBe(0);
+  });
+});
@@ -0,0 +1,182 @@
+import { EventName } from "@stoqey/ib";
+import type { HouseholdUpdate } from "../../types.js";
+import { createPortfolioProjection } from "./portfolioProjection.js";
+import { mergeHouseholdPortfolios } from "./householdProjection.js";
+import type { PortfolioApi, PortfolioContractSeed, PortfolioProjection, PortfolioSnapshot } from "./types.js";
+import { noopLog } from "../../../utils/logger.js";
+import type { LogFn } from "../../../utils/logger.js";
+
+// reqAccountUpdates pushes changes roughly every three minutes, so a pass over
+// every account each minute keeps the household about as fresh.
+const DEFAULT_REFRESH_INTERVAL_MS = 60_000;
+const ACCOUNT_DOWNLOAD_TIMEOUT_MS = 30_000;
+
+type Params = {
+  api: PortfolioApi;
+  accounts: string[] | (() => string[]);
+  callback: (update: HouseholdUpdate) => void;
+  // Called with each account's portfolio once its download completes.
+  onAccountSnapshot?: (accountId: string, portfolio: PortfolioSnapshot) => void;
+  now?: () => number;
+  log?: LogFn;
+  refreshIntervalMs?: number;
+  downloadTimeoutMs?: number;
+};
+
+/**
+ * Streams every managed account into its own projection and emits the merged
+ * household. IB only allows one reqAccountUpdates subscription at a time, so
+ * accounts are downloaded in turn; each account's last complete download stays
+ * on screen while the next pass reloads it.
+ */
+export const createHouseholdSubscription = ({
+  api,
+  accounts: accountsOrFn,
+  callback,
+  onAccountSnapshot = () => {},
+  now = () => Date.now(),
+  log = noopLog,
+  refreshIntervalMs = DEFAULT_REFRESH_INTERVAL_MS,
+  downloadTimeoutMs = ACCOUNT_DOWNLOAD_TIMEOUT_MS,
+}: Params): (() => void) => {
+  const getAccounts = typeof accountsOrFn === "function" ? accountsOrFn : () => accountsOrFn;
+  const completed = new Map<string, PortfolioProjection>();
+  let loading: { accountId: string; projection: PortfolioProjection } | null = null;
+  let queue: string[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const clearTimer = (): void => {
+    if (timer === null) return;
+    clearTimeout(timer);
+    timer = null;
+  };
+
+  const emit = (): void => {
+    const accountIds = getAccounts();
+    const portfolios = accountIds.flatMap((accountId) => {
+      const projection = completed.get(accountId) ?? (loading?.accountId === accountId ? loading.projection : null);
+      return projection ? [{ accountId, portfolio: projection.snapshot() }] : [];
+    });
+    const merged = mergeHouseholdPortfolios(portfolios);
+    callback({
+      ...merged,
+      initialLoadComplete: merged.initialLoadComplete && portfolios.length === accountIds.length,
+    });
+  };
+
+  const stopLoading = (): void => {
+    if (!loading) return;
+    api.reqAccountUpdates(false, loading.accountId);
+    loading = null;
+  };
+
+  const loadNext = (): void => {
+    if (stopped) return;
+    if (queue.length === 0) queue = [...getAccounts()];
+    const accountId = queue.shift();
+    if (!accountId) {
+      log("debug", "subscription.household", "no managed accounts yet");
+      scheduleNext(refreshIntervalMs);
+      return;
+    }
+
+    loading = { accountId, projection: createPortfolioProjection(now) };
+    log("debug", "subscription.household", `reqAccountUpdates start account=${accountId} remaining=${queue.length}`);
+    api.reqAccountUpdates(true, accountId);
+    scheduleNext(downloadTimeoutMs);
+  };
+
+  // One timer paces the passes and bounds each download: if it fires while an
+  // account is still loading, that account keeps its previous figures.
+  const scheduleNext = (delayMs: number): void => {
+    clearTimer();
+    timer = setTimeout(() => {
+      timer = null;
+      if (loading) {
+        log("warn", "subscription.household", `account download timed out account=${loading.accountId}`);
+        stopLoading();
+      }
+      loadNext();
+    }, delayMs);
+    if (typeof timer.unref === "function") timer.unref();
+  };
+
+  const finishAccount = (): void => {
+    if (!loading) return;
+    loading.projection.markInitialLoadComplete();
+    completed.set(loading.accountId, loading.projection);
+    onAccountSnapshot(loading.accountId, loading.projection.snapshot());
+    stopLoading();
+    emit();
+    scheduleNext(queue.length > 0 ? 0 : refreshIntervalMs);
+  };
+
+  const loadingFor = (accountName?: string): PortfolioProjection | null => {
+    if (!loading) return null;
+    if (accountName && accountName !== loading.accountId) return null;
+    return loading.projection;
+  };
+
+  // Reloads stay off screen until they complete; a first download is shown live.
+  const emitIfFirstLoad = (): void => {
+    if (loading && !completed.has(loading.accountId)) emit();
+  };
+
+  const onPortfolioUpdate = (
+    contract: PortfolioContractSeed,
+    pos: number,
+    marketPrice: number,
+    marketValue: number,
+    avgCost?: number,
+    unrealizedPnL?: number,
+    realizedPnL?: number,
+    accountName?: string,
+  ) => {
+    const projection = loadingFor(accountName);
+    if (!projection || contract.conId === undefined || contract.conId === null) return;
+    projection.applyPortfolioUpdate({ contract, pos, marketPrice, marketValue, avgCost, unrealizedPnL, realizedPnL });
+    emitIfFirstLoad();
+  };
+
+  const onAccountValue = (key: string, value: string, currency: string, accountName: string) => {
+    const projection = loadingFor(accountName);
+    if (!projection) return;
+    if ((key === "TotalCashValue" || key === "NetLiquidation") && currency) {
+      projection.setBaseCurrency(currency);
+    } else if (key === "TotalCashBalance" && currency) {
+      projection.applyCashBalance(currency, value);
+    } else if (key === "ExchangeRate" && currency) {
+      projection.applyExchangeRate(currency, value);
+    } else {
+      return;
+    }
+    emitIfFirstLoad();
+  };
+
+  const onAccountDownloadEnd = (accountName: string) => {
+    if (!loading || accountName !== loading.accountId) return;
+    log("debug", "subscription.household", `accountDownloadEnd account=${accountName}`);
+    finishAccount();
+  };
+
+  api.on(EventName.updatePortfolio, onPortfolioUpdate);
+  api.on(EventName.updateAccountValue, onAccountValue);
+  api.on(EventName.accountDownloadEnd, onAccountDownloadEnd);
+
+  log("info", "subscription.household", `household start accounts=${getAccounts().join(",") || "<pending>"}`);
+  loadNext();
+
+  return () => {
+    stopped = true;
+    clearTimer();
+    api.removeListener(EventName.updatePortfolio, onPortfolioUpdate);
+    api.removeListener(EventName.updateAccountValue, onAccountValue);
+    api.removeListener(EventName.accountDownloadEnd, onAccountDownloadEnd);
+    if (loading) {
+      log("info", "subscription.household", `reqAccountUpdates stop account=${loading.accountId}`);
+    }
+    stopLoading();
+    log("info", "subscription.household", "household stop");
+  };
+};
@@ -1,4 +1,4 @@
-import { describe, expect, it, vi } from "vitest";
+import { afterEach, describe, expect, it, vi } from "vitest";
 import EventEmitter from "events";
 import { createPortfolioSubscription } from "./createPortfolioSubscription.js";
 
@@ -9,10 +9,18 @@ const createMockApi = () =>
     reqMktData: vi.fn(),
     reqMarketDataType: vi.fn(),
     cancelMktData: vi.fn(),
+    reqPnL: vi.fn(),
+    cancelPnL: vi.fn(),
+    reqPnLSingle: vi.fn(),
+    cancelPnLSingle: vi.fn(),
     removeListener: EventEmitter.prototype.removeListener,
   });
 
 describe("createPortfolioSubscription", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
   it("subscribes and unsubscribes account updates", () => {
     const api = createMockApi();
     const callback = vi.fn();
@@ -28,6 +36,47 @@ describe("createPortfolioSubscription", () => {
     expect(api.reqAccountUpdates).toHaveBeenCalledWith(false, "DU123456");
   });
 
+  it("stops the account stream it started and tags snapshots with the account after a switch", () => {
+    const api = createMockApi();
+    const callback = vi.fn();
+    let currentAccountId = "U111";
+
+    const unsubscribe = createPortfolioSubscription({
+      api,
+      accountId: () => currentAccountId,
+      callback,
+    });
+    api.emit("accountDownloadEnd", "U111");
+    expect(callback).toHaveBeenLastCalledWith(expect.objectContaining({ accountId: "U111" }));
+
+    currentAccountId = "U222";
+    unsubscribe();
+
+    expect(api.reqAccountUpdates).toHaveBeenCalledWith(true, "U111");
+    expect(api.reqAccountUpdates).toHaveBeenLastCalledWith(false, "U111");
+  });
+
+  it("captures margin keys from the account value stream without a second subscription", () => {
+    const api = createMockApi();
+    const callback = vi.fn();
+    const log = vi.fn();
+
+    createPortfolioSubscription({ api, accountId: "DU123456", callback, log });
+    api.emit("updateAccountValue", "MaintMarginReq", "7000", "USD", "DU123456");
+    api.emit("updateAccountValue", "AvailableFunds", "12000", "USD", "DU123456");
+    api.emit("updateAccountValue", "AvailableFunds", "12000", "USD", "DU123456");
+    api.emit("updateAccountValue", "AccountType", "INDIVIDUAL", "", "DU123456");
+
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(callback).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        accountValues: expect.objectContaining({ maintMarginReq: 7_000, availableFunds: 12_000, buyingPower: null }),
+      }),
+    );
+    expect(log).toHaveBeenCalledWith("debug", "event.accountValue", "ignored key=AccountType currency=");
+    expect(api.reqAccountUpdates).toHaveBeenCalledTimes(1);
+  });
+
   it("filters events using current accountId when passed as getter", () => {
     const api = createMockApi();
     const callback = vi.fn();
@@ -108,6 +157,7 @@ describe("createPortfolioSubscription", () => {
     expect(position).toBeDefined();
     expect(position.marketHours).toEqual({
       timeZoneId: "America/New_York",
+      exchange: null,
       liquidHours: "20260210:0930-1600",
       tradingHours: "20260210:0400-2000",
     });
@@ -144,6 +194,30 @@ describe("createPortfolioSubscription", () => {
     expect(call[1]).toMatchObject({ symbol: "EUR", currency: "USD", exchange: "IDEALPRO", secType: "CASH" });
   });
 
+  it("counts watchdog warnings and emits when a new one is logged", () => {
+    vi.useFakeTimers();
+    const api = createMockApi();
+    const callback = vi.fn();
+
+    createPortfolioSubscription({ api, accountId: "DU123456", callback });
+    api.emit("updateAccountValue", "TotalCashValue", "1000", "USD", "DU123456");
+    api.emit(
+      "updatePortfolio",
+      { symbol: "SAP", conId: 100, currency: "EUR", exchange: "SMART", secType: "STK" },
+      50, 200.0, 10000, 180.0, 1000, 0, "DU123456"
+    );
+    api.emit("accountDownloadEnd", "DU123456");
+    expect(callback).toHaveBeenLastCalledWith(expect.objectContaining({ watchdogWarnings: 0 }));
+
+    // Neither contract details nor FX ticks arrive within 20s.
+    vi.advanceTimersByTime(20_000);
+    expect(callback).toHaveBeenLastCalledWith(expect.objectContaining({ watchdogWarnings: 2 }));
+
+    const calls = callback.mock.calls.length;
+    vi.advanceTimersByTime(5_000);
+    expect(callback).toHaveBeenCalledTimes(calls);
+  });
+
   it("creates only one FX subscription for currency shared by cash and position", () => {
     const api = createMockApi();
     const callback = vi.fn();
@@ -284,4 +358,117 @@ describe("createPortfolioSubscription", () => {
     const afterMark = callback.mock.calls.at(-1)?.[0];
     expect(afterMark.cashBalancesByCurrency.EUR).toBeCloseTo(630, 6);
   });
+
+  it("does not request position market data unless live pricing is enabled", () => {
+    const api = createMockApi();
+
+    createPortfolioSubscription({ api, accountId: "DU123456", callback: vi.fn(), livePositionPrices: false });
+
+    api.emit("updatePortfolio", { symbol: "AAPL", conId: 265598, currency: "USD" }, 100, 150, 15000, 140, 1000, 0, "DU123456");
+    api.emit("accountDownloadEnd", "DU123456");
+
+    expect(api.reqMktData).not.toHaveBeenCalled();
+  });
+
+  it("prices the largest positions live up to the line cap and throttles snapshots", () => {
+    vi.useFakeTimers();
+    const api = createMockApi();
+    const callback = vi.fn();
+
+    createPortfolioSubscription({
+      api,
+      accountId: "DU123456",
+      callback,
+      livePositionPrices: true,
+      maxPositionPriceLines: 1,
+    });
+
+    api.emit("updateAccountValue", "TotalCashValue", "1000", "USD", "DU123456");
+    api.emit("updatePortfolio", { symbol: "AAPL", conId: 265598, currency: "USD", exchange: "NASDAQ" }, 100, 150, 15000, 140, 1000, 0, "DU123456");
+    api.emit("updatePortfolio", { symbol: "MSFT", conId: 272093, currency: "USD" }, 10, 300, 3000, 280, 200, 0, "DU123456");
+    expect(api.reqMktData).not.toHaveBeenCalled();
+
+    api.emit("accountDownloadEnd", "DU123456");
+    expect(api.reqMktData).toHaveBeenCalledTimes(1);
+    expect(api.reqMktData).toHaveBeenCalledWith(750_000, { conId: 265598, exchange: "NASDAQ" }, "", false, false);
+
+    const callsBeforeTicks = callback.mock.calls.length;
+    api.emit("tickPrice", 750_000, 4, 151, true);
+    api.emit("tickPrice", 750_000, 4, 152, true);
+    expect(callback).toHaveBeenCalledTimes(callsBeforeTicks);
+
+    vi.advanceTimersByTime(1_000);
+    expect(callback).toHaveBeenCalledTimes(callsBeforeTicks + 1);
+    const update = callback.mock.calls.at(-1)?.[0];
+    expect(update.positions.find((p: { conId: number }) => p.conId === 265598)).toEqual(
+      expect.objectContaining({ marketPrice: 152, marketValue: 15200, unrealizedPnL: 1200 }),
+    );
+    expect(update.positionsUnrealizedPnL).toBe(1400);
+  });
+
+  it("hands a freed line to the next position when one closes or errors", () => {
+    const api = createMockApi();
+
+    const unsubscribe = createPortfolioSubscription({
+      api,
+      accountId: "DU123456",
+      callback: vi.fn(),
+      livePositionPrices: true,
+      maxPositionPriceLines: 1,
+    });
+
+    const aapl = { symbol: "AAPL", conId: 265598, currency: "USD" };
+    api.emit("updatePortfolio", aapl, 100, 150, 15000, 140, 1000, 0, "DU123456");
+    api.emit("updatePortfolio", { symbol: "MSFT", conId: 272093, currency: "USD" }, 10, 300, 3000, 280, 200, 0, "DU123456");
+    api.emit("updatePortfolio", { symbol: "IBM", conId: 8314, currency: "USD" }, 5, 200, 1000, 190, 50, 0, "DU123456");
+    api.emit("accountDownloadEnd", "DU123456");
+
+    api.emit("updatePortfolio", aapl, 0, 150, 0, 140, 0, 0, "DU123456");
+    expect(api.cancelMktData).toHaveBeenCalledWith(750_000);
+    expect(api.reqMktData).toHaveBeenLastCalledWith(750_001, { conId: 272093, exchange: "SMART" }, "", false, false);
+
+    api.emit("error", new Error("No market data permissions"), 354, 750_001);
+    expect(api.cancelMktData).toHaveBeenCalledWith(750_001);
+    expect(api.reqMktData).toHaveBeenLastCalledWith(750_002, { conId: 8314, exchange: "SMART" }, "", false, false);
+
+    unsubscribe();
+    expect(api.cancelMktData).toHaveBeenCalledWith(750_002);
+  });
+
+  it("fills Day P&L from reqPnL and reqPnLSingle and cancels them with the positions", () => {
+    const api = createMockApi();
+    const callback = vi.fn();
+
+    const unsubscribe = createPortfolioSubscription({ api, accountId: "DU123456", callback });
+
+    const aapl = { symbol: "AAPL", conId: 265598, currency: "USD" };
+    api.emit("updatePortfolio", aapl, 100, 150, 15000, 140, 1000, 0, "DU123456");
+    api.emit("updatePortfolio", { symbol: "MSFT", conId: 272093, currency: "USD" }, 10, 300, 3000, 280, 200, 0, "DU123456");
+    api.emit("accountDownloadEnd", "DU123456");
+
+    expect(api.reqPnL).toHaveBeenCalledWith(760_000, "DU123456", null);
+    expect(api.reqPnLSingle).toHaveBeenCalledWith(760_001, "DU123456", null, 265598);
+    expect(api.reqPnLSingle).toHaveBeenCalledWith(760_002, "DU123456", null, 272093);
+
+    api.emit("pnlSingle", 760_001, 100, 250, 1000, 0, 15000);
+    api.emit("pnlSingle", 760_002, 10, Number.MAX_VALUE, 200, 0, 3000);
+    api.emit("pnl", 760_000, 310, 1200, 0);
+
+    const update = callback.mock.calls.at(-1)?.[0];
+    expect(update.positions.find((p: { conId: number }) => p.conId === 265598)?.dailyPnL).toBe(250);
+    expect(update.positions.find((p: { conId: number }) => p.conId === 272093)?.dailyPnL).toBe(0);
+    expect(update.positionsDailyPnL).toBe(250);
+    expect(update.dailyPnL).toBe(310);
+
+    // A later account update keeps the streamed Day P&L.
+    api.emit("updatePortfolio", aapl, 100, 151, 15100, 140, 1100, 0, "DU123456");
+    expect(callback.mock.calls.at(-1)?.[0].positionsDailyPnL).toBe(250);
+
+    api.emit("updatePortfolio", aapl, 0, 151, 0, 140, 0, 0, "DU123456");
+    expect(api.cancelPnLSingle).toHaveBeenCalledWith(760_001);
+
+    unsubscribe();
+    expect(api.cancelPnLSingle).toHaveBeenCalledWith(760_002);
+    expect(api.cancelPnL).toHaveBeenCalledWith(760_000);
+  });
 });
@@ -1,35 +1,36 @@
 import { EventName } from "@stoqey/ib";
 import type { PortfolioUpdate } from "../../types.js";
-import { createPortfolioProjection } from "./portfolioProjection.js";
+import { ACCOUNT_VALUE_KEYS, createPortfolioProjection } from "./portfolioProjection.js";
 import { createContractDetailsTracker } from "./contractDetailsTracker.js";
+import { createPositionPriceLines } from "./positionPriceLines.js";
+import { createPnLSubscriptions } from "./pnlSubscriptions.js";
+import {
+  applyPriceTick,
+  MARKET_DATA_TYPE_DELAYED,
+  TICK_ASK,
+  TICK_BID,
+  TICK_DELAYED_ASK,
+  TICK_DELAYED_BID,
+  TICK_DELAYED_LAST,
+  TICK_DELAYED_MARK,
+  TICK_LAST,
+  TICK_MARK,
+} from "../market-data/ticks.js";
+import type { TickQuote } from "../market-data/ticks.js";
 import type { PortfolioApi, PortfolioContractSeed, ContractDetailsPayload } from "./types.js";
-import type { LogLevel } from "../../../utils/logger.js";
+import { noopLog } from "../../../utils/logger.js";
+import type { LogFn } from "../../../utils/logger.js";
 
-type LogFn = (level: LogLevel, stream: string, detail: string) => void;
-
-const noop: LogFn = () => {};
 const FX_REQ_ID_START = 700_000;
+const POSITION_PRICE_REQ_ID_START = 750_000;
+const PNL_REQ_ID_START = 760_000;
+const DEFAULT_POSITION_PRICE_LINES = 50;
+const LIVE_PRICE_EMIT_INTERVAL_MS = 1_000;
 const CONTRACT_DETAILS_TIMEOUT_MS = 20_000;
 const FX_INITIAL_TICK_TIMEOUT_MS = 20_000;
 const FX_RATE_TIMEOUT_MS = 20_000;
 const FX_STALE_RECOVERY_MS = 60_000;
 const WATCHDOG_INTERVAL_MS = 5_000;
-const TICK_BID = 1;
-const TICK_ASK = 2;
-const TICK_LAST = 4;
-const TICK_MARK = 37;
-const TICK_DELAYED_BID = 66;
-const TICK_DELAYED_ASK = 67;
-const TICK_DELAYED_LAST = 68;
-const TICK_DELAYED_MARK = 79;
-const MARKET_DATA_TYPE_DELAYED = 3;
-
-type FxQuoteState = {
-  bid?: number;
-  ask?: number;
-  last?: number;
-  mark?: number;
-};
 
 type ContractDetailsRequestState = {
   conId: number;
@@ -58,9 +59,26 @@ type Params = {
   callback: (update: PortfolioUpdate) => void;
   now?: () => number;
   log?: LogFn;
+  // Opt-in reqMktData per held position; defaults to IBKR_LIVE_POSITION_PRICES=1.
+  livePositionPrices?: boolean;
+  // Cap on position market-data lines; defaults to IBKR_POSITION_PRICE_LINES or 50.
+  maxPositionPriceLines?: number;
+};
+
+const parseLineCap = (raw: string | undefined): number => {
+  const parsed = Number.parseInt(raw ?? "", 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_POSITION_PRICE_LINES;
 };
 
-export const createPortfolioSubscription = ({ api, accountId: accountIdOrFn, callback, now = () => Date.now(), log = noop }: Params): (() => void) => {
+export const createPortfolioSubscription = ({
+  api,
+  accountId: accountIdOrFn,
+  callback,
+  now = () => Date.now(),
+  log = noopLog,
+  livePositionPrices = process.env.IBKR_LIVE_POSITION_PRICES === "1",
+  maxPositionPriceLines = parseLineCap(process.env.IBKR_POSITION_PRICE_LINES),
+}: Params): (() => void) => {
   const projection = createPortfolioProjection(now);
   const tracker = createContractDetailsTracker();
   const liveFxEnabled = process.env.IBKR_DISABLE_LIVE_FX !== "1";
@@ -68,19 +86,82 @@ export const createPortfolioSubscription = ({ api, accountId: accountIdOrFn, cal
   const positionCurrencies = new Set<string>();
   const fxReqIdByCurrency = new Map<string, number>();
   const fxCurrencyByReqId = new Map<number, string>();
-  const fxQuoteByReqId = new Map<number, FxQuoteState>();
+  const fxQuoteByReqId = new Map<number, TickQuote>();
   const liveFxRateCurrencies = new Set<string>();
   const lastAppliedFxRateByCurrency = new Map<string, number>();
   const pendingContractDetailsByReqId = new Map<number, ContractDetailsRequestState>();
   const fxRequestStateByReqId = new Map<number, FxRequestState>();
+  const positionContractsByConId = new Map<number, PortfolioContractSeed>();
   let nextFxReqId = FX_REQ_ID_START;
   let baseCurrencyCode: string | null = null;
   let initialAccountDownloadComplete = false;
-  let requestedDelayedFxMarketDataType = false;
+  let requestedDelayedMarketDataType = false;
+  let liveEmitTimer: ReturnType<typeof setTimeout> | null = null;
+  let watchdogWarnings = 0;
 
   const getAccountId = typeof accountIdOrFn === "function" ? accountIdOrFn : () => accountIdOrFn;
 
-  const emit = () => callback(projection.snapshot());
+  const emit = () => callback({ accountId: getAccountId() || null, ...projection.snapshot(), watchdogWarnings });
+
+  // Live position ticks can arrive many times a second; coalesce them into at
+  // most one snapshot per interval.
+  const scheduleLiveEmit = (): void => {
+    if (liveEmitTimer !== null) return;
+    liveEmitTimer = setTimeout(() => {
+      liveEmitTimer = null;
+      emit();
+    }, LIVE_PRICE_EMIT_INTERVAL_MS);
+    if (typeof liveEmitTimer.unref === "function") liveEmitTimer.unref();
+  };
+
+  const requestDelayedMarketDataType = (reason: string): void => {
+    if (requestedDelayedMarketDataType || !api.reqMarketDataType) return;
+    api.reqMarketDataType(MARKET_DATA_TYPE_DELAYED);
+    requestedDelayedMarketDataType = true;
+    log("info", "subscription.marketData", `reqMarketDataType=3 (delayed) for ${reason} fallback`);
+  };
+
+  const positionPrices = livePositionPrices
+    ? createPositionPriceLines({
+      api,
+      maxLines: maxPositionPriceLines,
+      startReqId: POSITION_PRICE_REQ_ID_START,
+      beforeRequest: () => requestDelayedMarketDataType("position price"),
+      onPrice: (conId, price) => {
+        if (projection.applyMarketPrice(conId, price)) scheduleLiveEmit();
+      },
+      log,
+    })
+    : null;
+
+  const pnl = createPnLSubscriptions({
+    api,
+    startReqId: PNL_REQ_ID_START,
+    onAccountDailyPnL: (dailyPnL) => {
+      projection.applyAccountDailyPnL(dailyPnL);
+      emit();
+    },
+    onPositionDailyPnL: (conId, dailyPnL) => {
+      if (projection.applyDailyPnL(conId, dailyPnL)) emit();
+    },
+    log,
+  });
+
+  const syncPnL = (): void => {
+    if (!initialAccountDownloadComplete) return;
+    pnl.sync(Array.from(positionContractsByConId.keys()));
+  };
+
+  const syncPositionPrices = (): void => {
+    if (!positionPrices || !initialAccountDownloadComplete) return;
+    const candidates = projection.snapshot().positions.flatMap((position) => {
+      const contract = positionContractsByConId.get(position.conId);
+      if (!contract) return [];
+      const weight = Math.abs(position.marketValueBase ?? position.marketValue);
+      return [{ conId: position.conId, contract, weight }];
+    });
+    positionPrices.sync(candidates);
+  };
   const accountMatches = (name?: string) => {
     const current = getAccountId();
     return !current || name === current;
@@ -118,11 +199,7 @@ export const createPortfolioSubscription = ({ api, accountId: accountIdOrFn, cal
 
     log("info", "subscription.fx", `reqMktData start reqId=${reqId} pair=${currency}.${baseCurrencyCode}`);
     try {
-      if (!requestedDelayedFxMarketDataType && api.reqMarketDataType) {
-        api.reqMarketDataType(MARKET_DATA_TYPE_DELAYED);
-        requestedDelayedFxMarketDataType = true;
-        log("info", "subscription.fx", "reqMarketDataType=3 (delayed) for FX fallback");
-      }
+      requestDelayedMarketDataType("FX");
       api.reqMktData(reqId, contract, "", false, false);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -179,7 +256,7 @@ export const createPortfolioSubscription = ({ api, accountId: accountIdOrFn, cal
     if (initialAccountDownloadComplete) ensureFxSubscriptions();
   };
 
-  const calculateFxRate = (quote: FxQuoteState, tickType: number): number | null => {
+  const calculateFxRate = (quote: TickQuote, tickType: number): number | null => {
     const mid =
       quote.bid !== undefined && quote.ask !== undefined && quote.bid > 0 && quote.ask > 0
         ? (quote.bid + quote.ask) / 2
@@ -214,6 +291,7 @@ export const createPortfolioSubscription = ({ api, accountId: accountIdOrFn, cal
   const runWatchdog = (): void => {
     const currentMs = now();
     const fxRecoveryQueue: string[] = [];
+    const warningsBefore = watchdogWarnings;
 
     for (const [reqId, state] of pendingContractDetailsByReqId.entries()) {
       if (state.sawDetails || state.sawError) continue;
@@ -221,6 +299,7 @@ export const createPortfolioSubscription = ({ api, accountId: accountIdOrFn, cal
       if (ageMs < CONTRACT_DETAILS_TIMEOUT_MS) continue;
       if (state.lastWarnAtMs !== null && currentMs - state.lastWarnAtMs < CONTRACT_DETAILS_TIMEOUT_MS) continue;
       state.lastWarnAtMs = currentMs;
+      watchdogWarnings++;
       log(
         "warn",
         "watchdog.contractDetails",
@@ -237,6 +316,7 @@ export const createPortfolioSubscription = ({ api, accountId: accountIdOrFn, cal
       state.lastWarnAtMs = currentMs;
 
       if (!state.sawAnyTick) {
+        watchdogWarnings++;
         log(
           "warn",
           "watchdog.fx",
@@ -244,6 +324,7 @@ export const createPortfolioSubscription = ({ api, accountId: accountIdOrFn, cal
         );
       } else if (!state.sawRate) {
         const sinceLastTickMs = state.lastTickAtMs === null ? -1 : currentMs - state.lastTickAtMs;
+        watchdogWarnings++;
         log(
           "warn",
           "watchdog.fx",
@@ -255,6 +336,7 @@ export const createPortfolioSubscription = ({ api, accountId: accountIdOrFn, cal
       if (state.sawRate && state.lastRateAtMs !== null) {
         const sinceLastRateMs = currentMs - state.lastRateAtMs;
         if (sinceLastRateMs >= FX_STALE_RECOVERY_MS) {
+          watchdogWarnings++;
           log(
             "warn",
             "watchdog.fx",
@@ -268,6 +350,7 @@ export const createPortfolioSubscription = ({ api, accountId: accountIdOrFn, cal
     for (const currency of fxRecoveryQueue) {
       resubscribeFx(currency);
     }
+    if (watchdogWarnings !== warningsBefore) emit();
   };
 
   const onPortfolioUpdate = (
@@ -294,6 +377,13 @@ export const createPortfolioSubscription = ({ api, accountId: accountIdOrFn, cal
       return;
     }
     projection.applyPortfolioUpdate({ contract, pos, marketPrice, marketValue, avgCost, unrealizedPnL, realizedPnL });
+    if (pos === 0) {
+      positionContractsByConId.delete(contract.conId);
+    } else {
+      positionContractsByConId.set(contract.conId, contract);
+    }
+    syncPositionPrices();
+    syncPnL();
     if (pos !== 0 && contract.currency && contract.currency !== "BASE") {
       positionCurrencies.add(contract.currency);
       if (initialAccountDownloadComplete) ensureFxSubscription(contract.currency);
@@ -333,6 +423,10 @@ export const createPortfolioSubscription = ({ api, accountId: accountIdOrFn, cal
 
     updateBaseCurrencyCode(key, currency);
 
+    if (ACCOUNT_VALUE_KEYS.has(key)) {
+      if (projection.applyAccountValue(key, value)) emit();
+      return;
+    }
     if (key !== "TotalCashBalance" && key !== "ExchangeRate") {
       log("debug", "event.accountValue", `ignored key=${key} currency=${currency}`);
       return;
@@ -360,6 +454,7 @@ export const createPortfolioSubscription = ({ api, accountId: accountIdOrFn, cal
   };
 
   const onTickPrice = (reqId: number, tickType: number, price: number) => {
+    if (positionPrices?.onTickPrice(reqId, tickType, price)) return;
     const currency = fxCurrencyByReqId.get(reqId);
     if (!currency) return;
     if (!Number.isFinite(price) || price <= 0) return;
@@ -367,17 +462,8 @@ export const createPortfolioSubscription = ({ api, accountId: accountIdOrFn, cal
     const quote = fxQuoteByReqId.get(reqId) ?? {};
     const fxState = markFxTick(reqId);
 
-    if (tickType === TICK_BID || tickType === TICK_DELAYED_BID) {
-      quote.bid = price;
-    } else if (tickType === TICK_ASK || tickType === TICK_DELAYED_ASK) {
-      quote.ask = price;
-    } else if (tickType === TICK_MARK || tickType === TICK_DELAYED_MARK) {
-      quote.mark = price;
-    } else if (tickType === TICK_LAST || tickType === TICK_DELAYED_LAST) {
-      quote.last = price;
-    } else {
-      return;
-    }
+    const field = applyPriceTick(quote, tickType, price);
+    if (field === null || field === "close") return;
 
     log("debug", "event.tickPrice.fx", `reqId=${reqId} currency=${currency} tickType=${tickType} price=${price}`);
     fxQuoteByReqId.set(reqId, quote);
@@ -444,7 +530,21 @@ export const createPortfolioSubscription = ({ api, accountId: accountIdOrFn, cal
     log("debug", "event.tickSnapshotEnd.fx", `reqId=${reqId} currency=${currency}`);
   };
 
+  const onPnL = (reqId: number, dailyPnL: number) => {
+    pnl.onPnL(reqId, dailyPnL);
+  };
+
+  const onPnLSingle = (reqId: number, _pos: number, dailyPnL: number) => {
+    pnl.onPnLSingle(reqId, dailyPnL);
+  };
+
   const onError = (error: Error, code: number, reqId: number) => {
+    if (pnl.onError(reqId, code, error.message)) return;
+    if (positionPrices?.onError(reqId, code, error.message)) {
+      syncPositionPrices();
+      return;
+    }
+
     const contractState = pendingContractDetailsByReqId.get(reqId);
     if (contractState) {
       contractState.sawError = true;
@@ -478,6 +578,9 @@ export const createPortfolioSubscription = ({ api, accountId: accountIdOrFn, cal
     initialAccountDownloadComplete = true;
     projection.markInitialLoadComplete();
     ensureFxSubscriptions();
+    pnl.start(getAccountId() || accountName);
+    syncPnL();
+    syncPositionPrices();
     log(
       "info",
       "subscription.watchdog",
@@ -528,6 +631,8 @@ export const createPortfolioSubscription = ({ api, accountId: accountIdOrFn, cal
   api.on(EventName.accountDownloadEnd, onAccountDownloadEnd);
   api.on(EventName.contractDetails, onContractDetails);
   api.on(EventName.contractDetailsEnd, onContractDetailsEnd);
+  api.on(EventName.pnl, onPnL);
+  api.on(EventName.pnlSingle, onPnLSingle);
   api.on(EventName.tickPrice, onTickPrice);
   api.on(EventName.tickSize, onTickSize);
   api.on(EventName.tickGeneric, onTickGeneric);
@@ -538,21 +643,32 @@ export const createPortfolioSubscription = ({ api, accountId: accountIdOrFn, cal
 
   log("info", "subscription", `portfolio start account=${getAccountId() || "<pending>"}`);
   log("info", "subscription.fx", `live fx ${liveFxEnabled ? "enabled" : "disabled"}`);
+  log(
+    "info",
+    "subscription.positionPrice",
+    livePositionPrices ? `live position prices enabled maxLines=${maxPositionPriceLines}` : "live position prices disabled"
+  );
   log(
     "info",
     "subscription.watchdog",
     `enabled contractDetailsTimeoutMs=${CONTRACT_DETAILS_TIMEOUT_MS} fxInitialTickTimeoutMs=${FX_INITIAL_TICK_TIMEOUT_MS} fxRateTimeoutMs=${FX_RATE_TIMEOUT_MS} intervalMs=${WATCHDOG_INTERVAL_MS}`
   );
-  api.reqAccountUpdates(true, getAccountId());
+  // Stop the same account stream that was started, even if the broker has since
+  // switched accounts.
+  const requestedAccountId = getAccountId();
+  api.reqAccountUpdates(true, requestedAccountId);
 
   return () => {
     clearInterval(watchdog);
+    if (liveEmitTimer !== null) clearTimeout(liveEmitTimer);
     api.removeListener(EventName.updatePortfolio, onPortfolioUpdate);
     api.removeListener(EventName.updateAccountValue, onAccountValue);
     api.removeListener(EventName.updateAccountTime, onAccountTime);
     api.removeListener(EventName.accountDownloadEnd, onAccountDownloadEnd);
     api.removeListener(EventName.contractDetails, onContractDetails);
     api.removeListener(EventName.contractDetailsEnd, onContractDetailsEnd);
+    api.removeListener(EventName.pnl, onPnL);
+    api.removeListener(EventName.pnlSingle, onPnLSingle);
     api.removeListener(EventName.tickPrice, onTickPrice);
     api.removeListener(EventName.tickSize, onTickSize);
     api.removeListener(EventName.tickGeneric, onTickGeneric);
@@ -584,8 +700,12 @@ export const createPortfolioSubscription = ({ api, accountId: accountIdOrFn, cal
       }
     }
 
-    log("info", "subscription", `reqAccountUpdates stop account=${getAccountId()}`);
-    api.reqAccountUpdates(false, getAccountId());
+    positionPrices?.dispose();
+    pnl.dispose();
+
+    const stopAccountId = requestedAccountId || getAccountId();
+    log("info", "subscription", `reqAccountUpdates stop account=${stopAccountId}`);
+    api.reqAccountUpdates(false, stopAccountId);
     log("info", "subscription", "portfolio stop");
   };
 };
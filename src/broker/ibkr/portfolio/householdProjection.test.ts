@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { createPortfolioProjection } from "./portfolioProjection.js";
+import { mergeHouseholdPortfolios } from "./householdProjection.js";
+
+const buildAccount = (
+  accountId: string,
+  baseCurrency: string,
+  setup: (projection: ReturnType<typeof createPortfolioProjection>) => void,
+) => {
+  const projection = createPortfolioProjection(() => 1_000);
+  projection.setBaseCurrency(baseCurrency);
+  setup(projection);
+  projection.markInitialLoadComplete();
+  return { accountId, portfolio: projection.snapshot() };
+};
+
+describe("mergeHouseholdPortfolios", () => {
+  it("merges positions by conId and keeps a per-account breakdown", () => {
+    const first = buildAccount("U111", "USD", (projection) => {
+      projection.applyPortfolioUpdate({
+        contract: { conId: 265598, symbol: "AAPL", currency: "USD" },
+        pos: 100,
+        marketPrice: 150,
+        marketValue: 15_000,
+        avgCost: 140,
+        unrealizedPnL: 1_000,
+      });
+      projection.applyCashBalance("USD", "5000");
+    });
+    const second = buildAccount("U222", "USD", (projection) => {
+      projection.applyPortfolioUpdate({
+        contract: { conId: 265598, symbol: "AAPL", currency: "USD" },
+        pos: 50,
+        marketPrice: 150,
+        marketValue: 7_500,
+        avgCost: 130,
+        unrealizedPnL: 1_000,
+      });
+      projection.applyCashBalance("USD", "2500");
+    });
+
+    const household = mergeHouseholdPortfolios([first, second]);
+
+    expect(household.positions).toHaveLength(1);
+    expect(household.positions[0]).toEqual(
+      expect.objectContaining({
+        conId: 265598,
+        quantity: 150,
+        marketValue: 22_500,
+        marketValueBase: 22_500,
+        unrealizedPnLBase: 2_000,
+      }),
+    );
+    expect(household.positions[0].avgCost).toBeCloseTo((100 * 140 + 50 * 130) / 150, 9);
+    expect(household.positions[0].holdings.map((holding) => [holding.accountId, holding.quantity])).toEqual([
+      ["U111", 100],
+      ["U222", 50],
+    ]);
+    expect(household.cashBalance).toBe(7_500);
+    expect(household.totalEquity).toBe(30_000);
+    expect(household.accounts.map((account) => account.totalEquity)).toEqual([20_000, 10_000]);
+    expect(household.accountPortfolios.map((portfolio) => [portfolio.accountId, portfolio.totalEquity])).toEqual([
+      ["U111", 20_000],
+      ["U222", 10_000],
+    ]);
+    expect(household.initialLoadComplete).toBe(true);
+  });
+
+  it("converts an account with another base currency into the household base", () => {
+    const usd = buildAccount("U111", "USD", (projection) => {
+      projection.applyCashBalance("USD", "1000");
+    });
+    const eur = buildAccount("U222", "EUR", (projection) => {
+      projection.applyExchangeRate("USD", "0.8");
+      projection.applyCashBalance("EUR", "400");
+    });
+
+    const household = mergeHouseholdPortfolios([usd, eur]);
+
+    expect(household.baseCurrencyCode).toBe("USD");
+    expect(household.accounts[1].fxRateToHouseholdBase).toBeCloseTo(1.25, 9);
+    expect(household.accounts[1].cashBalance).toBeCloseTo(500, 9);
+    expect(household.cashBalance).toBeCloseTo(1_500, 9);
+    expect(household.pendingFxAccountIds).toEqual([]);
+  });
+
+  it("excludes an account from the totals until a rate to the household base is known", () => {
+    const usd = buildAccount("U111", "USD", (projection) => {
+      projection.applyCashBalance("USD", "1000");
+    });
+    const chf = buildAccount("U222", "CHF", (projection) => {
+      projection.applyPortfolioUpdate({
+        contract: { conId: 1, symbol: "NESN", currency: "CHF" },
+        pos: 10,
+        marketPrice: 100,
+        marketValue: 1_000,
+      });
+      projection.applyCashBalance("CHF", "300");
+    });
+
+    const household = mergeHouseholdPortfolios([usd, chf]);
+
+    expect(household.pendingFxAccountIds).toEqual(["U222"]);
+    expect(household.accounts[1].totalEquity).toBeNull();
+    expect(household.totalEquity).toBe(1_000);
+    expect(household.positions[0].marketValueBase).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import type { HouseholdAccount, HouseholdHolding, HouseholdPosition, HouseholdUpdate } from "../../types.js";
+import type { AccountPortfolio } from "./types.js";
+
+// Rate that turns an amount in the account's base currency into the household
+// base. Each account only reports ExchangeRate values towards its own base, so
+// the rate is looked up on either side of the pair.
+const resolveFxRateToHouseholdBase = (
+  account: AccountPortfolio,
+  householdBase: string | null,
+  householdBaseAccount: AccountPortfolio | undefined,
+): number | null => {
+  const accountBase = account.portfolio.baseCurrencyCode;
+  if (!householdBase || accountBase === householdBase) return 1;
+  if (!accountBase) return null;
+
+  const inverse = account.portfolio.cashExchangeRatesByCurrency[householdBase];
+  if (inverse !== undefined && inverse > 0) return 1 / inverse;
+
+  const direct = householdBaseAccount?.portfolio.cashExchangeRatesByCurrency[accountBase];
+  if (direct !== undefined && direct > 0) return direct;
+  return null;
+};
+
+const sumOrNull = (values: Array<number | null>): number | null =>
+  values.some((value) => value === null)
+    ? null
+    : values.reduce<number>((total, value) => total + (value ?? 0), 0);
+
+/**
+ * Merges per-account portfolios into a household view. Positions are combined by
+ * conId with a per-account holding breakdown, and every account's figures are
+ * converted into the base currency of the first account that reported one.
+ */
+export const mergeHouseholdPortfolios = (portfolios: AccountPortfolio[]): HouseholdUpdate => {
+  const householdBaseAccount = portfolios.find((account) => account.portfolio.baseCurrencyCode !== null);
+  const baseCurrencyCode = householdBaseAccount?.portfolio.baseCurrencyCode ?? null;
+
+  const accounts: HouseholdAccount[] = [];
+  const positionsByConId = new Map<number, HouseholdPosition>();
+  const unrealizedByConId = new Map<number, Array<number | null>>();
+  const pendingFxAccountIds: string[] = [];
+  let positionsMarketValue = 0;
+  let positionsUnrealizedPnL = 0;
+  let cashBalance = 0;
+
+  for (const account of portfolios) {
+    const { accountId, portfolio } = account;
+    const fxRate = resolveFxRateToHouseholdBase(account, baseCurrencyCode, householdBaseAccount);
+    const convert = (value: number | null): number | null =>
+      value === null || fxRate === null ? null : value * fxRate;
+
+    accounts.push({
+      accountId,
+      baseCurrencyCode: portfolio.baseCurrencyCode,
+      fxRateToHouseholdBase: fxRate,
+      positionsMarketValue: convert(portfolio.positionsMarketValue),
+      cashBalance: convert(portfolio.cashBalance),
+      totalEquity: convert(portfolio.totalEquity),
+      initialLoadComplete: portfolio.initialLoadComplete,
+      lastPortfolioUpdateAt: portfolio.lastPortfolioUpdateAt,
+    });
+
+    if (fxRate === null) {
+      pendingFxAccountIds.push(accountId);
+    } else {
+      positionsMarketValue += portfolio.positionsMarketValue * fxRate;
+      positionsUnrealizedPnL += portfolio.positionsUnrealizedPnL * fxRate;
+      cashBalance += portfolio.cashBalance * fxRate;
+    }
+
+    for (const position of portfolio.positions) {
+      const holding: HouseholdHolding = {
+        accountId,
+        quantity: position.quantity,
+        avgCost: position.avgCost,
+        marketValue: position.marketValue,
+        marketValueBase: convert(position.marketValueBase),
+      };
+      const unrealized = unrealizedByConId.get(position.conId) ?? [];
+      unrealized.push(convert(position.unrealizedPnLBase));
+      unrealizedByConId.set(position.conId, unrealized);
+
+      const existing = positionsByConId.get(position.conId);
+      if (!existing) {
+        positionsByConId.set(position.conId, {
+          conId: position.conId,
+          symbol: position.symbol,
+          currency: position.currency,
+          quantity: position.quantity,
+          avgCost: position.avgCost,
+          marketPrice: position.marketPrice,
+          marketValue: position.marketValue,
+          unrealizedPnL: position.unrealizedPnL,
+          marketValueBase: holding.marketValueBase,
+          unrealizedPnLBase: null,
+          marketHours: position.marketHours,
+          holdings: [holding],
+        });
+        continue;
+      }
+
+      const quantity = existing.quantity + position.quantity;
+      const holdings = [...existing.holdings, holding];
+      positionsByConId.set(position.conId, {
+        ...existing,
+        quantity,
+        // Cost basis weighted by each account's share of the combined quantity.
+        avgCost: quantity !== 0
+          ? holdings.reduce((total, entry) => total + entry.avgCost * entry.quantity, 0) / quantity
+          : 0,
+        marketPrice: position.marketPrice,
+        marketValue: existing.marketValue + position.marketValue,
+        unrealizedPnL: existing.unrealizedPnL + position.unrealizedPnL,
+        marketValueBase: sumOrNull(holdings.map((entry) => entry.marketValueBase)),
+        marketHours: existing.marketHours ?? position.marketHours,
+        holdings,
+      });
+    }
+  }
+
+  const positions = Array.from(positionsByConId.values())
+    .map((position) => ({ ...position, unrealizedPnLBase: sumOrNull(unrealizedByConId.get(position.conId) ?? []) }))
+    .sort((a, b) => a.symbol.localeCompare(b.symbol) || a.conId - b.conId);
+
+  return {
+    baseCurrencyCode,
+    accounts,
+    positions,
+    positionsMarketValue,
+    positionsUnrealizedPnL,
+    cashBalance,
+    totalEquity: positionsMarketValue + cashBalance,
+    pendingFxAccountIds,
+    // The per-account watchdog only runs on the single-account stream.
+    accountPortfolios: portfolios.map(({ accountId, portfolio }) => ({ ...portfolio, accountId, watchdogWarnings: 0 })),
+    initialLoadComplete: portfolios.length > 0 && portfolios.every((account) => account.portfolio.initialLoadComplete),
+    lastPortfolioUpdateAt: portfolios.reduce((latest, account) => Math.max(latest, account.portfolio.lastPortfolioUpdateAt), 0),
+  };
+};
@@ -0,0 +1,133 @@
+import type { PortfolioApi } from "./types.js";
+import { noopLog } from "../../../utils/logger.js";
+import type { LogFn } from "../../../utils/logger.js";
+
+// IB reports P&L it has not computed yet as Number.MAX_VALUE (UNSET_DOUBLE).
+const UNSET_DOUBLE_THRESHOLD = 1e300;
+
+const toPnLValue = (value: number | undefined): number | null => {
+  if (value === undefined || !Number.isFinite(value) || Math.abs(value) >= UNSET_DOUBLE_THRESHOLD) return null;
+  return value;
+};
+
+type Params = {
+  api: Pick<PortfolioApi, "reqPnL" | "cancelPnL" | "reqPnLSingle" | "cancelPnLSingle">;
+  onAccountDailyPnL: (dailyPnL: number) => void;
+  onPositionDailyPnL: (conId: number, dailyPnL: number) => void;
+  startReqId?: number;
+  log?: LogFn;
+};
+
+/**
+ * Owns the reqPnL (account) and reqPnLSingle (per conId) streams that feed Day
+ * P&L. Both report in the account's base currency.
+ */
+export const createPnLSubscriptions = ({
+  api,
+  onAccountDailyPnL,
+  onPositionDailyPnL,
+  startReqId = 760_000,
+  log = noopLog,
+}: Params) => {
+  const conIdByReqId = new Map<number, number>();
+  const reqIdByConId = new Map<number, number>();
+  let accountId: string | null = null;
+  let accountReqId: number | null = null;
+  let nextReqId = startReqId;
+
+  const cancelSingle = (conId: number): void => {
+    const reqId = reqIdByConId.get(conId);
+    if (reqId === undefined) return;
+    reqIdByConId.delete(conId);
+    conIdByReqId.delete(reqId);
+    log("info", "subscription.pnl", `cancelPnLSingle reqId=${reqId} conId=${conId}`);
+    try {
+      api.cancelPnLSingle(reqId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log("warn", "subscription.pnl", `cancelPnLSingle failed reqId=${reqId} conId=${conId} error=${message}`);
+    }
+  };
+
+  const start = (account: string): void => {
+    if (!account || accountReqId !== null) return;
+    accountId = account;
+    const reqId = nextReqId++;
+    accountReqId = reqId;
+    log("info", "subscription.pnl", `reqPnL start reqId=${reqId} account=${account}`);
+    try {
+      api.reqPnL(reqId, account, null);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log("error", "subscription.pnl", `reqPnL failed reqId=${reqId} account=${account} error=${message}`);
+      accountReqId = null;
+    }
+  };
+
+  // Keeps one reqPnLSingle per held conId; closed positions are cancelled.
+  const sync = (conIds: number[]): void => {
+    if (accountId === null) return;
+    const held = new Set(conIds);
+    for (const conId of Array.from(reqIdByConId.keys())) {
+      if (!held.has(conId)) cancelSingle(conId);
+    }
+    for (const conId of held) {
+      if (reqIdByConId.has(conId)) continue;
+      const reqId = nextReqId++;
+      reqIdByConId.set(conId, reqId);
+      conIdByReqId.set(reqId, conId);
+      log("info", "subscription.pnl", `reqPnLSingle start reqId=${reqId} conId=${conId}`);
+      try {
+        api.reqPnLSingle(reqId, accountId, null, conId);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log("error", "subscription.pnl", `reqPnLSingle failed reqId=${reqId} conId=${conId} error=${message}`);
+        reqIdByConId.delete(conId);
+        conIdByReqId.delete(reqId);
+      }
+    }
+  };
+
+  // Each handler returns true when the reqId belonged to these streams.
+  const onPnL = (reqId: number, dailyPnL: number): boolean => {
+    if (reqId !== accountReqId) return false;
+    const value = toPnLValue(dailyPnL);
+    log("debug", "event.pnl", `reqId=${reqId} daily=${value ?? "n/a"}`);
+    if (value !== null) onAccountDailyPnL(value);
+    return true;
+  };
+
+  const onPnLSingle = (reqId: number, dailyPnL: number): boolean => {
+    const conId = conIdByReqId.get(reqId);
+    if (conId === undefined) return false;
+    const value = toPnLValue(dailyPnL);
+    log("debug", "event.pnlSingle", `reqId=${reqId} conId=${conId} daily=${value ?? "n/a"}`);
+    if (value !== null) onPositionDailyPnL(conId, value);
+    return true;
+  };
+
+  const onError = (reqId: number, code: number, message: string): boolean => {
+    const conId = conIdByReqId.get(reqId);
+    if (reqId !== accountReqId && conId === undefined) return false;
+    log("warn", "event.error.pnl", `reqId=${reqId} conId=${conId ?? "account"} code=${code} message=${message}`);
+    return true;
+  };
+
+  const dispose = (): void => {
+    for (const conId of Array.from(reqIdByConId.keys())) {
+      cancelSingle(conId);
+    }
+    if (accountReqId !== null) {
+      log("info", "subscription.pnl", `cancelPnL reqId=${accountReqId} account=${accountId ?? "n/a"}`);
+      try {
+        api.cancelPnL(accountReqId);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log("warn", "subscription.pnl", `cancelPnL failed reqId=${accountReqId} error=${message}`);
+      }
+      accountReqId = null;
+    }
+  };
+
+  return { start, sync, onPnL, onPnLSingle, onError, dispose };
+};
@@ -210,4 +210,75 @@ describe("createPortfolioProjection", () => {
     const snapshot = projection.snapshot();
     expect(snapshot.positionsUnrealizedPnL).toBe(1000);
   });
+
+  it("revalues a position from a live price using the reported multiplier", () => {
+    const projection = createPortfolioProjection();
+    projection.setBaseCurrency("USD");
+    projection.applyPortfolioUpdate({
+      contract: { conId: 495512563, symbol: "ESH6", currency: "USD" },
+      pos: 2,
+      marketPrice: 5000,
+      marketValue: 500_000,
+      avgCost: 245_000,
+      unrealizedPnL: 10_000,
+    });
+
+    expect(projection.applyMarketPrice(495512563, 5010)).toBe(true);
+    expect(projection.applyMarketPrice(495512563, 5010)).toBe(false);
+    expect(projection.applyMarketPrice(1, 100)).toBe(false);
+
+    const snapshot = projection.snapshot();
+    expect(snapshot.positions[0]).toEqual(expect.objectContaining({
+      marketPrice: 5010,
+      marketValue: 501_000,
+      unrealizedPnL: 11_000,
+      marketValueBase: 501_000,
+    }));
+    expect(snapshot.positionsMarketValue).toBe(501_000);
+    expect(snapshot.positionsUnrealizedPnL).toBe(11_000);
+  });
+
+  it("keeps positions closed today with realized P&L and converts realized to base", () => {
+    const projection = createPortfolioProjection();
+    projection.setBaseCurrency("USD");
+    projection.applyExchangeRate("EUR", "1.1");
+
+    const sap = { conId: 14204, symbol: "SAP", currency: "EUR" };
+    projection.applyPortfolioUpdate({ contract: sap, pos: 10, marketPrice: 200, marketValue: 2000, avgCost: 180, unrealizedPnL: 200, realizedPnL: 50 });
+    projection.applyPortfolioUpdate({ contract: sap, pos: 0, marketPrice: 205, marketValue: 0, avgCost: 0, unrealizedPnL: 0, realizedPnL: 250 });
+    projection.applyPortfolioUpdate({
+      contract: { conId: 1, symbol: "FLAT", currency: "USD" },
+      pos: 0,
+      marketPrice: 10,
+      marketValue: 0,
+      realizedPnL: 0,
+    });
+
+    const snapshot = projection.snapshot();
+    expect(snapshot.positions).toHaveLength(1);
+    expect(snapshot.positions[0]).toEqual(expect.objectContaining({
+      symbol: "SAP",
+      quantity: 0,
+      marketValue: 0,
+      realizedPnL: 250,
+      realizedPnLBase: 275,
+    }));
+    expect(snapshot.positionsMarketValue).toBe(0);
+    expect(snapshot.positionsRealizedPnL).toBeCloseTo(275, 6);
+    expect(snapshot.positionsPendingFxCount).toBe(0);
+  });
+
+  it("projects curated account values and reports only changes", () => {
+    const projection = createPortfolioProjection();
+
+    expect(projection.applyAccountValue("ExcessLiquidity", "25000.50")).toBe(true);
+    expect(projection.applyAccountValue("Cushion", "0.25")).toBe(true);
+    expect(projection.applyAccountValue("Cushion", "0.25")).toBe(false);
+    expect(projection.applyAccountValue("ExcessLiquidity-S", "1")).toBe(false);
+    expect(projection.applyAccountValue("AccountType", "INDIVIDUAL")).toBe(false);
+
+    expect(projection.snapshot().accountValues).toEqual(
+      expect.objectContaining({ excessLiquidity: 25_000.5, cushion: 0.25, maintMarginReq: null }),
+    );
+  });
 });
@@ -1,5 +1,33 @@
-import type { Position, PositionMarketHours, PortfolioUpdate } from "../../types.js";
-import type { PortfolioProjection, PortfolioState, PortfolioUpdateEvent } from "./types.js";
+import type { AccountValues, Position, PositionMarketHours } from "../../types.js";
+import type { PortfolioProjection, PortfolioSnapshot, PortfolioState, PortfolioUpdateEvent } from "./types.js";
+
+// updateAccountValue keys kept in AccountValues. Segment variants such as
+// "ExcessLiquidity-S" are separate keys and stay ignored.
+export const ACCOUNT_VALUE_KEYS: ReadonlyMap<string, keyof AccountValues> = new Map([
+  ["NetLiquidation", "netLiquidation"],
+  ["EquityWithLoanValue", "equityWithLoanValue"],
+  ["AvailableFunds", "availableFunds"],
+  ["ExcessLiquidity", "excessLiquidity"],
+  ["BuyingPower", "buyingPower"],
+  ["InitMarginReq", "initMarginReq"],
+  ["MaintMarginReq", "maintMarginReq"],
+  ["GrossPositionValue", "grossPositionValue"],
+  ["AccruedDividend", "accruedDividend"],
+  ["Cushion", "cushion"],
+]);
+
+const createEmptyAccountValues = (): AccountValues => ({
+  netLiquidation: null,
+  equityWithLoanValue: null,
+  availableFunds: null,
+  excessLiquidity: null,
+  buyingPower: null,
+  initMarginReq: null,
+  maintMarginReq: null,
+  grossPositionValue: null,
+  accruedDividend: null,
+  cushion: null,
+});
 
 const toCashBalancesByCurrency = (balances: Map<string, number>): Record<string, number> =>
   Array.from(balances.entries())
@@ -47,6 +75,8 @@ const recomputeCashBalancesInBase = (state: PortfolioState): void => {
 const recomputePositionBaseValues = (state: PortfolioState): void => {
   let positionsMarketValue = 0;
   let positionsUnrealizedPnL = 0;
+  let positionsDailyPnL = 0;
+  let positionsRealizedPnL = 0;
   let pendingFxCount = 0;
   const pendingFxByCurrency = new Map<string, number>();
 
@@ -71,18 +101,20 @@ const recomputePositionBaseValues = (state: PortfolioState): void => {
 
     const marketValueBase = fxRate !== null ? position.marketValue * fxRate : null;
     const unrealizedPnLBase = fxRate !== null ? position.unrealizedPnL * fxRate : null;
+    const realizedPnLBase = fxRate !== null ? position.realizedPnL * fxRate : null;
 
     state.positions.set(conId, {
       ...position,
       marketValueBase,
       unrealizedPnLBase,
+      realizedPnLBase,
       fxRateToBase: fxRate,
       isFxPending,
     });
 
     if (marketValueBase !== null) {
       positionsMarketValue += marketValueBase;
-    } else {
+    } else if (position.quantity !== 0) {
       pendingFxCount++;
       const existing = pendingFxByCurrency.get(currency) ?? 0;
       pendingFxByCurrency.set(currency, existing + position.marketValue);
@@ -91,19 +123,38 @@ const recomputePositionBaseValues = (state: PortfolioState): void => {
     if (unrealizedPnLBase !== null) {
       positionsUnrealizedPnL += unrealizedPnLBase;
     }
+    if (realizedPnLBase !== null) {
+      positionsRealizedPnL += realizedPnLBase;
+    }
+    positionsDailyPnL += position.dailyPnL;
   }
 
   state.positionsMarketValue = positionsMarketValue;
   state.positionsUnrealizedPnL = positionsUnrealizedPnL;
+  state.positionsDailyPnL = positionsDailyPnL;
+  state.positionsRealizedPnL = positionsRealizedPnL;
   state.positionsPendingFxCount = pendingFxCount;
   state.positionsPendingFxByCurrency = pendingFxByCurrency;
 };
 
+// marketValue / (qty * marketPrice) as reported by IB: the contract multiplier for
+// options and futures, 1 for stocks. Lets a live price rebuild marketValue.
+const inferValueMultiplier = (event: PortfolioUpdateEvent): number => {
+  const denominator = event.pos * event.marketPrice;
+  if (!Number.isFinite(denominator) || denominator === 0) return 1;
+  const ratio = event.marketValue / denominator;
+  return Number.isFinite(ratio) && ratio > 0 ? ratio : 1;
+};
+
 export const createPortfolioProjection = (now = () => Date.now()): PortfolioProjection => {
   const state: PortfolioState = {
     positions: new Map<number, Position>(),
+    valueMultipliersByConId: new Map<number, number>(),
     positionsMarketValue: 0,
     positionsUnrealizedPnL: 0,
+    positionsDailyPnL: 0,
+    positionsRealizedPnL: 0,
+    accountDailyPnL: null,
     cashBalance: 0,
     brokerCashBalance: null,
     cashBalancesByCurrency: new Map<string, number>(),
@@ -114,6 +165,7 @@ export const createPortfolioProjection = (now = () => Date.now()): PortfolioProj
     lastPortfolioUpdateAt: now(),
     positionsPendingFxCount: 0,
     positionsPendingFxByCurrency: new Map<string, number>(),
+    accountValues: createEmptyAccountValues(),
   };
 
   const toPendingFxByCurrency = (pending: Map<string, number>): Record<string, number> =>
@@ -124,10 +176,13 @@ export const createPortfolioProjection = (now = () => Date.now()): PortfolioProj
         return acc;
       }, {});
 
-  const snapshot = (): PortfolioUpdate => ({
+  const snapshot = (): PortfolioSnapshot => ({
     positions: Array.from(state.positions.values()),
     positionsMarketValue: state.positionsMarketValue,
     positionsUnrealizedPnL: state.positionsUnrealizedPnL,
+    positionsDailyPnL: state.positionsDailyPnL,
+    positionsRealizedPnL: state.positionsRealizedPnL,
+    dailyPnL: state.accountDailyPnL,
     cashBalance: state.cashBalance,
     cashBalancesByCurrency: toCashBalancesByCurrency(state.cashBalancesByCurrency),
     cashExchangeRatesByCurrency: toExchangeRatesByCurrency(state.exchangeRatesByCurrency),
@@ -137,29 +192,56 @@ export const createPortfolioProjection = (now = () => Date.now()): PortfolioProj
     lastPortfolioUpdateAt: state.lastPortfolioUpdateAt,
     positionsPendingFxCount: state.positionsPendingFxCount,
     positionsPendingFxByCurrency: toPendingFxByCurrency(state.positionsPendingFxByCurrency),
+    accountValues: { ...state.accountValues },
   });
 
   const applyPortfolioUpdate = (event: PortfolioUpdateEvent): void => {
     const conId = event.contract.conId;
     if (conId === undefined || conId === null) return;
     const existing = state.positions.get(conId);
+    const realizedPnL = event.realizedPnL ?? existing?.realizedPnL ?? 0;
     if (event.pos === 0) {
-      state.positions.delete(conId);
+      state.valueMultipliersByConId.delete(conId);
+      // Keep positions closed today while they carry realized P&L.
+      if (realizedPnL === 0) {
+        state.positions.delete(conId);
+      } else {
+        state.positions.set(conId, {
+          symbol: event.contract.symbol ?? existing?.symbol ?? "",
+          quantity: 0,
+          avgCost: 0,
+          marketValue: 0,
+          unrealizedPnL: 0,
+          dailyPnL: existing?.dailyPnL ?? 0,
+          realizedPnL,
+          marketPrice: event.marketPrice,
+          currency: event.contract.currency ?? existing?.currency ?? "USD",
+          conId,
+          marketHours: existing?.marketHours,
+          marketValueBase: null,
+          unrealizedPnLBase: null,
+          realizedPnLBase: null,
+          fxRateToBase: null,
+          isFxPending: false,
+        });
+      }
     } else {
+      state.valueMultipliersByConId.set(conId, inferValueMultiplier(event));
       state.positions.set(conId, {
         symbol: event.contract.symbol ?? "",
         quantity: event.pos,
         avgCost: event.avgCost ?? 0,
         marketValue: event.marketValue,
         unrealizedPnL: event.unrealizedPnL ?? existing?.unrealizedPnL ?? 0,
-        dailyPnL: 0,
-        realizedPnL: event.realizedPnL ?? existing?.realizedPnL ?? 0,
+        dailyPnL: existing?.dailyPnL ?? 0,
+        realizedPnL,
         marketPrice: event.marketPrice,
         currency: event.contract.currency ?? "USD",
         conId,
         marketHours: existing?.marketHours,
         marketValueBase: null,
         unrealizedPnLBase: null,
+        realizedPnLBase: null,
         fxRateToBase: null,
         isFxPending: false,
       });
@@ -212,5 +294,64 @@ export const createPortfolioProjection = (now = () => Date.now()): PortfolioProj
     state.lastPortfolioUpdateAt = now();
   };
 
-  return { applyPortfolioUpdate, applyCashBalance, applyExchangeRate, setBaseCurrency, markInitialLoadComplete, attachMarketHours, snapshot };
+  // Revalues a position from a live market-data price between account updates.
+  // The next updatePortfolio for the conId overwrites these figures again.
+  const applyMarketPrice = (conId: number, price: number): boolean => {
+    const existing = state.positions.get(conId);
+    if (!existing || !Number.isFinite(price) || price <= 0) return false;
+    if (existing.marketPrice === price) return false;
+    const multiplier = state.valueMultipliersByConId.get(conId) ?? 1;
+    const marketValue = existing.quantity * price * multiplier;
+    state.positions.set(conId, {
+      ...existing,
+      marketPrice: price,
+      marketValue,
+      unrealizedPnL: marketValue - existing.quantity * existing.avgCost,
+    });
+    recomputePositionBaseValues(state);
+    state.lastPortfolioUpdateAt = now();
+    return true;
+  };
+
+  // Day P&L arrives in base currency from reqPnLSingle, so it bypasses FX.
+  const applyDailyPnL = (conId: number, dailyPnL: number): boolean => {
+    const existing = state.positions.get(conId);
+    if (!existing || existing.dailyPnL === dailyPnL) return false;
+    state.positions.set(conId, { ...existing, dailyPnL });
+    recomputePositionBaseValues(state);
+    state.lastPortfolioUpdateAt = now();
+    return true;
+  };
+
+  const applyAccountDailyPnL = (dailyPnL: number): void => {
+    state.accountDailyPnL = dailyPnL;
+    state.lastPortfolioUpdateAt = now();
+  };
+
+  // Returns false for keys outside ACCOUNT_VALUE_KEYS and for unchanged values,
+  // which IB resends with every account update cycle.
+  const applyAccountValue = (key: string, value: string): boolean => {
+    const field = ACCOUNT_VALUE_KEYS.get(key);
+    if (!field) return false;
+    const parsed = Number.parseFloat(value);
+    const nextValue = Number.isFinite(parsed) ? parsed : null;
+    if (state.accountValues[field] === nextValue) return false;
+    state.accountValues = { ...state.accountValues, [field]: nextValue };
+    state.lastPortfolioUpdateAt = now();
+    return true;
+  };
+
+  return {
+    applyPortfolioUpdate,
+    applyCashBalance,
+    applyExchangeRate,
+    setBaseCurrency,
+    markInitialLoadComplete,
+    attachMarketHours,
+    applyMarketPrice,
+    applyDailyPnL,
+    applyAccountDailyPnL,
+    applyAccountValue,
+    snapshot,
+  };
 };
@@ -0,0 +1,148 @@
+import { applyPriceTick } from "../market-data/ticks.js";
+import type { TickQuote } from "../market-data/ticks.js";
+import type { PortfolioApi, PortfolioContractSeed } from "./types.js";
+import { noopLog } from "../../../utils/logger.js";
+import type { LogFn } from "../../../utils/logger.js";
+
+// "Displaying delayed market data" and "part of requested market data is not
+// subscribed" still deliver prices, so they must not cost the position its line.
+const NON_FATAL_ERROR_CODES = new Set([10090, 10167]);
+
+export type PositionPriceCandidate = {
+  conId: number;
+  contract: PortfolioContractSeed;
+  // Ranking weight; the largest absolute exposures get market-data lines first.
+  weight: number;
+};
+
+type PriceLine = {
+  conId: number;
+  symbol: string;
+  quote: TickQuote;
+};
+
+type Params = {
+  api: Pick<PortfolioApi, "reqMktData" | "cancelMktData">;
+  maxLines: number;
+  onPrice: (conId: number, price: number) => void;
+  beforeRequest?: () => void;
+  startReqId?: number;
+  log?: LogFn;
+};
+
+// Prefer IB's mark, then the last trade, then the bid/ask mid.
+const resolvePrice = (quote: TickQuote): number | null => {
+  if (quote.mark !== undefined) return quote.mark;
+  if (quote.last !== undefined) return quote.last;
+  if (quote.bid !== undefined && quote.ask !== undefined) return (quote.bid + quote.ask) / 2;
+  return null;
+};
+
+/**
+ * Keeps at most `maxLines` reqMktData tickers open for held positions. Lines are
+ * never preempted: a slot frees up only when its position closes or its ticker
+ * errors, and is then handed to the largest remaining position without one.
+ */
+export const createPositionPriceLines = ({
+  api,
+  maxLines,
+  onPrice,
+  beforeRequest = () => {},
+  startReqId = 750_000,
+  log = noopLog,
+}: Params) => {
+  const linesByReqId = new Map<number, PriceLine>();
+  const reqIdByConId = new Map<number, number>();
+  const failedConIds = new Set<number>();
+  let nextReqId = startReqId;
+
+  const cancel = (reqId: number): void => {
+    const line = linesByReqId.get(reqId);
+    if (!line) return;
+    linesByReqId.delete(reqId);
+    reqIdByConId.delete(line.conId);
+    log("info", "subscription.positionPrice", `cancelMktData reqId=${reqId} conId=${line.conId} sym=${line.symbol}`);
+    try {
+      api.cancelMktData(reqId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log("warn", "subscription.positionPrice", `cancelMktData failed reqId=${reqId} conId=${line.conId} error=${message}`);
+    }
+  };
+
+  const request = (candidate: PositionPriceCandidate): void => {
+    const reqId = nextReqId++;
+    const symbol = candidate.contract.symbol ?? "";
+    const contract: PortfolioContractSeed = {
+      conId: candidate.conId,
+      exchange: candidate.contract.exchange || "SMART",
+    };
+    linesByReqId.set(reqId, { conId: candidate.conId, symbol, quote: {} });
+    reqIdByConId.set(candidate.conId, reqId);
+    log("info", "subscription.positionPrice", `reqMktData start reqId=${reqId} conId=${candidate.conId} sym=${symbol}`);
+    try {
+      beforeRequest();
+      api.reqMktData(reqId, contract, "", false, false);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log("error", "subscription.positionPrice", `reqMktData failed reqId=${reqId} conId=${candidate.conId} error=${message}`);
+      linesByReqId.delete(reqId);
+      reqIdByConId.delete(candidate.conId);
+      failedConIds.add(candidate.conId);
+    }
+  };
+
+  const sync = (candidates: PositionPriceCandidate[]): void => {
+    const held = new Set(candidates.map((candidate) => candidate.conId));
+    for (const [reqId, line] of Array.from(linesByReqId.entries())) {
+      if (!held.has(line.conId)) cancel(reqId);
+    }
+
+    const waiting = candidates
+      .filter((candidate) => !reqIdByConId.has(candidate.conId) && !failedConIds.has(candidate.conId))
+      .sort((a, b) => b.weight - a.weight);
+    const freeSlots = Math.max(0, maxLines - linesByReqId.size);
+    for (const candidate of waiting.slice(0, freeSlots)) {
+      request(candidate);
+    }
+    if (waiting.length > freeSlots) {
+      log("debug", "subscription.positionPrice", `line cap reached maxLines=${maxLines} unpriced=${waiting.length - freeSlots}`);
+    }
+  };
+
+  // Returns true when the tick belonged to a position line.
+  const onTickPrice = (reqId: number, tickType: number, price: number): boolean => {
+    const line = linesByReqId.get(reqId);
+    if (!line) return false;
+    const field = applyPriceTick(line.quote, tickType, price);
+    if (field === null || field === "close") return true;
+    const next = resolvePrice(line.quote);
+    if (next !== null) onPrice(line.conId, next);
+    return true;
+  };
+
+  // Returns true when the error belonged to a position line. A failed contract is
+  // not retried for the rest of the subscription so it cannot hog a slot.
+  const onError = (reqId: number, code: number, message: string): boolean => {
+    const line = linesByReqId.get(reqId);
+    if (!line) return false;
+    if (NON_FATAL_ERROR_CODES.has(code)) {
+      log("debug", "event.error.positionPrice", `reqId=${reqId} conId=${line.conId} code=${code} message=${message}`);
+      return true;
+    }
+    log("warn", "event.error.positionPrice", `reqId=${reqId} conId=${line.conId} sym=${line.symbol} code=${code} message=${message}`);
+    failedConIds.add(line.conId);
+    cancel(reqId);
+    return true;
+  };
+
+  const dispose = (): void => {
+    for (const reqId of Array.from(linesByReqId.keys())) {
+      cancel(reqId);
+    }
+  };
+
+  const size = (): number => linesByReqId.size;
+
+  return { sync, onTickPrice, onError, dispose, size };
+};
@@ -1,4 +1,4 @@
-import type { Position, PositionMarketHours, PortfolioUpdate } from "../../types.js";
+import type { AccountValues, Position, PositionMarketHours, PortfolioUpdate } from "../../types.js";
 
 export type PortfolioContract = {
   conId?: number;
@@ -15,7 +15,7 @@ export type PortfolioContractSeed = {
 };
 
 export type ContractDetailsPayload = {
-  contract?: { conId?: number };
+  contract?: { conId?: number; exchange?: string; primaryExch?: string };
   timeZoneId?: string;
   liquidHours?: string;
   tradingHours?: string;
@@ -37,6 +37,15 @@ export type PortfolioEventMap = {
   accountDownloadEnd: [accountName: string];
   contractDetails: [reqId: number, details: ContractDetailsPayload];
   contractDetailsEnd: [reqId: number];
+  pnl: [reqId: number, dailyPnL: number, unrealizedPnL?: number, realizedPnL?: number];
+  pnlSingle: [
+    reqId: number,
+    pos: number,
+    dailyPnL: number,
+    unrealizedPnL: number | undefined,
+    realizedPnL: number | undefined,
+    value: number,
+  ];
   tickPrice: [reqId: number, tickType: number, price: number, canAutoExecute: boolean];
   tickSize: [reqId: number, tickType?: number, size?: number];
   tickGeneric: [reqId: number, tickType: number, value: number];
@@ -66,6 +75,10 @@ export type PortfolioApi = {
   ): void;
   reqMarketDataType?(marketDataType: number): void;
   cancelMktData(reqId: number): void;
+  reqPnL(reqId: number, account: string, modelCode?: string | null): void;
+  cancelPnL(reqId: number): void;
+  reqPnLSingle(reqId: number, account: string, modelCode: string | null, conId: number): void;
+  cancelPnLSingle(reqId: number): void;
 };
 
 export type PortfolioUpdateEvent = {
@@ -78,6 +91,9 @@ export type PortfolioUpdateEvent = {
   realizedPnL?: number;
 };
 
+// What the projection knows; the subscription adds the account and its own counters.
+export type PortfolioSnapshot = Omit<PortfolioUpdate, "accountId" | "watchdogWarnings">;
+
 export type PortfolioProjection = {
   applyPortfolioUpdate(event: PortfolioUpdateEvent): void;
   applyCashBalance(currency: string, value: string): void;
@@ -85,13 +101,21 @@ export type PortfolioProjection = {
   setBaseCurrency(currency: string): void;
   markInitialLoadComplete(): void;
   attachMarketHours(conId: number, marketHours: PositionMarketHours): void;
-  snapshot(): PortfolioUpdate;
+  applyMarketPrice(conId: number, price: number): boolean;
+  applyDailyPnL(conId: number, dailyPnL: number): boolean;
+  applyAccountDailyPnL(dailyPnL: number): void;
+  applyAccountValue(key: string, value: string): boolean;
+  snapshot(): PortfolioSnapshot;
 };
 
 export type PortfolioState = {
   positions: Map<number, Position>;
+  valueMultipliersByConId: Map<number, number>;
   positionsMarketValue: number;
   positionsUnrealizedPnL: number;
+  positionsDailyPnL: number;
+  positionsRealizedPnL: number;
+  accountDailyPnL: number | null;
   cashBalance: number;
   brokerCashBalance: number | null;
   cashBalancesByCurrency: Map<string, number>;
@@ -102,4 +126,10 @@ export type PortfolioState = {
   lastPortfolioUpdateAt: number;
   positionsPendingFxCount: number;
   positionsPendingFxByCurrency: Map<string, number>;
+  accountValues: AccountValues;
+};
+
+export type AccountPortfolio = {
+  accountId: string;
+  portfolio: PortfolioSnapshot;
 };
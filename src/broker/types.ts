@@ -6,6 +6,8 @@ export type ConnectionConfig = {
 
 export type PositionMarketHours = {
   timeZoneId: string | null;
+  // Listing exchange (primaryExch, else the contract exchange), e.g. "NASDAQ".
+  exchange: string | null;
   liquidHours: string | null;
   tradingHours: string | null;
 };
@@ -16,7 +18,10 @@ export type Position = {
   avgCost: number;
   marketValue: number;
   unrealizedPnL: number;
+  // Base currency, from reqPnLSingle (0 until the first update).
   dailyPnL: number;
+  // Local currency, realized today. Positions closed during the session stay
+  // listed with quantity 0 so their realized P&L is not lost.
   realizedPnL: number;
   marketPrice: number;
   currency: string;
@@ -24,49 +29,167 @@ export type Position = {
   marketHours?: PositionMarketHours;
   marketValueBase: number | null;
   unrealizedPnLBase: number | null;
+  realizedPnLBase: number | null;
   fxRateToBase: number | null;
   isFxPending: boolean;
 };
 
+// From reqPositions: holdings of every managed account, without valuation.
+// avgCost is in `currency` and includes the contract multiplier, as IB reports it.
+export type AccountPosition = {
+  accountId: string;
+  conId: number;
+  symbol: string;
+  secType: string | null;
+  currency: string;
+  exchange: string | null;
+  quantity: number;
+  avgCost: number;
+  marketHours?: PositionMarketHours;
+};
+
+// From reqAccountSummary, in `currency` (the account base currency). Margin
+// fields are null when IB does not report them for the account type, e.g. SMA
+// on a cash account.
 export type AccountSummary = {
   accountId: string;
+  currency: string | null;
   netLiquidation: number;
   totalCashValue: number;
   buyingPower: number;
+  excessLiquidity: number | null;
+  initMarginReq: number | null;
+  maintMarginReq: number | null;
+  // Excess liquidity over net liquidation as a fraction (0.25 = 25%).
+  cushion: number | null;
+  sma: number | null;
+  grossPositionValue: number | null;
+  // Gross position value over net liquidation.
+  leverage: number | null;
+  updatedAt: number;
+  // Last portfolio snapshot of the account; empty until it has been subscribed.
   positions: Position[];
 };
 
 export type Order = {
   id: number;
+  // Unique across clients; 0 or missing until IB assigns one.
+  permId?: number;
   symbol: string;
   action: "BUY" | "SELL";
   quantity: number;
   orderType: "MKT" | "LMT" | "STP" | "STP_LMT";
   limitPrice?: number;
   stopPrice?: number;
+  conId?: number;
+  currency?: string;
+  exchange?: string;
+  secType?: string;
+  // Account the order is booked to; IB uses the login's default when missing.
+  account?: string;
   status: OrderStatus;
+  filled: number;
+  remaining: number;
+  avgFillPrice: number;
+};
+
+export type OrderRequest = Omit<Order, "id" | "status" | "filled" | "remaining" | "avgFillPrice">;
+
+// Result of a whatIf order. Margin and equity figures are in the account base
+// currency; commission is in `commissionCurrency`. IB leaves fields it could not
+// compute unset, which surface here as null.
+export type OrderPreview = {
+  initMarginChange: number | null;
+  maintMarginChange: number | null;
+  equityWithLoanChange: number | null;
+  initMarginAfter: number | null;
+  maintMarginAfter: number | null;
+  equityWithLoanAfter: number | null;
+  commission: number | null;
+  minCommission: number | null;
+  maxCommission: number | null;
+  commissionCurrency: string | null;
+  warningText: string | null;
+};
+
+// One fill from execDetails, joined by execId with its commissionReport.
+// price is in `currency`; commission is in `commissionCurrency`; realizedPnL is
+// in `currency` and null for fills that opened a position. fxRateToBase converts
+// `currency` into the account's base currency at the time the fill was first
+// seen; both stay null for accounts without a loaded portfolio.
+export type Execution = {
+  execId: string;
+  orderId: number;
+  accountId: string;
+  conId: number;
+  symbol: string;
+  secType: string | null;
+  currency: string;
+  exchange: string;
+  side: "BUY" | "SELL";
+  quantity: number;
+  price: number;
+  time: number;
+  commission: number | null;
+  commissionCurrency: string | null;
+  realizedPnL: number | null;
+  baseCurrencyCode: string | null;
+  fxRateToBase: number | null;
 };
 
 export type OrderStatus =
   | "PendingSubmit"
+  | "PendingCancel"
   | "PreSubmitted"
   | "Submitted"
   | "Filled"
   | "Cancelled"
-  | "ApiCancelled";
+  | "ApiCancelled"
+  | "Inactive";
 
+// Fields stay null until the first tick for them arrives. changePercent is
+// last vs. the prior session close.
 export type Quote = {
   symbol: string;
-  bid: number;
-  ask: number;
-  last: number;
-  volume: number;
+  bid: number | null;
+  ask: number | null;
+  last: number | null;
+  volume: number | null;
+  close: number | null;
+  changePercent: number | null;
+  isDelayed: boolean;
+  error: string | null;
+  updatedAt: number;
+};
+
+// Curated margin and liquidity keys from the updateAccountValue stream, in the
+// account base currency except cushion (a fraction). Null until IB reports the
+// key; some never arrive for cash accounts.
+export type AccountValues = {
+  netLiquidation: number | null;
+  equityWithLoanValue: number | null;
+  availableFunds: number | null;
+  excessLiquidity: number | null;
+  buyingPower: number | null;
+  initMarginReq: number | null;
+  maintMarginReq: number | null;
+  grossPositionValue: number | null;
+  accruedDividend: number | null;
+  cushion: number | null;
 };
 
 export type PortfolioUpdate = {
+  // Account the snapshot belongs to; null until the gateway names it.
+  accountId: string | null;
   positions: Position[];
   positionsMarketValue: number;
   positionsUnrealizedPnL: number;
+  // Day P&L in base currency: summed per position (reqPnLSingle) and for the
+  // whole account (reqPnL, null until the first update).
+  positionsDailyPnL: number;
+  dailyPnL: number | null;
+  // Sum of non-null realizedPnLBase, including positions closed today.
+  positionsRealizedPnL: number;
   totalEquity: number;
   cashBalance: number;
   cashBalancesByCurrency: Record<string, number>;
@@ -76,6 +199,69 @@ export type PortfolioUpdate = {
   lastPortfolioUpdateAt: number;
   positionsPendingFxCount: number;
   positionsPendingFxByCurrency: Record<string, number>;
+  accountValues: AccountValues;
+  // Watchdog warnings (stalled contract details, missing or stale FX rates)
+  // logged since this subscription started.
+  watchdogWarnings: number;
+};
+
+// One account's share of a household position, in the position's currency
+// except marketValueBase, which is in the household base currency.
+export type HouseholdHolding = {
+  accountId: string;
+  quantity: number;
+  avgCost: number;
+  marketValue: number;
+  marketValueBase: number | null;
+};
+
+// A position merged by conId across every managed account. Base figures are in
+// the household base currency and stay null while any holding lacks an FX rate.
+export type HouseholdPosition = {
+  conId: number;
+  symbol: string;
+  currency: string;
+  quantity: number;
+  avgCost: number;
+  marketPrice: number;
+  marketValue: number;
+  unrealizedPnL: number;
+  marketValueBase: number | null;
+  unrealizedPnLBase: number | null;
+  marketHours?: PositionMarketHours;
+  holdings: HouseholdHolding[];
+};
+
+// Per-account totals converted to the household base currency; null until the
+// rate between the account's base and the household base is known.
+export type HouseholdAccount = {
+  accountId: string;
+  baseCurrencyCode: string | null;
+  fxRateToHouseholdBase: number | null;
+  positionsMarketValue: number | null;
+  cashBalance: number | null;
+  totalEquity: number | null;
+  initialLoadComplete: boolean;
+  lastPortfolioUpdateAt: number;
+};
+
+export type HouseholdUpdate = {
+  // Base currency of the first managed account that reported one.
+  baseCurrencyCode: string | null;
+  accounts: HouseholdAccount[];
+  positions: HouseholdPosition[];
+  // Totals skip accounts listed in pendingFxAccountIds.
+  positionsMarketValue: number;
+  positionsUnrealizedPnL: number;
+  cashBalance: number;
+  totalEquity: number;
+  pendingFxAccountIds: string[];
+  // Each account on its own, shaped like subscribePortfolio updates, so the
+  // selected account stays current while only the household is streamed.
+  accountPortfolios: PortfolioUpdate[];
+  // True once every managed account has finished its first download.
+  initialLoadComplete: boolean;
+  lastPortfolioUpdateAt: number;
 };
 
 export type BrokerStatusLevel = "info" | "warn" | "error";
@@ -85,6 +271,8 @@ export type BrokerStatus = {
   message: string;
   code?: number;
   reqId?: number;
+  // "session": a held market is about to open or close, or just did; not about the gateway.
+  kind?: "session";
   at: number;
 };
 
@@ -94,14 +282,31 @@ export type Broker = {
   isConnected(): boolean;
   onDisconnect(callback: () => void): () => void;
   onStatus(callback: (status: BrokerStatus) => void): () => void;
+  // Accounts managed by the login, and the one portfolio subscriptions use.
+  onAccounts(callback: (accounts: string[], activeAccountId: string) => void): () => void;
+  // Takes effect for the next subscribePortfolio; kept across reconnects.
+  setAccount(accountId: string): void;
+  // Minutes before a held market opens or closes to emit a session status
+  // (kind "session"); empty turns them off. Alerts run for the whole
+  // connection, whichever portfolio or household stream is open.
+  setSessionAlerts(leadMinutes: number[]): void;
 
   getAccountSummary(): Promise<AccountSummary>;
-  getPositions(): Promise<Position[]>;
+  // One-shot snapshot across all accounts; does not need subscribePortfolio.
+  getPositions(): Promise<AccountPosition[]>;
 
-  placeOrder(order: Omit<Order, "id" | "status">): Promise<Order>;
+  placeOrder(order: OrderRequest): Promise<Order>;
+  previewOrder(order: OrderRequest): Promise<OrderPreview>;
   cancelOrder(orderId: number): Promise<void>;
   getOpenOrders(): Promise<Order[]>;
+  subscribeOrders(callback: (orders: Order[]) => void): () => void;
+  // Today's fills across all accounts (reqExecutions), then live fills as they
+  // happen; the callback always receives the full list.
+  subscribeExecutions(callback: (executions: Execution[]) => void): () => void;
 
   subscribeQuote(symbol: string, callback: (quote: Quote) => void): () => void;
   subscribePortfolio(callback: (update: PortfolioUpdate) => void): () => void;
+  // Aggregate of every managed account. IB streams one account at a time, so this
+  // must not run alongside subscribePortfolio.
+  subscribeHousehold(callback: (update: HouseholdUpdate) => void): () => void;
 };
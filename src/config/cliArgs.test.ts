@@ -1,5 +1,15 @@
 import { describe, it, expect } from "vitest";
-import { parseCliArgs, parsePortfolioCurrency } from "./cliArgs.js";
+import {
+  parseAccountId,
+  parseCliArgs,
+  parseCushionPercent,
+  parseExportArgs,
+  parseServeAddress,
+  parseSessionAlerts,
+  parsePortfolioCurrency,
+  parseSinceDate,
+  parseSnapshotArgs,
+} from "./cliArgs.js";
 
 describe("parsePortfolioCurrency", () => {
   it("accepts BASE", () => {
@@ -62,4 +72,122 @@ describe("parseCliArgs", () => {
   it("throws on invalid currency code", () => {
     expect(() => parseCliArgs(["--portfolio-currency=ABCD"])).toThrow();
   });
+
+  it("parses --account and defaults to null", () => {
+    expect(parseCliArgs([]).account).toBeNull();
+    expect(parseCliArgs(["--account=du1234567"]).account).toBe("DU1234567");
+  });
+
+  it("throws on bare, empty or malformed --account", () => {
+    expect(() => parseCliArgs(["--account"])).toThrow('"--account=<accountId>"');
+    expect(() => parseCliArgs(["--account="])).toThrow();
+    expect(() => parseAccountId("U1,U2")).toThrow("Invalid --account value");
+  });
+
+  it("parses cushion thresholds as fractions and fills the missing one from the defaults", () => {
+    expect(parseCliArgs([]).cushionThresholds).toBeNull();
+    expect(parseCliArgs(["--cushion-warn=20", "--cushion-critical=8"]).cushionThresholds).toEqual({
+      warn: 0.2,
+      critical: 0.08,
+    });
+    expect(parseCliArgs(["--cushion-warn=15"]).cushionThresholds).toEqual({ warn: 0.15, critical: 0.05 });
+  });
+
+  it("rejects bare, malformed or inverted cushion thresholds", () => {
+    expect(() => parseCliArgs(["--cushion-warn"])).toThrow('"--cushion-warn=<percent>"');
+    expect(() => parseCushionPercent("--cushion-critical", "abc")).toThrow("Invalid --cushion-critical value");
+    expect(() => parseCushionPercent("--cushion-warn", "150")).toThrow();
+    expect(() => parseCliArgs(["--cushion-warn=5", "--cushion-critical=10"])).toThrow("must not be above");
+  });
+});
+
+describe("parseServeAddress", () => {
+  it("parses host and port, defaulting the host to loopback", () => {
+    expect(parseCliArgs([]).serve).toBeNull();
+    expect(parseCliArgs(["--serve=127.0.0.1:8787"]).serve).toEqual({ host: "127.0.0.1", port: 8787 });
+    expect(parseServeAddress("8787")).toEqual({ host: "127.0.0.1", port: 8787 });
+    expect(parseServeAddress("[::1]:9000")).toEqual({ host: "::1", port: 9000 });
+  });
+
+  it("rejects bare flags, missing ports and out-of-range ports", () => {
+    expect(() => parseCliArgs(["--serve"])).toThrow('"--serve=<host>:<port>"');
+    expect(() => parseServeAddress("localhost")).toThrow("Invalid --serve value");
+    expect(() => parseServeAddress("127.0.0.1:70000")).toThrow();
+    expect(() => parseServeAddress("::1:8787")).toThrow();
+  });
+
+  it("enables metrics only together with --serve", () => {
+    expect(parseCliArgs(["--serve=8787"]).metrics).toBe(false);
+    expect(parseCliArgs(["--serve=8787", "--metrics"]).metrics).toBe(true);
+    expect(() => parseCliArgs(["--metrics"])).toThrow('"--metrics" requires "--serve=<host>:<port>"');
+  });
+});
+
+describe("session alert hooks", () => {
+  it("parses --session-alerts, --bell and --notify-cmd", () => {
+    expect(parseCliArgs([])).toEqual(
+      expect.objectContaining({ sessionAlertLeadMinutes: [], bell: false, notifyCommand: null }),
+    );
+    expect(parseCliArgs(["--session-alerts=15, 5,15", "--bell", "--notify-cmd=notify-send -a ib-tui"])).toEqual(
+      expect.objectContaining({ sessionAlertLeadMinutes: [5, 15], bell: true, notifyCommand: "notify-send -a ib-tui" }),
+    );
+  });
+
+  it("rejects a bare or empty --notify-cmd", () => {
+    expect(() => parseCliArgs(["--notify-cmd", "--session-alerts=5"])).toThrow('"--notify-cmd=<command>"');
+    expect(() => parseCliArgs(["--notify-cmd= ", "--session-alerts=5"])).toThrow('Invalid "--notify-cmd" value');
+  });
+
+  it("rejects invalid lead times and hooks without --session-alerts", () => {
+    expect(() => parseCliArgs(["--session-alerts"])).toThrow('"--session-alerts=<minutes>"');
+    expect(() => parseSessionAlerts("0,5")).toThrow("Invalid --session-alerts value");
+    expect(() => parseSessionAlerts("15,abc")).toThrow("Invalid --session-alerts value");
+    expect(() => parseCliArgs(["--bell"])).toThrow('require "--session-alerts=<minutes>"');
+    expect(() => parseCliArgs(["--notify-cmd=notify-send"])).toThrow('require "--session-alerts=<minutes>"');
+  });
+});
+
+describe("parseExportArgs", () => {
+  it("returns null outside the export command", () => {
+    expect(parseExportArgs(["--account=U1"])).toBeNull();
+  });
+
+  it("parses --since as local midnight and --format, defaulting to today and csv", () => {
+    const now = new Date(2026, 2, 15, 14, 30).getTime();
+    expect(parseExportArgs(["export", "executions"], now)).toEqual({
+      target: "executions",
+      sinceMs: new Date(2026, 2, 15).getTime(),
+      format: "csv",
+    });
+    expect(parseExportArgs(["export", "executions", "--since=2026-01-31", "--format=JSON"], now)).toEqual({
+      target: "executions",
+      sinceMs: new Date(2026, 0, 31).getTime(),
+      format: "json",
+    });
+  });
+
+  it("rejects unknown targets, bad dates and formats", () => {
+    expect(() => parseExportArgs(["export", "orders"])).toThrow("Unknown export target");
+    expect(() => parseExportArgs(["export", "executions", "--since"])).toThrow('"--since=YYYY-MM-DD"');
+    expect(() => parseSinceDate("2026-02-30")).toThrow("Invalid --since value");
+    expect(() => parseSinceDate("31/01/2026")).toThrow();
+    expect(() => parseExportArgs(["export", "executions", "--format=xlsx"])).toThrow("Valid values: csv, json");
+  });
+});
+
+describe("parseSnapshotArgs", () => {
+  it("accepts the flag or the command, defaulting to JSON and a 10s FX wait", () => {
+    expect(parseSnapshotArgs(["--account=U1"])).toBeNull();
+    expect(parseSnapshotArgs(["--snapshot"])).toEqual({ format: "json", fxTimeoutMs: 10_000 });
+    expect(parseSnapshotArgs(["snapshot", "--format=csv", "--fx-timeout=2.5"])).toEqual({
+      format: "csv",
+      fxTimeoutMs: 2_500,
+    });
+  });
+
+  it("rejects bad formats and timeouts", () => {
+    expect(() => parseSnapshotArgs(["--snapshot", "--format"])).toThrow('"--format=csv"');
+    expect(() => parseSnapshotArgs(["--snapshot", "--fx-timeout=-1"])).toThrow("Invalid --fx-timeout value");
+    expect(() => parseSnapshotArgs(["--snapshot", "--fx-timeout"])).toThrow('"--fx-timeout=<seconds>"');
+  });
 });
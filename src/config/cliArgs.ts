@@ -1,10 +1,53 @@
 import type { DisplayCurrencyPreference } from "../state/store.js";
+import { DEFAULT_CUSHION_THRESHOLDS } from "../state/accountMetrics.js";
+import type { CushionThresholds } from "../state/accountMetrics.js";
+import { EXPORT_FORMATS } from "../export/format.js";
+import type { ExportFormat } from "../export/format.js";
 
 export type CliArgs = {
   portfolioCurrency: DisplayCurrencyPreference | null;
+  account: string | null;
+  cushionThresholds: CushionThresholds | null;
+  serve: ServeAddress | null;
+  // Serve Prometheus metrics on /metrics; requires --serve.
+  metrics: boolean;
+  // Minutes before a held market opens or closes to alert, ascending; empty
+  // when --session-alerts is not given.
+  sessionAlertLeadMinutes: number[];
+  // Session alert hooks: terminal bell and a notification command.
+  bell: boolean;
+  notifyCommand: string | null;
 };
 
+export type ServeAddress = {
+  host: string;
+  port: number;
+};
+
+// `ib-tui export executions ...`; sinceMs is local midnight of --since.
+export type ExportArgs = {
+  target: "executions";
+  sinceMs: number;
+  format: ExportFormat;
+};
+
+// `ib-tui --snapshot` / `ib-tui snapshot`.
+export type SnapshotArgs = {
+  format: ExportFormat;
+  fxTimeoutMs: number;
+};
+
+const DEFAULT_SNAPSHOT_FX_TIMEOUT_MS = 10_000;
+
 const CURRENCY_CODE_RE = /^[A-Z]{3}$/;
+// IB account codes: letters and digits, e.g. U1234567, DU1234567, F1234567.
+const ACCOUNT_ID_RE = /^[A-Z0-9]{2,20}$/;
+// "PORT", "HOST:PORT" or "[IPv6]:PORT".
+const SERVE_ADDRESS_RE = /^(?:(\[[0-9a-fA-F:]+\]|[^:[\]]+):)?(\d{1,5})$/;
+const DEFAULT_SERVE_HOST = "127.0.0.1";
+const DATE_RE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const EXPORT_FORMAT_SET: ReadonlySet<string> = new Set(EXPORT_FORMATS);
+const isExportFormat = (value: string): value is ExportFormat => EXPORT_FORMAT_SET.has(value);
 
 export const parsePortfolioCurrency = (raw: string): DisplayCurrencyPreference => {
   const normalized = raw.toUpperCase();
@@ -13,6 +56,46 @@ export const parsePortfolioCurrency = (raw: string): DisplayCurrencyPreference =
   throw new Error(`Invalid --portfolio-currency value "${raw}". Use "BASE" or a 3-letter currency code (e.g., USD, EUR).`);
 };
 
+export const parseAccountId = (raw: string): string => {
+  const normalized = raw.trim().toUpperCase();
+  if (ACCOUNT_ID_RE.test(normalized)) return normalized;
+  throw new Error(`Invalid --account value "${raw}". Use an IBKR account code (e.g., U1234567).`);
+};
+
+// Thresholds are given in percent on the command line and stored as fractions.
+export const parseCushionPercent = (flag: string, raw: string): number => {
+  const value = Number(raw.trim());
+  if (raw.trim() && Number.isFinite(value) && value >= 0 && value <= 100) return value / 100;
+  throw new Error(`Invalid ${flag} value "${raw}". Use a percentage between 0 and 100 (e.g., 10).`);
+};
+
+export const parseServeAddress = (raw: string): ServeAddress => {
+  const match = SERVE_ADDRESS_RE.exec(raw.trim());
+  const port = match ? Number(match[2]) : NaN;
+  if (!match || port < 1 || port > 65535) {
+    throw new Error(`Invalid --serve value "${raw}". Use "<host>:<port>" (e.g., 127.0.0.1:8787).`);
+  }
+  const host = match[1] ? match[1].replace(/^\[|\]$/g, "") : DEFAULT_SERVE_HOST;
+  return { host, port };
+};
+
+// "15,5" → [5, 15].
+export const parseSessionAlerts = (raw: string): number[] => {
+  const entries = raw.split(",").map((entry) => entry.trim());
+  if (entries.some((entry) => !/^\d+$/.test(entry) || Number(entry) === 0)) {
+    throw new Error(`Invalid --session-alerts value "${raw}". Use minutes before an open or close, e.g. 15,5.`);
+  }
+  return [...new Set(entries.map(Number))].sort((a, b) => a - b);
+};
+
+const parseCushionFlag = (argv: string[], flag: string): number | null => {
+  const arg = argv.find((value) => value.startsWith(`${flag}=`));
+  if (argv.includes(flag) && !arg) {
+    throw new Error(`Invalid "${flag}" usage. Use "${flag}=<percent>".`);
+  }
+  return arg ? parseCushionPercent(flag, arg.slice(flag.length + 1)) : null;
+};
+
 export const parseCliArgs = (argv: string[]): CliArgs => {
   const portfolioCurrencyArg = argv.find((arg) => arg.startsWith("--portfolio-currency="));
   const hasBareFlag = argv.includes("--portfolio-currency");
@@ -30,5 +113,125 @@ export const parseCliArgs = (argv: string[]): CliArgs => {
     portfolioCurrency = parsePortfolioCurrency(raw);
   }
 
-  return { portfolioCurrency };
+  const accountArg = argv.find((arg) => arg.startsWith("--account="));
+  if (argv.includes("--account") && !accountArg) {
+    throw new Error('Invalid "--account" usage. Use "--account=<accountId>".');
+  }
+  const account = accountArg ? parseAccountId(accountArg.slice("--account=".length)) : null;
+
+  const cushionWarn = parseCushionFlag(argv, "--cushion-warn");
+  const cushionCritical = parseCushionFlag(argv, "--cushion-critical");
+  let cushionThresholds: CushionThresholds | null = null;
+  if (cushionWarn !== null || cushionCritical !== null) {
+    cushionThresholds = {
+      warn: cushionWarn ?? DEFAULT_CUSHION_THRESHOLDS.warn,
+      critical: cushionCritical ?? DEFAULT_CUSHION_THRESHOLDS.critical,
+    };
+    if (cushionThresholds.critical > cushionThresholds.warn) {
+      throw new Error('"--cushion-critical" must not be above "--cushion-warn".');
+    }
+  }
+
+  const serveArg = argv.find((arg) => arg.startsWith("--serve="));
+  if (argv.includes("--serve") && !serveArg) {
+    throw new Error('Invalid "--serve" usage. Use "--serve=<host>:<port>".');
+  }
+  const serve = serveArg ? parseServeAddress(serveArg.slice("--serve=".length)) : null;
+  const metrics = argv.includes("--metrics");
+  if (metrics && !serve) {
+    throw new Error('"--metrics" requires "--serve=<host>:<port>".');
+  }
+
+  const notifyArg = argv.find((arg) => arg.startsWith("--notify-cmd="));
+  if (argv.includes("--notify-cmd") && !notifyArg) {
+    throw new Error('Invalid "--notify-cmd" usage. Use "--notify-cmd=<command>".');
+  }
+  const notifyCommand = notifyArg ? notifyArg.slice("--notify-cmd=".length).trim() : null;
+  if (notifyCommand === "") {
+    throw new Error('Invalid "--notify-cmd" value. Provide a command (e.g., "notify-send").');
+  }
+  const bell = argv.includes("--bell");
+
+  const sessionAlertsArg = argv.find((arg) => arg.startsWith("--session-alerts="));
+  if (argv.includes("--session-alerts") && !sessionAlertsArg) {
+    throw new Error('Invalid "--session-alerts" usage. Use "--session-alerts=<minutes>" (e.g., 15,5).');
+  }
+  const sessionAlertLeadMinutes = sessionAlertsArg ? parseSessionAlerts(sessionAlertsArg.slice("--session-alerts=".length)) : [];
+  if ((bell || notifyCommand) && sessionAlertLeadMinutes.length === 0) {
+    throw new Error('"--bell" and "--notify-cmd" require "--session-alerts=<minutes>".');
+  }
+
+  return { portfolioCurrency, account, cushionThresholds, serve, metrics, sessionAlertLeadMinutes, bell, notifyCommand };
+};
+
+const parseFormatFlag = (argv: string[], fallback: ExportFormat): ExportFormat => {
+  const formatArg = argv.find((arg) => arg.startsWith("--format="));
+  if (argv.includes("--format") && !formatArg) {
+    throw new Error('Invalid "--format" usage. Use "--format=csv" or "--format=json".');
+  }
+  const format = formatArg ? formatArg.slice("--format=".length).toLowerCase() : fallback;
+  if (!isExportFormat(format)) {
+    throw new Error(`Invalid --format value "${format}". Valid values: ${EXPORT_FORMATS.join(", ")}`);
+  }
+  return format;
+};
+
+export const parseSinceDate = (raw: string): number => {
+  const match = DATE_RE.exec(raw.trim());
+  if (match) {
+    const [year, month, day] = match.slice(1).map(Number);
+    const date = new Date(year, month - 1, day);
+    if (date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day) {
+      return date.getTime();
+    }
+  }
+  throw new Error(`Invalid --since value "${raw}". Use a date as YYYY-MM-DD (e.g., 2026-01-31).`);
+};
+
+const startOfToday = (now: number): number => {
+  const date = new Date(now);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+};
+
+/**
+ * Returns null unless argv starts with the `export` command. --since defaults to
+ * today and --format to csv.
+ */
+export const parseExportArgs = (argv: string[], now = Date.now()): ExportArgs | null => {
+  if (argv[0] !== "export") return null;
+  if (argv[1] !== "executions") {
+    throw new Error('Unknown export target. Use "ib-tui export executions [--since=YYYY-MM-DD] [--format=csv|json]".');
+  }
+
+  const sinceArg = argv.find((arg) => arg.startsWith("--since="));
+  if (argv.includes("--since") && !sinceArg) {
+    throw new Error('Invalid "--since" usage. Use "--since=YYYY-MM-DD".');
+  }
+  const sinceMs = sinceArg ? parseSinceDate(sinceArg.slice("--since=".length)) : startOfToday(now);
+
+  return { target: "executions", sinceMs, format: parseFormatFlag(argv, "csv") };
+};
+
+/**
+ * Returns null unless `--snapshot` is given or argv starts with `snapshot`.
+ * --format defaults to json; --fx-timeout is in seconds.
+ */
+export const parseSnapshotArgs = (argv: string[]): SnapshotArgs | null => {
+  if (argv[0] !== "snapshot" && !argv.includes("--snapshot")) return null;
+
+  const fxTimeoutArg = argv.find((arg) => arg.startsWith("--fx-timeout="));
+  if (argv.includes("--fx-timeout") && !fxTimeoutArg) {
+    throw new Error('Invalid "--fx-timeout" usage. Use "--fx-timeout=<seconds>".');
+  }
+  let fxTimeoutMs = DEFAULT_SNAPSHOT_FX_TIMEOUT_MS;
+  if (fxTimeoutArg) {
+    const raw = fxTimeoutArg.slice("--fx-timeout=".length);
+    const seconds = Number(raw.trim());
+    if (!raw.trim() || !Number.isFinite(seconds) || seconds < 0) {
+      throw new Error(`Invalid --fx-timeout value "${raw}". Use a number of seconds (e.g., 10).`);
+    }
+    fxTimeoutMs = seconds * 1000;
+  }
+
+  return { format: parseFormatFlag(argv, "json"), fxTimeoutMs };
 };
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import type { Execution } from "../broker/types.js";
+import { formatExecutions } from "./executionExport.js";
+
+const execution: Execution = {
+  execId: "0001.01",
+  orderId: 7,
+  accountId: "U111",
+  conId: 14204,
+  symbol: "SAP",
+  secType: "STK",
+  currency: "EUR",
+  exchange: "IBIS",
+  side: "SELL",
+  quantity: 10,
+  price: 180.5,
+  time: Date.UTC(2026, 1, 10, 8, 0, 0),
+  commission: 3,
+  commissionCurrency: "EUR",
+  realizedPnL: 42.25,
+  baseCurrencyCode: "USD",
+  fxRateToBase: 1.08,
+};
+
+describe("formatExecutions", () => {
+  it("writes a CSV header and one row per fill, leaving unknown values empty", () => {
+    const csv = formatExecutions(
+      [execution, { ...execution, execId: "0001.02", symbol: 'BRK "B", Inc', commission: null, fxRateToBase: null }],
+      "csv",
+    );
+
+    expect(csv.split("\n")).toEqual([
+      "time,execId,orderId,account,conId,symbol,secType,exchange,side,quantity,price,currency,commission,commissionCurrency,realizedPnL,baseCurrency,fxRateToBase",
+      "2026-02-10T08:00:00.000Z,0001.01,7,U111,14204,SAP,STK,IBIS,SELL,10,180.5,EUR,3,EUR,42.25,USD,1.08",
+      '2026-02-10T08:00:00.000Z,0001.02,7,U111,14204,"BRK ""B"", Inc",STK,IBIS,SELL,10,180.5,EUR,,EUR,42.25,USD,',
+      "",
+    ]);
+  });
+
+  it("writes JSON with the same fields", () => {
+    const rows: unknown = JSON.parse(formatExecutions([execution], "json"));
+
+    expect(rows).toEqual([
+      expect.objectContaining({
+        time: "2026-02-10T08:00:00.000Z",
+        account: "U111",
+        conId: 14204,
+        exchange: "IBIS",
+        commission: 3,
+        currency: "EUR",
+        baseCurrency: "USD",
+        fxRateToBase: 1.08,
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+import type { Execution } from "../broker/types.js";
+import { formatCsv } from "./format.js";
+import type { ExportFormat } from "./format.js";
+
+type ExportRow = {
+  time: string;
+  execId: string;
+  orderId: number;
+  account: string;
+  conId: number;
+  symbol: string;
+  secType: string | null;
+  exchange: string;
+  side: Execution["side"];
+  quantity: number;
+  price: number;
+  currency: string;
+  commission: number | null;
+  commissionCurrency: string | null;
+  realizedPnL: number | null;
+  baseCurrency: string | null;
+  fxRateToBase: number | null;
+};
+
+const CSV_COLUMNS: ReadonlyArray<keyof ExportRow> = [
+  "time",
+  "execId",
+  "orderId",
+  "account",
+  "conId",
+  "symbol",
+  "secType",
+  "exchange",
+  "side",
+  "quantity",
+  "price",
+  "currency",
+  "commission",
+  "commissionCurrency",
+  "realizedPnL",
+  "baseCurrency",
+  "fxRateToBase",
+];
+
+const toExportRow = (execution: Execution): ExportRow => ({
+  time: new Date(execution.time).toISOString(),
+  execId: execution.execId,
+  orderId: execution.orderId,
+  account: execution.accountId,
+  conId: execution.conId,
+  symbol: execution.symbol,
+  secType: execution.secType,
+  exchange: execution.exchange,
+  side: execution.side,
+  quantity: execution.quantity,
+  price: execution.price,
+  currency: execution.currency,
+  commission: execution.commission,
+  commissionCurrency: execution.commissionCurrency,
+  realizedPnL: execution.realizedPnL,
+  baseCurrency: execution.baseCurrencyCode,
+  fxRateToBase: execution.fxRateToBase,
+});
+
+/**
+ * Renders fills oldest first, one row per fill, with times in UTC ISO 8601.
+ * Values IB has not reported (commission, realized P&L of opening fills, FX
+ * rate) stay empty in CSV and null in JSON.
+ */
+export const formatExecutions = (executions: Execution[], format: ExportFormat): string => {
+  const rows = executions.map(toExportRow);
+  return format === "json" ? JSON.stringify(rows, null, 2) + "\n" : formatCsv(CSV_COLUMNS, rows);
+};
@@ -0,0 +1,18 @@
+export const EXPORT_FORMATS = ["csv", "json"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type CsvValue = string | number | boolean | null;
+
+const CSV_QUOTE_RE = /[",\r\n]/;
+
+// Unknown values are left empty rather than written as 0.
+const toCsvCell = (value: CsvValue): string => {
+  if (value === null) return "";
+  const text = String(value);
+  return CSV_QUOTE_RE.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const formatCsv = <Row extends Record<string, CsvValue>>(columns: ReadonlyArray<keyof Row & string>, rows: Row[]): string => {
+  const lines = [columns.join(","), ...rows.map((row) => columns.map((column) => toCsvCell(row[column])).join(","))];
+  return lines.join("\n") + "\n";
+};
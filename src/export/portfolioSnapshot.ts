@@ -0,0 +1,104 @@
+import type { PortfolioUpdate } from "../broker/types.js";
+import { formatCsv } from "./format.js";
+import type { ExportFormat } from "./format.js";
+
+type SnapshotRow = {
+  type: "position" | "cash" | "total";
+  symbol: string;
+  conId: number | null;
+  currency: string | null;
+  quantity: number | null;
+  avgCost: number | null;
+  marketPrice: number | null;
+  marketValue: number | null;
+  unrealizedPnL: number | null;
+  dailyPnL: number | null;
+  realizedPnL: number | null;
+  fxRateToBase: number | null;
+  marketValueBase: number | null;
+  unrealizedPnLBase: number | null;
+};
+
+const CSV_COLUMNS: ReadonlyArray<keyof SnapshotRow> = [
+  "type",
+  "symbol",
+  "conId",
+  "currency",
+  "quantity",
+  "avgCost",
+  "marketPrice",
+  "marketValue",
+  "unrealizedPnL",
+  "dailyPnL",
+  "realizedPnL",
+  "fxRateToBase",
+  "marketValueBase",
+  "unrealizedPnLBase",
+];
+
+const EMPTY_ROW: Omit<SnapshotRow, "type" | "symbol"> = {
+  conId: null,
+  currency: null,
+  quantity: null,
+  avgCost: null,
+  marketPrice: null,
+  marketValue: null,
+  unrealizedPnL: null,
+  dailyPnL: null,
+  realizedPnL: null,
+  fxRateToBase: null,
+  marketValueBase: null,
+  unrealizedPnLBase: null,
+};
+
+const toSnapshotRows = (update: PortfolioUpdate): SnapshotRow[] => {
+  const positions: SnapshotRow[] = [...update.positions]
+    .sort((a, b) => a.symbol.localeCompare(b.symbol) || a.conId - b.conId)
+    .map((position) => ({
+      type: "position",
+      symbol: position.symbol,
+      conId: position.conId,
+      currency: position.currency,
+      quantity: position.quantity,
+      avgCost: position.avgCost,
+      marketPrice: position.marketPrice,
+      marketValue: position.marketValue,
+      unrealizedPnL: position.unrealizedPnL,
+      dailyPnL: position.dailyPnL,
+      realizedPnL: position.realizedPnL,
+      fxRateToBase: position.fxRateToBase,
+      marketValueBase: position.marketValueBase,
+      unrealizedPnLBase: position.unrealizedPnLBase,
+    }));
+  // Cash balances are reported in base; the local amount follows from the rate.
+  const cash: SnapshotRow[] = Object.entries(update.cashBalancesByCurrency).map(([currency, valueInBase]) => {
+    const rate = currency === update.baseCurrencyCode ? 1 : (update.cashExchangeRatesByCurrency[currency] ?? null);
+    return {
+      ...EMPTY_ROW,
+      type: "cash",
+      symbol: currency,
+      currency,
+      marketValue: rate ? valueInBase / rate : null,
+      fxRateToBase: rate,
+      marketValueBase: valueInBase,
+    };
+  });
+  const total: SnapshotRow = {
+    ...EMPTY_ROW,
+    type: "total",
+    symbol: "TOTAL",
+    currency: update.baseCurrencyCode,
+    dailyPnL: update.dailyPnL ?? update.positionsDailyPnL,
+    realizedPnL: update.positionsRealizedPnL,
+    marketValueBase: update.totalEquity,
+    unrealizedPnLBase: update.positionsUnrealizedPnL,
+  };
+  return [...positions, ...cash, total];
+};
+
+/**
+ * JSON is the PortfolioUpdate as the broker emitted it. CSV has one row per
+ * position, one per cash currency and a closing total row in base currency.
+ */
+export const formatPortfolioSnapshot = (update: PortfolioUpdate, format: ExportFormat): string =>
+  format === "json" ? JSON.stringify(update, null, 2) + "\n" : formatCsv(CSV_COLUMNS, toSnapshotRows(update));
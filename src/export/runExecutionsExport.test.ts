@@ -0,0 +1,159 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Execution, PortfolioUpdate } from "../broker/types.js";
+import { appendExecutionJournal } from "../state/executionJournal.js";
+import { runExecutionsExport } from "./runExecutionsExport.js";
+
+vi.mock("../utils/logger.js", () => ({
+  log: vi.fn(),
+}));
+
+const fill = (execId: string, time: number): Execution => ({
+  execId,
+  orderId: 7,
+  accountId: "U111",
+  conId: 265598,
+  symbol: "AAPL",
+  secType: "STK",
+  currency: "USD",
+  exchange: "ISLAND",
+  side: "BUY",
+  quantity: 10,
+  price: 150,
+  time,
+  commission: 1,
+  commissionCurrency: "USD",
+  realizedPnL: null,
+  baseCurrencyCode: "USD",
+  fxRateToBase: 1,
+});
+
+const loadedPortfolio: PortfolioUpdate = {
+  accountId: "U111",
+  positions: [],
+  positionsMarketValue: 0,
+  positionsUnrealizedPnL: 0,
+  positionsDailyPnL: 0,
+  dailyPnL: null,
+  positionsRealizedPnL: 0,
+  totalEquity: 0,
+  cashBalance: 0,
+  cashBalancesByCurrency: {},
+  cashExchangeRatesByCurrency: {},
+  baseCurrencyCode: "USD",
+  initialLoadComplete: true,
+  lastPortfolioUpdateAt: 0,
+  positionsPendingFxCount: 0,
+  positionsPendingFxByCurrency: {},
+  accountValues: {
+    netLiquidation: null,
+    equityWithLoanValue: null,
+    availableFunds: null,
+    excessLiquidity: null,
+    buyingPower: null,
+    initMarginReq: null,
+    maintMarginReq: null,
+    grossPositionValue: null,
+    accruedDividend: null,
+    cushion: null,
+  },
+  watchdogWarnings: 0,
+};
+
+const createMockBroker = (todaysFills: Execution[]) => ({
+  connect: vi.fn(async () => {}),
+  disconnect: vi.fn(async () => {}),
+  subscribePortfolio: vi.fn((callback: (update: PortfolioUpdate) => void) => {
+    callback(loadedPortfolio);
+    return vi.fn();
+  }),
+  subscribeExecutions: vi.fn((callback: (executions: Execution[]) => void) => {
+    callback(todaysFills);
+    return vi.fn();
+  }),
+});
+
+describe("runExecutionsExport", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ib-tui-export-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("journals today's fills and writes every journaled fill since the given time", async () => {
+    const journalPath = path.join(dir, "executions.jsonl");
+    appendExecutionJournal(journalPath, [fill("0001.01", 1_000), fill("0002.01", 2_000)]);
+    const broker = createMockBroker([fill("0003.01", 3_000)]);
+    const write = vi.fn();
+    const warn = vi.fn();
+
+    const count = await runExecutionsExport({ broker, sinceMs: 1_500, format: "json", write, warn, journalPath });
+
+    expect(count).toBe(2);
+    expect(broker.subscribePortfolio.mock.invocationCallOrder[0]).toBeLessThan(
+      broker.subscribeExecutions.mock.invocationCallOrder[0],
+    );
+    expect(broker.disconnect).toHaveBeenCalledTimes(1);
+    expect(warn).not.toHaveBeenCalled();
+    const rows: unknown = JSON.parse(String(write.mock.lastCall?.[0]));
+    expect(rows).toEqual([
+      expect.objectContaining({ execId: "0002.01" }),
+      expect.objectContaining({ execId: "0003.01" }),
+    ]);
+    expect(fs.readFileSync(journalPath, "utf8").trim().split("\n")).toHaveLength(3);
+  });
+
+  it("waits for commission reports that follow the fills before disconnecting", async () => {
+    const journalPath = path.join(dir, "executions.jsonl");
+    const pending = { ...fill("0003.01", 3_000), commission: null, commissionCurrency: null };
+    const broker = createMockBroker([pending]);
+    broker.subscribeExecutions.mockImplementationOnce((callback: (executions: Execution[]) => void) => {
+      callback([pending]);
+      setTimeout(() => callback([fill("0003.01", 3_000)]), 10);
+      return vi.fn();
+    });
+    const write = vi.fn();
+    const warn = vi.fn();
+
+    await runExecutionsExport({ broker, sinceMs: 0, format: "json", write, warn, journalPath, commissionSettleMs: 1_000 });
+
+    expect(warn).not.toHaveBeenCalled();
+    expect(broker.disconnect).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(String(write.mock.lastCall?.[0]))).toEqual([expect.objectContaining({ execId: "0003.01", commission: 1 })]);
+  });
+
+  it("exports fills without a commission once the settle time passes", async () => {
+    const journalPath = path.join(dir, "executions.jsonl");
+    const broker = createMockBroker([{ ...fill("0003.01", 3_000), commission: null, commissionCurrency: null }]);
+    const write = vi.fn();
+    const warn = vi.fn();
+
+    const count = await runExecutionsExport({ broker, sinceMs: 0, format: "json", write, warn, journalPath, commissionSettleMs: 10 });
+
+    expect(count).toBe(1);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("no commission report"));
+    expect(broker.disconnect).toHaveBeenCalledTimes(1);
+  });
+
+  it("falls back to the journal when the gateway cannot be reached", async () => {
+    const journalPath = path.join(dir, "executions.jsonl");
+    appendExecutionJournal(journalPath, [fill("0001.01", 1_000)]);
+    const broker = createMockBroker([]);
+    broker.connect.mockRejectedValueOnce(new Error("connect ECONNREFUSED"));
+    const write = vi.fn();
+    const warn = vi.fn();
+
+    const count = await runExecutionsExport({ broker, sinceMs: 0, format: "csv", write, warn, journalPath });
+
+    expect(count).toBe(1);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("ECONNREFUSED"));
+    expect(broker.subscribeExecutions).not.toHaveBeenCalled();
+    expect(String(write.mock.lastCall?.[0]).split("\n")[1]).toMatch(/^1970-01-01T00:00:01\.000Z,0001\.01,/);
+  });
+});
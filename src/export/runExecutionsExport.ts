@@ -0,0 +1,147 @@
+import type { Broker, Execution, PortfolioUpdate } from "../broker/types.js";
+import { log } from "../utils/logger.js";
+import {
+  appendExecutionJournal,
+  getExecutionJournalPath,
+  loadExecutionJournal,
+  takeUnjournaledExecutions,
+} from "../state/executionJournal.js";
+import { formatExecutions } from "./executionExport.js";
+import type { ExportFormat } from "./format.js";
+
+const DEFAULT_LOAD_TIMEOUT_MS = 30_000;
+// commissionReport events follow execDetailsEnd; fills still missing one after
+// this long are exported without a commission.
+const DEFAULT_COMMISSION_SETTLE_MS = 3_000;
+
+type ExportBroker = Pick<Broker, "connect" | "disconnect" | "subscribePortfolio" | "subscribeExecutions">;
+
+type Params = {
+  broker: ExportBroker;
+  sinceMs: number;
+  format: ExportFormat;
+  write: (text: string) => void;
+  warn: (message: string) => void;
+  journalPath?: string;
+  timeoutMs?: number;
+  commissionSettleMs?: number;
+};
+
+type WaitOptions<T> = {
+  isReady: (value: T) => boolean;
+  // Once a value is ready, later values are awaited until one passes
+  // `isComplete` or `settleMs` elapses.
+  isComplete?: (value: T) => boolean;
+  settleMs?: number;
+  timeoutMs: number;
+};
+
+// Resolves with the latest ready value `subscribe` reports once it is complete
+// or has settled, or null when none is ready after `timeoutMs`; the
+// subscription is closed either way.
+const waitForValue = <T>(
+  subscribe: (callback: (value: T) => void) => () => void,
+  { isReady, isComplete = () => true, settleMs = 0, timeoutMs }: WaitOptions<T>,
+): Promise<T | null> =>
+  new Promise((resolve, reject) => {
+    let settled = false;
+    let latest: T | null = null;
+    let settleTimer: ReturnType<typeof setTimeout> | null = null;
+    let unsubscribe: (() => void) | null = null;
+    const finish = () => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      if (settleTimer) clearTimeout(settleTimer);
+      unsubscribe?.();
+      resolve(latest);
+    };
+    const timer = setTimeout(finish, timeoutMs);
+    try {
+      unsubscribe = subscribe((value) => {
+        if (!isReady(value)) return;
+        latest = value;
+        if (isComplete(value)) finish();
+        else settleTimer ??= setTimeout(finish, settleMs);
+      });
+    } catch (error) {
+      settled = true;
+      clearTimeout(timer);
+      if (settleTimer) clearTimeout(settleTimer);
+      reject(error);
+      return;
+    }
+    // The callback may already have fired synchronously.
+    if (settled) unsubscribe();
+  });
+
+const hasCommission = (execution: Execution): boolean => execution.commission !== null;
+
+// Today's fills come from the gateway; the portfolio is loaded first so the
+// account's exchange rates are known when fills are stamped.
+const captureTodaysExecutions = async (
+  broker: ExportBroker,
+  timeoutMs: number,
+  commissionSettleMs: number,
+  warn: (message: string) => void,
+) => {
+  const portfolio = await waitForValue<PortfolioUpdate>((callback) => broker.subscribePortfolio(callback), {
+    isReady: (update) => update.initialLoadComplete,
+    timeoutMs,
+  });
+  if (!portfolio) {
+    warn("Portfolio did not finish loading; fills are exported without FX rates.");
+  }
+  const executions = await waitForValue<Execution[]>((callback) => broker.subscribeExecutions(callback), {
+    isReady: () => true,
+    isComplete: (fills) => fills.every(hasCommission),
+    settleMs: commissionSettleMs,
+    timeoutMs,
+  });
+  if (!executions) {
+    warn("Timed out waiting for today's fills; exporting journaled fills only.");
+  } else if (!executions.every(hasCommission)) {
+    warn("Some of today's fills have no commission report yet; they are exported without a commission.");
+  }
+  return executions ?? [];
+};
+
+/**
+ * Headless `export executions`: records today's fills in the execution journal
+ * (when the gateway is reachable), then writes every journaled fill executed at
+ * or after `sinceMs`. Returns the number of fills written.
+ */
+export const runExecutionsExport = async ({
+  broker,
+  sinceMs,
+  format,
+  write,
+  warn,
+  journalPath = getExecutionJournalPath(),
+  timeoutMs = DEFAULT_LOAD_TIMEOUT_MS,
+  commissionSettleMs = DEFAULT_COMMISSION_SETTLE_MS,
+}: Params): Promise<number> => {
+  try {
+    await broker.connect();
+    try {
+      const captured = await captureTodaysExecutions(broker, timeoutMs, commissionSettleMs, warn);
+      const journaled = new Map(
+        loadExecutionJournal(journalPath).map((execution) => [execution.execId, JSON.stringify(execution)]),
+      );
+      const changed = takeUnjournaledExecutions(journaled, captured);
+      appendExecutionJournal(journalPath, changed);
+      log("info", "export.executions", `captured=${captured.length} appended=${changed.length}`);
+    } finally {
+      await broker.disconnect();
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log("warn", "export.executions", `capture failed error=${message}`);
+    warn(`Could not load fills from the gateway (${message}); exporting journaled fills only.`);
+  }
+
+  const executions = loadExecutionJournal(journalPath, sinceMs);
+  write(formatExecutions(executions, format));
+  log("info", "export.executions", `written=${executions.length} format=${format} since=${sinceMs}`);
+  return executions.length;
+};
@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Position, PortfolioUpdate } from "../broker/types.js";
+import { runPortfolioSnapshot } from "./runPortfolioSnapshot.js";
+import { formatPortfolioSnapshot } from "./portfolioSnapshot.js";
+
+vi.mock("../utils/logger.js", () => ({
+  log: vi.fn(),
+}));
+
+const position = (overrides: Partial<Position>): Position => ({
+  symbol: "AAPL",
+  quantity: 10,
+  avgCost: 140,
+  marketValue: 1_500,
+  unrealizedPnL: 100,
+  dailyPnL: 12,
+  realizedPnL: 0,
+  marketPrice: 150,
+  currency: "USD",
+  conId: 265598,
+  marketValueBase: 1_500,
+  unrealizedPnLBase: 100,
+  realizedPnLBase: 0,
+  fxRateToBase: 1,
+  isFxPending: false,
+  ...overrides,
+});
+
+const portfolio = (overrides: Partial<PortfolioUpdate> = {}): PortfolioUpdate => ({
+  accountId: "U111",
+  positions: [position({})],
+  positionsMarketValue: 1_500,
+  positionsUnrealizedPnL: 100,
+  positionsDailyPnL: 12,
+  dailyPnL: 15,
+  positionsRealizedPnL: 0,
+  totalEquity: 2_040,
+  cashBalance: 540,
+  cashBalancesByCurrency: { EUR: 540 },
+  cashExchangeRatesByCurrency: { EUR: 1.08 },
+  baseCurrencyCode: "USD",
+  initialLoadComplete: true,
+  lastPortfolioUpdateAt: 1_000,
+  positionsPendingFxCount: 0,
+  positionsPendingFxByCurrency: {},
+  accountValues: {
+    netLiquidation: null,
+    equityWithLoanValue: null,
+    availableFunds: null,
+    excessLiquidity: null,
+    buyingPower: null,
+    initMarginReq: null,
+    maintMarginReq: null,
+    grossPositionValue: null,
+    accruedDividend: null,
+    cushion: null,
+  },
+  watchdogWarnings: 0,
+  ...overrides,
+});
+
+const createMockBroker = () => {
+  let emit: (update: PortfolioUpdate) => void = () => {};
+  const unsubscribe = vi.fn();
+  return {
+    emit: (update: PortfolioUpdate) => emit(update),
+    unsubscribe,
+    connect: vi.fn(async () => {}),
+    disconnect: vi.fn(async () => {}),
+    subscribePortfolio: vi.fn((callback: (update: PortfolioUpdate) => void) => {
+      emit = callback;
+      return unsubscribe;
+    }),
+  };
+};
+
+describe("runPortfolioSnapshot", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("waits for the initial load and pending FX before writing the snapshot", async () => {
+    vi.useFakeTimers();
+    const broker = createMockBroker();
+    const write = vi.fn();
+    const warn = vi.fn();
+
+    const result = runPortfolioSnapshot({ broker, format: "json", write, warn });
+    await vi.waitFor(() => expect(broker.subscribePortfolio).toHaveBeenCalled());
+    broker.emit(portfolio({ initialLoadComplete: false }));
+    broker.emit(portfolio({ positionsPendingFxCount: 1, positionsPendingFxByCurrency: { EUR: 1 } }));
+    expect(write).not.toHaveBeenCalled();
+    broker.emit(portfolio());
+
+    await expect(result).resolves.toEqual(portfolio());
+    expect(JSON.parse(String(write.mock.lastCall?.[0]))).toEqual(portfolio());
+    expect(warn).not.toHaveBeenCalled();
+    expect(broker.unsubscribe).toHaveBeenCalled();
+    expect(broker.disconnect).toHaveBeenCalled();
+  });
+
+  it("writes the latest snapshot with a warning when FX stays pending", async () => {
+    vi.useFakeTimers();
+    const broker = createMockBroker();
+    const write = vi.fn();
+    const warn = vi.fn();
+
+    const result = runPortfolioSnapshot({ broker, format: "csv", write, warn, fxTimeoutMs: 5_000 });
+    await vi.waitFor(() => expect(broker.subscribePortfolio).toHaveBeenCalled());
+    broker.emit(portfolio({ positionsPendingFxCount: 1, positionsPendingFxByCurrency: { CHF: 1 } }));
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    await expect(result).resolves.toEqual(expect.objectContaining({ positionsPendingFxCount: 1 }));
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("CHF"));
+    expect(write).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails on connection errors and on a load that never completes", async () => {
+    vi.useFakeTimers();
+    const failing = createMockBroker();
+    failing.connect.mockRejectedValueOnce(new Error("Connection timeout"));
+    await expect(runPortfolioSnapshot({ broker: failing, format: "json", write: vi.fn(), warn: vi.fn() })).rejects.toThrow(
+      "Could not connect to the gateway: Connection timeout",
+    );
+
+    const stalled = createMockBroker();
+    const result = runPortfolioSnapshot({ broker: stalled, format: "json", write: vi.fn(), warn: vi.fn(), loadTimeoutMs: 30_000 });
+    const rejection = expect(result).rejects.toThrow("did not finish loading within 30s");
+    await vi.advanceTimersByTimeAsync(30_000);
+    await rejection;
+    expect(stalled.disconnect).toHaveBeenCalled();
+  });
+});
+
+describe("formatPortfolioSnapshot", () => {
+  it("writes positions, cash per currency and a total row as CSV", () => {
+    const csv = formatPortfolioSnapshot(
+      portfolio({
+        positions: [position({ symbol: "SAP", conId: 14204, currency: "EUR", fxRateToBase: 1.25 }), position({})],
+        cashBalancesByCurrency: { EUR: 625 },
+        cashExchangeRatesByCurrency: { EUR: 1.25 },
+      }),
+      "csv",
+    );
+
+    expect(csv.split("\n")).toEqual([
+      "type,symbol,conId,currency,quantity,avgCost,marketPrice,marketValue,unrealizedPnL,dailyPnL,realizedPnL,fxRateToBase,marketValueBase,unrealizedPnLBase",
+      "position,AAPL,265598,USD,10,140,150,1500,100,12,0,1,1500,100",
+      "position,SAP,14204,EUR,10,140,150,1500,100,12,0,1.25,1500,100",
+      "cash,EUR,,EUR,,,,500,,,,1.25,625,",
+      "total,TOTAL,,USD,,,,,,15,0,,2040,100",
+      "",
+    ]);
+  });
+});
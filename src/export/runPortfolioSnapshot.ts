@@ -0,0 +1,107 @@
+import type { Broker, PortfolioUpdate } from "../broker/types.js";
+import { log } from "../utils/logger.js";
+import { formatPortfolioSnapshot } from "./portfolioSnapshot.js";
+import type { ExportFormat } from "./format.js";
+
+const DEFAULT_LOAD_TIMEOUT_MS = 30_000;
+const DEFAULT_FX_TIMEOUT_MS = 10_000;
+
+type SnapshotBroker = Pick<Broker, "connect" | "disconnect" | "subscribePortfolio">;
+
+type Params = {
+  broker: SnapshotBroker;
+  format: ExportFormat;
+  write: (text: string) => void;
+  warn: (message: string) => void;
+  loadTimeoutMs?: number;
+  fxTimeoutMs?: number;
+};
+
+// Resolves with the first fully converted snapshot, or with the latest one
+// when FX rates are still pending `fxTimeoutMs` after the initial load.
+const waitForLoadedPortfolio = (
+  broker: SnapshotBroker,
+  loadTimeoutMs: number,
+  fxTimeoutMs: number,
+): Promise<PortfolioUpdate> =>
+  new Promise((resolve, reject) => {
+    let settled = false;
+    let latest: PortfolioUpdate | null = null;
+    let fxTimer: ReturnType<typeof setTimeout> | null = null;
+    let unsubscribe: (() => void) | null = null;
+
+    const settle = (finish: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(loadTimer);
+      if (fxTimer) clearTimeout(fxTimer);
+      unsubscribe?.();
+      finish();
+    };
+
+    const loadTimer = setTimeout(() => {
+      settle(() => reject(new Error(`Portfolio did not finish loading within ${loadTimeoutMs / 1000}s`)));
+    }, loadTimeoutMs);
+
+    const onUpdate = (update: PortfolioUpdate) => {
+      latest = update;
+      if (!update.initialLoadComplete) return;
+      if (update.positionsPendingFxCount === 0) {
+        settle(() => resolve(update));
+        return;
+      }
+      if (fxTimer) return;
+      clearTimeout(loadTimer);
+      fxTimer = setTimeout(() => {
+        const snapshot = latest ?? update;
+        settle(() => resolve(snapshot));
+      }, fxTimeoutMs);
+    };
+
+    try {
+      unsubscribe = broker.subscribePortfolio(onUpdate);
+    } catch (error) {
+      settle(() => reject(error));
+      return;
+    }
+    if (settled) unsubscribe();
+  });
+
+/**
+ * Headless `--snapshot`: connects, waits for the initial portfolio load (and for
+ * pending FX rates, up to `fxTimeoutMs`), writes the snapshot and disconnects.
+ * Rejects when the connection fails or the load times out.
+ */
+export const runPortfolioSnapshot = async ({
+  broker,
+  format,
+  write,
+  warn,
+  loadTimeoutMs = DEFAULT_LOAD_TIMEOUT_MS,
+  fxTimeoutMs = DEFAULT_FX_TIMEOUT_MS,
+}: Params): Promise<PortfolioUpdate> => {
+  try {
+    await broker.connect();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log("error", "snapshot", `connect failed error=${message}`);
+    throw new Error(`Could not connect to the gateway: ${message}`);
+  }
+
+  try {
+    const update = await waitForLoadedPortfolio(broker, loadTimeoutMs, fxTimeoutMs);
+    if (update.positionsPendingFxCount > 0) {
+      const currencies = Object.keys(update.positionsPendingFxByCurrency).join(", ");
+      warn(`FX rates still pending for ${update.positionsPendingFxCount} position(s) (${currencies}); base values are null.`);
+    }
+    write(formatPortfolioSnapshot(update, format));
+    log(
+      "info",
+      "snapshot",
+      `written account=${update.accountId ?? "n/a"} positions=${update.positions.length} pendingFx=${update.positionsPendingFxCount} format=${format}`,
+    );
+    return update;
+  } finally {
+    await broker.disconnect();
+  }
+};
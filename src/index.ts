@@ -2,10 +2,15 @@
 import { render } from "ink";
 import React from "react";
 import { App } from "./tui/App.js";
-import { configureLogging, LOG_LEVELS } from "./utils/logger.js";
+import { configureLogging, log, LOG_LEVELS } from "./utils/logger.js";
 import type { LogLevel } from "./utils/logger.js";
-import { parseCliArgs } from "./config/cliArgs.js";
-import { useStore } from "./state/store.js";
+import { parseCliArgs, parseExportArgs, parseSnapshotArgs } from "./config/cliArgs.js";
+import type { ExportArgs, ServeAddress, SnapshotArgs } from "./config/cliArgs.js";
+import { runExecutionsExport } from "./export/runExecutionsExport.js";
+import { runPortfolioSnapshot } from "./export/runPortfolioSnapshot.js";
+import { onPortfolioUpdate, useStore } from "./state/store.js";
+import { createApiServer } from "./server/createApiServer.js";
+import { createSessionNotifier } from "./utils/sessionNotifier.js";
 
 const VALID_LEVELS = [...LOG_LEVELS];
 const VALID_LEVEL_SET: ReadonlySet<string> = new Set(LOG_LEVELS);
@@ -62,19 +67,100 @@ if (logFileArg) {
   configureLogging({ filePath: logFile, level });
 }
 
+let exportArgs: ExportArgs | null = null;
+let snapshotArgs: SnapshotArgs | null = null;
+let serveAddress: ServeAddress | null = null;
+let serveMetrics = false;
+let sessionHooks: { bell: boolean; command: string | null } = { bell: false, command: null };
 try {
+  exportArgs = parseExportArgs(args);
+  snapshotArgs = exportArgs ? null : parseSnapshotArgs(args);
   const cliArgs = parseCliArgs(args);
   if (cliArgs.portfolioCurrency) {
     useStore.getState().setDisplayCurrencyPreference(cliArgs.portfolioCurrency);
   }
+  if (cliArgs.account) {
+    useStore.getState().setAccount(cliArgs.account);
+  }
+  if (cliArgs.cushionThresholds) {
+    useStore.getState().setCushionThresholds(cliArgs.cushionThresholds);
+  }
+  serveAddress = cliArgs.serve;
+  serveMetrics = cliArgs.metrics;
+  sessionHooks = { bell: cliArgs.bell, command: cliArgs.notifyCommand };
+  useStore.getState().broker.setSessionAlerts(cliArgs.sessionAlertLeadMinutes);
 } catch (err) {
   const message = err instanceof Error ? err.message : String(err);
   process.stderr.write(`${message}\n`);
   process.exit(1);
 }
 
-const { waitUntilExit } = render(React.createElement(App));
+// Headless modes print to stdout, report problems on stderr and exit non-zero
+// when they fail; Ink is never rendered.
+const runHeadless = (task: Promise<unknown>): void => {
+  void task.then(
+    () => process.exit(0),
+    (err: unknown) => {
+      const message = err instanceof Error ? err.message : String(err);
+      process.stderr.write(`${message}\n`);
+      process.exit(1);
+    },
+  );
+};
+const write = (text: string) => process.stdout.write(text);
+const warn = (message: string) => process.stderr.write(`${message}\n`);
 
-void waitUntilExit().then(() => {
-  process.exit(0);
-});
+if (exportArgs) {
+  runHeadless(
+    runExecutionsExport({
+      broker: useStore.getState().broker,
+      sinceMs: exportArgs.sinceMs,
+      format: exportArgs.format,
+      write,
+      warn,
+    }),
+  );
+} else if (snapshotArgs) {
+  runHeadless(
+    runPortfolioSnapshot({
+      broker: useStore.getState().broker,
+      format: snapshotArgs.format,
+      fxTimeoutMs: snapshotArgs.fxTimeoutMs,
+      write,
+      warn,
+    }),
+  );
+} else {
+  if (sessionHooks.bell || sessionHooks.command) {
+    useStore.getState().broker.onStatus(createSessionNotifier({ ...sessionHooks, log }));
+  }
+
+  // The API server must be listening before Ink takes over the terminal, so a
+  // port already in use is reported and ends the process.
+  const server = serveAddress
+    ? createApiServer({
+        ...serveAddress,
+        getState: useStore.getState,
+        onPortfolioUpdate,
+        onStatus: (listener) => useStore.getState().broker.onStatus(listener),
+        metrics: serveMetrics,
+        log,
+      })
+    : null;
+
+  void (server ? server.start() : Promise.resolve(null)).then(
+    () => {
+      const { waitUntilExit } = render(React.createElement(App));
+
+      void waitUntilExit().then(async () => {
+        await server?.close();
+        process.exit(0);
+      });
+    },
+    (err: unknown) => {
+      const message = err instanceof Error ? err.message : String(err);
+      process.stderr.write(`Could not start the API server on ${serveAddress?.host}:${serveAddress?.port}: ${message}\n`);
+      process.exit(1);
+    },
+  );
+}
@@ -0,0 +1,228 @@
+import http from "node:http";
+import net from "node:net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { WebSocket } from "ws";
+import type { BrokerStatus, PortfolioUpdate } from "../broker/types.js";
+import { createApiServer } from "./createApiServer.js";
+import type { ApiServer, ApiState } from "./createApiServer.js";
+
+const state: ApiState = {
+  connectionStatus: "connected",
+  connectionHealth: "healthy",
+  error: null,
+  brokerStatus: null,
+  retryAttempt: 0,
+  nextRetryAt: null,
+  statusHistory: [{ at: 1_000, level: "info", message: "Connected to IBKR", repeatCount: 1 }],
+  selectedAccountId: "U111",
+  accountId: "U111",
+  positions: [],
+  positionsMarketValue: 1_500,
+  positionsUnrealizedPnL: 100,
+  positionsDailyPnL: 12,
+  positionsRealizedPnL: 0,
+  dailyPnL: 15,
+  totalEquity: 2_040,
+  cashBalance: 540,
+  cashBalancesByCurrency: { EUR: 540 },
+  cashExchangeRatesByCurrency: { EUR: 1.08 },
+  baseCurrencyCode: "USD",
+  initialLoadComplete: true,
+  lastPortfolioUpdateAt: 1_000,
+  positionsPendingFxCount: 0,
+  positionsPendingFxByCurrency: {},
+  displayCurrencyCode: "USD",
+  displayFxRate: 1,
+};
+
+const createListeners = <T>() => {
+  const listeners = new Set<(value: T) => void>();
+  return {
+    subscribe: (listener: (value: T) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    emit: (value: T) => listeners.forEach((listener) => listener(value)),
+    size: () => listeners.size,
+  };
+};
+
+// fetch does not let the Host header be overridden.
+const getStatusWithHost = (port: number, path: string, host: string) =>
+  new Promise<number | undefined>((resolve, reject) => {
+    http
+      .get({ host: "127.0.0.1", port, path, headers: { Host: host } }, (res) => {
+        res.resume();
+        resolve(res.statusCode);
+      })
+      .on("error", reject);
+  });
+
+describe("createApiServer", () => {
+  let server: ApiServer | null = null;
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  const startServer = async (options: { metrics?: boolean } = {}) => {
+    const portfolio = createListeners<PortfolioUpdate>();
+    const status = createListeners<BrokerStatus>();
+    server = createApiServer({
+      host: "127.0.0.1",
+      port: 0,
+      getState: () => state,
+      onPortfolioUpdate: portfolio.subscribe,
+      onStatus: status.subscribe,
+      metrics: options.metrics,
+    });
+    const { port } = await server.start();
+    return { baseUrl: `http://127.0.0.1:${port}`, port, portfolio, status };
+  };
+
+  it("serves portfolio, cash, status history and health as JSON", async () => {
+    const { baseUrl } = await startServer();
+
+    const portfolio = await fetch(`${baseUrl}/api/portfolio`);
+    expect(portfolio.status).toBe(200);
+    expect(await portfolio.json()).toEqual(expect.objectContaining({ accountId: "U111", totalEquity: 2_040 }));
+    expect(await (await fetch(`${baseUrl}/api/cash`)).json()).toEqual({
+      baseCurrencyCode: "USD",
+      cashBalance: 540,
+      cashBalancesByCurrency: { EUR: 540 },
+      cashExchangeRatesByCurrency: { EUR: 1.08 },
+    });
+    expect(await (await fetch(`${baseUrl}/api/status`)).json()).toEqual({ statusHistory: state.statusHistory });
+    expect(await (await fetch(`${baseUrl}/api/health`)).json()).toEqual(
+      expect.objectContaining({ connectionStatus: "connected", connectionHealth: "healthy" }),
+    );
+  });
+
+  it("rejects unknown paths, writes and pages from other origins", async () => {
+    const { baseUrl } = await startServer();
+
+    expect((await fetch(`${baseUrl}/api/orders`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/api/portfolio`, { method: "POST" })).status).toBe(405);
+    expect((await fetch(`${baseUrl}/api/portfolio`, { headers: { Origin: "https://example.com" } })).status).toBe(403);
+    expect((await fetch(`${baseUrl}/api/portfolio`, { headers: { Origin: "http://localhost:3000" } })).status).toBe(200);
+  });
+
+  it("serves Prometheus metrics only when enabled", async () => {
+    const { baseUrl, status } = await startServer({ metrics: true });
+    status.emit({ level: "warn", message: "Market data farm connection is broken", code: 2103, at: 2_000 });
+
+    const response = await fetch(`${baseUrl}/metrics`);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("text/plain; version=0.0.4");
+    const text = await response.text();
+    expect(text).toContain('ib_tui_connection_status{status="connected"} 1');
+    expect(text).toContain('ib_tui_broker_status_total{code="2103"} 1');
+
+    await server?.close();
+    const { baseUrl: plainUrl } = await startServer();
+    expect((await fetch(`${plainUrl}/metrics`)).status).toBe(404);
+  });
+
+  it("pushes portfolio updates and broker statuses to WebSocket clients", async () => {
+    const { port, portfolio, status } = await startServer();
+    const client = new WebSocket(`ws://127.0.0.1:${port}/api/stream`);
+    const messages: unknown[] = [];
+    client.on("message", (data) => messages.push(JSON.parse(String(data))));
+    await new Promise((resolve) => client.once("open", resolve));
+    await vi.waitFor(() => expect(portfolio.size()).toBe(1));
+
+    const update: PortfolioUpdate = {
+      accountId: "U111",
+      positions: [],
+      positionsMarketValue: 1_500,
+      positionsUnrealizedPnL: 100,
+      positionsDailyPnL: 12,
+      dailyPnL: 15,
+      positionsRealizedPnL: 0,
+      totalEquity: 2_040,
+      cashBalance: 540,
+      cashBalancesByCurrency: { EUR: 540 },
+      cashExchangeRatesByCurrency: { EUR: 1.08 },
+      baseCurrencyCode: "USD",
+      initialLoadComplete: true,
+      lastPortfolioUpdateAt: 2_000,
+      positionsPendingFxCount: 0,
+      positionsPendingFxByCurrency: {},
+      accountValues: {
+        netLiquidation: 2_040,
+        equityWithLoanValue: null,
+        availableFunds: null,
+        excessLiquidity: null,
+        buyingPower: null,
+        initMarginReq: null,
+        maintMarginReq: null,
+        grossPositionValue: null,
+        accruedDividend: null,
+        cushion: null,
+      },
+      watchdogWarnings: 0,
+    };
+    portfolio.emit(update);
+    status.emit({ level: "warn", message: "Market data farm connection is broken", code: 2103, at: 2_000 });
+
+    await vi.waitFor(() => expect(messages).toHaveLength(2));
+    expect(messages).toEqual([
+      { type: "portfolio", data: update },
+      { type: "status", data: expect.objectContaining({ code: 2103 }) },
+    ]);
+    client.close();
+  });
+
+  it("refuses WebSocket upgrades on other paths", async () => {
+    const { port } = await startServer();
+    const client = new WebSocket(`ws://127.0.0.1:${port}/other`);
+
+    const error = await new Promise<Error>((resolve) => client.once("error", resolve));
+    expect(error.message).toContain("403");
+  });
+
+  it("rejects requests and upgrades whose Host is not this machine", async () => {
+    const { port } = await startServer();
+
+    expect(await getStatusWithHost(port, "/api/portfolio", `localhost:${port}`)).toBe(200);
+    expect(await getStatusWithHost(port, "/api/portfolio", `127.0.0.1:${port}`)).toBe(200);
+    // A rebound DNS name reaches the same address but keeps its own Host.
+    expect(await getStatusWithHost(port, "/api/portfolio", `attacker.example:${port}`)).toBe(403);
+
+    const client = new WebSocket(`ws://127.0.0.1:${port}/api/stream`, { headers: { Host: `attacker.example:${port}` } });
+    const error = await new Promise<Error>((resolve) => client.once("error", resolve));
+    expect(error.message).toContain("403");
+  });
+
+  it("drops a WebSocket client that sends an invalid frame and keeps serving", async () => {
+    const { baseUrl, port } = await startServer();
+    const socket = net.connect(port, "127.0.0.1");
+    socket.write(
+      [
+        "GET /api/stream HTTP/1.1",
+        `Host: 127.0.0.1:${port}`,
+        "Upgrade: websocket",
+        "Connection: Upgrade",
+        "Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==",
+        "Sec-WebSocket-Version: 13",
+        "",
+        "",
+      ].join("\r\n"),
+    );
+    await new Promise((resolve) => socket.once("data", resolve));
+
+    // Client frames must be masked; this one is not.
+    const closed = new Promise((resolve) => socket.once("close", resolve));
+    socket.on("error", () => {});
+    socket.write(Buffer.from([0x81, 0x02, 0x68, 0x69]));
+    await closed;
+
+    expect((await fetch(`${baseUrl}/api/health`)).status).toBe(200);
+    const client = new WebSocket(`ws://127.0.0.1:${port}/api/stream`);
+    await new Promise((resolve) => client.once("open", resolve));
+    client.close();
+  });
+});
@@ -0,0 +1,255 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { WebSocketServer } from "ws";
+import type { WebSocket } from "ws";
+import type { BrokerStatus, PortfolioUpdate } from "../broker/types.js";
+import type { AppState } from "../state/store.js";
+import { noopLog } from "../utils/logger.js";
+import type { LogFn } from "../utils/logger.js";
+import { createMetricsCollector } from "./metrics.js";
+import type { MetricsCollector } from "./metrics.js";
+
+const STREAM_PATH = "/api/stream";
+const METRICS_PATH = "/metrics";
+const LOOPBACK_HOSTNAMES = new Set(["127.0.0.1", "localhost", "[::1]"]);
+
+export type ApiState = Pick<
+  AppState,
+  | "connectionStatus"
+  | "connectionHealth"
+  | "error"
+  | "brokerStatus"
+  | "retryAttempt"
+  | "nextRetryAt"
+  | "statusHistory"
+  | "selectedAccountId"
+  | "accountId"
+  | "positions"
+  | "positionsMarketValue"
+  | "positionsUnrealizedPnL"
+  | "positionsDailyPnL"
+  | "positionsRealizedPnL"
+  | "dailyPnL"
+  | "totalEquity"
+  | "cashBalance"
+  | "cashBalancesByCurrency"
+  | "cashExchangeRatesByCurrency"
+  | "baseCurrencyCode"
+  | "initialLoadComplete"
+  | "lastPortfolioUpdateAt"
+  | "positionsPendingFxCount"
+  | "positionsPendingFxByCurrency"
+  | "displayCurrencyCode"
+  | "displayFxRate"
+>;
+
+export type StreamMessage = { type: "portfolio"; data: PortfolioUpdate } | { type: "status"; data: BrokerStatus };
+
+export type ApiServer = {
+  // Resolves with the bound address (the port is assigned when 0 was asked for).
+  start(): Promise<{ host: string; port: number }>;
+  close(): Promise<void>;
+};
+
+type Params = {
+  host: string;
+  port: number;
+  getState: () => ApiState;
+  onPortfolioUpdate: (listener: (update: PortfolioUpdate) => void) => () => void;
+  onStatus: (listener: (status: BrokerStatus) => void) => () => void;
+  // Serve Prometheus metrics on /metrics.
+  metrics?: boolean;
+  log?: LogFn;
+};
+
+const ROUTES: Record<string, (state: ApiState) => unknown> = {
+  "/api/portfolio": (state) => ({
+    accountId: state.accountId ?? state.selectedAccountId,
+    baseCurrencyCode: state.baseCurrencyCode,
+    displayCurrencyCode: state.displayCurrencyCode,
+    displayFxRate: state.displayFxRate,
+    initialLoadComplete: state.initialLoadComplete,
+    lastPortfolioUpdateAt: state.lastPortfolioUpdateAt,
+    positions: state.positions,
+    positionsMarketValue: state.positionsMarketValue,
+    positionsUnrealizedPnL: state.positionsUnrealizedPnL,
+    positionsDailyPnL: state.positionsDailyPnL,
+    positionsRealizedPnL: state.positionsRealizedPnL,
+    dailyPnL: state.dailyPnL,
+    totalEquity: state.totalEquity,
+    positionsPendingFxCount: state.positionsPendingFxCount,
+    positionsPendingFxByCurrency: state.positionsPendingFxByCurrency,
+  }),
+  "/api/cash": (state) => ({
+    baseCurrencyCode: state.baseCurrencyCode,
+    cashBalance: state.cashBalance,
+    cashBalancesByCurrency: state.cashBalancesByCurrency,
+    cashExchangeRatesByCurrency: state.cashExchangeRatesByCurrency,
+  }),
+  "/api/status": (state) => ({ statusHistory: state.statusHistory }),
+  "/api/health": (state) => ({
+    connectionStatus: state.connectionStatus,
+    connectionHealth: state.connectionHealth,
+    error: state.error,
+    brokerStatus: state.brokerStatus,
+    retryAttempt: state.retryAttempt,
+    nextRetryAt: state.nextRetryAt,
+  }),
+};
+
+// Browsers send an Origin header; only pages served from this machine may read
+// the account. Tools such as curl or spreadsheets send none.
+const isAllowedOrigin = (origin: string | undefined): boolean => {
+  if (!origin) return true;
+  try {
+    return LOOPBACK_HOSTNAMES.has(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+};
+
+// A page on another site can rebind its own DNS name to this address, which
+// makes it same-origin; such requests still name that site in the Host header.
+const isAllowedHost = (hostHeader: string | undefined, boundHost: string): boolean => {
+  if (!hostHeader) return false;
+  try {
+    const hostname = new URL(`http://${hostHeader}`).hostname;
+    return LOOPBACK_HOSTNAMES.has(hostname) || hostname === boundHost || hostname === `[${boundHost}]`;
+  } catch {
+    return false;
+  }
+};
+
+const sendJson = (res: http.ServerResponse, statusCode: number, body: unknown): void => {
+  res.writeHead(statusCode, { "Content-Type": "application/json; charset=utf-8", "Cache-Control": "no-store" });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Read-only HTTP API over the store: GET /api/portfolio, /api/cash, /api/status
+ * and /api/health return the current state as JSON, and a WebSocket on
+ * /api/stream pushes every portfolio update and broker status as
+ * `{ type, data }` messages. With `metrics`, GET /metrics serves Prometheus
+ * text format.
+ */
+export const createApiServer = ({
+  host,
+  port,
+  getState,
+  onPortfolioUpdate,
+  onStatus,
+  metrics = false,
+  log = noopLog,
+}: Params): ApiServer => {
+  const clients = new Set<WebSocket>();
+  const unsubscribers: Array<() => void> = [];
+  let metricsCollector: MetricsCollector | null = null;
+
+  const broadcast = (message: StreamMessage): void => {
+    if (clients.size === 0) return;
+    const payload = JSON.stringify(message);
+    for (const client of clients) {
+      if (client.readyState === client.OPEN) client.send(payload);
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    const pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+    if (!isAllowedHost(req.headers.host, host)) {
+      log("warn", "server.http", `rejected host=${req.headers.host ?? "n/a"} path=${pathname}`);
+      sendJson(res, 403, { error: "Forbidden host" });
+      return;
+    }
+    if (!isAllowedOrigin(req.headers.origin)) {
+      log("warn", "server.http", `rejected origin=${req.headers.origin ?? "n/a"} path=${pathname}`);
+      sendJson(res, 403, { error: "Forbidden origin" });
+      return;
+    }
+    if (pathname === METRICS_PATH && metricsCollector && req.method === "GET") {
+      res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8", "Cache-Control": "no-store" });
+      res.end(metricsCollector.render());
+      return;
+    }
+    const route = ROUTES[pathname];
+    if (!route) {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+    if (req.method !== "GET") {
+      res.setHeader("Allow", "GET");
+      sendJson(res, 405, { error: "Method not allowed" });
+      return;
+    }
+    log("debug", "server.http", `GET ${pathname}`);
+    sendJson(res, 200, route(getState()));
+  });
+
+  const wss = new WebSocketServer({ noServer: true });
+  wss.on("error", (error) => log("error", "server.ws", `error=${error.message}`));
+
+  server.on("upgrade", (req, socket, head) => {
+    const pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+    if (pathname !== STREAM_PATH || !isAllowedHost(req.headers.host, host) || !isAllowedOrigin(req.headers.origin)) {
+      log(
+        "warn",
+        "server.ws",
+        `rejected upgrade path=${pathname} host=${req.headers.host ?? "n/a"} origin=${req.headers.origin ?? "n/a"}`,
+      );
+      socket.write("HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (client) => {
+      clients.add(client);
+      log("info", "server.ws", `client connected clients=${clients.size}`);
+      client.on("close", () => {
+        clients.delete(client);
+        log("info", "server.ws", `client disconnected clients=${clients.size}`);
+      });
+      // Invalid frames (e.g. unmasked or oversized) end up here; without a
+      // listener they would crash the process.
+      client.on("error", (error) => {
+        log("warn", "server.ws", `client dropped error=${error.message}`);
+        client.terminate();
+      });
+    });
+  });
+
+  const start = () =>
+    new Promise<{ host: string; port: number }>((resolve, reject) => {
+      const onError = (error: Error) => reject(error);
+      server.once("error", onError);
+      server.listen(port, host, () => {
+        server.removeListener("error", onError);
+        server.on("error", (error) => log("error", "server", `error=${error.message}`));
+        unsubscribers.push(
+          onPortfolioUpdate((update) => broadcast({ type: "portfolio", data: update })),
+          onStatus((status) => broadcast({ type: "status", data: status })),
+        );
+        if (metrics) {
+          metricsCollector = createMetricsCollector({ getState, onPortfolioUpdate, onStatus });
+        }
+        const address: AddressInfo | string | null = server.address();
+        const bound = { host, port: typeof address === "object" && address ? address.port : port };
+        log("info", "server", `listening http://${host}:${bound.port}`);
+        resolve(bound);
+      });
+    });
+
+  const close = () =>
+    new Promise<void>((resolve) => {
+      unsubscribers.splice(0).forEach((unsubscribe) => unsubscribe());
+      metricsCollector?.dispose();
+      metricsCollector = null;
+      for (const client of clients) client.terminate();
+      clients.clear();
+      wss.close();
+      server.closeAllConnections();
+      server.close(() => {
+        log("info", "server", "closed");
+        resolve();
+      });
+    });
+
+  return { start, close };
+};
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import type { BrokerStatus, PortfolioUpdate } from "../broker/types.js";
+import { createMetricsCollector } from "./metrics.js";
+import type { MetricsState } from "./metrics.js";
+
+const state: MetricsState = {
+  connectionStatus: "connected",
+  connectionHealth: "degraded",
+  retryAttempt: 0,
+  lastPortfolioUpdateAt: 10_000,
+  initialLoadComplete: true,
+  totalEquity: 2_040,
+  baseCurrencyCode: "USD",
+  positionsPendingFxCount: 1,
+};
+
+const update = (watchdogWarnings: number): PortfolioUpdate => ({
+  accountId: "U111",
+  positions: [],
+  positionsMarketValue: 0,
+  positionsUnrealizedPnL: 0,
+  positionsDailyPnL: 0,
+  dailyPnL: null,
+  positionsRealizedPnL: 0,
+  totalEquity: 0,
+  cashBalance: 0,
+  cashBalancesByCurrency: {},
+  cashExchangeRatesByCurrency: {},
+  baseCurrencyCode: "USD",
+  initialLoadComplete: true,
+  lastPortfolioUpdateAt: 10_000,
+  positionsPendingFxCount: 0,
+  positionsPendingFxByCurrency: {},
+  accountValues: {
+    netLiquidation: null,
+    equityWithLoanValue: null,
+    availableFunds: null,
+    excessLiquidity: null,
+    buyingPower: null,
+    initMarginReq: null,
+    maintMarginReq: null,
+    grossPositionValue: null,
+    accruedDividend: null,
+    cushion: null,
+  },
+  watchdogWarnings,
+});
+
+const createCollector = (getState: () => MetricsState = () => state) => {
+  const portfolioListeners = new Set<(update: PortfolioUpdate) => void>();
+  const statusListeners = new Set<(status: BrokerStatus) => void>();
+  const collector = createMetricsCollector({
+    getState,
+    onPortfolioUpdate: (listener) => {
+      portfolioListeners.add(listener);
+      return () => portfolioListeners.delete(listener);
+    },
+    onStatus: (listener) => {
+      statusListeners.add(listener);
+      return () => statusListeners.delete(listener);
+    },
+    now: () => 12_500,
+  });
+  return {
+    collector,
+    emitUpdate: (value: PortfolioUpdate) => portfolioListeners.forEach((listener) => listener(value)),
+    emitStatus: (value: BrokerStatus) => statusListeners.forEach((listener) => listener(value)),
+    listenerCount: () => portfolioListeners.size + statusListeners.size,
+  };
+};
+
+describe("createMetricsCollector", () => {
+  it("renders connection and portfolio gauges from the current state", () => {
+    const text = createCollector().collector.render();
+
+    expect(text).toContain("# TYPE ib_tui_connection_status gauge\n");
+    expect(text).toContain('ib_tui_connection_status{status="connected"} 1\n');
+    expect(text).toContain('ib_tui_connection_status{status="disconnected"} 0\n');
+    expect(text).toContain('ib_tui_connection_health{health="degraded"} 1\n');
+    expect(text).toContain("ib_tui_retry_attempt 0\n");
+    expect(text).toContain("ib_tui_portfolio_data_age_seconds 2.5\n");
+    expect(text).toContain('ib_tui_total_equity{currency="USD"} 2040\n');
+    expect(text).toContain("ib_tui_positions_pending_fx 1\n");
+    expect(text.endsWith("\n")).toBe(true);
+  });
+
+  it("reports NaN data age and no equity sample before the first load", () => {
+    const text = createCollector(() => ({
+      ...state,
+      lastPortfolioUpdateAt: null,
+      initialLoadComplete: false,
+    })).collector.render();
+
+    expect(text).toContain("ib_tui_portfolio_data_age_seconds NaN\n");
+    expect(text).not.toMatch(/^ib_tui_total_equity\{/m);
+  });
+
+  it("counts broker statuses per IB code", () => {
+    const { collector, emitStatus } = createCollector();
+    emitStatus({ level: "warn", message: "Market data farm connection is broken", code: 2103, at: 1 });
+    emitStatus({ level: "info", message: "Market data farm connection is OK", code: 2104, at: 2 });
+    emitStatus({ level: "warn", message: "Market data farm connection is broken", code: 2103, at: 3 });
+    emitStatus({ level: "info", message: "Connected", at: 4 });
+
+    const text = collector.render();
+    expect(text).toContain("# TYPE ib_tui_broker_status_total counter\n");
+    expect(text).toContain('ib_tui_broker_status_total{code="2103"} 2\n');
+    expect(text).toContain('ib_tui_broker_status_total{code="2104"} 1\n');
+  });
+
+  it("accumulates watchdog warnings across subscriptions", () => {
+    const { collector, emitUpdate } = createCollector();
+    emitUpdate(update(1));
+    emitUpdate(update(3));
+    emitUpdate(update(3));
+    // Account switch: the new subscription counts from zero again.
+    emitUpdate(update(0));
+    emitUpdate(update(2));
+
+    expect(collector.render()).toContain("ib_tui_portfolio_watchdog_warnings_total 5\n");
+  });
+
+  it("unsubscribes on dispose", () => {
+    const { collector, listenerCount } = createCollector();
+    expect(listenerCount()).toBe(2);
+    collector.dispose();
+    expect(listenerCount()).toBe(0);
+  });
+});
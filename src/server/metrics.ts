@@ -0,0 +1,143 @@
+import type { BrokerStatus, PortfolioUpdate } from "../broker/types.js";
+import type { AppState } from "../state/store.js";
+import type { ConnectionHealth, ConnectionStatus } from "../state/types.js";
+
+export type MetricsState = Pick<
+  AppState,
+  | "connectionStatus"
+  | "connectionHealth"
+  | "retryAttempt"
+  | "lastPortfolioUpdateAt"
+  | "initialLoadComplete"
+  | "totalEquity"
+  | "baseCurrencyCode"
+  | "positionsPendingFxCount"
+>;
+
+export type MetricsCollector = {
+  // Prometheus text exposition format (version 0.0.4).
+  render(): string;
+  dispose(): void;
+};
+
+type Params = {
+  getState: () => MetricsState;
+  onPortfolioUpdate: (listener: (update: PortfolioUpdate) => void) => () => void;
+  onStatus: (listener: (status: BrokerStatus) => void) => () => void;
+  now?: () => number;
+};
+
+const CONNECTION_STATUSES: ReadonlyArray<ConnectionStatus> = ["disconnected", "connecting", "connected", "error"];
+const CONNECTION_HEALTHS: ReadonlyArray<ConnectionHealth> = ["healthy", "degraded", "down"];
+
+type Sample = { labels?: Record<string, string>; value: number };
+
+const formatValue = (value: number): string => (Number.isNaN(value) ? "NaN" : String(value));
+
+const formatLabels = (labels: Record<string, string> | undefined): string => {
+  if (!labels) return "";
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`,
+  );
+  return `{${pairs.join(",")}}`;
+};
+
+const formatMetric = (name: string, type: "gauge" | "counter", help: string, samples: Sample[]): string =>
+  [
+    `# HELP ${name} ${help}`,
+    `# TYPE ${name} ${type}`,
+    ...samples.map((sample) => `${name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`),
+  ].join("\n");
+
+/**
+ * Gauges are read from the store on every scrape. Counters start when the
+ * collector is created: broker status messages per IB code, and portfolio
+ * watchdog warnings summed across subscriptions (each one counts from zero).
+ */
+export const createMetricsCollector = ({
+  getState,
+  onPortfolioUpdate,
+  onStatus,
+  now = () => Date.now(),
+}: Params): MetricsCollector => {
+  const statusCountsByCode = new Map<number, number>();
+  let watchdogWarningsTotal = 0;
+  let lastWatchdogWarnings = 0;
+
+  const unsubscribers = [
+    onPortfolioUpdate((update) => {
+      const delta = update.watchdogWarnings - lastWatchdogWarnings;
+      // A smaller count means a new subscription started counting again.
+      watchdogWarningsTotal += delta >= 0 ? delta : update.watchdogWarnings;
+      lastWatchdogWarnings = update.watchdogWarnings;
+    }),
+    onStatus((status) => {
+      if (status.code === undefined) return;
+      statusCountsByCode.set(status.code, (statusCountsByCode.get(status.code) ?? 0) + 1);
+    }),
+  ];
+
+  const render = (): string => {
+    const state = getState();
+    const dataAgeSeconds =
+      state.lastPortfolioUpdateAt !== null ? Math.max(0, now() - state.lastPortfolioUpdateAt) / 1000 : NaN;
+    const equitySamples: Sample[] =
+      state.initialLoadComplete && state.baseCurrencyCode
+        ? [{ labels: { currency: state.baseCurrencyCode }, value: state.totalEquity }]
+        : [];
+
+    const metrics = [
+      formatMetric(
+        "ib_tui_connection_status",
+        "gauge",
+        "Gateway transport state; 1 for the current state.",
+        CONNECTION_STATUSES.map((status) => ({ labels: { status }, value: state.connectionStatus === status ? 1 : 0 })),
+      ),
+      formatMetric(
+        "ib_tui_connection_health",
+        "gauge",
+        "Gateway connectivity health; 1 for the current state.",
+        CONNECTION_HEALTHS.map((health) => ({ labels: { health }, value: state.connectionHealth === health ? 1 : 0 })),
+      ),
+      formatMetric("ib_tui_retry_attempt", "gauge", "Current reconnect attempt; 0 while connected.", [
+        { value: state.retryAttempt },
+      ]),
+      formatMetric(
+        "ib_tui_portfolio_data_age_seconds",
+        "gauge",
+        "Seconds since the last portfolio update; NaN before the first one.",
+        [{ value: dataAgeSeconds }],
+      ),
+      formatMetric(
+        "ib_tui_total_equity",
+        "gauge",
+        "Total equity in the account base currency, once the portfolio has loaded.",
+        equitySamples,
+      ),
+      formatMetric("ib_tui_positions_pending_fx", "gauge", "Positions without an FX rate to the base currency.", [
+        { value: state.positionsPendingFxCount },
+      ]),
+      formatMetric(
+        "ib_tui_portfolio_watchdog_warnings_total",
+        "counter",
+        "Portfolio subscription watchdog warnings (stalled contract details, missing or stale FX rates).",
+        [{ value: watchdogWarningsTotal }],
+      ),
+      formatMetric(
+        "ib_tui_broker_status_total",
+        "counter",
+        "Gateway status and error messages by IB code.",
+        Array.from(statusCountsByCode.entries())
+          .sort(([a], [b]) => a - b)
+          .map(([code, count]) => ({ labels: { code: String(code) }, value: count })),
+      ),
+    ];
+    return metrics.join("\n") + "\n";
+  };
+
+  const dispose = (): void => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+  };
+
+  return { render, dispose };
+};
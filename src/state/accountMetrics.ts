@@ -0,0 +1,20 @@
+// Cushion is excess liquidity over net liquidation; IB starts liquidating
+// positions when it reaches zero.
+export type CushionThresholds = {
+  warn: number;
+  critical: number;
+};
+
+export type CushionLevel = "ok" | "warn" | "critical";
+
+export const DEFAULT_CUSHION_THRESHOLDS: CushionThresholds = {
+  warn: 0.1,
+  critical: 0.05,
+};
+
+export const classifyCushion = (cushion: number | null, thresholds: CushionThresholds): CushionLevel | null => {
+  if (cushion === null) return null;
+  if (cushion < thresholds.critical) return "critical";
+  if (cushion < thresholds.warn) return "warn";
+  return "ok";
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { appendEquitySample, nextEquityWindow, selectEquityWindow, summarizeEquityHistory } from "./equityHistory.js";
+import type { EquitySample } from "./equityHistory.js";
+
+const sample = (at: number, totalEquity: number): EquitySample => ({
+  at,
+  totalEquity,
+  positionsMarketValue: totalEquity - 1_000,
+  cashBalance: 1_000,
+});
+
+describe("equityHistory", () => {
+  it("appends samples and drops the oldest beyond the limit", () => {
+    let history: EquitySample[] = [];
+    for (let i = 0; i < 5; i++) {
+      history = appendEquitySample(history, sample(i * 10_000, 100 + i), 3);
+    }
+
+    expect(history.map((entry) => entry.totalEquity)).toEqual([102, 103, 104]);
+  });
+
+  it("coalesces bursts into the latest sample and ignores out-of-order samples", () => {
+    const first = appendEquitySample([], sample(10_000, 100));
+    const unchanged = appendEquitySample(first, sample(10_200, 100));
+    const burst = appendEquitySample(unchanged, sample(10_500, 101));
+    const late = appendEquitySample(burst, sample(9_000, 99));
+
+    expect(unchanged).toBe(first);
+    expect(burst).toEqual([sample(10_500, 101)]);
+    expect(late).toBe(burst);
+  });
+
+  it("selects samples inside the requested window", () => {
+    const history = [sample(0, 100), sample(50 * 60_000, 101), sample(55 * 60_000, 102)];
+    const nowMs = 60 * 60_000;
+
+    expect(selectEquityWindow(history, "session", nowMs)).toHaveLength(3);
+    expect(selectEquityWindow(history, "1h", nowMs)).toHaveLength(3);
+    expect(selectEquityWindow(history, "15m", nowMs).map((entry) => entry.totalEquity)).toEqual([101, 102]);
+  });
+
+  it("cycles session -> 1h -> 15m -> session", () => {
+    expect(nextEquityWindow("session")).toBe("1h");
+    expect(nextEquityWindow("1h")).toBe("15m");
+    expect(nextEquityWindow("15m")).toBe("session");
+  });
+
+  it("summarizes change since the prior close, a week ago and the month start", () => {
+    const at = (day: number, hour: number) => new Date(2026, 2, day, hour).getTime();
+    const history = [
+      sample(at(1, 10), 90),
+      sample(at(3, 10), 95),
+      sample(at(9, 10), 98),
+      sample(at(9, 16), 100),
+      sample(at(10, 9), 104),
+      sample(at(10, 16), 105),
+      sample(at(11, 9), 108),
+    ];
+
+    const summary = summarizeEquityHistory(history, 110, at(11, 12));
+
+    expect(summary.sincePriorClose).toEqual({ baseline: sample(at(10, 16), 105), change: 5, changePct: (5 / 105) * 100 });
+    expect(summary.sinceWeekAgo?.baseline).toEqual(sample(at(3, 10), 95));
+    expect(summary.sinceWeekAgo?.change).toBe(15);
+    expect(summary.sinceMonthStart).toBeNull();
+    expect(summary.dailyCloses.map((entry) => entry.totalEquity)).toEqual([90, 95, 100, 105]);
+    expect(summary.intraday.map((entry) => entry.totalEquity)).toEqual([108]);
+  });
+
+  it("uses the previous month's last sample as the month-start baseline", () => {
+    const history = [sample(new Date(2026, 1, 27, 16).getTime(), 200), sample(new Date(2026, 2, 2, 16).getTime(), 210)];
+
+    const summary = summarizeEquityHistory(history, 220, new Date(2026, 2, 3, 12).getTime());
+
+    expect(summary.sinceMonthStart?.baseline.totalEquity).toBe(200);
+    expect(summary.sinceMonthStart?.change).toBe(20);
+    expect(summary.sincePriorClose?.baseline.totalEquity).toBe(210);
+  });
+});
@@ -0,0 +1,136 @@
+export type EquitySample = {
+  at: number;
+  // All values are in the account's base currency.
+  totalEquity: number;
+  positionsMarketValue: number;
+  cashBalance: number;
+};
+
+export type EquityWindow = "session" | "1h" | "15m";
+
+export const EQUITY_WINDOWS: EquityWindow[] = ["session", "1h", "15m"];
+
+const WINDOW_DURATION_MS: Record<EquityWindow, number | null> = {
+  session: null,
+  "1h": 60 * 60_000,
+  "15m": 15 * 60_000,
+};
+
+// A full trading day of 15s periodic samples plus bursty updates fits comfortably.
+export const EQUITY_HISTORY_LIMIT = 5_000;
+// Updates that land this close to the previous sample replace it instead of
+// growing the buffer; account updates often arrive in bursts.
+export const EQUITY_SAMPLE_COALESCE_MS = 1_000;
+
+const isSameSample = (a: EquitySample, b: EquitySample): boolean =>
+  a.totalEquity === b.totalEquity &&
+  a.positionsMarketValue === b.positionsMarketValue &&
+  a.cashBalance === b.cashBalance;
+
+export const appendEquitySample = (
+  history: EquitySample[],
+  sample: EquitySample,
+  limit = EQUITY_HISTORY_LIMIT,
+): EquitySample[] => {
+  const latest = history[history.length - 1];
+  if (latest) {
+    if (sample.at < latest.at) return history;
+    if (sample.at - latest.at < EQUITY_SAMPLE_COALESCE_MS) {
+      return isSameSample(latest, sample) ? history : [...history.slice(0, -1), sample];
+    }
+  }
+
+  const appended = [...history, sample];
+  return appended.length > limit ? appended.slice(appended.length - limit) : appended;
+};
+
+export const selectEquityWindow = (
+  history: EquitySample[],
+  window: EquityWindow,
+  nowMs: number,
+): EquitySample[] => {
+  const duration = WINDOW_DURATION_MS[window];
+  if (duration === null) return history;
+  const since = nowMs - duration;
+  return history.filter((sample) => sample.at >= since);
+};
+
+export const nextEquityWindow = (window: EquityWindow): EquityWindow =>
+  EQUITY_WINDOWS[(EQUITY_WINDOWS.indexOf(window) + 1) % EQUITY_WINDOWS.length];
+
+export type EquityChange = {
+  baseline: EquitySample;
+  change: number;
+  changePct: number | null;
+};
+
+export type EquityHistorySummary = {
+  sincePriorClose: EquityChange | null;
+  sinceWeekAgo: EquityChange | null;
+  sinceMonthStart: EquityChange | null;
+  // Last sample of each local calendar day before today, oldest first.
+  dailyCloses: EquitySample[];
+  // Today's samples, oldest first.
+  intraday: EquitySample[];
+};
+
+const WEEK_MS = 7 * 24 * 60 * 60_000;
+
+const startOfLocalDay = (ms: number): number => {
+  const date = new Date(ms);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+const startOfLocalMonth = (ms: number): number => {
+  const date = new Date(ms);
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+// The last sample strictly before the boundary, so a baseline is never taken
+// from the period it is compared against.
+const findBaseline = (history: EquitySample[], boundary: number): EquitySample | null => {
+  for (let index = history.length - 1; index >= 0; index--) {
+    if (history[index].at < boundary) return history[index];
+  }
+  return null;
+};
+
+const toChange = (baseline: EquitySample | null, totalEquity: number): EquityChange | null => {
+  if (!baseline) return null;
+  const change = totalEquity - baseline.totalEquity;
+  const changePct = baseline.totalEquity !== 0 ? (change / Math.abs(baseline.totalEquity)) * 100 : null;
+  return { baseline, change, changePct };
+};
+
+/**
+ * Compares current equity against the prior close, a week ago and the start of
+ * the month using a chronologically ordered history. Day and month boundaries
+ * use the local timezone.
+ */
+export const summarizeEquityHistory = (
+  history: EquitySample[],
+  totalEquity: number,
+  nowMs: number,
+): EquityHistorySummary => {
+  const todayStart = startOfLocalDay(nowMs);
+  const dailyCloses: EquitySample[] = [];
+  const intraday: EquitySample[] = [];
+
+  history.forEach((sample, index) => {
+    if (sample.at >= todayStart) {
+      intraday.push(sample);
+      return;
+    }
+    const next = history[index + 1];
+    if (!next || startOfLocalDay(next.at) !== startOfLocalDay(sample.at)) dailyCloses.push(sample);
+  });
+
+  return {
+    sincePriorClose: toChange(findBaseline(history, todayStart), totalEquity),
+    sinceWeekAgo: toChange(findBaseline(history, nowMs - WEEK_MS), totalEquity),
+    sinceMonthStart: toChange(findBaseline(history, startOfLocalMonth(nowMs)), totalEquity),
+    dailyCloses,
+    intraday,
+  };
+};
@@ -0,0 +1,74 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { appendEquityHistory, getEquityHistoryPath, loadEquityHistory } from "./equityHistoryStorage.js";
+
+vi.mock("../utils/logger.js", () => ({
+  log: vi.fn(),
+}));
+
+const sample = (at: number, totalEquity: number) => ({
+  at,
+  totalEquity,
+  positionsMarketValue: totalEquity - 500,
+  cashBalance: 500,
+});
+
+describe("equityHistoryStorage", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ib-tui-equity-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("keeps one file per account and base currency with safe file names", () => {
+    expect(getEquityHistoryPath("DU123456", "USD", dir)).toBe(path.join(dir, "DU123456-USD.jsonl"));
+    expect(getEquityHistoryPath("../U1", "EUR", dir)).toBe(path.join(dir, ".._U1-EUR.jsonl"));
+  });
+
+  it("appends samples as JSON lines, creating the directory", () => {
+    const filePath = path.join(dir, "nested", "DU1-USD.jsonl");
+
+    appendEquityHistory(filePath, sample(2_000, 101));
+    appendEquityHistory(filePath, sample(1_000, 100));
+
+    expect(fs.readFileSync(filePath, "utf8").trim().split("\n")).toHaveLength(2);
+    expect(loadEquityHistory(filePath)).toEqual([sample(1_000, 100), sample(2_000, 101)]);
+    expect(loadEquityHistory(filePath, 1_500)).toEqual([sample(2_000, 101)]);
+  });
+
+  it("returns nothing for a missing file and skips malformed lines", () => {
+    const filePath = path.join(dir, "DU1-USD.jsonl");
+    expect(loadEquityHistory(filePath)).toEqual([]);
+
+    fs.writeFileSync(
+      filePath,
+      [JSON.stringify(sample(1_000, 100)), "{not json", JSON.stringify({ at: 2_000 }), '{"at":3000,"totalEq'].join("\n"),
+      "utf8",
+    );
+    expect(loadEquityHistory(filePath)).toEqual([sample(1_000, 100)]);
+  });
+
+  it("rewrites the file without old samples once they outnumber the kept ones", () => {
+    const filePath = path.join(dir, "DU1-USD.jsonl");
+    appendEquityHistory(filePath, sample(1_000, 100));
+    appendEquityHistory(filePath, sample(2_000, 101));
+    appendEquityHistory(filePath, sample(3_000, 102));
+
+    // One of three lines is older: the file is left alone.
+    expect(loadEquityHistory(filePath, 1_500)).toEqual([sample(2_000, 101), sample(3_000, 102)]);
+    expect(fs.readFileSync(filePath, "utf8").trim().split("\n")).toHaveLength(3);
+
+    expect(loadEquityHistory(filePath, 2_500)).toEqual([sample(3_000, 102)]);
+    expect(fs.readFileSync(filePath, "utf8")).toBe(JSON.stringify(sample(3_000, 102)) + "\n");
+    expect(fs.readdirSync(dir)).toEqual(["DU1-USD.jsonl"]);
+
+    appendEquityHistory(filePath, sample(4_000, 103));
+    expect(loadEquityHistory(filePath)).toEqual([sample(3_000, 102), sample(4_000, 103)]);
+  });
+});
@@ -0,0 +1,100 @@
+import fs from "node:fs";
+import path from "node:path";
+import { log } from "../utils/logger.js";
+import type { EquitySample } from "./equityHistory.js";
+
+const DEFAULT_EQUITY_HISTORY_DIR = path.resolve(process.cwd(), "data", "equity-history");
+const UNSAFE_FILE_CHARS_RE = /[^A-Za-z0-9_.-]/g;
+
+// One append-only JSON-lines file per account and base currency, so switching
+// either never mixes two equity series.
+export const getEquityHistoryPath = (
+  accountId: string,
+  baseCurrencyCode: string,
+  dir = DEFAULT_EQUITY_HISTORY_DIR,
+): string =>
+  path.join(dir, `${accountId.replace(UNSAFE_FILE_CHARS_RE, "_")}-${baseCurrencyCode.replace(UNSAFE_FILE_CHARS_RE, "_")}.jsonl`);
+
+const parseSample = (line: string): EquitySample | null => {
+  try {
+    const parsed: unknown = JSON.parse(line);
+    if (typeof parsed !== "object" || parsed === null) return null;
+    if (!("at" in parsed && "totalEquity" in parsed && "positionsMarketValue" in parsed && "cashBalance" in parsed)) {
+      return null;
+    }
+    const { at, totalEquity, positionsMarketValue, cashBalance } = parsed;
+    if (
+      typeof at !== "number" ||
+      typeof totalEquity !== "number" ||
+      typeof positionsMarketValue !== "number" ||
+      typeof cashBalance !== "number"
+    ) {
+      return null;
+    }
+    return { at, totalEquity, positionsMarketValue, cashBalance };
+  } catch {
+    return null;
+  }
+};
+
+// Rewrites the file once dropped lines would outnumber the kept ones, so it
+// stays within about twice the retained history.
+const compactEquityHistory = (filePath: string, samples: EquitySample[]): void => {
+  const tmpPath = `${filePath}.tmp`;
+  try {
+    fs.writeFileSync(tmpPath, samples.map((sample) => JSON.stringify(sample) + "\n").join(""), "utf8");
+    fs.renameSync(tmpPath, filePath);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log("warn", "state.equityHistory", `failed to compact path=${filePath} error=${message}`);
+  }
+};
+
+/**
+ * Reads samples taken at or after `sinceMs`, oldest first. Malformed lines
+ * (e.g. a write cut short by a crash) are skipped. When most of the file is
+ * older samples or malformed lines, it is rewritten with only the kept samples.
+ */
+export const loadEquityHistory = (filePath: string, sinceMs = 0): EquitySample[] => {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, "utf8");
+  } catch {
+    return [];
+  }
+
+  let skipped = 0;
+  let pruned = 0;
+  const samples: EquitySample[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    const sample = parseSample(line);
+    if (!sample) {
+      skipped++;
+      continue;
+    }
+    if (sample.at >= sinceMs) {
+      samples.push(sample);
+    } else {
+      pruned++;
+    }
+  }
+  if (skipped > 0) {
+    log("warn", "state.equityHistory", `skipped malformed lines count=${skipped} path=${filePath}`);
+  }
+  samples.sort((a, b) => a.at - b.at);
+  if (skipped + pruned > samples.length) {
+    compactEquityHistory(filePath, samples);
+  }
+  return samples;
+};
+
+export const appendEquityHistory = (filePath: string, sample: EquitySample): void => {
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.appendFileSync(filePath, JSON.stringify(sample) + "\n", "utf8");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log("warn", "state.equityHistory", `failed to append sample path=${filePath} error=${message}`);
+  }
+};
@@ -0,0 +1,78 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Execution } from "../broker/types.js";
+import { appendExecutionJournal, loadExecutionJournal, takeUnjournaledExecutions } from "./executionJournal.js";
+
+vi.mock("../utils/logger.js", () => ({
+  log: vi.fn(),
+}));
+
+const fill = (execId: string, time: number, overrides: Partial<Execution> = {}): Execution => ({
+  execId,
+  orderId: 7,
+  accountId: "U111",
+  conId: 265598,
+  symbol: "AAPL",
+  secType: "STK",
+  currency: "USD",
+  exchange: "ISLAND",
+  side: "BUY",
+  quantity: 10,
+  price: 150,
+  time,
+  commission: null,
+  commissionCurrency: null,
+  realizedPnL: null,
+  baseCurrencyCode: null,
+  fxRateToBase: null,
+  ...overrides,
+});
+
+describe("executionJournal", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ib-tui-executions-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("keeps the last version of each fill, oldest first, from the given time", () => {
+    const filePath = path.join(dir, "nested", "executions.jsonl");
+
+    appendExecutionJournal(filePath, [fill("0002.01", 2_000), fill("0001.01", 1_000)]);
+    appendExecutionJournal(filePath, [fill("0002.01", 2_000, { commission: 1, commissionCurrency: "USD" })]);
+
+    expect(loadExecutionJournal(filePath)).toEqual([
+      fill("0001.01", 1_000),
+      fill("0002.01", 2_000, { commission: 1, commissionCurrency: "USD" }),
+    ]);
+    expect(loadExecutionJournal(filePath, 1_500).map((execution) => execution.execId)).toEqual(["0002.01"]);
+  });
+
+  it("returns nothing for a missing file and skips malformed lines", () => {
+    const filePath = path.join(dir, "executions.jsonl");
+    expect(loadExecutionJournal(filePath)).toEqual([]);
+
+    fs.writeFileSync(
+      filePath,
+      [JSON.stringify(fill("0001.01", 1_000)), "{not json", JSON.stringify({ execId: "0002.01" }), '{"execId":"0003'].join("\n"),
+      "utf8",
+    );
+    expect(loadExecutionJournal(filePath)).toEqual([fill("0001.01", 1_000)]);
+  });
+
+  it("hands out only new or changed fills", () => {
+    const journaled = new Map<string, string>();
+
+    expect(takeUnjournaledExecutions(journaled, [fill("0001.01", 1_000)])).toHaveLength(1);
+    expect(takeUnjournaledExecutions(journaled, [fill("0001.01", 1_000)])).toEqual([]);
+    expect(
+      takeUnjournaledExecutions(journaled, [fill("0001.01", 1_000, { fxRateToBase: 1, baseCurrencyCode: "USD" })]),
+    ).toHaveLength(1);
+  });
+});
@@ -0,0 +1,121 @@
+import fs from "node:fs";
+import path from "node:path";
+import { log } from "../utils/logger.js";
+import type { Execution } from "../broker/types.js";
+
+const DEFAULT_EXECUTION_JOURNAL_PATH = path.resolve(process.cwd(), "data", "executions.jsonl");
+
+export const getExecutionJournalPath = (): string => DEFAULT_EXECUTION_JOURNAL_PATH;
+
+const isNullableNumber = (value: unknown): value is number | null => value === null || typeof value === "number";
+const isNullableString = (value: unknown): value is string | null => value === null || typeof value === "string";
+
+const parseExecution = (line: string): Execution | null => {
+  try {
+    const parsed: unknown = JSON.parse(line);
+    if (typeof parsed !== "object" || parsed === null) return null;
+    const entry: Partial<Record<keyof Execution, unknown>> = parsed;
+    const { execId, orderId, accountId, conId, symbol, secType, currency, exchange, side, quantity, price, time } = entry;
+    const { commission, commissionCurrency, realizedPnL } = entry;
+    // Lines written before FX stamping existed have no rate.
+    const baseCurrencyCode = entry.baseCurrencyCode ?? null;
+    const fxRateToBase = entry.fxRateToBase ?? null;
+    if (
+      typeof execId !== "string" ||
+      typeof orderId !== "number" ||
+      typeof accountId !== "string" ||
+      typeof conId !== "number" ||
+      typeof symbol !== "string" ||
+      !isNullableString(secType) ||
+      typeof currency !== "string" ||
+      typeof exchange !== "string" ||
+      (side !== "BUY" && side !== "SELL") ||
+      typeof quantity !== "number" ||
+      typeof price !== "number" ||
+      typeof time !== "number" ||
+      !isNullableNumber(commission) ||
+      !isNullableString(commissionCurrency) ||
+      !isNullableNumber(realizedPnL) ||
+      !isNullableString(baseCurrencyCode) ||
+      !isNullableNumber(fxRateToBase)
+    ) {
+      return null;
+    }
+    return {
+      execId,
+      orderId,
+      accountId,
+      conId,
+      symbol,
+      secType,
+      currency,
+      exchange,
+      side,
+      quantity,
+      price,
+      time,
+      commission,
+      commissionCurrency,
+      realizedPnL,
+      baseCurrencyCode,
+      fxRateToBase,
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Reads fills executed at or after `sinceMs`, oldest first. A fill is appended
+ * again when its commission report or FX rate arrives, so the last line for an
+ * execId wins. Malformed lines are skipped.
+ */
+export const loadExecutionJournal = (filePath: string, sinceMs = 0): Execution[] => {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, "utf8");
+  } catch {
+    return [];
+  }
+
+  let skipped = 0;
+  const byExecId = new Map<string, Execution>();
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    const execution = parseExecution(line);
+    if (!execution) {
+      skipped++;
+      continue;
+    }
+    byExecId.set(execution.execId, execution);
+  }
+  if (skipped > 0) {
+    log("warn", "state.executionJournal", `skipped malformed lines count=${skipped} path=${filePath}`);
+  }
+  return Array.from(byExecId.values())
+    .filter((execution) => execution.time >= sinceMs)
+    .sort((a, b) => a.time - b.time || a.execId.localeCompare(b.execId));
+};
+
+export const appendExecutionJournal = (filePath: string, executions: Execution[]): void => {
+  if (executions.length === 0) return;
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.appendFileSync(filePath, executions.map((execution) => JSON.stringify(execution) + "\n").join(""), "utf8");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log("warn", "state.executionJournal", `failed to append executions path=${filePath} error=${message}`);
+  }
+};
+
+/**
+ * Returns the fills that are new or changed compared with `journaled` (execId to
+ * last written line) and records them there, so callers append each version once.
+ */
+export const takeUnjournaledExecutions = (journaled: Map<string, string>, executions: Execution[]): Execution[] =>
+  executions.filter((execution) => {
+    const line = JSON.stringify(execution);
+    if (journaled.get(execution.execId) === line) return false;
+    journaled.set(execution.execId, line);
+    return true;
+  });
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import type { Position, PositionMarketHours } from "../broker/types.js";
+import { summarizeMarketClock } from "./marketClock.js";
+
+const NYSE_HOURS: PositionMarketHours = {
+  timeZoneId: "US/Eastern",
+  exchange: "NYSE",
+  liquidHours: "20260210:0930-20260210:1600",
+  tradingHours: "20260210:0400-20260210:2000",
+};
+
+const XETRA_HOURS: PositionMarketHours = {
+  timeZoneId: "MET",
+  exchange: "IBIS",
+  liquidHours: "20260210:0900-20260210:1730;20260211:0900-20260211:1730",
+  tradingHours: null,
+};
+
+const position = (overrides: Partial<Position>): Position => ({
+  symbol: "IBM",
+  quantity: 10,
+  avgCost: 100,
+  marketValue: 1_000,
+  unrealizedPnL: 0,
+  dailyPnL: 0,
+  realizedPnL: 0,
+  marketPrice: 100,
+  currency: "USD",
+  conId: 1,
+  marketValueBase: 1_000,
+  unrealizedPnLBase: 0,
+  realizedPnLBase: 0,
+  fxRateToBase: 1,
+  isFxPending: false,
+  ...overrides,
+});
+
+describe("summarizeMarketClock", () => {
+  // 08:00 New York (pre-market), 14:00 Frankfurt (regular)
+  const now = Date.parse("2026-02-10T13:00:00.000Z");
+
+  it("groups positions by timezone and exchange with local time and session", () => {
+    const { groups } = summarizeMarketClock(
+      [
+        position({ symbol: "IBM", conId: 1, marketHours: NYSE_HOURS }),
+        position({ symbol: "SAP", conId: 2, currency: "EUR", marketValueBase: 2_200, marketHours: XETRA_HOURS }),
+        position({ symbol: "KO", conId: 3, marketHours: NYSE_HOURS }),
+      ],
+      now,
+    );
+
+    expect(groups).toEqual([
+      expect.objectContaining({
+        timeZoneId: "MET",
+        exchange: "IBIS",
+        localTime: "14:00",
+        session: expect.objectContaining({ status: "regular" }),
+        symbols: ["SAP"],
+        marketValue: 2_200,
+      }),
+      expect.objectContaining({
+        timeZoneId: "US/Eastern",
+        exchange: "NYSE",
+        localTime: "08:00",
+        session: expect.objectContaining({ status: "pre-market", transition: "open" }),
+        scheduleExceptions: [],
+        symbols: ["IBM", "KO"],
+        marketValue: 2_000,
+      }),
+    ]);
+  });
+
+  it("splits base-currency exposure between open, closed and unknown markets", () => {
+    const afterHours = Date.parse("2026-02-11T02:00:00.000Z"); // 21:00 New York, 03:00 Frankfurt
+    const positions = [
+      position({ symbol: "IBM", conId: 1, marketHours: NYSE_HOURS }),
+      position({ symbol: "SAP", conId: 2, marketValueBase: 2_200, marketHours: XETRA_HOURS }),
+      position({ symbol: "NEW", conId: 3, marketValueBase: 300 }),
+      position({ symbol: "FXP", conId: 4, isFxPending: true, marketValueBase: null, marketHours: XETRA_HOURS }),
+      position({ symbol: "OLD", conId: 5, quantity: 0, marketHours: NYSE_HOURS }),
+    ];
+
+    expect(summarizeMarketClock(positions, now).exposure).toEqual({ open: 3_200, closed: 0, unknown: 300 });
+    expect(summarizeMarketClock(positions, afterHours).exposure).toEqual({ open: 0, closed: 3_200, unknown: 300 });
+
+    const { groups } = summarizeMarketClock(positions, now);
+    expect(groups[groups.length - 1]).toEqual(
+      expect.objectContaining({ timeZoneId: null, exchange: null, localTime: null, symbols: ["NEW"] }),
+    );
+    expect(groups.flatMap((group) => group.symbols)).not.toContain("OLD");
+  });
+
+  it("carries upcoming holidays and early closes for each group", () => {
+    const holidayHours: PositionMarketHours = {
+      ...NYSE_HOURS,
+      liquidHours: "20261125:0930-20261125:1600;20261126:CLOSED;20261127:0930-20261127:1300",
+    };
+    const { groups } = summarizeMarketClock(
+      [position({ marketHours: holidayHours })],
+      Date.parse("2026-11-25T15:00:00.000Z"),
+    );
+
+    expect(groups[0].scheduleExceptions.map((day) => [day.date, day.kind])).toEqual([
+      ["2026-11-26", "holiday"],
+      ["2026-11-27", "early-close"],
+    ]);
+  });
+});
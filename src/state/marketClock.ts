@@ -0,0 +1,84 @@
+import type { Position } from "../broker/types.js";
+import {
+  findScheduleExceptions,
+  formatMarketLocalTime,
+  resolveMarketHours,
+} from "../broker/ibkr/market-hours/index.js";
+import type { MarketHoursStatus, MarketScheduleDay } from "../broker/ibkr/market-hours/index.js";
+
+export type MarketClockGroup = {
+  // Both null for positions whose contract details have not arrived.
+  timeZoneId: string | null;
+  exchange: string | null;
+  localTime: string | null;
+  // From the group's first position; holdings on one exchange share a schedule.
+  session: MarketHoursStatus;
+  // Holidays and early closes in the next 7 days, from the same position.
+  scheduleExceptions: MarketScheduleDay[];
+  symbols: string[];
+  // Base currency; FX-pending positions are left out.
+  marketValue: number;
+};
+
+// Holdings value in base currency by the state of each position's own market.
+// Pre- and post-market count as open: prices are printing.
+export type MarketExposure = {
+  open: number;
+  closed: number;
+  unknown: number;
+};
+
+export type MarketClockSummary = {
+  groups: MarketClockGroup[];
+  exposure: MarketExposure;
+};
+
+const groupKey = (position: Position): string =>
+  `${position.marketHours?.timeZoneId ?? ""}|${position.marketHours?.exchange ?? ""}`;
+
+const compareGroups = (a: MarketClockGroup, b: MarketClockGroup): number => {
+  // Holdings without market hours go last.
+  if ((a.timeZoneId === null) !== (b.timeZoneId === null)) return a.timeZoneId === null ? 1 : -1;
+  return (a.timeZoneId ?? "").localeCompare(b.timeZoneId ?? "") || (a.exchange ?? "").localeCompare(b.exchange ?? "");
+};
+
+/**
+ * Groups open positions by exchange timezone and exchange, with the local time,
+ * session state and upcoming holidays or early closes of each group, and
+ * splits the holdings value between markets that are trading now and markets
+ * that are not.
+ */
+export const summarizeMarketClock = (positions: Position[], nowMs: number): MarketClockSummary => {
+  const groups = new Map<string, MarketClockGroup>();
+  const exposure: MarketExposure = { open: 0, closed: 0, unknown: 0 };
+
+  for (const position of positions) {
+    if (position.quantity === 0) continue;
+    const session = resolveMarketHours(position.marketHours, nowMs);
+    const value = position.isFxPending ? 0 : (position.marketValueBase ?? position.marketValue);
+
+    if (session.status === "unknown") exposure.unknown += value;
+    else if (session.status === "closed") exposure.closed += value;
+    else exposure.open += value;
+
+    const key = groupKey(position);
+    const group = groups.get(key);
+    if (group) {
+      group.symbols.push(position.symbol);
+      group.marketValue += value;
+      continue;
+    }
+    const timeZoneId = position.marketHours?.timeZoneId ?? null;
+    groups.set(key, {
+      timeZoneId,
+      exchange: position.marketHours?.exchange ?? null,
+      localTime: formatMarketLocalTime(timeZoneId, nowMs),
+      session,
+      scheduleExceptions: findScheduleExceptions(position.marketHours, nowMs),
+      symbols: [position.symbol],
+      marketValue: value,
+    });
+  }
+
+  return { groups: [...groups.values()].sort(compareGroups), exposure };
+};
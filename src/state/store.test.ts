@@ -1,13 +1,21 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import type { BrokerStatus, PortfolioUpdate } from "../broker/types.js";
+import type { AccountSummary, BrokerStatus, Execution, HouseholdUpdate, Order, OrderPreview, OrderRequest, PortfolioUpdate, Quote } from "../broker/types.js";
 import { log } from "../utils/logger.js";
-import { useStore } from "./store.js";
+import { onPortfolioUpdate, useStore } from "./store.js";
+import { saveWatchlist } from "./watchlistStorage.js";
+import type * as WatchlistStorage from "./watchlistStorage.js";
+import { appendEquityHistory, loadEquityHistory } from "./equityHistoryStorage.js";
+import type * as EquityHistoryStorage from "./equityHistoryStorage.js";
+import { appendExecutionJournal } from "./executionJournal.js";
+import type * as ExecutionJournal from "./executionJournal.js";
 
 const brokerMocks = vi.hoisted(() => {
   const statusCallbacks = new Set<(status: BrokerStatus) => void>();
   const disconnectCallbacks = new Set<() => void>();
+  const accountsCallbacks = new Set<(accounts: string[], activeAccountId: string) => void>();
 
   const samplePortfolioUpdate: PortfolioUpdate = {
+    accountId: "DU123456",
     positions: [
       {
         symbol: "AAPL",
@@ -22,12 +30,16 @@ const brokerMocks = vi.hoisted(() => {
         conId: 265598,
         marketValueBase: 15050,
         unrealizedPnLBase: 550,
+        realizedPnLBase: 0,
         fxRateToBase: 1,
         isFxPending: false,
       },
     ],
     positionsMarketValue: 15050,
     positionsUnrealizedPnL: 550,
+    positionsDailyPnL: 0,
+    positionsRealizedPnL: 0,
+    dailyPnL: null,
     totalEquity: 20050,
     cashBalance: 5000,
     cashBalancesByCurrency: { USD: 5000 },
@@ -37,6 +49,19 @@ const brokerMocks = vi.hoisted(() => {
     lastPortfolioUpdateAt: 1000,
     positionsPendingFxCount: 0,
     positionsPendingFxByCurrency: {},
+    accountValues: {
+      netLiquidation: 20050,
+      equityWithLoanValue: 20050,
+      availableFunds: 12000,
+      excessLiquidity: 13000,
+      buyingPower: 48000,
+      initMarginReq: 8050,
+      maintMarginReq: 7050,
+      grossPositionValue: 15050,
+      accruedDividend: 0,
+      cushion: 0.65,
+    },
+    watchdogWarnings: 0,
   };
 
   const connect = vi.fn(async () => undefined);
@@ -54,30 +79,162 @@ const brokerMocks = vi.hoisted(() => {
       statusCallbacks.delete(callback);
     };
   });
+  const onAccounts = vi.fn((callback: (accounts: string[], activeAccountId: string) => void) => {
+    accountsCallbacks.add(callback);
+    return () => {
+      accountsCallbacks.delete(callback);
+    };
+  });
+  const setAccount = vi.fn();
+  const householdCallbacks = new Set<(update: HouseholdUpdate) => void>();
+  const subscribeHousehold = vi.fn((callback: (update: HouseholdUpdate) => void) => {
+    householdCallbacks.add(callback);
+    return vi.fn(() => {
+      householdCallbacks.delete(callback);
+    });
+  });
   const subscribePortfolio = vi.fn((callback: (update: PortfolioUpdate) => void) => {
     callback(samplePortfolioUpdate);
     return vi.fn();
   });
 
+  const sampleOrders: Order[] = [
+    {
+      id: 42,
+      symbol: "AAPL",
+      action: "BUY",
+      quantity: 10,
+      orderType: "LMT",
+      limitPrice: 150,
+      status: "Submitted",
+      filled: 0,
+      remaining: 10,
+      avgFillPrice: 0,
+    },
+  ];
+  const subscribeOrders = vi.fn((callback: (orders: Order[]) => void) => {
+    callback(sampleOrders);
+    return vi.fn();
+  });
+  const sampleExecutions: Execution[] = [
+    {
+      execId: "0001.01",
+      orderId: 42,
+      accountId: "DU123456",
+      conId: 265598,
+      symbol: "AAPL",
+      secType: "STK",
+      currency: "USD",
+      exchange: "ISLAND",
+      side: "BUY",
+      quantity: 10,
+      price: 150,
+      time: 1_000,
+      commission: 1,
+      commissionCurrency: "USD",
+      realizedPnL: null,
+      baseCurrencyCode: "USD",
+      fxRateToBase: 1,
+    },
+  ];
+  const subscribeExecutions = vi.fn((callback: (executions: Execution[]) => void) => {
+    callback(sampleExecutions);
+    return vi.fn();
+  });
+  const placeOrder = vi.fn(async (order: OrderRequest): Promise<Order> => ({
+    ...order,
+    id: 43,
+    status: "PreSubmitted",
+    filled: 0,
+    remaining: order.quantity,
+    avgFillPrice: 0,
+  }));
+
+  const previewOrder = vi.fn(async (): Promise<OrderPreview> => ({
+    initMarginChange: 750,
+    maintMarginChange: 680,
+    equityWithLoanChange: -1,
+    initMarginAfter: 10_750,
+    maintMarginAfter: 9_680,
+    equityWithLoanAfter: 99_999,
+    commission: 1,
+    minCommission: null,
+    maxCommission: null,
+    commissionCurrency: "USD",
+    warningText: null,
+  }));
+
+  const sampleAccountSummary: AccountSummary = {
+    accountId: "DU123456",
+    currency: "USD",
+    netLiquidation: 100_000,
+    totalCashValue: 20_000,
+    buyingPower: 300_000,
+    excessLiquidity: 40_000,
+    initMarginReq: 60_000,
+    maintMarginReq: 55_000,
+    cushion: 0.4,
+    sma: 10_000,
+    grossPositionValue: 80_000,
+    leverage: 0.8,
+    updatedAt: 1_000,
+    positions: [],
+  };
+  const getAccountSummary = vi.fn(async (): Promise<AccountSummary> => sampleAccountSummary);
+
+  const quoteCallbacks = new Map<string, (quote: Quote) => void>();
+  const quoteUnsubscribers = new Map<string, () => void>();
+  const subscribeQuote = vi.fn((symbol: string, callback: (quote: Quote) => void) => {
+    quoteCallbacks.set(symbol, callback);
+    const unsubscribe = vi.fn(() => {
+      quoteCallbacks.delete(symbol);
+    });
+    quoteUnsubscribers.set(symbol, unsubscribe);
+    return unsubscribe;
+  });
+
   const broker = {
     connect,
     disconnect,
     isConnected,
     onDisconnect,
     onStatus,
+    onAccounts,
+    setAccount,
     subscribePortfolio,
+    subscribeHousehold,
+    subscribeOrders,
+    subscribeExecutions,
+    placeOrder,
+    previewOrder,
+    getAccountSummary,
+    subscribeQuote,
   };
 
   return {
     statusCallbacks,
     disconnectCallbacks,
+    accountsCallbacks,
+    householdCallbacks,
     samplePortfolioUpdate,
     connect,
     disconnect,
     isConnected,
     onDisconnect,
     onStatus,
+    onAccounts,
+    setAccount,
     subscribePortfolio,
+    subscribeHousehold,
+    subscribeOrders,
+    subscribeExecutions,
+    placeOrder,
+    previewOrder,
+    getAccountSummary,
+    sampleAccountSummary,
+    subscribeQuote,
+    quoteCallbacks,
+    quoteUnsubscribers,
     broker,
   };
 });
@@ -92,6 +249,24 @@ vi.mock("../utils/logger.js", () => ({
   log: vi.fn(),
 }));
 
+vi.mock("./watchlistStorage.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof WatchlistStorage>()),
+  loadWatchlist: vi.fn(() => []),
+  saveWatchlist: vi.fn(),
+}));
+
+vi.mock("./equityHistoryStorage.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof EquityHistoryStorage>()),
+  loadEquityHistory: vi.fn(() => []),
+  appendEquityHistory: vi.fn(),
+}));
+
+vi.mock("./executionJournal.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof ExecutionJournal>()),
+  loadExecutionJournal: vi.fn(() => []),
+  appendExecutionJournal: vi.fn(),
+}));
+
 const emitStatus = (status: BrokerStatus): void => {
   brokerMocks.statusCallbacks.forEach((callback) => callback(status));
 };
@@ -110,6 +285,8 @@ describe("store", () => {
     vi.clearAllMocks();
     brokerMocks.statusCallbacks.clear();
     brokerMocks.disconnectCallbacks.clear();
+    brokerMocks.accountsCallbacks.clear();
+    brokerMocks.householdCallbacks.clear();
     brokerMocks.connect.mockReset();
     brokerMocks.connect.mockResolvedValue(undefined);
     brokerMocks.disconnect.mockReset();
@@ -126,9 +303,17 @@ describe("store", () => {
       nextRetryAt: null,
       statusHistory: [],
       statusHistoryIndex: 0,
+      accounts: [],
+      selectedAccountId: null,
+      householdMode: false,
+      household: null,
+      accountId: null,
       positions: [],
       positionsMarketValue: 0,
       positionsUnrealizedPnL: 0,
+      positionsDailyPnL: 0,
+      positionsRealizedPnL: 0,
+      dailyPnL: null,
       totalEquity: 0,
       cashBalance: 0,
       cashBalancesByCurrency: {},
@@ -138,12 +323,22 @@ describe("store", () => {
       lastPortfolioUpdateAt: null,
       positionsPendingFxCount: 0,
       positionsPendingFxByCurrency: {},
+      accountValues: null,
       displayCurrencyPreference: "BASE",
       displayCurrencyCode: null,
       displayFxRate: 1,
       availableDisplayCurrencies: [],
       displayCurrencyWarning: null,
+      equityHistory: [],
+      persistedEquityHistory: [],
+      accountSummary: null,
+      orders: [],
+      executions: [],
+      watchlist: [],
+      quotes: {},
     });
+    brokerMocks.quoteCallbacks.clear();
+    brokerMocks.quoteUnsubscribers.clear();
 
     useStore.getState().stopAutoConnect();
   });
@@ -172,6 +367,19 @@ describe("store", () => {
       expect(state.displayCurrencyWarning).toBeNull();
     });
 
+    it("forwards applied updates to portfolio update listeners", () => {
+      const listener = vi.fn();
+      const stop = onPortfolioUpdate(listener);
+
+      const unsubscribe = useStore.getState().subscribePortfolio();
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ totalEquity: 20050 }));
+
+      stop();
+      useStore.getState().subscribePortfolio();
+      expect(listener).toHaveBeenCalledTimes(1);
+      unsubscribe();
+    });
+
     it("logs state.snapshot when portfolio state changes", () => {
       const { subscribePortfolio } = useStore.getState();
       subscribePortfolio();
@@ -190,6 +398,326 @@ describe("store", () => {
 
       expect(log).toHaveBeenCalledTimes(1);
     });
+
+    it("samples equity on updates and periodically while connected", () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(100_000);
+      const unsubscribe = useStore.getState().subscribePortfolio();
+
+      expect(useStore.getState().equityHistory).toEqual([
+        { at: 100_000, totalEquity: 20050, positionsMarketValue: 15050, cashBalance: 5000 },
+      ]);
+
+      vi.advanceTimersByTime(15_000);
+      expect(useStore.getState().equityHistory).toHaveLength(1);
+
+      useStore.setState({ connectionStatus: "connected" });
+      vi.advanceTimersByTime(15_000);
+      expect(useStore.getState().equityHistory.map((sample) => sample.at)).toEqual([100_000, 130_000]);
+
+      unsubscribe();
+      vi.advanceTimersByTime(15_000);
+      expect(useStore.getState().equityHistory).toHaveLength(2);
+    });
+
+    it("loads and appends persisted equity history per account at most once a minute", () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(200_000);
+      const earlier = { at: 100_000, totalEquity: 19_000, positionsMarketValue: 14_000, cashBalance: 5_000 };
+      vi.mocked(loadEquityHistory).mockReturnValueOnce([earlier]);
+      brokerMocks.subscribePortfolio.mockImplementationOnce((callback) => {
+        callback({ ...brokerMocks.samplePortfolioUpdate, accountId: "DU777" });
+        return vi.fn();
+      });
+      useStore.setState({ connectionStatus: "connected" });
+
+      const unsubscribe = useStore.getState().subscribePortfolio();
+      const sample = { at: 200_000, totalEquity: 20050, positionsMarketValue: 15050, cashBalance: 5000 };
+      expect(loadEquityHistory).toHaveBeenCalledWith(expect.stringMatching(/DU777-USD\.jsonl$/), expect.any(Number));
+      expect(appendEquityHistory).toHaveBeenCalledWith(expect.stringMatching(/DU777-USD\.jsonl$/), sample);
+      expect(useStore.getState().persistedEquityHistory).toEqual([earlier, sample]);
+
+      vi.advanceTimersByTime(45_000);
+      expect(appendEquityHistory).toHaveBeenCalledTimes(1);
+      vi.advanceTimersByTime(15_000);
+      expect(appendEquityHistory).toHaveBeenCalledTimes(2);
+      expect(useStore.getState().persistedEquityHistory.map((entry) => entry.at)).toEqual([100_000, 200_000, 260_000]);
+
+      unsubscribe();
+    });
+  });
+
+  describe("accounts", () => {
+    it("exposes the managed accounts reported after connect", async () => {
+      await useStore.getState().connect();
+      brokerMocks.accountsCallbacks.forEach((callback) => callback(["U111", "U222", "U333"], "U222"));
+
+      expect(useStore.getState().accounts).toEqual(["U111", "U222", "U333"]);
+      expect(useStore.getState().selectedAccountId).toBe("U222");
+    });
+
+    it("switches the broker account and clears the previous account's portfolio", () => {
+      useStore.setState({ selectedAccountId: "DU123456" });
+      useStore.getState().subscribePortfolio();
+      expect(useStore.getState().positions).toHaveLength(1);
+
+      useStore.getState().setAccount("U222");
+
+      const state = useStore.getState();
+      expect(brokerMocks.setAccount).toHaveBeenCalledWith("U222");
+      expect(state.selectedAccountId).toBe("U222");
+      expect(state.positions).toEqual([]);
+      expect(state.totalEquity).toBe(0);
+      expect(state.equityHistory).toEqual([]);
+    });
+
+    it("ignores snapshots from an account other than the selected one", () => {
+      useStore.setState({ selectedAccountId: "U222" });
+
+      useStore.getState().subscribePortfolio();
+
+      expect(useStore.getState().positions).toEqual([]);
+    });
+
+    it("cycles through accounts in both directions", () => {
+      useStore.setState({ accounts: ["U111", "U222", "U333"], selectedAccountId: "U111" });
+
+      useStore.getState().cycleAccount("next");
+      expect(useStore.getState().selectedAccountId).toBe("U222");
+      useStore.getState().cycleAccount("prev");
+      useStore.getState().cycleAccount("prev");
+      expect(useStore.getState().selectedAccountId).toBe("U333");
+    });
+
+    it("does not switch with a single account", () => {
+      useStore.setState({ accounts: ["U111"], selectedAccountId: "U111" });
+
+      useStore.getState().cycleAccount("next");
+
+      expect(brokerMocks.setAccount).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("household", () => {
+    const household: HouseholdUpdate = {
+      baseCurrencyCode: "USD",
+      accounts: [],
+      positions: [],
+      positionsMarketValue: 1_000,
+      positionsUnrealizedPnL: 0,
+      cashBalance: 500,
+      totalEquity: 1_500,
+      pendingFxAccountIds: [],
+      accountPortfolios: [],
+      initialLoadComplete: true,
+      lastPortfolioUpdateAt: 1_000,
+    };
+
+    it("only enters household mode with more than one account", () => {
+      useStore.setState({ accounts: ["U111"] });
+      useStore.getState().toggleHousehold();
+      expect(useStore.getState().householdMode).toBe(false);
+
+      useStore.setState({ accounts: ["U111", "U222"] });
+      useStore.getState().toggleHousehold();
+      expect(useStore.getState().householdMode).toBe(true);
+      useStore.getState().toggleHousehold();
+      expect(useStore.getState().householdMode).toBe(false);
+    });
+
+    it("stores household updates while household mode is on", () => {
+      useStore.setState({ accounts: ["U111", "U222"], householdMode: true });
+      const unsubscribe = useStore.getState().subscribeHousehold();
+
+      brokerMocks.householdCallbacks.forEach((callback) => callback(household));
+      expect(useStore.getState().household).toEqual(household);
+
+      useStore.getState().toggleHousehold();
+      brokerMocks.householdCallbacks.forEach((callback) => callback(household));
+      expect(useStore.getState().household).toBeNull();
+
+      unsubscribe();
+      expect(brokerMocks.householdCallbacks.size).toBe(0);
+    });
+
+    it("keeps the selected account current from the household stream", () => {
+      useStore.setState({ accounts: ["U111", "U222"], selectedAccountId: "U111", householdMode: true });
+      const listener = vi.fn();
+      const stopListening = onPortfolioUpdate(listener);
+      const unsubscribe = useStore.getState().subscribeHousehold();
+      const selected = { ...brokerMocks.samplePortfolioUpdate, accountId: "U111", lastPortfolioUpdateAt: 2_000 };
+      const other = { ...brokerMocks.samplePortfolioUpdate, accountId: "U222", totalEquity: 1 };
+
+      brokerMocks.householdCallbacks.forEach((callback) =>
+        callback({ ...household, accountPortfolios: [other, selected] }),
+      );
+      expect(useStore.getState().totalEquity).toBe(selected.totalEquity);
+      expect(useStore.getState().lastPortfolioUpdateAt).toBe(2_000);
+      expect(listener).toHaveBeenCalledWith(selected);
+
+      // A household update without a new download of the selected account is not replayed.
+      brokerMocks.householdCallbacks.forEach((callback) =>
+        callback({ ...household, accountPortfolios: [other, selected] }),
+      );
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      stopListening();
+      unsubscribe();
+    });
+  });
+
+  describe("accountValues", () => {
+    it("stores margin keys from portfolio snapshots and clears them on an account switch", () => {
+      useStore.getState().subscribePortfolio();
+      expect(useStore.getState().accountValues).toEqual(brokerMocks.samplePortfolioUpdate.accountValues);
+
+      useStore.getState().setAccount("U222");
+      expect(useStore.getState().accountValues).toBeNull();
+    });
+  });
+
+  describe("subscribeAccountSummary", () => {
+    it("loads the summary immediately and refreshes it on an interval", async () => {
+      vi.useFakeTimers();
+      const unsubscribe = useStore.getState().subscribeAccountSummary();
+      await vi.waitFor(() => expect(useStore.getState().accountSummary).toEqual(brokerMocks.sampleAccountSummary));
+
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(brokerMocks.getAccountSummary).toHaveBeenCalledTimes(2);
+
+      unsubscribe();
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(brokerMocks.getAccountSummary).toHaveBeenCalledTimes(2);
+      vi.useRealTimers();
+    });
+
+    it("drops a summary for an account other than the selected one", async () => {
+      useStore.setState({ selectedAccountId: "U999" });
+      const unsubscribe = useStore.getState().subscribeAccountSummary();
+      await vi.waitFor(() => expect(brokerMocks.getAccountSummary).toHaveBeenCalled());
+      await Promise.resolve();
+
+      expect(useStore.getState().accountSummary).toBeNull();
+      unsubscribe();
+    });
+  });
+
+  describe("subscribeOrders", () => {
+    it("updates orders from broker subscription", () => {
+      useStore.getState().subscribeOrders();
+
+      expect(brokerMocks.subscribeOrders).toHaveBeenCalledTimes(1);
+      expect(useStore.getState().orders).toEqual([
+        expect.objectContaining({ id: 42, symbol: "AAPL", status: "Submitted" }),
+      ]);
+    });
+  });
+
+  describe("subscribeExecutions", () => {
+    it("stores the broker's fill list and journals each fill version once", () => {
+      useStore.getState().subscribeExecutions();
+
+      expect(brokerMocks.subscribeExecutions).toHaveBeenCalledTimes(1);
+      expect(useStore.getState().executions).toEqual([expect.objectContaining({ execId: "0001.01", symbol: "AAPL" })]);
+      expect(vi.mocked(appendExecutionJournal)).toHaveBeenCalledWith(expect.any(String), [
+        expect.objectContaining({ execId: "0001.01" }),
+      ]);
+
+      useStore.getState().subscribeExecutions();
+      expect(vi.mocked(appendExecutionJournal)).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("placeOrder", () => {
+    it("delegates to the broker and returns the acknowledged order", async () => {
+      const request: OrderRequest = { symbol: "AAPL", conId: 265598, action: "SELL", quantity: 5, orderType: "MKT" };
+
+      await expect(useStore.getState().placeOrder(request)).resolves.toEqual(
+        expect.objectContaining({ id: 43, status: "PreSubmitted", conId: 265598 }),
+      );
+      expect(brokerMocks.placeOrder).toHaveBeenCalledWith(request);
+    });
+
+    it("propagates broker rejections", async () => {
+      brokerMocks.placeOrder.mockRejectedValueOnce(new Error("Not connected"));
+
+      await expect(
+        useStore.getState().placeOrder({ symbol: "AAPL", action: "BUY", quantity: 1, orderType: "MKT" }),
+      ).rejects.toThrow("Not connected");
+    });
+  });
+
+  describe("previewOrder", () => {
+    it("returns the broker what-if estimate", async () => {
+      const request: OrderRequest = { symbol: "AAPL", action: "BUY", quantity: 5, orderType: "MKT" };
+
+      await expect(useStore.getState().previewOrder(request)).resolves.toEqual(
+        expect.objectContaining({ initMarginChange: 750, commission: 1 }),
+      );
+      expect(brokerMocks.previewOrder).toHaveBeenCalledWith(request);
+    });
+  });
+
+  describe("watchlist", () => {
+    const quote = (symbol: string, last: number): Quote => ({
+      symbol,
+      bid: last - 0.01,
+      ask: last + 0.01,
+      last,
+      volume: 1_000,
+      close: 100,
+      changePercent: last - 100,
+      isDelayed: false,
+      error: null,
+      updatedAt: 1_000,
+    });
+
+    it("adds normalized symbols, persists them, and ignores duplicates or invalid input", () => {
+      const { addWatchlistSymbol } = useStore.getState();
+
+      expect(addWatchlistSymbol(" aapl")).toBe(true);
+      expect(addWatchlistSymbol("AAPL")).toBe(true);
+      expect(addWatchlistSymbol("$$")).toBe(false);
+
+      expect(useStore.getState().watchlist).toEqual(["AAPL"]);
+      expect(vi.mocked(saveWatchlist)).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(saveWatchlist)).toHaveBeenCalledWith(["AAPL"]);
+    });
+
+    it("streams quotes for every symbol while subscribed, including symbols added later", () => {
+      useStore.setState({ watchlist: ["AAPL"] });
+      const unsubscribe = useStore.getState().subscribeWatchlist();
+
+      brokerMocks.quoteCallbacks.get("AAPL")?.(quote("AAPL", 101));
+      useStore.getState().addWatchlistSymbol("MSFT");
+      brokerMocks.quoteCallbacks.get("MSFT")?.(quote("MSFT", 99));
+
+      expect(useStore.getState().quotes).toEqual({
+        AAPL: expect.objectContaining({ last: 101, changePercent: 1 }),
+        MSFT: expect.objectContaining({ last: 99 }),
+      });
+
+      unsubscribe();
+      expect(brokerMocks.quoteUnsubscribers.get("AAPL")).toHaveBeenCalledTimes(1);
+      expect(brokerMocks.quoteUnsubscribers.get("MSFT")).toHaveBeenCalledTimes(1);
+
+      useStore.getState().addWatchlistSymbol("SPY");
+      expect(brokerMocks.subscribeQuote).not.toHaveBeenCalledWith("SPY", expect.any(Function));
+    });
+
+    it("removes a symbol, cancels its quote, and drops the cached quote", () => {
+      useStore.setState({ watchlist: ["AAPL", "MSFT"] });
+      const unsubscribe = useStore.getState().subscribeWatchlist();
+      brokerMocks.quoteCallbacks.get("AAPL")?.(quote("AAPL", 101));
+
+      useStore.getState().removeWatchlistSymbol("AAPL");
+
+      expect(brokerMocks.quoteUnsubscribers.get("AAPL")).toHaveBeenCalledTimes(1);
+      expect(useStore.getState().watchlist).toEqual(["MSFT"]);
+      expect(useStore.getState().quotes).toEqual({});
+      expect(vi.mocked(saveWatchlist)).toHaveBeenLastCalledWith(["MSFT"]);
+      unsubscribe();
+    });
   });
 
   describe("display currency", () => {
@@ -310,6 +838,18 @@ describe("store", () => {
       expect(useStore.getState().connectionHealth).toBe("healthy");
     });
 
+    it("records session alerts in the history without touching gateway status", async () => {
+      await useStore.getState().connect();
+      const brokerStatus = useStore.getState().brokerStatus;
+
+      emitStatus({ level: "info", message: "NASDAQ regular session closes in 15m (AAPL)", kind: "session", at: Date.now() });
+
+      const state = useStore.getState();
+      expect(state.statusHistory.at(-1)?.message).toBe("NASDAQ regular session closes in 15m (AAPL)");
+      expect(state.brokerStatus).toBe(brokerStatus);
+      expect(state.connectionHealth).toBe("healthy");
+    });
+
     it("keeps last portfolio snapshot when transport disconnects", async () => {
       useStore.getState().subscribePortfolio();
       await useStore.getState().connect();
@@ -458,5 +998,13 @@ describe("store", () => {
       expect(state.displayCurrencyCode).toBeNull();
       expect(state.availableDisplayCurrencies).toEqual([]);
     });
+
+    it("clears orders on disconnect", async () => {
+      useStore.getState().subscribeOrders();
+
+      await useStore.getState().disconnect();
+
+      expect(useStore.getState().orders).toEqual([]);
+    });
   });
 });
@@ -1,13 +1,33 @@
 import { create } from "zustand";
 import { IBKRBroker } from "../broker/ibkr/index.js";
 import type {
+  AccountSummary,
+  AccountValues,
   Broker,
   BrokerStatus,
   BrokerStatusLevel,
+  Execution,
+  Order,
+  OrderPreview,
+  OrderRequest,
+  HouseholdUpdate,
   Position,
   PortfolioUpdate,
+  Quote,
 } from "../broker/types.js";
 import { log } from "../utils/logger.js";
+import { appendEquitySample } from "./equityHistory.js";
+import { DEFAULT_CUSHION_THRESHOLDS } from "./accountMetrics.js";
+import type { CushionThresholds } from "./accountMetrics.js";
+import type { EquitySample } from "./equityHistory.js";
+import { appendEquityHistory, getEquityHistoryPath, loadEquityHistory } from "./equityHistoryStorage.js";
+import {
+  appendExecutionJournal,
+  getExecutionJournalPath,
+  loadExecutionJournal,
+  takeUnjournaledExecutions,
+} from "./executionJournal.js";
+import { loadWatchlist, normalizeWatchlistSymbol, saveWatchlist } from "./watchlistStorage.js";
 import type { ConnectionHealth, ConnectionStatus } from "./types.js";
 
 export type DisplayCurrencyPreference = "BASE" | string;
@@ -32,9 +52,18 @@ export type AppState = {
   statusHistory: StatusEvent[];
   statusHistoryIndex: number;
 
+  accounts: string[];
+  selectedAccountId: string | null;
+  // Household mode replaces the single-account portfolio stream.
+  householdMode: boolean;
+  household: HouseholdUpdate | null;
+  accountId: string | null;
   positions: Position[];
   positionsMarketValue: number;
   positionsUnrealizedPnL: number;
+  positionsDailyPnL: number;
+  positionsRealizedPnL: number;
+  dailyPnL: number | null;
   totalEquity: number;
   cashBalance: number;
   cashBalancesByCurrency: Record<string, number>;
@@ -44,6 +73,8 @@ export type AppState = {
   lastPortfolioUpdateAt: number | null;
   positionsPendingFxCount: number;
   positionsPendingFxByCurrency: Record<string, number>;
+  // Margin keys from the portfolio stream; null until the first snapshot.
+  accountValues: AccountValues | null;
 
   displayCurrencyPreference: DisplayCurrencyPreference;
   displayCurrencyCode: string | null;
@@ -51,6 +82,19 @@ export type AppState = {
   availableDisplayCurrencies: string[];
   displayCurrencyWarning: string | null;
 
+  equityHistory: EquitySample[];
+  persistedEquityHistory: EquitySample[];
+
+  accountSummary: AccountSummary | null;
+  cushionThresholds: CushionThresholds;
+
+  orders: Order[];
+  // Today's fills across all accounts, oldest first.
+  executions: Execution[];
+
+  watchlist: string[];
+  quotes: Record<string, Quote>;
+
   connect: () => Promise<void>;
   disconnect: () => Promise<void>;
   startAutoConnect: () => void;
@@ -62,12 +106,32 @@ export type AppState = {
   subscribePortfolio: () => () => void;
   setDisplayCurrencyPreference: (preference: DisplayCurrencyPreference) => void;
   cycleDisplayCurrency: (direction: "next" | "prev") => void;
+  setAccount: (accountId: string) => void;
+  cycleAccount: (direction: "next" | "prev") => void;
+  toggleHousehold: () => void;
+  subscribeHousehold: () => () => void;
+  subscribeAccountSummary: () => () => void;
+  setCushionThresholds: (thresholds: CushionThresholds) => void;
+  subscribeOrders: () => () => void;
+  subscribeExecutions: () => () => void;
+  placeOrder: (order: OrderRequest) => Promise<Order>;
+  previewOrder: (order: OrderRequest) => Promise<OrderPreview>;
+  subscribeWatchlist: () => () => void;
+  addWatchlistSymbol: (symbol: string) => boolean;
+  removeWatchlistSymbol: (symbol: string) => void;
 };
 
 const RETRY_BASE_DELAY_MS = 1_000;
 const RETRY_MAX_DELAY_MS = 30_000;
 const STATUS_HISTORY_LIMIT = 1_000;
 const STATUS_DEDUPE_WINDOW_MS = 10_000;
+const EQUITY_SAMPLE_INTERVAL_MS = 15_000;
+// Persisted samples are thinned to one a minute; only the window the history
+// view compares against is kept in memory.
+const EQUITY_PERSIST_INTERVAL_MS = 60_000;
+const PERSISTED_EQUITY_RETENTION_MS = 40 * 24 * 60 * 60_000;
+// reqAccountSummary values refresh about every three minutes on IB's side.
+const ACCOUNT_SUMMARY_REFRESH_MS = 60_000;
 
 const RECOVERY_CODES = new Set([1101, 1102, 2104, 2106, 2158]);
 const NON_DEGRADING_WARN_CODES = new Set([2107, 2108]);
@@ -103,6 +167,7 @@ const isLifecycleMessage = (message: string): boolean => {
 
 const isSignificantStatus = (status: BrokerStatus): boolean => {
   if (status.level === "warn" || status.level === "error") return true;
+  if (status.kind === "session") return true;
   if (status.code !== undefined && SIGNIFICANT_INFO_CODES.has(status.code)) return true;
   return isLifecycleMessage(status.message);
 };
@@ -254,9 +319,13 @@ const resolveDisplayCurrency = (
 };
 
 const getDisconnectedPortfolioReset = () => ({
+  accountId: null,
   positions: [],
   positionsMarketValue: 0,
   positionsUnrealizedPnL: 0,
+  positionsDailyPnL: 0,
+  positionsRealizedPnL: 0,
+  dailyPnL: null,
   totalEquity: 0,
   cashBalance: 0,
   cashBalancesByCurrency: {},
@@ -266,18 +335,37 @@ const getDisconnectedPortfolioReset = () => ({
   lastPortfolioUpdateAt: null,
   positionsPendingFxCount: 0,
   positionsPendingFxByCurrency: {},
+  accountValues: null,
+  accountSummary: null,
   displayCurrencyCode: null,
   displayFxRate: 1,
   availableDisplayCurrencies: [],
   displayCurrencyWarning: null,
 });
 
+const portfolioUpdateListeners = new Set<(update: PortfolioUpdate) => void>();
+
+// Every broker portfolio update the store applies, for consumers outside React
+// such as the local API server.
+export const onPortfolioUpdate = (listener: (update: PortfolioUpdate) => void): (() => void) => {
+  portfolioUpdateListeners.add(listener);
+  return () => {
+    portfolioUpdateListeners.delete(listener);
+  };
+};
+
 export const useStore = create<AppState>((set, get) => {
   let unsubscribeDisconnect: (() => void) | null = null;
   let unsubscribeStatus: (() => void) | null = null;
+  let unsubscribeAccounts: (() => void) | null = null;
   let retryTimer: ReturnType<typeof setTimeout> | null = null;
   let connectInFlight: Promise<void> | null = null;
   let autoConnectEnabled = false;
+  let watchlistSubscribed = false;
+  let persistedHistoryPath: string | null = null;
+  // execId -> last journaled line; seeded from the journal on first use.
+  let journaledExecutions: Map<string, string> | null = null;
+  const quoteUnsubscribers = new Map<string, () => void>();
 
   const clearRetryTimer = (): void => {
     if (retryTimer) {
@@ -286,6 +374,141 @@ export const useStore = create<AppState>((set, get) => {
     }
   };
 
+  const subscribeQuote = (symbol: string): void => {
+    if (quoteUnsubscribers.has(symbol)) return;
+    const { broker } = get();
+    try {
+      const unsubscribe = broker.subscribeQuote(symbol, (quote) => {
+        set((state) => ({ quotes: { ...state.quotes, [symbol]: quote } }));
+      });
+      quoteUnsubscribers.set(symbol, unsubscribe);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log("warn", "state.watchlist", `subscribeQuote failed sym=${symbol} error=${message}`);
+    }
+  };
+
+  // Appends to the per-account/base-currency file at most once a minute. The
+  // file is (re)loaded whenever the account or base currency changes.
+  const persistEquitySample = (sample: EquitySample): void => {
+    const { accountId, baseCurrencyCode } = get();
+    if (!accountId || !baseCurrencyCode) return;
+
+    const filePath = getEquityHistoryPath(accountId, baseCurrencyCode);
+    if (filePath !== persistedHistoryPath) {
+      persistedHistoryPath = filePath;
+      set({ persistedEquityHistory: loadEquityHistory(filePath, sample.at - PERSISTED_EQUITY_RETENTION_MS) });
+    }
+
+    const history = get().persistedEquityHistory;
+    const latest = history[history.length - 1];
+    if (latest && sample.at - latest.at < EQUITY_PERSIST_INTERVAL_MS) return;
+
+    appendEquityHistory(filePath, sample);
+    const cutoff = sample.at - PERSISTED_EQUITY_RETENTION_MS;
+    set({ persistedEquityHistory: [...history.filter((entry) => entry.at >= cutoff), sample] });
+  };
+
+  // Account updates can be minutes apart in quiet markets; periodic samples keep
+  // the chart's time axis moving. Samples are taken only from a loaded snapshot.
+  const recordEquitySample = (at: number): void => {
+    const state = get();
+    if (!state.initialLoadComplete) return;
+    const sample: EquitySample = {
+      at,
+      totalEquity: state.totalEquity,
+      positionsMarketValue: state.positionsMarketValue,
+      cashBalance: state.cashBalance,
+    };
+    set({ equityHistory: appendEquitySample(state.equityHistory, sample) });
+    persistEquitySample(sample);
+  };
+
+  const applyPortfolioUpdate = (update: PortfolioUpdate): void => {
+    const prev = get();
+    // A snapshot from the account being switched away from can still be in flight.
+    if (update.accountId && prev.selectedAccountId && update.accountId !== prev.selectedAccountId) return;
+    const snapshotChanged =
+      prev.positionsMarketValue !== update.positionsMarketValue ||
+      prev.cashBalance !== update.cashBalance ||
+      !areNumberRecordsEqual(
+        prev.cashBalancesByCurrency,
+        update.cashBalancesByCurrency,
+      ) ||
+      !areNumberRecordsEqual(
+        prev.cashExchangeRatesByCurrency,
+        update.cashExchangeRatesByCurrency,
+      ) ||
+      prev.baseCurrencyCode !== update.baseCurrencyCode ||
+      prev.totalEquity !== update.totalEquity ||
+      prev.initialLoadComplete !== update.initialLoadComplete ||
+      prev.lastPortfolioUpdateAt !== update.lastPortfolioUpdateAt;
+
+    const available = deriveAvailableDisplayCurrencies(update);
+    const { code, warning, displayFxRate } = resolveDisplayCurrency(
+      prev.displayCurrencyPreference,
+      update.baseCurrencyCode,
+      available,
+      update.cashExchangeRatesByCurrency,
+    );
+
+    set({
+      accountId: update.accountId,
+      positions: update.positions,
+      positionsMarketValue: update.positionsMarketValue,
+      positionsUnrealizedPnL: update.positionsUnrealizedPnL,
+      positionsDailyPnL: update.positionsDailyPnL,
+      positionsRealizedPnL: update.positionsRealizedPnL,
+      dailyPnL: update.dailyPnL,
+      totalEquity: update.totalEquity,
+      cashBalance: update.cashBalance,
+      cashBalancesByCurrency: update.cashBalancesByCurrency,
+      cashExchangeRatesByCurrency: update.cashExchangeRatesByCurrency,
+      baseCurrencyCode: update.baseCurrencyCode,
+      initialLoadComplete: update.initialLoadComplete,
+      lastPortfolioUpdateAt: update.lastPortfolioUpdateAt,
+      positionsPendingFxCount: update.positionsPendingFxCount,
+      positionsPendingFxByCurrency: update.positionsPendingFxByCurrency,
+      accountValues: update.accountValues,
+      availableDisplayCurrencies: available,
+      displayCurrencyCode: code,
+      displayFxRate,
+      displayCurrencyWarning: warning,
+    });
+
+    if (snapshotChanged) {
+      const cashFx = sumCashBalancesByCurrency(update.cashBalancesByCurrency);
+      log(
+        "debug",
+        "state.snapshot",
+        `positionsMV=${update.positionsMarketValue.toFixed(2)} cash=${update.cashBalance.toFixed(2)} cashFx=${cashFx.toFixed(2)} cashFxRows=${formatCashBalancesByCurrency(update.cashBalancesByCurrency)} totalEquity=${update.totalEquity.toFixed(2)} baseCcy=${update.baseCurrencyCode ?? "n/a"} displayCcy=${code ?? "n/a"} pendingFx=${update.positionsPendingFxCount}`,
+      );
+    }
+
+    recordEquitySample(Date.now());
+    portfolioUpdateListeners.forEach((listener) => listener(update));
+  };
+
+  const journalExecutions = (executions: Execution[]): void => {
+    const filePath = getExecutionJournalPath();
+    if (!journaledExecutions) {
+      journaledExecutions = new Map(
+        loadExecutionJournal(filePath).map((execution) => [execution.execId, JSON.stringify(execution)]),
+      );
+    }
+    const changed = takeUnjournaledExecutions(journaledExecutions, executions);
+    if (changed.length === 0) return;
+    appendExecutionJournal(filePath, changed);
+    log("debug", "state.executionJournal", `appended count=${changed.length}`);
+  };
+
+  const unsubscribeQuote = (symbol: string): void => {
+    const unsubscribe = quoteUnsubscribers.get(symbol);
+    if (!unsubscribe) return;
+    quoteUnsubscribers.delete(symbol);
+    unsubscribe();
+  };
+
   const cleanupBrokerListeners = (): void => {
     if (unsubscribeDisconnect) {
       unsubscribeDisconnect();
@@ -295,6 +518,10 @@ export const useStore = create<AppState>((set, get) => {
       unsubscribeStatus();
       unsubscribeStatus = null;
     }
+    if (unsubscribeAccounts) {
+      unsubscribeAccounts();
+      unsubscribeAccounts = null;
+    }
   };
 
   const recordStatus = (status: BrokerStatus): void => {
@@ -344,9 +571,17 @@ export const useStore = create<AppState>((set, get) => {
     statusHistory: [],
     statusHistoryIndex: 0,
 
+    accounts: [],
+    selectedAccountId: null,
+    householdMode: false,
+    household: null,
+    accountId: null,
     positions: [],
     positionsMarketValue: 0,
     positionsUnrealizedPnL: 0,
+    positionsDailyPnL: 0,
+    positionsRealizedPnL: 0,
+    dailyPnL: null,
     totalEquity: 0,
     cashBalance: 0,
     cashBalancesByCurrency: {},
@@ -356,6 +591,7 @@ export const useStore = create<AppState>((set, get) => {
     lastPortfolioUpdateAt: null,
     positionsPendingFxCount: 0,
     positionsPendingFxByCurrency: {},
+    accountValues: null,
 
     displayCurrencyPreference: "BASE",
     displayCurrencyCode: null,
@@ -363,6 +599,18 @@ export const useStore = create<AppState>((set, get) => {
     availableDisplayCurrencies: [],
     displayCurrencyWarning: null,
 
+    equityHistory: [],
+    persistedEquityHistory: [],
+
+    accountSummary: null,
+    cushionThresholds: DEFAULT_CUSHION_THRESHOLDS,
+
+    orders: [],
+    executions: [],
+
+    watchlist: loadWatchlist(),
+    quotes: {},
+
     connect: async () => {
       if (connectInFlight) return connectInFlight;
 
@@ -384,6 +632,8 @@ export const useStore = create<AppState>((set, get) => {
         };
 
         recordStatus(status);
+        // Session alerts go to the history only; they say nothing about the gateway.
+        if (status.kind === "session") return;
         set((state) => ({
           brokerStatus: status,
           connectionHealth: resolveHealthFromStatus(
@@ -394,6 +644,11 @@ export const useStore = create<AppState>((set, get) => {
         }));
       });
 
+      unsubscribeAccounts = broker.onAccounts((accounts, activeAccountId) => {
+        set({ accounts, selectedAccountId: activeAccountId || null });
+        log("info", "state.account", `accounts=${accounts.join(",") || "none"} active=${activeAccountId || "n/a"}`);
+      });
+
       connectInFlight = (async () => {
         try {
           await broker.connect();
@@ -467,6 +722,10 @@ export const useStore = create<AppState>((set, get) => {
         nextRetryAt: null,
         error: null,
         brokerStatus: null,
+        orders: [],
+        executions: [],
+        quotes: {},
+        household: null,
         ...getDisconnectedPortfolioReset(),
       });
     },
@@ -589,60 +848,170 @@ export const useStore = create<AppState>((set, get) => {
 
     subscribePortfolio: () => {
       const { broker } = get();
-      return broker.subscribePortfolio((update) => {
-        const prev = get();
-        const snapshotChanged =
-          prev.positionsMarketValue !== update.positionsMarketValue ||
-          prev.cashBalance !== update.cashBalance ||
-          !areNumberRecordsEqual(
-            prev.cashBalancesByCurrency,
-            update.cashBalancesByCurrency,
-          ) ||
-          !areNumberRecordsEqual(
-            prev.cashExchangeRatesByCurrency,
-            update.cashExchangeRatesByCurrency,
-          ) ||
-          prev.baseCurrencyCode !== update.baseCurrencyCode ||
-          prev.totalEquity !== update.totalEquity ||
-          prev.initialLoadComplete !== update.initialLoadComplete ||
-          prev.lastPortfolioUpdateAt !== update.lastPortfolioUpdateAt;
-
-        const available = deriveAvailableDisplayCurrencies(update);
-        const { code, warning, displayFxRate } = resolveDisplayCurrency(
-          prev.displayCurrencyPreference,
-          update.baseCurrencyCode,
-          available,
-          update.cashExchangeRatesByCurrency,
+      const unsubscribe = broker.subscribePortfolio(applyPortfolioUpdate);
+
+      const sampleTimer = setInterval(() => {
+        if (get().connectionStatus !== "connected") return;
+        recordEquitySample(Date.now());
+      }, EQUITY_SAMPLE_INTERVAL_MS);
+      sampleTimer.unref?.();
+
+      return () => {
+        clearInterval(sampleTimer);
+        unsubscribe();
+      };
+    },
+
+    // Switching accounts drops the previous account's snapshot and chart samples;
+    // App re-subscribes when selectedAccountId changes.
+    setAccount: (accountId) => {
+      const { broker, selectedAccountId } = get();
+      if (accountId === selectedAccountId) return;
+      broker.setAccount(accountId);
+      set({
+        selectedAccountId: accountId,
+        equityHistory: [],
+        ...getDisconnectedPortfolioReset(),
+      });
+      log("info", "state.account", `switch account=${accountId} previous=${selectedAccountId ?? "n/a"}`);
+    },
+
+    cycleAccount: (direction) => {
+      const { accounts, selectedAccountId } = get();
+      if (accounts.length < 2) return;
+      const currentIndex = selectedAccountId ? accounts.indexOf(selectedAccountId) : -1;
+      const nextIndex =
+        currentIndex === -1
+          ? direction === "next" ? 0 : accounts.length - 1
+          : (currentIndex + (direction === "next" ? 1 : -1) + accounts.length) % accounts.length;
+      get().setAccount(accounts[nextIndex]);
+    },
+
+    toggleHousehold: () => {
+      const { accounts, householdMode } = get();
+      if (!householdMode && accounts.length < 2) return;
+      set({ householdMode: !householdMode, household: null });
+      log("info", "state.household", `household ${householdMode ? "off" : "on"} accounts=${accounts.length}`);
+    },
+
+    subscribeHousehold: () => {
+      const { broker } = get();
+      return broker.subscribeHousehold((household) => {
+        if (!get().householdMode) return;
+        set({ household });
+        // The selected account is not streamed on its own in household mode;
+        // its last download keeps the account state (and the API) current.
+        const { selectedAccountId, lastPortfolioUpdateAt } = get();
+        const selected = household.accountPortfolios.find((portfolio) => portfolio.accountId === selectedAccountId);
+        if (selected && selected.lastPortfolioUpdateAt !== lastPortfolioUpdateAt) applyPortfolioUpdate(selected);
+      });
+    },
+
+    // Polls reqAccountSummary; a summary for an account switched away from is dropped.
+    subscribeAccountSummary: () => {
+      let active = true;
+      const refresh = (): void => {
+        const { broker } = get();
+        broker.getAccountSummary().then(
+          (summary) => {
+            if (!active) return;
+            const { selectedAccountId } = get();
+            if (selectedAccountId && summary.accountId !== selectedAccountId) return;
+            set({ accountSummary: summary });
+            log("debug", "state.accountSummary", `account=${summary.accountId} netLiq=${summary.netLiquidation} cushion=${summary.cushion ?? "n/a"}`);
+          },
+          (error: unknown) => {
+            const message = error instanceof Error ? error.message : String(error);
+            log("warn", "state.accountSummary", `refresh failed error=${message}`);
+          },
         );
+      };
 
-        set({
-          positions: update.positions,
-          positionsMarketValue: update.positionsMarketValue,
-          positionsUnrealizedPnL: update.positionsUnrealizedPnL,
-          totalEquity: update.totalEquity,
-          cashBalance: update.cashBalance,
-          cashBalancesByCurrency: update.cashBalancesByCurrency,
-          cashExchangeRatesByCurrency: update.cashExchangeRatesByCurrency,
-          baseCurrencyCode: update.baseCurrencyCode,
-          initialLoadComplete: update.initialLoadComplete,
-          lastPortfolioUpdateAt: update.lastPortfolioUpdateAt,
-          positionsPendingFxCount: update.positionsPendingFxCount,
-          positionsPendingFxByCurrency: update.positionsPendingFxByCurrency,
-          availableDisplayCurrencies: available,
-          displayCurrencyCode: code,
-          displayFxRate,
-          displayCurrencyWarning: warning,
-        });
-
-        if (snapshotChanged) {
-          const cashFx = sumCashBalancesByCurrency(update.cashBalancesByCurrency);
-          log(
-            "debug",
-            "state.snapshot",
-            `positionsMV=${update.positionsMarketValue.toFixed(2)} cash=${update.cashBalance.toFixed(2)} cashFx=${cashFx.toFixed(2)} cashFxRows=${formatCashBalancesByCurrency(update.cashBalancesByCurrency)} totalEquity=${update.totalEquity.toFixed(2)} baseCcy=${update.baseCurrencyCode ?? "n/a"} displayCcy=${code ?? "n/a"} pendingFx=${update.positionsPendingFxCount}`,
-          );
-        }
+      refresh();
+      const timer = setInterval(refresh, ACCOUNT_SUMMARY_REFRESH_MS);
+      timer.unref?.();
+      return () => {
+        active = false;
+        clearInterval(timer);
+      };
+    },
+
+    setCushionThresholds: (thresholds) => {
+      set({ cushionThresholds: thresholds });
+    },
+
+    subscribeOrders: () => {
+      const { broker } = get();
+      return broker.subscribeOrders((orders) => {
+        set({ orders });
+        log("debug", "state.orders", `count=${orders.length}`);
       });
     },
+
+    subscribeExecutions: () => {
+      const { broker } = get();
+      return broker.subscribeExecutions((executions) => {
+        set({ executions });
+        log("debug", "state.executions", `count=${executions.length}`);
+        journalExecutions(executions);
+      });
+    },
+
+    placeOrder: async (order) => {
+      const { broker } = get();
+      log("info", "state.order.place", `${order.action} ${order.quantity} ${order.symbol} type=${order.orderType}`);
+      try {
+        return await broker.placeOrder(order);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log("error", "state.order.place", `failed error=${message}`);
+        throw error;
+      }
+    },
+
+    previewOrder: async (order) => {
+      const { broker } = get();
+      try {
+        return await broker.previewOrder(order);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log("warn", "state.order.preview", `failed error=${message}`);
+        throw error;
+      }
+    },
+
+    subscribeWatchlist: () => {
+      watchlistSubscribed = true;
+      get().watchlist.forEach(subscribeQuote);
+      log("debug", "state.watchlist", `subscribed count=${quoteUnsubscribers.size}`);
+      return () => {
+        watchlistSubscribed = false;
+        Array.from(quoteUnsubscribers.keys()).forEach(unsubscribeQuote);
+      };
+    },
+
+    addWatchlistSymbol: (raw) => {
+      const symbol = normalizeWatchlistSymbol(raw);
+      if (!symbol) return false;
+      const { watchlist } = get();
+      if (watchlist.includes(symbol)) return true;
+      const next = [...watchlist, symbol];
+      set({ watchlist: next });
+      saveWatchlist(next);
+      log("info", "state.watchlist", `add sym=${symbol} count=${next.length}`);
+      if (watchlistSubscribed) subscribeQuote(symbol);
+      return true;
+    },
+
+    removeWatchlistSymbol: (symbol) => {
+      const { watchlist, quotes } = get();
+      if (!watchlist.includes(symbol)) return;
+      unsubscribeQuote(symbol);
+      const next = watchlist.filter((entry) => entry !== symbol);
+      const remainingQuotes = Object.fromEntries(Object.entries(quotes).filter(([entry]) => entry !== symbol));
+      set({ watchlist: next, quotes: remainingQuotes });
+      saveWatchlist(next);
+      log("info", "state.watchlist", `remove sym=${symbol} count=${next.length}`);
+    },
   };
 });
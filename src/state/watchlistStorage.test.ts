@@ -0,0 +1,43 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { loadWatchlist, normalizeWatchlistSymbol, saveWatchlist } from "./watchlistStorage.js";
+
+describe("watchlistStorage", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ib-tui-watchlist-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("normalizes symbols and rejects invalid input", () => {
+    expect(normalizeWatchlistSymbol(" aapl ")).toBe("AAPL");
+    expect(normalizeWatchlistSymbol("BRK B")).toBe("BRK B");
+    expect(normalizeWatchlistSymbol("")).toBeNull();
+    expect(normalizeWatchlistSymbol("$$$")).toBeNull();
+  });
+
+  it("round-trips symbols through the file, creating the directory", () => {
+    const filePath = path.join(dir, "nested", "watchlist.json");
+
+    saveWatchlist(["AAPL", "MSFT"], filePath);
+
+    expect(loadWatchlist(filePath)).toEqual(["AAPL", "MSFT"]);
+  });
+
+  it("returns an empty list for missing or malformed files", () => {
+    const filePath = path.join(dir, "watchlist.json");
+    expect(loadWatchlist(filePath)).toEqual([]);
+
+    fs.writeFileSync(filePath, "{not json", "utf8");
+    expect(loadWatchlist(filePath)).toEqual([]);
+
+    fs.writeFileSync(filePath, JSON.stringify(["spy", 42, "SPY", "qqq"]), "utf8");
+    expect(loadWatchlist(filePath)).toEqual(["SPY", "QQQ"]);
+  });
+});
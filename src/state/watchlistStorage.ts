@@ -0,0 +1,42 @@
+import fs from "node:fs";
+import path from "node:path";
+import { log } from "../utils/logger.js";
+
+const DEFAULT_WATCHLIST_PATH = path.resolve(process.cwd(), "data", "watchlist.json");
+const SYMBOL_RE = /^[A-Z0-9][A-Z0-9.\- ]{0,11}$/;
+
+export const normalizeWatchlistSymbol = (raw: string): string | null => {
+  const symbol = raw.trim().toUpperCase();
+  return SYMBOL_RE.test(symbol) ? symbol : null;
+};
+
+export const loadWatchlist = (filePath = DEFAULT_WATCHLIST_PATH): string[] => {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, "utf8");
+  } catch {
+    return [];
+  }
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) throw new Error("expected an array of symbols");
+    const symbols = parsed
+      .map((entry) => (typeof entry === "string" ? normalizeWatchlistSymbol(entry) : null))
+      .filter((symbol): symbol is string => symbol !== null);
+    return Array.from(new Set(symbols));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log("warn", "state.watchlist", `ignoring unreadable watchlist path=${filePath} error=${message}`);
+    return [];
+  }
+};
+
+export const saveWatchlist = (symbols: string[], filePath = DEFAULT_WATCHLIST_PATH): void => {
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(symbols, null, 2) + "\n", "utf8");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log("warn", "state.watchlist", `failed to save watchlist path=${filePath} error=${message}`);
+  }
+};
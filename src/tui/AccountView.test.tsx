@@ -0,0 +1,93 @@
+import React from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { render } from "ink-testing-library";
+import { AccountView } from "./AccountView.js";
+import { useStore } from "../state/store.js";
+import type { AppState } from "../state/store.js";
+import type { AccountSummary } from "../broker/types.js";
+import { createState } from "./testStore.js";
+
+vi.mock("../state/store.js", () => ({
+  useStore: vi.fn(),
+}));
+
+const mockUseStore = vi.mocked(useStore);
+
+describe("AccountView", () => {
+  const mockSubscribe = vi.fn(() => () => {});
+
+  const createBaseState = (): AppState => createState({ subscribeAccountSummary: mockSubscribe });
+
+  const mockState = (state: AppState): void => {
+    mockUseStore.mockImplementation((selector) => (selector ? selector(state) : state));
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const summary: AccountSummary = {
+    accountId: "DU123456",
+    currency: "USD",
+    netLiquidation: 100_000,
+    totalCashValue: 20_000,
+    buyingPower: 300_000,
+    excessLiquidity: 4_000,
+    initMarginReq: 60_000,
+    maintMarginReq: 55_000,
+    cushion: 0.04,
+    sma: null,
+    grossPositionValue: 80_000,
+    leverage: 0.8,
+    updatedAt: 1_000,
+    positions: [],
+  };
+
+  const renderWide = (state: AppState): string => {
+    mockState(state);
+    const { stdout, lastFrame, rerender } = render(<AccountView />);
+    Object.defineProperty(stdout, "columns", { value: 140 });
+    rerender(<AccountView />);
+    return lastFrame() ?? "";
+  };
+
+  it("subscribes while connected and shows a loading state", async () => {
+    mockState(createBaseState());
+
+    const frame = render(<AccountView />).lastFrame() ?? "";
+
+    await vi.waitFor(() => expect(mockSubscribe).toHaveBeenCalledTimes(1));
+    expect(frame).toContain("Loading account summary...");
+  });
+
+  it("renders margin metrics and flags a critical cushion", () => {
+    const frame = renderWide({ ...createBaseState(), accountSummary: summary, baseCurrencyCode: "USD", displayCurrencyCode: "USD" });
+
+    expect(frame).toContain("DU123456");
+    expect(frame).toContain("Net Liq $100,000.00");
+    expect(frame).toContain("Buying Power $300,000.00");
+    expect(frame).toContain("Leverage 0.80x");
+    expect(frame).toContain("Maint Margin $55,000.00");
+    expect(frame).toContain("SMA n/a");
+    expect(frame).toContain("Cushion 4.0% LOW");
+  });
+
+  it("follows the display currency and the configured thresholds", () => {
+    const frame = renderWide({
+      ...createBaseState(),
+      accountSummary: { ...summary, cushion: 0.2 },
+      cushionThresholds: { warn: 0.25, critical: 0.1 },
+      baseCurrencyCode: "USD",
+      displayCurrencyCode: "EUR",
+      displayFxRate: 0.5,
+    });
+
+    expect(frame).toContain("Net Liq €50,000.00");
+    expect(frame).toContain("Cushion 20.0%");
+    expect(frame).not.toContain("LOW");
+  });
+});
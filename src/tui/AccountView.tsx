@@ -0,0 +1,105 @@
+import React, { useEffect } from "react";
+import { Box, Text } from "ink";
+import { useStore } from "../state/store.js";
+import { classifyCushion } from "../state/accountMetrics.js";
+import type { CushionLevel } from "../state/accountMetrics.js";
+import { formatMoney, formatNumber } from "./format.js";
+
+const CUSHION_COLORS: Record<CushionLevel, string> = {
+  ok: "green",
+  warn: "yellow",
+  critical: "red",
+};
+
+const Metric: React.FC<{ label: string; value: string; color?: string; bold?: boolean }> = ({ label, value, color, bold }) => (
+  <Text>
+    <Text dimColor>{label} </Text>
+    <Text color={color} bold={bold}>
+      {value}
+    </Text>
+  </Text>
+);
+
+const Separator: React.FC = () => <Text dimColor> | </Text>;
+
+export const AccountView: React.FC = () => {
+  const connectionStatus = useStore((s) => s.connectionStatus);
+  const selectedAccountId = useStore((s) => s.selectedAccountId);
+  const accountSummary = useStore((s) => s.accountSummary);
+  const cushionThresholds = useStore((s) => s.cushionThresholds);
+  const baseCurrencyCode = useStore((s) => s.baseCurrencyCode);
+  const displayFxRate = useStore((s) => s.displayFxRate);
+  const displayCurrencyCode = useStore((s) => s.displayCurrencyCode);
+  const subscribeAccountSummary = useStore((s) => s.subscribeAccountSummary);
+
+  useEffect(() => {
+    if (connectionStatus !== "connected") return;
+    const unsubscribe = subscribeAccountSummary();
+    return () => unsubscribe();
+  }, [connectionStatus, selectedAccountId, subscribeAccountSummary]);
+
+  const header = (
+    <Text color="cyan" bold>
+      Account
+    </Text>
+  );
+
+  if (!accountSummary) {
+    return (
+      <Box flexDirection="column" marginTop={1}>
+        {header}
+        <Text dimColor>Loading account summary...</Text>
+      </Box>
+    );
+  }
+
+  // Summary values are in the account base currency; follow the display currency
+  // when the portfolio's FX rate applies to them.
+  const convertible = accountSummary.currency !== null && accountSummary.currency === baseCurrencyCode;
+  const rate = convertible ? displayFxRate : 1;
+  const currencyCode = convertible ? displayCurrencyCode : accountSummary.currency;
+  const money = (value: number | null): string => (value === null ? "n/a" : formatMoney(value * rate, currencyCode));
+
+  const cushionLevel = classifyCushion(accountSummary.cushion, cushionThresholds);
+  const cushionLabel =
+    accountSummary.cushion === null ? "n/a" : `${formatNumber(accountSummary.cushion * 100, 1)}%`;
+
+  return (
+    <Box flexDirection="column" marginTop={1}>
+      <Box>
+        {header}
+        <Text dimColor> | {accountSummary.accountId}</Text>
+      </Box>
+      <Box>
+        <Metric label="Net Liq" value={money(accountSummary.netLiquidation)} />
+        <Separator />
+        <Metric label="Cash" value={money(accountSummary.totalCashValue)} />
+        <Separator />
+        <Metric label="Buying Power" value={money(accountSummary.buyingPower)} />
+        <Separator />
+        <Metric label="Gross Pos" value={money(accountSummary.grossPositionValue)} />
+        <Separator />
+        <Metric
+          label="Leverage"
+          value={accountSummary.leverage === null ? "n/a" : `${formatNumber(accountSummary.leverage)}x`}
+        />
+      </Box>
+      <Box>
+        <Metric label="Excess Liq" value={money(accountSummary.excessLiquidity)} />
+        <Separator />
+        <Metric label="Init Margin" value={money(accountSummary.initMarginReq)} />
+        <Separator />
+        <Metric label="Maint Margin" value={money(accountSummary.maintMarginReq)} />
+        <Separator />
+        <Metric label="SMA" value={money(accountSummary.sma)} />
+        <Separator />
+        <Metric
+          label="Cushion"
+          value={cushionLevel === "critical" ? `${cushionLabel} LOW` : cushionLabel}
+          color={cushionLevel ? CUSHION_COLORS[cushionLevel] : undefined}
+          bold={cushionLevel === "critical"}
+        />
+      </Box>
+    </Box>
+  );
+};
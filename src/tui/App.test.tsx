@@ -3,7 +3,8 @@ import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { render } from "ink-testing-library";
 import { Text } from "ink";
 import type { Key } from "ink";
-import type { Broker } from "../broker/types.js";
+import type { OrderPreview, Position } from "../broker/types.js";
+import { EMPTY_PREVIEW, createState } from "./testStore.js";
 import { App } from "./App.js";
 import { useStore } from "../state/store.js";
 import type { AppState } from "../state/store.js";
@@ -18,6 +19,11 @@ const inkMockControls = vi.hoisted<InkMockControls>(() => ({
   exitMock: vi.fn(),
 }));
 
+// Counts PortfolioView unmounts, which would drop its broker subscriptions. An
+// unmount from the previous test can land after beforeEach, so tests compare
+// against a count taken mid-test.
+const portfolioViewLifecycle = vi.hoisted(() => ({ unmounts: 0 }));
+
 vi.mock("ink", async () => {
   const actual = await vi.importActual("ink");
   return {
@@ -34,8 +40,99 @@ vi.mock("./PortfolioView.js", async () => {
 
   return {
     STALE_THRESHOLD_MS: 180_000,
-    PortfolioView: () =>
-      ReactModule.createElement(Text, null, "PortfolioViewMock"),
+    PortfolioView: () => {
+      ReactModule.useEffect(
+        () => () => {
+          portfolioViewLifecycle.unmounts++;
+        },
+        [],
+      );
+      return ReactModule.createElement(Text, null, "PortfolioViewMock");
+    },
+  };
+});
+
+vi.mock("./OrdersView.js", async () => {
+  const ReactModule = await import("react");
+
+  return {
+    OrdersView: ({ isFocused }: { isFocused?: boolean }) =>
+      ReactModule.createElement(Text, null, isFocused ? ">[4] Orders<" : "[4] Orders"),
+  };
+});
+
+vi.mock("./WatchlistView.js", async () => {
+  const ReactModule = await import("react");
+
+  return {
+    WatchlistView: ({
+      isFocused,
+      selectedSymbol,
+      inputValue,
+    }: {
+      isFocused?: boolean;
+      selectedSymbol?: string | null;
+      inputValue?: string | null;
+    }) =>
+      ReactModule.createElement(
+        Text,
+        null,
+        `${isFocused ? ">[5] Watchlist<" : "[5] Watchlist"} selected=${selectedSymbol ?? "-"}${inputValue !== null && inputValue !== undefined ? ` input=${inputValue}` : ""}`,
+      ),
+  };
+});
+
+vi.mock("./ExecutionsView.js", async () => {
+  const ReactModule = await import("react");
+
+  return {
+    ExecutionsView: ({ isFocused, filter, isEditingFilter }: { isFocused?: boolean; filter?: string; isEditingFilter?: boolean }) =>
+      ReactModule.createElement(
+        Text,
+        null,
+        `${isFocused ? ">[6] Fills<" : "[6] Fills"} filter=${filter || "-"}${isEditingFilter ? " editing" : ""}`,
+      ),
+  };
+});
+
+vi.mock("./MarketValueChart.js", async () => {
+  const ReactModule = await import("react");
+
+  return {
+    MarketValueChart: ({ window }: { window: string }) =>
+      ReactModule.createElement(Text, null, `MarketValueChartMock window=${window}`),
+  };
+});
+
+vi.mock("./EquityHistoryView.js", async () => {
+  const ReactModule = await import("react");
+
+  return {
+    EquityHistoryView: () => ReactModule.createElement(Text, null, "EquityHistoryViewMock"),
+  };
+});
+
+vi.mock("./MarketClockView.js", async () => {
+  const ReactModule = await import("react");
+
+  return {
+    MarketClockView: () => ReactModule.createElement(Text, null, "MarketClockViewMock"),
+  };
+});
+
+vi.mock("./AccountView.js", async () => {
+  const ReactModule = await import("react");
+
+  return {
+    AccountView: () => ReactModule.createElement(Text, null, "AccountViewMock"),
+  };
+});
+
+vi.mock("./HouseholdView.js", async () => {
+  const ReactModule = await import("react");
+
+  return {
+    HouseholdView: () => ReactModule.createElement(Text, null, "HouseholdViewMock"),
   };
 });
 
@@ -64,68 +161,29 @@ const createKey = (overrides: Partial<Key> = {}): Key => ({
 const EMPTY_KEY = createKey();
 const UP_KEY = createKey({ upArrow: true });
 const DOWN_KEY = createKey({ downArrow: true });
+const RETURN_KEY = createKey({ return: true });
+const ESCAPE_KEY = createKey({ escape: true });
 
-const createMockBroker = (): Broker => ({
-  connect: async () => undefined,
-  disconnect: async () => undefined,
-  isConnected: () => true,
-  onDisconnect: () => () => {},
-  onStatus: () => () => {},
-  getAccountSummary: async () => ({
-    accountId: "DU123456",
-    netLiquidation: 0,
-    totalCashValue: 0,
-    buyingPower: 0,
-    positions: [],
-  }),
-  getPositions: async () => [],
-  placeOrder: async (order) => ({ ...order, id: 1, status: "Submitted" }),
-  cancelOrder: async () => undefined,
-  getOpenOrders: async () => [],
-  subscribeQuote: () => () => {},
-  subscribePortfolio: () => () => {},
-});
+const AAPL_POSITION: Position = {
+  symbol: "AAPL",
+  quantity: 10,
+  avgCost: 140,
+  marketValue: 1500,
+  unrealizedPnL: 100,
+  dailyPnL: 0,
+  realizedPnL: 0,
+  marketPrice: 150,
+  currency: "USD",
+  conId: 265598,
+  marketValueBase: 1500,
+  unrealizedPnLBase: 100,
+  realizedPnLBase: 0,
+  fxRateToBase: 1,
+  isFxPending: false,
+};
 
-const createState = (overrides: Partial<AppState> = {}): AppState => ({
-  broker: createMockBroker(),
-  connectionStatus: "connected",
-  connectionHealth: "healthy",
-  error: null,
-  brokerStatus: null,
-  retryAttempt: 0,
-  nextRetryAt: null,
-  statusHistory: [],
-  statusHistoryIndex: 0,
-  positions: [],
-  positionsMarketValue: 0,
-  positionsUnrealizedPnL: 0,
-  totalEquity: 0,
-  cashBalance: 0,
-  cashBalancesByCurrency: {},
-  cashExchangeRatesByCurrency: {},
-  baseCurrencyCode: null,
-  initialLoadComplete: true,
-  lastPortfolioUpdateAt: Date.now(),
-  positionsPendingFxCount: 0,
-  positionsPendingFxByCurrency: {},
-  displayCurrencyPreference: "BASE",
-  displayCurrencyCode: "USD",
-  displayFxRate: 1,
-  availableDisplayCurrencies: ["USD"],
-  displayCurrencyWarning: null,
-  connect: async () => undefined,
-  disconnect: async () => undefined,
-  startAutoConnect: () => {},
-  stopAutoConnect: () => {},
-  selectOlderStatus: () => {},
-  selectNewerStatus: () => {},
-  setConnectionStatus: () => {},
-  setError: () => {},
-  subscribePortfolio: () => () => {},
-  setDisplayCurrencyPreference: () => {},
-  cycleDisplayCurrency: () => {},
-  ...overrides,
-});
+const createAppState = (overrides: Partial<AppState> = {}): AppState =>
+  createState({ displayCurrencyCode: "USD", availableDisplayCurrencies: ["USD"], ...overrides });
 
 describe("App", () => {
   let currentState: AppState;
@@ -134,7 +192,7 @@ describe("App", () => {
     vi.clearAllMocks();
     inkMockControls.inputHandler = null;
     inkMockControls.exitMock = vi.fn();
-    currentState = createState();
+    currentState = createAppState();
     mockUseStore.mockImplementation((selector) =>
       selector ? selector(currentState) : currentState,
     );
@@ -146,7 +204,7 @@ describe("App", () => {
 
   it("starts auto-connect on mount", async () => {
     const startAutoConnect = vi.fn();
-    currentState = createState({ startAutoConnect });
+    currentState = createAppState({ startAutoConnect });
 
     const app = render(<App />);
     await vi.waitFor(() => {
@@ -155,9 +213,58 @@ describe("App", () => {
     app.unmount();
   });
 
+  it("subscribes to the portfolio only while connected", async () => {
+    const unsubscribe = vi.fn();
+    const subscribePortfolio = vi.fn(() => unsubscribe);
+    currentState = createAppState({ connectionStatus: "disconnected", subscribePortfolio });
+
+    const app = render(<App />);
+    expect(subscribePortfolio).not.toHaveBeenCalled();
+
+    currentState = { ...currentState, connectionStatus: "connected" };
+    app.rerender(<App />);
+    await vi.waitFor(() => expect(subscribePortfolio).toHaveBeenCalledTimes(1));
+
+    currentState = { ...currentState, connectionStatus: "disconnected" };
+    app.rerender(<App />);
+    await vi.waitFor(() => expect(unsubscribe).toHaveBeenCalledTimes(1));
+
+    app.unmount();
+  });
+
+  it("re-subscribes on an account switch and streams the household instead in household mode", async () => {
+    const subscribePortfolio = vi.fn(() => () => {});
+    const subscribeHousehold = vi.fn(() => () => {});
+    currentState = createAppState({
+      accounts: ["U111", "U222"],
+      selectedAccountId: "U111",
+      subscribePortfolio,
+      subscribeHousehold,
+    });
+
+    const app = render(<App />);
+    await vi.waitFor(() => expect(subscribePortfolio).toHaveBeenCalledTimes(1));
+
+    currentState = { ...currentState, selectedAccountId: "U222" };
+    app.rerender(<App />);
+    await vi.waitFor(() => expect(subscribePortfolio).toHaveBeenCalledTimes(2));
+
+    currentState = { ...currentState, householdMode: true };
+    app.rerender(<App />);
+    await vi.waitFor(() => expect(subscribeHousehold).toHaveBeenCalledTimes(1));
+
+    currentState = { ...currentState, selectedAccountId: "U111" };
+    app.rerender(<App />);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(subscribeHousehold).toHaveBeenCalledTimes(1);
+    expect(subscribePortfolio).toHaveBeenCalledTimes(2);
+
+    app.unmount();
+  });
+
   it("does not reconnect on 'c' key", () => {
     const connect = vi.fn(async () => undefined);
-    currentState = createState({ connect });
+    currentState = createAppState({ connect });
     const app = render(<App />);
     app.stdin.write("c");
 
@@ -165,6 +272,21 @@ describe("App", () => {
     app.unmount();
   });
 
+  it("focuses the orders panel with the 4 key", async () => {
+    const app = render(<App />);
+
+    expect(app.lastFrame()).toContain("[4] Orders");
+    expect(app.lastFrame()).not.toContain(">[4] Orders<");
+
+    inkMockControls.inputHandler?.("4", EMPTY_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain(">[4] Orders<");
+      expect(app.lastFrame()).not.toContain(">[1] Status<");
+    });
+
+    app.unmount();
+  });
+
   it("changes focused panel using 1/2/3 keys", async () => {
     const app = render(<App />);
 
@@ -194,7 +316,7 @@ describe("App", () => {
   it("navigates status history with arrows only when status panel is focused", async () => {
     const selectOlderStatus = vi.fn();
     const selectNewerStatus = vi.fn();
-    currentState = createState({
+    currentState = createAppState({
       selectOlderStatus,
       selectNewerStatus,
       statusHistory: [
@@ -232,8 +354,316 @@ describe("App", () => {
     app.unmount();
   });
 
+  it("opens an order ticket for the focused position and transmits after review", async () => {
+    const placeOrder = vi.fn(async () => ({
+      id: 7,
+      symbol: "AAPL",
+      action: "BUY" as const,
+      quantity: 10,
+      orderType: "LMT" as const,
+      limitPrice: 150,
+      status: "Submitted" as const,
+      filled: 0,
+      remaining: 10,
+      avgFillPrice: 0,
+    }));
+    currentState = createAppState({ accounts: ["U111"], selectedAccountId: "U111", positions: [AAPL_POSITION], placeOrder });
+
+    const app = render(<App />);
+
+    inkMockControls.inputHandler?.("o", EMPTY_KEY);
+    expect(app.lastFrame()).not.toContain("Order Ticket");
+
+    inkMockControls.inputHandler?.("2", EMPTY_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).not.toContain(">[1] Status<");
+    });
+    inkMockControls.inputHandler?.("o", EMPTY_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain("Order Ticket");
+      expect(app.lastFrame()).toContain("conId 265598 · U111");
+    });
+
+    inkMockControls.inputHandler?.("1", EMPTY_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain("Quantity  1");
+    });
+    inkMockControls.inputHandler?.("0", EMPTY_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain("Quantity  10");
+    });
+
+    inkMockControls.inputHandler?.("", RETURN_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain("Review Order");
+      expect(app.lastFrame()).toContain("$1,500.00");
+    });
+    expect(placeOrder).not.toHaveBeenCalled();
+
+    inkMockControls.inputHandler?.("", RETURN_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain("Order #7 Submitted");
+    });
+    expect(placeOrder).toHaveBeenCalledWith({
+      symbol: "AAPL",
+      conId: 265598,
+      currency: "USD",
+      account: "U111",
+      action: "BUY",
+      quantity: 10,
+      orderType: "LMT",
+      limitPrice: 150,
+      stopPrice: undefined,
+    });
+
+    inkMockControls.inputHandler?.("", ESCAPE_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain("PortfolioViewMock");
+    });
+
+    app.unmount();
+  });
+
+  it("shows the what-if margin and commission preview on review", async () => {
+    const previewOrder = vi.fn(async (): Promise<OrderPreview> => ({
+      ...EMPTY_PREVIEW,
+      initMarginChange: 375,
+      initMarginAfter: 10_375,
+      maintMarginChange: 340,
+      equityWithLoanAfter: 98_500,
+      commission: 1,
+      commissionCurrency: "USD",
+    }));
+    currentState = createAppState({ positions: [AAPL_POSITION], previewOrder });
+
+    const app = render(<App />);
+    inkMockControls.inputHandler?.("2", EMPTY_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).not.toContain(">[1] Status<");
+    });
+    inkMockControls.inputHandler?.("o", EMPTY_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain("Order Ticket");
+    });
+    inkMockControls.inputHandler?.("5", EMPTY_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain("Quantity  5");
+    });
+    inkMockControls.inputHandler?.("", RETURN_KEY);
+
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain("Init margin");
+      expect(app.lastFrame()).toContain("+$375.00");
+      expect(app.lastFrame()).toContain("(after $10,375.00)");
+      expect(app.lastFrame()).toContain("$98,500.00");
+      expect(app.lastFrame()).toContain("Commission");
+      expect(app.lastFrame()).toContain("$1.00");
+    });
+    expect(previewOrder).toHaveBeenCalledWith(expect.objectContaining({ conId: 265598, quantity: 5 }));
+
+    app.unmount();
+  });
+
+  it("closes the ticket on escape without sending an order", async () => {
+    const placeOrder = vi.fn();
+    currentState = createAppState({ positions: [AAPL_POSITION], placeOrder });
+
+    const app = render(<App />);
+    inkMockControls.inputHandler?.("2", EMPTY_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).not.toContain(">[1] Status<");
+    });
+    const unmountsBefore = portfolioViewLifecycle.unmounts;
+    inkMockControls.inputHandler?.("o", EMPTY_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain("Order Ticket");
+    });
+    // The views stay mounted (and subscribed) behind the ticket.
+    expect(app.lastFrame()).not.toContain("PortfolioViewMock");
+
+    inkMockControls.inputHandler?.("q", EMPTY_KEY);
+    inkMockControls.inputHandler?.("", ESCAPE_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain("PortfolioViewMock");
+    });
+    expect(portfolioViewLifecycle.unmounts).toBe(unmountsBefore);
+    expect(placeOrder).not.toHaveBeenCalled();
+    expect(inkMockControls.exitMock).not.toHaveBeenCalled();
+
+    app.unmount();
+  });
+
+  it("adds and removes watchlist symbols from the keyboard", async () => {
+    const addWatchlistSymbol = vi.fn(() => true);
+    const removeWatchlistSymbol = vi.fn();
+    currentState = createAppState({ watchlist: ["AAPL", "SPY"], addWatchlistSymbol, removeWatchlistSymbol });
+
+    const app = render(<App />);
+    inkMockControls.inputHandler?.("5", EMPTY_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain(">[5] Watchlist< selected=AAPL");
+    });
+
+    inkMockControls.inputHandler?.("a", EMPTY_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain("input=");
+    });
+    for (const char of ["m", "s", "f", "t", "q"]) {
+      inkMockControls.inputHandler?.(char, EMPTY_KEY);
+      await vi.waitFor(() => {
+        expect(app.lastFrame()).toContain(`input=${"msftq".slice(0, "msftq".indexOf(char) + 1).toUpperCase()}`);
+      });
+    }
+    inkMockControls.inputHandler?.("", createKey({ backspace: true }));
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain("input=MSFT");
+    });
+    expect(inkMockControls.exitMock).not.toHaveBeenCalled();
+
+    inkMockControls.inputHandler?.("", RETURN_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).not.toContain("input=");
+    });
+    expect(addWatchlistSymbol).toHaveBeenCalledWith("MSFT");
+
+    inkMockControls.inputHandler?.("", DOWN_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain("selected=SPY");
+    });
+    inkMockControls.inputHandler?.("d", EMPTY_KEY);
+    expect(removeWatchlistSymbol).toHaveBeenCalledWith("SPY");
+
+    app.unmount();
+  });
+
+  it("filters fills by symbol from the keyboard", async () => {
+    const app = render(<App />);
+    inkMockControls.inputHandler?.("6", EMPTY_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain(">[6] Fills< filter=-");
+    });
+
+    inkMockControls.inputHandler?.("/", EMPTY_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain("editing");
+    });
+    inkMockControls.inputHandler?.("a", EMPTY_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain("filter=A editing");
+    });
+    inkMockControls.inputHandler?.("q", EMPTY_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain("filter=AQ editing");
+    });
+    expect(inkMockControls.exitMock).not.toHaveBeenCalled();
+
+    inkMockControls.inputHandler?.("", RETURN_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain(">[6] Fills< filter=AQ");
+      expect(app.lastFrame()).not.toContain("editing");
+    });
+
+    inkMockControls.inputHandler?.("", createKey({ escape: true }));
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain(">[6] Fills< filter=-");
+    });
+
+    app.unmount();
+  });
+
+  it("toggles the market value chart and cycles its window", async () => {
+    const app = render(<App />);
+    expect(app.lastFrame()).not.toContain("MarketValueChartMock");
+
+    inkMockControls.inputHandler?.("w", EMPTY_KEY);
+    inkMockControls.inputHandler?.("c", EMPTY_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain("MarketValueChartMock window=session");
+    });
+
+    inkMockControls.inputHandler?.("w", EMPTY_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain("MarketValueChartMock window=1h");
+    });
+    inkMockControls.inputHandler?.("w", EMPTY_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain("MarketValueChartMock window=15m");
+    });
+
+    inkMockControls.inputHandler?.("c", EMPTY_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).not.toContain("MarketValueChartMock");
+    });
+
+    app.unmount();
+  });
+
+  it("shows the active account and cycles accounts with A", async () => {
+    const cycleAccount = vi.fn();
+    currentState = createAppState({ accounts: ["U111", "U222"], selectedAccountId: "U222", cycleAccount });
+
+    const app = render(<App />);
+    expect(app.lastFrame()).toContain("account: U222 (2/2, [A] switch)");
+
+    inkMockControls.inputHandler?.("A", EMPTY_KEY);
+    expect(cycleAccount).toHaveBeenCalledWith("next");
+
+    app.unmount();
+  });
+
+  it("toggles household mode with H and shows the household in place of the portfolio", async () => {
+    const toggleHousehold = vi.fn();
+    currentState = createAppState({ accounts: ["U111", "U222"], selectedAccountId: "U111", toggleHousehold });
+
+    const app = render(<App />);
+    inkMockControls.inputHandler?.("H", EMPTY_KEY);
+    expect(toggleHousehold).toHaveBeenCalledTimes(1);
+    app.unmount();
+
+    currentState = createAppState({ accounts: ["U111", "U222"], selectedAccountId: "U111", householdMode: true });
+    const householdApp = render(<App />);
+    const frame = householdApp.lastFrame() ?? "";
+    expect(frame).toContain("household: 2 accounts");
+    expect(frame).toContain("HouseholdViewMock");
+    expect(frame).not.toContain("PortfolioViewMock");
+
+    householdApp.unmount();
+  });
+
+  it("toggles the equity history view with the h key", async () => {
+    const app = render(<App />);
+    expect(app.lastFrame()).not.toContain("EquityHistoryViewMock");
+
+    inkMockControls.inputHandler?.("h", EMPTY_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain("EquityHistoryViewMock");
+    });
+    inkMockControls.inputHandler?.("h", EMPTY_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).not.toContain("EquityHistoryViewMock");
+    });
+
+    app.unmount();
+  });
+
+  it("toggles the market clock with the m key", async () => {
+    const app = render(<App />);
+    expect(app.lastFrame()).not.toContain("MarketClockViewMock");
+
+    inkMockControls.inputHandler?.("m", EMPTY_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).toContain("MarketClockViewMock");
+    });
+    inkMockControls.inputHandler?.("m", EMPTY_KEY);
+    await vi.waitFor(() => {
+      expect(app.lastFrame()).not.toContain("MarketClockViewMock");
+    });
+
+    app.unmount();
+  });
+
   it("renders top line with transport, health, data age, and retry", () => {
-    currentState = createState({
+    currentState = createAppState({
       connectionStatus: "connected",
       connectionHealth: "degraded",
       lastPortfolioUpdateAt: Date.now() - 5_000,
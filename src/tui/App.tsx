@@ -1,11 +1,26 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { Box, Text, useApp, useInput } from "ink";
 import { useStore } from "../state/store.js";
 import type { StatusEvent } from "../state/store.js";
 import type { ConnectionHealth, ConnectionStatus } from "../state/types.js";
 import { PortfolioView, STALE_THRESHOLD_MS } from "./PortfolioView.js";
-
-type FocusPanel = "status" | "portfolio" | "cash";
+import { OrdersView } from "./OrdersView.js";
+import { OrderTicketView } from "./OrderTicketView.js";
+import { WatchlistView } from "./WatchlistView.js";
+import { MarketValueChart } from "./MarketValueChart.js";
+import { EquityHistoryView } from "./EquityHistoryView.js";
+import { HouseholdView } from "./HouseholdView.js";
+import { AccountView } from "./AccountView.js";
+import { ExecutionsView } from "./ExecutionsView.js";
+import { MarketClockView } from "./MarketClockView.js";
+import { nextEquityWindow } from "../state/equityHistory.js";
+import type { EquityWindow } from "../state/equityHistory.js";
+import { applyTicketInput, createOrderTicket, toOrderRequest } from "./orderTicket.js";
+import type { OrderTicketState } from "./orderTicket.js";
+
+type FocusPanel = "status" | "portfolio" | "cash" | "orders" | "watchlist" | "fills";
+
+const WATCHLIST_INPUT_RE = /^[A-Za-z0-9. -]$/;
 
 const formatAge = (ms: number): string => {
   const seconds = Math.floor(ms / 1000);
@@ -87,6 +102,13 @@ export const App: React.FC = () => {
   const startAutoConnect = useStore((s) => s.startAutoConnect);
   const stopAutoConnect = useStore((s) => s.stopAutoConnect);
   const cycleDisplayCurrency = useStore((s) => s.cycleDisplayCurrency);
+  const accounts = useStore((s) => s.accounts);
+  const selectedAccountId = useStore((s) => s.selectedAccountId);
+  const cycleAccount = useStore((s) => s.cycleAccount);
+  const householdMode = useStore((s) => s.householdMode);
+  const toggleHousehold = useStore((s) => s.toggleHousehold);
+  const subscribePortfolio = useStore((s) => s.subscribePortfolio);
+  const subscribeHousehold = useStore((s) => s.subscribeHousehold);
   const statusHistory = useStore((s) => s.statusHistory);
   const statusHistoryIndex = useStore((s) => s.statusHistoryIndex);
   const selectOlderStatus = useStore((s) => s.selectOlderStatus);
@@ -94,9 +116,34 @@ export const App: React.FC = () => {
   const retryAttempt = useStore((s) => s.retryAttempt);
   const nextRetryAt = useStore((s) => s.nextRetryAt);
   const lastPortfolioUpdateAt = useStore((s) => s.lastPortfolioUpdateAt);
+  const positions = useStore((s) => s.positions);
+  const placeOrder = useStore((s) => s.placeOrder);
+  const previewOrder = useStore((s) => s.previewOrder);
+  const watchlist = useStore((s) => s.watchlist);
+  const addWatchlistSymbol = useStore((s) => s.addWatchlistSymbol);
+  const removeWatchlistSymbol = useStore((s) => s.removeWatchlistSymbol);
 
   const [focusedPanel, setFocusedPanel] = useState<FocusPanel>("status");
   const [nowMs, setNowMs] = useState(Date.now());
+  const [selectedConId, setSelectedConId] = useState<number | null>(null);
+  const [ticket, setTicket] = useState<OrderTicketState | null>(null);
+  const [selectedWatchSymbol, setSelectedWatchSymbol] = useState<string | null>(null);
+  const [watchlistInput, setWatchlistInput] = useState<string | null>(null);
+  const [fillsFilter, setFillsFilter] = useState("");
+  const [isEditingFillsFilter, setIsEditingFillsFilter] = useState(false);
+  const [isChartVisible, setIsChartVisible] = useState(false);
+  const [chartWindow, setChartWindow] = useState<EquityWindow>("session");
+  const [isHistoryVisible, setIsHistoryVisible] = useState(false);
+  const [isClockVisible, setIsClockVisible] = useState(false);
+  // Ignore what-if answers for a review the user has already left.
+  const previewSeq = useRef(0);
+
+  // Keep the selection on a live row when positions come and go.
+  const selectedPosition = positions.find((p) => p.conId === selectedConId) ?? positions[0] ?? null;
+  const selectedWatchEntry =
+    selectedWatchSymbol !== null && watchlist.includes(selectedWatchSymbol)
+      ? selectedWatchSymbol
+      : watchlist[0] ?? null;
 
   useEffect(() => {
     startAutoConnect();
@@ -105,12 +152,98 @@ export const App: React.FC = () => {
     };
   }, [startAutoConnect, stopAutoConnect]);
 
+  // Subscribed here rather than by the panels, so the store (and the API fed
+  // from it) stays current whichever view is on screen. The household stream
+  // covers every account, so switching accounts does not restart it.
+  const streamedAccountId = householdMode ? null : selectedAccountId;
+  useEffect(() => {
+    if (connectionStatus !== "connected") return;
+    const unsubscribe = householdMode ? subscribeHousehold() : subscribePortfolio();
+    return () => unsubscribe();
+  }, [connectionStatus, householdMode, streamedAccountId, subscribeHousehold, subscribePortfolio]);
+
   useEffect(() => {
     const interval = setInterval(() => setNowMs(Date.now()), 1_000);
     return () => clearInterval(interval);
   }, []);
 
+  const requestPreview = (reviewing: OrderTicketState): void => {
+    const request = toOrderRequest(reviewing);
+    if (typeof request === "string") return;
+    const seq = ++previewSeq.current;
+    const applyPreview = (preview: OrderTicketState["preview"]) => {
+      setTicket((current) => (current && seq === previewSeq.current ? { ...current, preview } : current));
+    };
+    void previewOrder(request).then(
+      (value) => applyPreview({ status: "ready", value }),
+      (error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        applyPreview({ status: "error", message });
+      },
+    );
+  };
+
+  const submitTicket = (submitting: OrderTicketState): void => {
+    const request = toOrderRequest(submitting);
+    if (typeof request === "string") {
+      setTicket({ ...submitting, step: "edit", error: request });
+      return;
+    }
+    void placeOrder(request).then(
+      (order) => {
+        setTicket((current) => current && { ...current, step: "result", result: `Order #${order.id} ${order.status}` });
+      },
+      (error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        setTicket((current) => current && { ...current, step: "result", result: `Rejected: ${message}` });
+      },
+    );
+  };
+
   useInput((input, key) => {
+    if (ticket && !(key.ctrl && input === "c")) {
+      const next = applyTicketInput(ticket, input, key);
+      setTicket(next);
+      if (!next || next.step === "edit") {
+        previewSeq.current++;
+      } else if (ticket.step === "edit" && next.step === "review") {
+        requestPreview(next);
+      } else if (ticket.step === "review" && next.step === "submitting") {
+        submitTicket(next);
+      }
+      return;
+    }
+
+    if (watchlistInput !== null && !(key.ctrl && input === "c")) {
+      if (key.escape) {
+        setWatchlistInput(null);
+      } else if (key.return) {
+        if (addWatchlistSymbol(watchlistInput)) {
+          setSelectedWatchSymbol(watchlistInput.trim().toUpperCase());
+          setWatchlistInput(null);
+        }
+      } else if (key.backspace || key.delete) {
+        setWatchlistInput(watchlistInput.slice(0, -1));
+      } else if (WATCHLIST_INPUT_RE.test(input)) {
+        setWatchlistInput(watchlistInput + input.toUpperCase());
+      }
+      return;
+    }
+
+    if (isEditingFillsFilter && !(key.ctrl && input === "c")) {
+      if (key.escape) {
+        setFillsFilter("");
+        setIsEditingFillsFilter(false);
+      } else if (key.return) {
+        setIsEditingFillsFilter(false);
+      } else if (key.backspace || key.delete) {
+        setFillsFilter(fillsFilter.slice(0, -1));
+      } else if (WATCHLIST_INPUT_RE.test(input)) {
+        setFillsFilter(fillsFilter + input.toUpperCase());
+      }
+      return;
+    }
+
     if (input === "q" || (key.ctrl && input === "c")) {
       stopAutoConnect();
       void disconnect().finally(() => exit());
@@ -127,6 +260,16 @@ export const App: React.FC = () => {
       return;
     }
 
+    if (input === "A") {
+      cycleAccount("next");
+      return;
+    }
+
+    if (input === "H") {
+      toggleHousehold();
+      return;
+    }
+
     if (input === "1") {
       setFocusedPanel("status");
       return;
@@ -142,6 +285,41 @@ export const App: React.FC = () => {
       return;
     }
 
+    if (input === "4") {
+      setFocusedPanel("orders");
+      return;
+    }
+
+    if (input === "5") {
+      setFocusedPanel("watchlist");
+      return;
+    }
+
+    if (input === "6") {
+      setFocusedPanel("fills");
+      return;
+    }
+
+    if (input === "c") {
+      setIsChartVisible((visible) => !visible);
+      return;
+    }
+
+    if (input === "w" && isChartVisible) {
+      setChartWindow(nextEquityWindow);
+      return;
+    }
+
+    if (input === "h") {
+      setIsHistoryVisible((visible) => !visible);
+      return;
+    }
+
+    if (input === "m") {
+      setIsClockVisible((visible) => !visible);
+      return;
+    }
+
     if (focusedPanel === "status") {
       if (key.upArrow) {
         selectOlderStatus();
@@ -150,6 +328,48 @@ export const App: React.FC = () => {
       if (key.downArrow) {
         selectNewerStatus();
       }
+      return;
+    }
+
+    if (focusedPanel === "portfolio" && selectedPosition && !householdMode) {
+      if (key.upArrow || key.downArrow) {
+        const index = positions.indexOf(selectedPosition);
+        const nextIndex = key.upArrow ? Math.max(0, index - 1) : Math.min(positions.length - 1, index + 1);
+        setSelectedConId(positions[nextIndex].conId);
+        return;
+      }
+      if (input === "o") {
+        setTicket(createOrderTicket(selectedPosition, selectedAccountId));
+      }
+      return;
+    }
+
+    if (focusedPanel === "fills") {
+      if (input === "/") {
+        setIsEditingFillsFilter(true);
+        return;
+      }
+      if (key.escape) {
+        setFillsFilter("");
+      }
+      return;
+    }
+
+    if (focusedPanel === "watchlist") {
+      if (input === "a") {
+        setWatchlistInput("");
+        return;
+      }
+      if (!selectedWatchEntry) return;
+      if (key.upArrow || key.downArrow) {
+        const index = watchlist.indexOf(selectedWatchEntry);
+        const nextIndex = key.upArrow ? Math.max(0, index - 1) : Math.min(watchlist.length - 1, index + 1);
+        setSelectedWatchSymbol(watchlist[nextIndex]);
+        return;
+      }
+      if (input === "d" || key.delete || key.backspace) {
+        removeWatchlistSymbol(selectedWatchEntry);
+      }
     }
   });
 
@@ -169,6 +389,22 @@ export const App: React.FC = () => {
         <Text bold color="cyan">
           IBKR TUI
         </Text>
+        {householdMode ? (
+          <Text>
+            <Text dimColor> | </Text>
+            household: {accounts.length} accounts
+          </Text>
+        ) : selectedAccountId && (
+          <Text>
+            <Text dimColor> | </Text>
+            account: {selectedAccountId}
+            {accounts.length > 1 && (
+              <Text dimColor>
+                {" "}({accounts.indexOf(selectedAccountId) + 1}/{accounts.length}, [A] switch)
+              </Text>
+            )}
+          </Text>
+        )}
       </Box>
 
       <Box marginBottom={1}>
@@ -195,12 +431,53 @@ export const App: React.FC = () => {
         </Text>
       </Box>
 
-      <MainView focusedPanel={focusedPanel} />
+      {ticket && <OrderTicketView ticket={ticket} />}
+      {/* Hidden rather than unmounted under the ticket, so the views keep their
+          broker subscriptions while an order is priced. */}
+      <Box display={ticket ? "none" : "flex"}>
+        <MainView
+          focusedPanel={focusedPanel}
+          selectedConId={selectedPosition?.conId ?? null}
+          selectedWatchSymbol={selectedWatchEntry}
+          watchlistInput={watchlistInput}
+          fillsFilter={fillsFilter}
+          isEditingFillsFilter={isEditingFillsFilter}
+          chartWindow={isChartVisible ? chartWindow : null}
+          showHistory={isHistoryVisible}
+          showClock={isClockVisible}
+          householdMode={householdMode}
+          nowMs={nowMs}
+        />
+      </Box>
     </Box>
   );
 };
 
-const MainView: React.FC<{ focusedPanel: FocusPanel }> = ({ focusedPanel }) => {
+const MainView: React.FC<{
+  focusedPanel: FocusPanel;
+  selectedConId: number | null;
+  selectedWatchSymbol: string | null;
+  watchlistInput: string | null;
+  fillsFilter: string;
+  isEditingFillsFilter: boolean;
+  chartWindow: EquityWindow | null;
+  showHistory: boolean;
+  showClock: boolean;
+  householdMode: boolean;
+  nowMs: number;
+}> = ({
+  focusedPanel,
+  selectedConId,
+  selectedWatchSymbol,
+  watchlistInput,
+  fillsFilter,
+  isEditingFillsFilter,
+  chartWindow,
+  showHistory,
+  showClock,
+  householdMode,
+  nowMs,
+}) => {
   const connectionStatus = useStore((s) => s.connectionStatus);
   const error = useStore((s) => s.error);
   const initialLoadComplete = useStore((s) => s.initialLoadComplete);
@@ -220,9 +497,29 @@ const MainView: React.FC<{ focusedPanel: FocusPanel }> = ({ focusedPanel }) => {
   }
 
   return (
-    <PortfolioView
-      isPortfolioFocused={focusedPanel === "portfolio"}
-      isCashFocused={focusedPanel === "cash"}
-    />
+    <Box flexDirection="column">
+      {householdMode ? (
+        <HouseholdView />
+      ) : (
+        <>
+          <PortfolioView
+            isPortfolioFocused={focusedPanel === "portfolio"}
+            isCashFocused={focusedPanel === "cash"}
+            selectedConId={selectedConId}
+          />
+          <AccountView />
+          {chartWindow !== null && <MarketValueChart window={chartWindow} nowMs={nowMs} />}
+          {showHistory && <EquityHistoryView nowMs={nowMs} />}
+          {showClock && <MarketClockView nowMs={nowMs} />}
+        </>
+      )}
+      <OrdersView isFocused={focusedPanel === "orders"} />
+      <WatchlistView
+        isFocused={focusedPanel === "watchlist"}
+        selectedSymbol={selectedWatchSymbol}
+        inputValue={watchlistInput}
+      />
+      <ExecutionsView isFocused={focusedPanel === "fills"} filter={fillsFilter} isEditingFilter={isEditingFillsFilter} />
+    </Box>
   );
 };
@@ -0,0 +1,68 @@
+import React from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { render } from "ink-testing-library";
+import { EquityHistoryView } from "./EquityHistoryView.js";
+import { useStore } from "../state/store.js";
+import type { AppState } from "../state/store.js";
+import type { EquitySample } from "../state/equityHistory.js";
+import { createState } from "./testStore.js";
+
+vi.mock("../state/store.js", () => ({
+  useStore: vi.fn(),
+}));
+
+const mockUseStore = vi.mocked(useStore);
+
+describe("EquityHistoryView", () => {
+  const mockState = (state: AppState): void => {
+    mockUseStore.mockImplementation((selector) => (selector ? selector(state) : state));
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const sample = (at: number, totalEquity: number): EquitySample => ({
+    at,
+    totalEquity,
+    positionsMarketValue: totalEquity - 10_000,
+    cashBalance: 10_000,
+  });
+
+  it("shows an empty state before any history is saved", () => {
+    mockState({ ...createState(), accountId: "DU123456", baseCurrencyCode: "USD" });
+
+    const frame = render(<EquityHistoryView nowMs={Date.now()} />).lastFrame() ?? "";
+
+    expect(frame).toContain("Equity History");
+    expect(frame).toContain("DU123456 USD");
+    expect(frame).toContain("No saved equity history yet");
+  });
+
+  it("renders change since prior close, a week ago and month start in display currency", () => {
+    const at = (day: number, hour: number) => new Date(2026, 2, day, hour).getTime();
+    mockState({
+      ...createState(),
+      accountId: "DU123456",
+      baseCurrencyCode: "USD",
+      displayCurrencyCode: "USD",
+      totalEquity: 110_000,
+      persistedEquityHistory: [sample(at(9, 16), 100_000), sample(at(10, 16), 104_000), sample(at(11, 10), 108_000)],
+    });
+
+    const frame = render(<EquityHistoryView nowMs={at(11, 12)} />).lastFrame() ?? "";
+
+    expect(frame).toContain("Prior close");
+    expect(frame).toContain("$104,000.00");
+    expect(frame).toContain("+$6,000.00");
+    expect(frame).toContain("+5.77%");
+    expect(frame).toMatch(/1 week ago\s+n\/a/);
+    expect(frame).toMatch(/Month start\s+n\/a/);
+    expect(frame).toContain("Today: open $108,000.00  high $110,000.00  low $108,000.00");
+    expect(frame).toContain("03-09 $100,000.00 | 03-10 $104,000.00");
+  });
+});
@@ -0,0 +1,131 @@
+import React from "react";
+import { Box, Text } from "ink";
+import { useStore } from "../state/store.js";
+import { summarizeEquityHistory } from "../state/equityHistory.js";
+import type { EquityChange } from "../state/equityHistory.js";
+import { formatMoney, formatNumber, padLeft, padRight } from "./format.js";
+
+const COLUMNS = {
+  label: 14,
+  baseline: 16,
+  change: 16,
+  changePct: 10,
+};
+
+const DAILY_CLOSES_SHOWN = 4;
+
+const formatDay = (ms: number): string => {
+  const date = new Date(ms);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${month}-${day}`;
+};
+
+const formatSignedMoney = (value: number, currencyCode: string | null): string => {
+  const sign = value > 0 ? "+" : value < 0 ? "-" : "";
+  return `${sign}${formatMoney(Math.abs(value), currencyCode)}`;
+};
+
+const getChangeColor = (value: number): string | undefined => {
+  if (value === 0) return undefined;
+  return value > 0 ? "green" : "red";
+};
+
+const ChangeRow: React.FC<{
+  label: string;
+  change: EquityChange | null;
+  displayFxRate: number;
+  currencyCode: string | null;
+}> = ({ label, change, displayFxRate, currencyCode }) => {
+  if (!change) {
+    return (
+      <Box>
+        <Text>{padRight(label, COLUMNS.label)}</Text>
+        <Text dimColor>{padLeft("n/a", COLUMNS.baseline)}</Text>
+      </Box>
+    );
+  }
+
+  const pct = change.changePct === null ? "" : `${change.changePct > 0 ? "+" : ""}${formatNumber(change.changePct)}%`;
+  return (
+    <Box>
+      <Text>{padRight(label, COLUMNS.label)}</Text>
+      <Text>{padLeft(formatMoney(change.baseline.totalEquity * displayFxRate, currencyCode), COLUMNS.baseline)}</Text>
+      <Text color={getChangeColor(change.change)}>
+        {padLeft(formatSignedMoney(change.change * displayFxRate, currencyCode), COLUMNS.change)}
+        {padLeft(pct, COLUMNS.changePct)}
+      </Text>
+    </Box>
+  );
+};
+
+export const EquityHistoryView: React.FC<{ nowMs: number }> = ({ nowMs }) => {
+  const persistedEquityHistory = useStore((s) => s.persistedEquityHistory);
+  const accountId = useStore((s) => s.accountId);
+  const baseCurrencyCode = useStore((s) => s.baseCurrencyCode);
+  const initialLoadComplete = useStore((s) => s.initialLoadComplete);
+  const totalEquity = useStore((s) => s.totalEquity);
+  const displayFxRate = useStore((s) => s.displayFxRate);
+  const displayCurrencyCode = useStore((s) => s.displayCurrencyCode);
+
+  const latest = persistedEquityHistory[persistedEquityHistory.length - 1];
+  const currentEquity = initialLoadComplete ? totalEquity : latest?.totalEquity ?? null;
+
+  const header = (
+    <Box marginBottom={1}>
+      <Text color="cyan" bold>
+        Equity History
+      </Text>
+      <Text dimColor>
+        {" "}| {accountId ?? "-"} {baseCurrencyCode ?? ""} ([h] hide)
+      </Text>
+    </Box>
+  );
+
+  if (currentEquity === null || persistedEquityHistory.length === 0) {
+    return (
+      <Box flexDirection="column" marginTop={1}>
+        {header}
+        <Text dimColor>No saved equity history yet</Text>
+      </Box>
+    );
+  }
+
+  const summary = summarizeEquityHistory(persistedEquityHistory, currentEquity, nowMs);
+  const intradayValues = [...summary.intraday.map((sample) => sample.totalEquity), currentEquity];
+  const closes = summary.dailyCloses.slice(-DAILY_CLOSES_SHOWN);
+
+  return (
+    <Box flexDirection="column" marginTop={1}>
+      {header}
+      <Box>
+        <Text color="cyan" bold>
+          {padRight("Since", COLUMNS.label)}
+          {padLeft("Baseline", COLUMNS.baseline)}
+          {padLeft("Change", COLUMNS.change)}
+          {padLeft("Chg%", COLUMNS.changePct)}
+        </Text>
+      </Box>
+      <ChangeRow label="Prior close" change={summary.sincePriorClose} displayFxRate={displayFxRate} currencyCode={displayCurrencyCode} />
+      <ChangeRow label="1 week ago" change={summary.sinceWeekAgo} displayFxRate={displayFxRate} currencyCode={displayCurrencyCode} />
+      <ChangeRow label="Month start" change={summary.sinceMonthStart} displayFxRate={displayFxRate} currencyCode={displayCurrencyCode} />
+      <Box marginTop={1}>
+        <Text>
+          Today: open {formatMoney(intradayValues[0] * displayFxRate, displayCurrencyCode)}
+          {"  "}high {formatMoney(Math.max(...intradayValues) * displayFxRate, displayCurrencyCode)}
+          {"  "}low {formatMoney(Math.min(...intradayValues) * displayFxRate, displayCurrencyCode)}
+        </Text>
+      </Box>
+      {closes.length > 0 && (
+        <Box>
+          <Text dimColor>Closes: </Text>
+          <Text>
+            {closes
+              .map((sample) => `${formatDay(sample.at)} ${formatMoney(sample.totalEquity * displayFxRate, displayCurrencyCode)}`)
+              .join(" | ")}
+          </Text>
+        </Box>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,103 @@
+import React from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { render } from "ink-testing-library";
+import { ExecutionsView, filterExecutions } from "./ExecutionsView.js";
+import { useStore } from "../state/store.js";
+import type { AppState } from "../state/store.js";
+import type { Execution } from "../broker/types.js";
+import { createState } from "./testStore.js";
+
+vi.mock("../state/store.js", () => ({
+  useStore: vi.fn(),
+}));
+
+const mockUseStore = vi.mocked(useStore);
+
+describe("ExecutionsView", () => {
+  const mockSubscribe = vi.fn(() => () => {});
+
+  const createBaseState = (): AppState => createState({ subscribeExecutions: mockSubscribe });
+
+  const mockState = (state: AppState): void => {
+    mockUseStore.mockImplementation((selector) => (selector ? selector(state) : state));
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const createExecution = (overrides: Partial<Execution>): Execution => ({
+    execId: "0001.01",
+    orderId: 7,
+    accountId: "U111",
+    conId: 265598,
+    symbol: "AAPL",
+    secType: "STK",
+    currency: "USD",
+    exchange: "ISLAND",
+    side: "BUY",
+    quantity: 10,
+    price: 150,
+    time: new Date(2026, 1, 10, 9, 31, 5).getTime(),
+    commission: 1,
+    commissionCurrency: "USD",
+    realizedPnL: null,
+    baseCurrencyCode: "USD",
+    fxRateToBase: 1,
+    ...overrides,
+  });
+
+  const executions: Execution[] = [
+    createExecution({}),
+    createExecution({
+      execId: "0002.01",
+      symbol: "MSFT",
+      side: "SELL",
+      quantity: 5,
+      price: 410.25,
+      time: new Date(2026, 1, 10, 10, 2, 0).getTime(),
+      commission: 1.05,
+      realizedPnL: -12.5,
+    }),
+    createExecution({ execId: "0003.01", accountId: "U222", symbol: "AMZN" }),
+  ];
+
+  it("subscribes while connected and shows an empty state", async () => {
+    mockState(createBaseState());
+
+    const frame = render(<ExecutionsView />).lastFrame() ?? "";
+
+    await vi.waitFor(() => expect(mockSubscribe).toHaveBeenCalledTimes(1));
+    expect(frame).toContain("[6] Fills");
+    expect(frame).toContain("No fills today");
+  });
+
+  it("lists the selected account's fills newest first with commission and realized P&L", () => {
+    mockState({ ...createBaseState(), executions, accounts: ["U111", "U222"], selectedAccountId: "U111" });
+
+    const frame = render(<ExecutionsView isFocused />).lastFrame() ?? "";
+
+    expect(frame).toContain(">[6] Fills<");
+    expect(frame).toMatch(/10:02:00\s+MSFT\s+SELL\s+5\s+410\.25\s+1\.05 USD\s+-12\.50/);
+    expect(frame).toMatch(/09:31:05\s+AAPL\s+BUY\s+10\s+150\.00\s+1\.00 USD\s+-/);
+    expect(frame.indexOf("MSFT")).toBeLessThan(frame.indexOf("AAPL"));
+    expect(frame).not.toContain("AMZN");
+  });
+
+  it("filters by symbol prefix and shows the prompt while editing", () => {
+    mockState({ ...createBaseState(), executions });
+
+    const filtered = render(<ExecutionsView filter="ms" />).lastFrame() ?? "";
+    expect(filtered).toContain("filter: MS (1/3)");
+    expect(filtered).not.toContain("AAPL");
+
+    const editing = render(<ExecutionsView filter="ZZ" isEditingFilter />).lastFrame() ?? "";
+    expect(editing).toContain("No fills match the filter");
+    expect(editing).toContain("Filter symbol: ZZ");
+    expect(filterExecutions(executions, " ")).toHaveLength(3);
+  });
+});
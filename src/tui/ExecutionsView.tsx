@@ -0,0 +1,130 @@
+import React, { useEffect } from "react";
+import { Box, Text } from "ink";
+import { useStore } from "../state/store.js";
+import type { Execution } from "../broker/types.js";
+import { formatNumber, padLeft, padRight } from "./format.js";
+
+const COLUMNS = {
+  time: 10,
+  ticker: 8,
+  side: 6,
+  qty: 10,
+  price: 12,
+  commission: 14,
+  realized: 13,
+};
+
+const formatTime = (epochMs: number): string => {
+  const date = new Date(epochMs);
+  return [date.getHours(), date.getMinutes(), date.getSeconds()]
+    .map((part) => part.toString().padStart(2, "0"))
+    .join(":");
+};
+
+const formatCommission = (execution: Execution): string => {
+  if (execution.commission === null) return "-";
+  const amount = formatNumber(execution.commission);
+  return execution.commissionCurrency ? `${amount} ${execution.commissionCurrency}` : amount;
+};
+
+const formatRealized = (value: number | null): string => {
+  if (value === null) return "-";
+  return `${value > 0 ? "+" : ""}${formatNumber(value)}`;
+};
+
+const getRealizedColor = (value: number | null): string | undefined => {
+  if (value === null || value === 0) return undefined;
+  return value > 0 ? "green" : "red";
+};
+
+// Case-insensitive symbol prefix match; an empty filter keeps every fill.
+export const filterExecutions = (executions: Execution[], filter: string): Execution[] => {
+  const normalized = filter.trim().toUpperCase();
+  if (!normalized) return executions;
+  return executions.filter((execution) => execution.symbol.toUpperCase().startsWith(normalized));
+};
+
+const HeaderRow: React.FC = () => (
+  <Box>
+    <Text color="cyan" bold>
+      {padRight("Time", COLUMNS.time)}
+      {padRight("Ticker", COLUMNS.ticker)}
+      {padRight("Side", COLUMNS.side)}
+      {padLeft("Qty", COLUMNS.qty)}
+      {padLeft("Price", COLUMNS.price)}
+      {padLeft("Commission", COLUMNS.commission)}
+      {padLeft("Realized", COLUMNS.realized)}
+    </Text>
+  </Box>
+);
+
+const ExecutionRow: React.FC<{ execution: Execution }> = ({ execution }) => (
+  <Box>
+    <Text>{padRight(formatTime(execution.time), COLUMNS.time)}</Text>
+    <Text>{padRight(execution.symbol, COLUMNS.ticker)}</Text>
+    <Text color={execution.side === "BUY" ? "green" : "red"}>{padRight(execution.side, COLUMNS.side)}</Text>
+    <Text>{padLeft(formatNumber(execution.quantity, 0), COLUMNS.qty)}</Text>
+    <Text>{padLeft(formatNumber(execution.price), COLUMNS.price)}</Text>
+    <Text>{padLeft(formatCommission(execution), COLUMNS.commission)}</Text>
+    <Text color={getRealizedColor(execution.realizedPnL)}>
+      {padLeft(formatRealized(execution.realizedPnL), COLUMNS.realized)}
+    </Text>
+  </Box>
+);
+
+export const ExecutionsView: React.FC<{
+  isFocused?: boolean;
+  filter?: string;
+  isEditingFilter?: boolean;
+}> = ({ isFocused = false, filter = "", isEditingFilter = false }) => {
+  const connectionStatus = useStore((s) => s.connectionStatus);
+  const executions = useStore((s) => s.executions);
+  const selectedAccountId = useStore((s) => s.selectedAccountId);
+  const householdMode = useStore((s) => s.householdMode);
+  const subscribeExecutions = useStore((s) => s.subscribeExecutions);
+
+  useEffect(() => {
+    if (connectionStatus !== "connected") return;
+    const unsubscribe = subscribeExecutions();
+    return () => unsubscribe();
+  }, [connectionStatus, subscribeExecutions]);
+
+  // Fills arrive for every account; outside household mode follow the selected one.
+  const accountFills =
+    householdMode || !selectedAccountId
+      ? executions
+      : executions.filter((execution) => execution.accountId === selectedAccountId);
+  // Newest first, like the orders blotter.
+  const rows = filterExecutions(accountFills, filter).slice().reverse();
+
+  return (
+    <Box flexDirection="column" marginTop={1}>
+      <Box marginBottom={1}>
+        <Text color="cyan" bold>
+          {isFocused ? ">[6] Fills<" : "[6] Fills"}
+        </Text>
+        {filter.trim() !== "" && !isEditingFilter && (
+          <Text dimColor>
+            {" "}| filter: {filter.trim().toUpperCase()} ({rows.length}/{accountFills.length})
+          </Text>
+        )}
+      </Box>
+      {rows.length === 0 ? (
+        <Text dimColor>{accountFills.length === 0 ? "No fills today" : "No fills match the filter"}</Text>
+      ) : (
+        <>
+          <HeaderRow />
+          {rows.map((execution) => (
+            <ExecutionRow key={execution.execId} execution={execution} />
+          ))}
+        </>
+      )}
+      {isEditingFilter && (
+        <Box>
+          <Text color="cyan">Filter symbol: </Text>
+          <Text inverse>{filter || " "}</Text>
+        </Box>
+      )}
+    </Box>
+  );
+};
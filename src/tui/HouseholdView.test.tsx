@@ -0,0 +1,108 @@
+import React from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { render } from "ink-testing-library";
+import { HouseholdView } from "./HouseholdView.js";
+import { useStore } from "../state/store.js";
+import type { AppState } from "../state/store.js";
+import type { HouseholdUpdate } from "../broker/types.js";
+import { createState } from "./testStore.js";
+
+vi.mock("../state/store.js", () => ({
+  useStore: vi.fn(),
+}));
+
+const mockUseStore = vi.mocked(useStore);
+
+describe("HouseholdView", () => {
+  const createBaseState = (): AppState => createState();
+
+  const mockState = (state: AppState): void => {
+    mockUseStore.mockImplementation((selector) => (selector ? selector(state) : state));
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const household: HouseholdUpdate = {
+    baseCurrencyCode: "USD",
+    accounts: [
+      {
+        accountId: "U111",
+        baseCurrencyCode: "USD",
+        fxRateToHouseholdBase: 1,
+        positionsMarketValue: 15_000,
+        cashBalance: 5_000,
+        totalEquity: 20_000,
+        initialLoadComplete: true,
+        lastPortfolioUpdateAt: 1_000,
+      },
+      {
+        accountId: "U222",
+        baseCurrencyCode: "CHF",
+        fxRateToHouseholdBase: null,
+        positionsMarketValue: null,
+        cashBalance: null,
+        totalEquity: null,
+        initialLoadComplete: true,
+        lastPortfolioUpdateAt: 1_000,
+      },
+    ],
+    positions: [
+      {
+        conId: 265598,
+        symbol: "AAPL",
+        currency: "USD",
+        quantity: 150,
+        avgCost: 136.67,
+        marketPrice: 100,
+        marketValue: 15_000,
+        unrealizedPnL: 1_000,
+        marketValueBase: 15_000,
+        unrealizedPnLBase: 1_000,
+        holdings: [
+          { accountId: "U111", quantity: 100, avgCost: 140, marketValue: 10_000, marketValueBase: 10_000 },
+          { accountId: "U222", quantity: 50, avgCost: 130, marketValue: 5_000, marketValueBase: null },
+        ],
+      },
+    ],
+    positionsMarketValue: 15_000,
+    positionsUnrealizedPnL: 1_000,
+    cashBalance: 5_000,
+    totalEquity: 20_000,
+    pendingFxAccountIds: ["U222"],
+    accountPortfolios: [],
+    initialLoadComplete: true,
+    lastPortfolioUpdateAt: 1_000,
+  };
+
+  it("shows a loading state until the first household update", () => {
+    mockState({ ...createBaseState(), accounts: ["U111", "U222"], householdMode: true });
+
+    const frame = render(<HouseholdView />).lastFrame() ?? "";
+
+    expect(frame).toContain("Household");
+    expect(frame).toContain("2 accounts");
+    expect(frame).toContain("Loading accounts...");
+  });
+
+  it("renders totals, the per-account breakdown and merged positions", () => {
+    mockState({ ...createBaseState(), accounts: ["U111", "U222"], householdMode: true, household });
+
+    const { stdout, lastFrame, rerender } = render(<HouseholdView />);
+    Object.defineProperty(stdout, "columns", { value: 140 });
+    rerender(<HouseholdView />);
+    const frame = lastFrame() ?? "";
+
+    expect(frame).toContain("Equity $20,000.00");
+    expect(frame).toContain("Excluded until FX is known: U222");
+    expect(frame).toMatch(/U111\s+USD\s+\$15,000\.00\s+\$5,000\.00\s+\$20,000\.00\s+100\.0%/);
+    expect(frame).toMatch(/U222\s+CHF\s+FX pending/);
+    expect(frame).toMatch(/AAPL\s+USD\s+150/);
+    expect(frame).toContain("U111 100, U222 50");
+  });
+});
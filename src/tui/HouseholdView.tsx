@@ -0,0 +1,166 @@
+import React from "react";
+import { Box, Text } from "ink";
+import { useStore } from "../state/store.js";
+import type { HouseholdAccount, HouseholdPosition } from "../broker/types.js";
+import { formatMoney, formatNumber, padLeft, padRight } from "./format.js";
+
+const ACCOUNT_COLUMNS = {
+  account: 14,
+  base: 6,
+  positions: 16,
+  cash: 16,
+  equity: 16,
+  share: 8,
+};
+
+const POSITION_COLUMNS = {
+  ticker: 8,
+  ccy: 5,
+  quantity: 9,
+  avgCost: 11,
+  unrealizedPnL: 14,
+  marketValue: 16,
+};
+
+const formatOptionalMoney = (value: number | null, currencyCode: string | null): string =>
+  value === null ? "FX pending" : formatMoney(value, currencyCode);
+
+const formatQuantity = (value: number): string =>
+  Number.isInteger(value) ? String(value) : formatNumber(value, 4);
+
+const getPnLColor = (value: number | null): string | undefined => {
+  if (value === null || value === 0) return undefined;
+  return value > 0 ? "green" : "red";
+};
+
+const AccountRow: React.FC<{ account: HouseholdAccount; totalEquity: number; currencyCode: string | null }> = ({
+  account,
+  totalEquity,
+  currencyCode,
+}) => {
+  const share =
+    account.totalEquity !== null && totalEquity !== 0 ? `${formatNumber((account.totalEquity / totalEquity) * 100, 1)}%` : "";
+  return (
+    <Box>
+      <Text>
+        {padRight(account.accountId, ACCOUNT_COLUMNS.account)}
+        {padRight(account.baseCurrencyCode ?? "-", ACCOUNT_COLUMNS.base)}
+      </Text>
+      {account.initialLoadComplete ? (
+        <Text>
+          {padLeft(formatOptionalMoney(account.positionsMarketValue, currencyCode), ACCOUNT_COLUMNS.positions)}
+          {padLeft(formatOptionalMoney(account.cashBalance, currencyCode), ACCOUNT_COLUMNS.cash)}
+          {padLeft(formatOptionalMoney(account.totalEquity, currencyCode), ACCOUNT_COLUMNS.equity)}
+          {padLeft(share, ACCOUNT_COLUMNS.share)}
+        </Text>
+      ) : (
+        <Text dimColor>{padLeft("loading", ACCOUNT_COLUMNS.positions)}</Text>
+      )}
+    </Box>
+  );
+};
+
+const PositionRow: React.FC<{ position: HouseholdPosition; currencyCode: string | null }> = ({ position, currencyCode }) => (
+  <Box>
+    <Text>
+      {padRight(position.symbol, POSITION_COLUMNS.ticker)}
+      {padRight(position.currency, POSITION_COLUMNS.ccy)}
+      {padLeft(formatQuantity(position.quantity), POSITION_COLUMNS.quantity)}
+      {padLeft(formatNumber(position.avgCost), POSITION_COLUMNS.avgCost)}
+    </Text>
+    <Text color={getPnLColor(position.unrealizedPnLBase)}>
+      {padLeft(formatOptionalMoney(position.unrealizedPnLBase, currencyCode), POSITION_COLUMNS.unrealizedPnL)}
+    </Text>
+    <Text>{padLeft(formatOptionalMoney(position.marketValueBase, currencyCode), POSITION_COLUMNS.marketValue)}</Text>
+    <Text dimColor>
+      {"  "}
+      {position.holdings.map((holding) => `${holding.accountId} ${formatQuantity(holding.quantity)}`).join(", ")}
+    </Text>
+  </Box>
+);
+
+export const HouseholdView: React.FC = () => {
+  const accounts = useStore((s) => s.accounts);
+  const household = useStore((s) => s.household);
+
+  const header = (
+    <Box marginBottom={1}>
+      <Text color="cyan" bold>
+        Household
+      </Text>
+      <Text dimColor>
+        {" "}| {accounts.length} accounts | base {household?.baseCurrencyCode ?? "-"} ([H] single account)
+      </Text>
+    </Box>
+  );
+
+  if (!household || household.accounts.length === 0) {
+    return (
+      <Box flexDirection="column">
+        {header}
+        <Text dimColor>Loading accounts...</Text>
+      </Box>
+    );
+  }
+
+  const currencyCode = household.baseCurrencyCode;
+  const loadedCount = household.accounts.filter((account) => account.initialLoadComplete).length;
+
+  return (
+    <Box flexDirection="column">
+      {header}
+      <Box>
+        <Text>Equity {formatMoney(household.totalEquity, currencyCode)}</Text>
+        <Text dimColor> | </Text>
+        <Text>Positions {formatMoney(household.positionsMarketValue, currencyCode)}</Text>
+        <Text dimColor> | </Text>
+        <Text>Cash {formatMoney(household.cashBalance, currencyCode)}</Text>
+        <Text dimColor> | </Text>
+        <Text color={getPnLColor(household.positionsUnrealizedPnL)}>
+          Unrealized {formatMoney(household.positionsUnrealizedPnL, currencyCode)}
+        </Text>
+        {!household.initialLoadComplete && (
+          <Text color="yellow">
+            {" "}| loaded {loadedCount}/{accounts.length}
+          </Text>
+        )}
+      </Box>
+      {household.pendingFxAccountIds.length > 0 && (
+        <Text color="yellow">Excluded until FX is known: {household.pendingFxAccountIds.join(", ")}</Text>
+      )}
+
+      <Box marginTop={1}>
+        <Text color="cyan" bold>
+          {padRight("Account", ACCOUNT_COLUMNS.account)}
+          {padRight("Base", ACCOUNT_COLUMNS.base)}
+          {padLeft("Positions", ACCOUNT_COLUMNS.positions)}
+          {padLeft("Cash", ACCOUNT_COLUMNS.cash)}
+          {padLeft("Equity", ACCOUNT_COLUMNS.equity)}
+          {padLeft("Share", ACCOUNT_COLUMNS.share)}
+        </Text>
+      </Box>
+      {household.accounts.map((account) => (
+        <AccountRow key={account.accountId} account={account} totalEquity={household.totalEquity} currencyCode={currencyCode} />
+      ))}
+
+      <Box marginTop={1}>
+        <Text color="cyan" bold>
+          {padRight("Ticker", POSITION_COLUMNS.ticker)}
+          {padRight("CCY", POSITION_COLUMNS.ccy)}
+          {padLeft("Qty", POSITION_COLUMNS.quantity)}
+          {padLeft("Avg Cost", POSITION_COLUMNS.avgCost)}
+          {padLeft("Unrealized", POSITION_COLUMNS.unrealizedPnL)}
+          {padLeft("Mkt Value", POSITION_COLUMNS.marketValue)}
+          {"  "}Accounts
+        </Text>
+      </Box>
+      {household.positions.length === 0 ? (
+        <Text dimColor>No positions</Text>
+      ) : (
+        household.positions.map((position) => (
+          <PositionRow key={position.conId} position={position} currencyCode={currencyCode} />
+        ))
+      )}
+    </Box>
+  );
+};
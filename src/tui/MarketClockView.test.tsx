@@ -0,0 +1,106 @@
+import React from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { render } from "ink-testing-library";
+import { MarketClockView } from "./MarketClockView.js";
+import { useStore } from "../state/store.js";
+import type { AppState } from "../state/store.js";
+import type { Position, PositionMarketHours } from "../broker/types.js";
+import { createState } from "./testStore.js";
+
+vi.mock("../state/store.js", () => ({
+  useStore: vi.fn(),
+}));
+
+const mockUseStore = vi.mocked(useStore);
+
+describe("MarketClockView", () => {
+  const mockState = (state: AppState): void => {
+    mockUseStore.mockImplementation((selector) => (selector ? selector(state) : state));
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const NASDAQ_HOURS: PositionMarketHours = {
+    timeZoneId: "US/Eastern",
+    exchange: "NASDAQ",
+    liquidHours: "20260210:0930-20260210:1600",
+    tradingHours: "20260210:0400-20260210:2000",
+  };
+
+  const TSE_HOURS: PositionMarketHours = {
+    timeZoneId: "Asia/Tokyo",
+    exchange: "TSEJ",
+    liquidHours: "20260210:0900-20260210:1500;20260211:0900-20260211:1500",
+    tradingHours: null,
+  };
+
+  const position = (symbol: string, conId: number, marketValue: number, marketHours?: PositionMarketHours): Position => ({
+    symbol,
+    quantity: 10,
+    avgCost: 1,
+    marketValue,
+    unrealizedPnL: 0,
+    dailyPnL: 0,
+    realizedPnL: 0,
+    marketPrice: 1,
+    currency: "USD",
+    conId,
+    marketHours,
+    marketValueBase: marketValue,
+    unrealizedPnLBase: 0,
+    realizedPnLBase: 0,
+    fxRateToBase: 1,
+    isFxPending: false,
+  });
+
+  it("groups holdings by exchange with local time, session and open versus closed value", () => {
+    mockState({
+      ...createState(),
+      displayCurrencyCode: "USD",
+      positions: [
+        position("AAPL", 1, 15_000, NASDAQ_HOURS),
+        position("MSFT", 2, 5_000, NASDAQ_HOURS),
+        position("7203", 3, 8_000, TSE_HOURS),
+      ],
+    });
+
+    // 10:00 New York, 00:00 Tokyo
+    const frame = render(<MarketClockView nowMs={Date.parse("2026-02-10T15:00:00.000Z")} />).lastFrame() ?? "";
+
+    expect(frame).toContain("Market Clock");
+    expect(frame).toContain("open $20,000.00");
+    expect(frame).toContain("closed $8,000.00");
+    expect(frame).toMatch(/NASDAQ\s+US\/Eastern\s+10:00\s+regular\s+6h 0m to close\s+\$20,000.00\s+AAPL, MSFT/);
+    expect(frame).toMatch(/TSEJ\s+Asia\/Tokyo\s+00:00\s+closed\s+9h 0m to open\s+\$8,000.00\s+7203/);
+  });
+
+  it("flags upcoming holidays and early closes under the exchange", () => {
+    mockState({
+      ...createState(),
+      positions: [
+        position("AAPL", 1, 15_000, {
+          ...NASDAQ_HOURS,
+          liquidHours: "20261125:0930-20261125:1600;20261126:CLOSED;20261127:0930-20261127:1300",
+        }),
+      ],
+    });
+
+    const frame = render(<MarketClockView nowMs={Date.parse("2026-11-25T15:00:00.000Z")} />).lastFrame() ?? "";
+
+    expect(frame).toContain("Thu Nov 26 holiday, Fri Nov 27 closes 13:00");
+  });
+
+  it("shows an empty state without open positions", () => {
+    mockState(createState());
+
+    const frame = render(<MarketClockView nowMs={Date.now()} />).lastFrame() ?? "";
+
+    expect(frame).toContain("No open positions");
+  });
+});
@@ -0,0 +1,113 @@
+import React from "react";
+import { Box, Text } from "ink";
+import { useStore } from "../state/store.js";
+import { summarizeMarketClock } from "../state/marketClock.js";
+import type { MarketClockGroup } from "../state/marketClock.js";
+import type { MarketScheduleDay } from "../broker/ibkr/market-hours/index.js";
+import { formatMarketHoursCountdown } from "../broker/ibkr/market-hours/index.js";
+import { MARKET_HOURS_COLORS } from "./PortfolioView.js";
+import { formatMoney, padLeft, padRight } from "./format.js";
+
+const COLUMNS = {
+  exchange: 10,
+  timeZone: 18,
+  localTime: 7,
+  session: 13,
+  next: 17,
+  value: 16,
+};
+
+const HOLDINGS_SHOWN = 4;
+
+const formatHoldings = (symbols: string[]): string =>
+  symbols.length > HOLDINGS_SHOWN
+    ? `${symbols.slice(0, HOLDINGS_SHOWN).join(", ")} +${symbols.length - HOLDINGS_SHOWN}`
+    : symbols.join(", ");
+
+// "Thu Nov 26 holiday", "Fri Nov 27 closes 13:00"
+const formatScheduleException = (day: MarketScheduleDay): string => {
+  const label = new Date(`${day.date}T00:00:00Z`)
+    .toLocaleDateString("en-US", { timeZone: "UTC", weekday: "short", month: "short", day: "numeric" })
+    .replace(",", "");
+  const close = day.sessions[day.sessions.length - 1]?.close;
+  return day.kind === "holiday" ? `${label} holiday` : `${label} closes ${close ?? "early"}`;
+};
+
+const GroupRow: React.FC<{
+  group: MarketClockGroup;
+  displayFxRate: number;
+  displayCurrencyCode: string | null;
+}> = ({ group, displayFxRate, displayCurrencyCode }) => (
+  <Box flexDirection="column">
+    <Box>
+      <Text>{padRight(group.exchange ?? "-", COLUMNS.exchange)}</Text>
+      <Text dimColor>{padRight(group.timeZoneId ?? "n/a", COLUMNS.timeZone)}</Text>
+      <Text>{padRight(group.localTime ?? "--:--", COLUMNS.localTime)}</Text>
+      <Text color={MARKET_HOURS_COLORS[group.session.status]}>{padRight(group.session.status, COLUMNS.session)}</Text>
+      <Text>{padLeft(formatMarketHoursCountdown(group.session), COLUMNS.next)}</Text>
+      <Text>{padLeft(formatMoney(group.marketValue * displayFxRate, displayCurrencyCode), COLUMNS.value)}</Text>
+      <Text dimColor>{"  "}{formatHoldings(group.symbols)}</Text>
+    </Box>
+    {group.scheduleExceptions.length > 0 && (
+      <Text color="yellow">
+        {" ".repeat(COLUMNS.exchange)}
+        {group.scheduleExceptions.map(formatScheduleException).join(", ")}
+      </Text>
+    )}
+  </Box>
+);
+
+export const MarketClockView: React.FC<{ nowMs: number }> = ({ nowMs }) => {
+  const positions = useStore((s) => s.positions);
+  const displayFxRate = useStore((s) => s.displayFxRate);
+  const displayCurrencyCode = useStore((s) => s.displayCurrencyCode);
+
+  const { groups, exposure } = summarizeMarketClock(positions, nowMs);
+  const money = (value: number) => formatMoney(value * displayFxRate, displayCurrencyCode);
+
+  return (
+    <Box flexDirection="column" marginTop={1}>
+      <Box marginBottom={1}>
+        <Text color="cyan" bold>
+          Market Clock
+        </Text>
+        <Text dimColor> | </Text>
+        <Text color="green">open {money(exposure.open)}</Text>
+        <Text dimColor> | </Text>
+        <Text color="yellow">closed {money(exposure.closed)}</Text>
+        {exposure.unknown !== 0 && (
+          <>
+            <Text dimColor> | </Text>
+            <Text>n/a {money(exposure.unknown)}</Text>
+          </>
+        )}
+        <Text dimColor> ([m] hide)</Text>
+      </Box>
+      {groups.length === 0 ? (
+        <Text dimColor>No open positions</Text>
+      ) : (
+        <>
+          <Box>
+            <Text color="cyan" bold>
+              {padRight("Exchange", COLUMNS.exchange)}
+              {padRight("Timezone", COLUMNS.timeZone)}
+              {padRight("Local", COLUMNS.localTime)}
+              {padRight("Session", COLUMNS.session)}
+              {padLeft("Next", COLUMNS.next)}
+              {padLeft("Value", COLUMNS.value)}
+              {"  "}Holdings
+            </Text>
+          </Box>
+          {groups.map((group) => (
+            <GroupRow
+              key={`${group.timeZoneId ?? ""}|${group.exchange ?? ""}`}
+              group={group}
+              displayFxRate={displayFxRate}
+              displayCurrencyCode={displayCurrencyCode}
+            />
+          ))}
+        </>
+      )}
+    </Box>
+  );
+};
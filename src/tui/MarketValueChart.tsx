@@ -0,0 +1,84 @@
+import React from "react";
+import { Box, Text, useStdout } from "ink";
+import { useStore } from "../state/store.js";
+import { selectEquityWindow } from "../state/equityHistory.js";
+import type { EquityWindow } from "../state/equityHistory.js";
+import { renderAsciiChart } from "./chart.js";
+import { formatMoney, formatNumber } from "./format.js";
+
+const CHART_HEIGHT = 8;
+// App padding, a typical y-axis label and the axis separator.
+const CHART_CHROME = 2 + 14 + 2;
+const MIN_PLOT_WIDTH = 20;
+
+const formatSigned = (value: number, currencyCode: string | null): string => {
+  const sign = value > 0 ? "+" : value < 0 ? "-" : "";
+  return `${sign}${formatMoney(Math.abs(value), currencyCode)}`;
+};
+
+const getChangeColor = (value: number): string | undefined => {
+  if (value === 0) return undefined;
+  return value > 0 ? "green" : "red";
+};
+
+export const MarketValueChart: React.FC<{ window: EquityWindow; nowMs: number }> = ({ window, nowMs }) => {
+  const { stdout } = useStdout();
+  const equityHistory = useStore((s) => s.equityHistory);
+  const displayFxRate = useStore((s) => s.displayFxRate);
+  const displayCurrencyCode = useStore((s) => s.displayCurrencyCode);
+
+  const samples = selectEquityWindow(equityHistory, window, nowMs);
+  const plotWidth = Math.max(MIN_PLOT_WIDTH, (stdout.columns || 80) - CHART_CHROME);
+  const first = samples[0];
+  const latest = samples[samples.length - 1];
+
+  const header = (
+    <Box marginBottom={1}>
+      <Text color="cyan" bold>
+        Market Value
+      </Text>
+      <Text dimColor> | window: {window} ([w] cycle, [c] hide)</Text>
+    </Box>
+  );
+
+  if (!first || !latest) {
+    return (
+      <Box flexDirection="column" marginTop={1}>
+        {header}
+        <Text dimColor>No equity samples in this window yet</Text>
+      </Box>
+    );
+  }
+
+  const change = (latest.totalEquity - first.totalEquity) * displayFxRate;
+  const changePct = first.totalEquity !== 0 ? ((latest.totalEquity - first.totalEquity) / Math.abs(first.totalEquity)) * 100 : null;
+  const lines = renderAsciiChart(
+    samples.map((sample) => sample.totalEquity * displayFxRate),
+    {
+      height: CHART_HEIGHT,
+      width: plotWidth,
+      formatLabel: (value) => formatMoney(value, displayCurrencyCode),
+    },
+  );
+
+  return (
+    <Box flexDirection="column" marginTop={1}>
+      {header}
+      <Box>
+        <Text>Equity {formatMoney(latest.totalEquity * displayFxRate, displayCurrencyCode)}</Text>
+        <Text dimColor> | </Text>
+        <Text color={getChangeColor(change)}>
+          {formatSigned(change, displayCurrencyCode)}
+          {changePct !== null ? ` (${changePct > 0 ? "+" : ""}${formatNumber(changePct)}%)` : ""}
+        </Text>
+        <Text dimColor> | </Text>
+        <Text>Positions {formatMoney(latest.positionsMarketValue * displayFxRate, displayCurrencyCode)}</Text>
+        <Text dimColor> | </Text>
+        <Text>Cash {formatMoney(latest.cashBalance * displayFxRate, displayCurrencyCode)}</Text>
+      </Box>
+      {lines.map((line, index) => (
+        <Text key={index}>{line}</Text>
+      ))}
+    </Box>
+  );
+};
@@ -0,0 +1,170 @@
+import React from "react";
+import { Box, Text } from "ink";
+import { useStore } from "../state/store.js";
+import type { OrderPreview } from "../broker/types.js";
+import { estimateNotional, getTicketFields } from "./orderTicket.js";
+import type { OrderTicketField, OrderTicketPreview, OrderTicketState } from "./orderTicket.js";
+import { formatMoney } from "./format.js";
+
+const FIELD_LABELS: Record<OrderTicketField, string> = {
+  action: "Side",
+  orderType: "Type",
+  quantity: "Quantity",
+  limitPrice: "Limit",
+  stopPrice: "Stop",
+};
+
+const ORDER_TYPE_LABELS: Record<OrderTicketState["orderType"], string> = {
+  MKT: "MKT",
+  LMT: "LMT",
+  STP: "STP",
+  STP_LMT: "STP LMT",
+};
+
+const LABEL_WIDTH = 10;
+
+const formatFieldValue = (ticket: OrderTicketState, field: OrderTicketField): string => {
+  if (field === "action") return ticket.action;
+  if (field === "orderType") return ORDER_TYPE_LABELS[ticket.orderType];
+  return ticket[field] || "_";
+};
+
+const FieldRow: React.FC<{ ticket: OrderTicketState; field: OrderTicketField; editable: boolean }> = ({
+  ticket,
+  field,
+  editable,
+}) => {
+  const active = editable && ticket.field === field;
+  const isChoice = field === "action" || field === "orderType";
+  const value = formatFieldValue(ticket, field);
+  const color = field === "action" ? (ticket.action === "BUY" ? "green" : "red") : undefined;
+
+  return (
+    <Box>
+      <Text color={active ? "cyan" : undefined} bold={active}>
+        {active ? "> " : "  "}
+        {FIELD_LABELS[field].padEnd(LABEL_WIDTH)}
+      </Text>
+      <Text color={color} inverse={active}>
+        {active && isChoice ? `< ${value} >` : value}
+      </Text>
+    </Box>
+  );
+};
+
+const NotionalRow: React.FC<{ ticket: OrderTicketState }> = ({ ticket }) => {
+  const displayFxRate = useStore((s) => s.displayFxRate);
+  const displayCurrencyCode = useStore((s) => s.displayCurrencyCode);
+  const notional = estimateNotional(ticket, displayFxRate);
+
+  if (notional.local === null) {
+    return <Text dimColor>  Est. notional: n/a</Text>;
+  }
+
+  const showLocal = displayCurrencyCode !== ticket.currency;
+  return (
+    <Box gap={1}>
+      <Text>  Est. notional:</Text>
+      <Text bold>
+        {notional.display === null ? "FX pending" : formatMoney(notional.display, displayCurrencyCode)}
+      </Text>
+      {showLocal && <Text dimColor>({formatMoney(notional.local, ticket.currency)})</Text>}
+      {ticket.multiplier !== 1 && <Text dimColor>x{ticket.multiplier} multiplier</Text>}
+    </Box>
+  );
+};
+
+const formatChange = (value: number, currencyCode: string | null): string =>
+  `${value > 0 ? "+" : ""}${formatMoney(value, currencyCode)}`;
+
+const formatCommission = (preview: OrderPreview): string => {
+  const currency = preview.commissionCurrency;
+  if (preview.commission !== null) return formatMoney(preview.commission, currency);
+  if (preview.minCommission !== null && preview.maxCommission !== null) {
+    return `${formatMoney(preview.minCommission, currency)} - ${formatMoney(preview.maxCommission, currency)}`;
+  }
+  return "n/a";
+};
+
+// What-if margin figures arrive in base currency; show them in display currency
+// alongside the notional estimate.
+const PreviewRows: React.FC<{ preview: OrderTicketPreview }> = ({ preview }) => {
+  const displayFxRate = useStore((s) => s.displayFxRate);
+  const displayCurrencyCode = useStore((s) => s.displayCurrencyCode);
+
+  if (preview.status === "loading") {
+    return <Text dimColor>  What-if: requesting margin and commission...</Text>;
+  }
+  if (preview.status === "error") {
+    return <Text color="yellow">  What-if unavailable: {preview.message}</Text>;
+  }
+
+  const { value } = preview;
+  const toDisplay = (amount: number) => amount * displayFxRate;
+  const marginRow = (label: string, change: number | null, after: number | null) => (
+    <Text>
+      {"  "}
+      {label.padEnd(LABEL_WIDTH + 6)}
+      {change === null ? "n/a" : formatChange(toDisplay(change), displayCurrencyCode)}
+      {after !== null && <Text dimColor> (after {formatMoney(toDisplay(after), displayCurrencyCode)})</Text>}
+    </Text>
+  );
+
+  return (
+    <Box flexDirection="column">
+      {marginRow("Init margin", value.initMarginChange, value.initMarginAfter)}
+      {marginRow("Maint margin", value.maintMarginChange, value.maintMarginAfter)}
+      <Text>
+        {"  "}
+        {"Equity w/ loan".padEnd(LABEL_WIDTH + 6)}
+        {value.equityWithLoanAfter === null ? "n/a" : formatMoney(toDisplay(value.equityWithLoanAfter), displayCurrencyCode)}
+      </Text>
+      <Text>
+        {"  "}
+        {"Commission".padEnd(LABEL_WIDTH + 6)}
+        {formatCommission(value)}
+      </Text>
+      {value.warningText && <Text color="yellow">  {value.warningText}</Text>}
+    </Box>
+  );
+};
+
+const getHint = (ticket: OrderTicketState): string => {
+  if (ticket.step === "edit") return "↑/↓ field · ←/→ change · Enter review · Esc cancel";
+  if (ticket.step === "review") return "Enter transmit · Esc edit";
+  if (ticket.step === "submitting") return "Transmitting...";
+  return "Enter/Esc close";
+};
+
+export const OrderTicketView: React.FC<{ ticket: OrderTicketState }> = ({ ticket }) => {
+  const fields = getTicketFields(ticket.orderType);
+  const editable = ticket.step === "edit";
+  const title = ticket.step === "edit" ? "Order Ticket" : "Review Order";
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor="cyan" paddingX={1}>
+      <Box marginBottom={1} gap={1}>
+        <Text color="cyan" bold>{title}</Text>
+        <Text bold>{ticket.symbol}</Text>
+        <Text dimColor>
+          {ticket.currency} · conId {ticket.conId}
+          {ticket.account && ` · ${ticket.account}`}
+        </Text>
+      </Box>
+      {fields.map((field) => (
+        <FieldRow key={field} ticket={ticket} field={field} editable={editable} />
+      ))}
+      <Box marginTop={1}>
+        <NotionalRow ticket={ticket} />
+      </Box>
+      {ticket.preview && <PreviewRows preview={ticket.preview} />}
+      {ticket.error && <Text color="red">{ticket.error}</Text>}
+      {ticket.result && (
+        <Text color={ticket.result.startsWith("Rejected") ? "red" : "green"}>{ticket.result}</Text>
+      )}
+      <Box marginTop={1}>
+        <Text dimColor>{getHint(ticket)}</Text>
+      </Box>
+    </Box>
+  );
+};
@@ -0,0 +1,99 @@
+import React from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { render } from "ink-testing-library";
+import { OrdersView } from "./OrdersView.js";
+import { useStore } from "../state/store.js";
+import type { AppState } from "../state/store.js";
+import type { Order } from "../broker/types.js";
+import { createState } from "./testStore.js";
+
+const mockUnsubscribe = vi.fn();
+const mockSubscribeOrders = vi.fn(() => mockUnsubscribe);
+
+vi.mock("../state/store.js", () => ({
+  useStore: vi.fn(),
+}));
+
+const mockUseStore = vi.mocked(useStore);
+
+describe("OrdersView", () => {
+  const createMockOrder = (overrides: Partial<Order> = {}): Order => ({
+    id: 42,
+    symbol: "AAPL",
+    action: "BUY",
+    quantity: 10,
+    orderType: "LMT",
+    limitPrice: 150.25,
+    status: "Submitted",
+    filled: 4,
+    remaining: 6,
+    avgFillPrice: 150.1,
+    ...overrides,
+  });
+
+  const createBaseState = (): AppState => createState({ subscribeOrders: mockSubscribeOrders });
+
+  const mockState = (state: AppState): void => {
+    mockUseStore.mockImplementation((selector) => (selector ? selector(state) : state));
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("subscribes to orders only while connected", async () => {
+    let state: AppState = { ...createBaseState(), connectionStatus: "disconnected" };
+    mockUseStore.mockImplementation((selector) => (selector ? selector(state) : state));
+
+    const app = render(<OrdersView />);
+    expect(mockSubscribeOrders).not.toHaveBeenCalled();
+
+    state = { ...state, connectionStatus: "connected" };
+    app.rerender(<OrdersView />);
+    await vi.waitFor(() => {
+      expect(mockSubscribeOrders).toHaveBeenCalledTimes(1);
+    });
+
+    state = { ...state, connectionStatus: "disconnected" };
+    app.rerender(<OrdersView />);
+    await vi.waitFor(() => {
+      expect(mockUnsubscribe).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it("renders the focus marker in the panel header", () => {
+    mockState(createBaseState());
+
+    const { lastFrame } = render(<OrdersView isFocused />);
+
+    expect(lastFrame()).toContain(">[4] Orders<");
+    expect(lastFrame()).toContain("No orders");
+  });
+
+  it("renders symbol, side, type, prices, fill progress and status", () => {
+    mockState({
+      ...createBaseState(),
+      orders: [
+        createMockOrder(),
+        createMockOrder({ id: 43, symbol: "MSFT", action: "SELL", orderType: "STP_LMT", limitPrice: 299, stopPrice: 300, status: "PreSubmitted", filled: 0, remaining: 5 }),
+      ],
+    });
+
+    const frame = render(<OrdersView />).lastFrame() ?? "";
+
+    expect(frame).toContain("Filled/Rem");
+    expect(frame).toContain("AAPL");
+    expect(frame).toContain("BUY");
+    expect(frame).toContain("150.25");
+    expect(frame).toContain("4/6");
+    expect(frame).toContain("Submitted");
+    expect(frame).toContain("STP LMT");
+    expect(frame).toContain("300.00");
+    expect(frame).toContain("PreSubmitted");
+    expect(frame.indexOf("MSFT")).toBeLessThan(frame.indexOf("AAPL"));
+  });
+});
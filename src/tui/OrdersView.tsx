@@ -0,0 +1,96 @@
+import React, { useEffect } from "react";
+import { Box, Text } from "ink";
+import { useStore } from "../state/store.js";
+import type { Order, OrderStatus } from "../broker/types.js";
+import { formatNumber, padLeft, padRight } from "./format.js";
+
+const COLUMNS = {
+  id: 7,
+  ticker: 8,
+  side: 6,
+  type: 9,
+  limit: 11,
+  stop: 11,
+  filled: 17,
+  status: 14,
+};
+
+const ORDER_TYPE_LABELS: Record<Order["orderType"], string> = {
+  MKT: "MKT",
+  LMT: "LMT",
+  STP: "STP",
+  STP_LMT: "STP LMT",
+};
+
+const getStatusColor = (status: OrderStatus): string | undefined => {
+  if (status === "Filled") return "green";
+  if (status === "Cancelled" || status === "ApiCancelled" || status === "Inactive") return "gray";
+  if (status === "PendingSubmit" || status === "PendingCancel") return "yellow";
+  return "cyan";
+};
+
+const formatPrice = (value: number | undefined): string =>
+  value === undefined ? "-" : formatNumber(value);
+
+const HeaderRow: React.FC = () => (
+  <Box>
+    <Text color="cyan" bold>
+      {padRight("Id", COLUMNS.id)}
+      {padRight("Ticker", COLUMNS.ticker)}
+      {padRight("Side", COLUMNS.side)}
+      {padRight("Type", COLUMNS.type)}
+      {padLeft("Limit", COLUMNS.limit)}
+      {padLeft("Stop", COLUMNS.stop)}
+      {padLeft("Filled/Rem", COLUMNS.filled)}
+      {padLeft("Status", COLUMNS.status)}
+    </Text>
+  </Box>
+);
+
+const OrderRow: React.FC<{ order: Order }> = ({ order }) => (
+  <Box>
+    <Text>{padRight(String(order.id), COLUMNS.id)}</Text>
+    <Text>{padRight(order.symbol, COLUMNS.ticker)}</Text>
+    <Text color={order.action === "BUY" ? "green" : "red"}>{padRight(order.action, COLUMNS.side)}</Text>
+    <Text>{padRight(ORDER_TYPE_LABELS[order.orderType], COLUMNS.type)}</Text>
+    <Text>{padLeft(formatPrice(order.limitPrice), COLUMNS.limit)}</Text>
+    <Text>{padLeft(formatPrice(order.stopPrice), COLUMNS.stop)}</Text>
+    <Text>{padLeft(`${formatNumber(order.filled, 0)}/${formatNumber(order.remaining, 0)}`, COLUMNS.filled)}</Text>
+    <Text color={getStatusColor(order.status)}>{padLeft(order.status, COLUMNS.status)}</Text>
+  </Box>
+);
+
+export const OrdersView: React.FC<{ isFocused?: boolean }> = ({ isFocused = false }) => {
+  const connectionStatus = useStore((s) => s.connectionStatus);
+  const orders = useStore((s) => s.orders);
+  const subscribeOrders = useStore((s) => s.subscribeOrders);
+
+  useEffect(() => {
+    if (connectionStatus !== "connected") return;
+    const unsubscribe = subscribeOrders();
+    return () => unsubscribe();
+  }, [connectionStatus, subscribeOrders]);
+
+  // Newest first so freshly placed tickets are visible without scrolling.
+  const rows = [...orders].sort((a, b) => b.id - a.id);
+
+  return (
+    <Box flexDirection="column" marginTop={1}>
+      <Box marginBottom={1}>
+        <Text color="cyan" bold>
+          {isFocused ? ">[4] Orders<" : "[4] Orders"}
+        </Text>
+      </Box>
+      {rows.length === 0 ? (
+        <Text dimColor>No orders</Text>
+      ) : (
+        <>
+          <HeaderRow />
+          {rows.map((order) => (
+            <OrderRow key={order.permId ? `perm:${order.permId}` : `id:${order.id}`} order={order} />
+          ))}
+        </>
+      )}
+    </Box>
+  );
+};
@@ -4,12 +4,9 @@ import { render } from "ink-testing-library";
 import { PortfolioView } from "./PortfolioView.js";
 import { useStore } from "../state/store.js";
 import type { AppState } from "../state/store.js";
-import type { Broker } from "../broker/types.js";
+import { createState } from "./testStore.js";
 import type { Position } from "../broker/types.js";
 
-const mockUnsubscribe = vi.fn();
-const mockSubscribe = vi.fn(() => mockUnsubscribe);
-
 vi.mock("../state/store.js", () => ({
   useStore: vi.fn(),
 }));
@@ -30,123 +27,34 @@ describe("PortfolioView", () => {
     conId: 265598,
     marketValueBase: 15050,
     unrealizedPnLBase: 550,
+    realizedPnLBase: 0,
     fxRateToBase: 1,
     isFxPending: false,
     ...overrides,
   });
 
-  const createMockBroker = (): Broker => ({
-    connect: async () => undefined,
-    disconnect: async () => undefined,
-    isConnected: () => true,
-    onDisconnect: () => () => {},
-    onStatus: () => () => {},
-    getAccountSummary: async () => ({
-      accountId: "DU123456",
-      netLiquidation: 0,
-      totalCashValue: 0,
-      buyingPower: 0,
-      positions: [],
-    }),
-    getPositions: async () => [],
-    placeOrder: async (order) => ({ ...order, id: 1, status: "Submitted" }),
-    cancelOrder: async () => undefined,
-    getOpenOrders: async () => [],
-    subscribeQuote: () => () => {},
-    subscribePortfolio: () => () => {},
-  });
+  const createBaseState = (): AppState => createState();
 
-  const createBaseState = (): AppState => ({
-    broker: createMockBroker(),
-    connectionStatus: "connected",
-    connectionHealth: "healthy",
-    error: null,
-    brokerStatus: null,
-    retryAttempt: 0,
-    nextRetryAt: null,
-    statusHistory: [],
-    statusHistoryIndex: 0,
-    positions: [],
-    positionsMarketValue: 0,
-    positionsUnrealizedPnL: 0,
-    totalEquity: 0,
-    cashBalance: 0,
-    cashBalancesByCurrency: {},
-    cashExchangeRatesByCurrency: {},
-    baseCurrencyCode: null,
-    initialLoadComplete: true,
-    lastPortfolioUpdateAt: Date.now(),
-    positionsPendingFxCount: 0,
-    positionsPendingFxByCurrency: {},
-    displayCurrencyPreference: "BASE",
-    displayCurrencyCode: null,
-    displayFxRate: 1,
-    availableDisplayCurrencies: [],
-    displayCurrencyWarning: null,
-    connect: async () => undefined,
-    disconnect: async () => undefined,
-    startAutoConnect: () => {},
-    stopAutoConnect: () => {},
-    selectOlderStatus: () => {},
-    selectNewerStatus: () => {},
-    setConnectionStatus: () => {},
-    setError: () => {},
-    subscribePortfolio: mockSubscribe,
-    setDisplayCurrencyPreference: () => {},
-    cycleDisplayCurrency: () => {},
-  });
+  const setColumns = (stdout: ReturnType<typeof render>["stdout"], columns: number): void => {
+    Object.defineProperty(stdout, "columns", { value: columns, configurable: true });
+  };
+
+  // ink-testing-library reports 100 columns; the full table needs more.
+  const renderWide = () => {
+    const app = render(<PortfolioView />);
+    setColumns(app.stdout, 140);
+    app.rerender(<PortfolioView />);
+    return app;
+  };
 
   beforeEach(() => {
     vi.clearAllMocks();
-    mockUnsubscribe.mockClear();
-    mockSubscribe.mockClear();
   });
 
   afterEach(() => {
     vi.restoreAllMocks();
   });
 
-  it("subscribes only when connection is connected", () => {
-    mockUseStore.mockImplementation((selector) => {
-      const state: AppState = {
-        ...createBaseState(),
-        connectionStatus: "disconnected",
-        subscribePortfolio: mockSubscribe,
-      };
-      return selector ? selector(state) : state;
-    });
-
-    render(<PortfolioView />);
-    expect(mockSubscribe).not.toHaveBeenCalled();
-  });
-
-  it("re-subscribes when connection transitions back to connected", async () => {
-    let state: AppState = {
-      ...createBaseState(),
-      connectionStatus: "disconnected",
-      subscribePortfolio: mockSubscribe,
-    };
-
-    mockUseStore.mockImplementation((selector) =>
-      selector ? selector(state) : state
-    );
-
-    const app = render(<PortfolioView />);
-    expect(mockSubscribe).not.toHaveBeenCalled();
-
-    state = { ...state, connectionStatus: "connected" };
-    app.rerender(<PortfolioView />);
-    await vi.waitFor(() => {
-      expect(mockSubscribe).toHaveBeenCalledTimes(1);
-    });
-
-    state = { ...state, connectionStatus: "disconnected" };
-    app.rerender(<PortfolioView />);
-    await vi.waitFor(() => {
-      expect(mockUnsubscribe).toHaveBeenCalledTimes(1);
-    });
-  });
-
   it("renders panel labels for portfolio and cash", () => {
     mockUseStore.mockImplementation((selector) => {
       const state: AppState = {
@@ -156,7 +64,6 @@ describe("PortfolioView", () => {
         totalEquity: 20050,
         cashBalance: 5000,
         baseCurrencyCode: "USD",
-        subscribePortfolio: mockSubscribe,
         initialLoadComplete: true,
         lastPortfolioUpdateAt: Date.now(),
       };
@@ -179,7 +86,6 @@ describe("PortfolioView", () => {
         totalEquity: 20050,
         cashBalance: 5000,
         baseCurrencyCode: "USD",
-        subscribePortfolio: mockSubscribe,
         initialLoadComplete: true,
         lastPortfolioUpdateAt: Date.now(),
       };
@@ -202,7 +108,6 @@ describe("PortfolioView", () => {
         positions: [],
         totalEquity: 0,
         cashBalance: 0,
-        subscribePortfolio: mockSubscribe,
         initialLoadComplete: false,
         lastPortfolioUpdateAt: null,
       };
@@ -222,14 +127,13 @@ describe("PortfolioView", () => {
         positions: [createMockPosition()],
         totalEquity: 15050,
         cashBalance: 0,
-        subscribePortfolio: mockSubscribe,
         initialLoadComplete: true,
         lastPortfolioUpdateAt: Date.now(),
       };
       return selector ? selector(state) : state;
     });
 
-    const { lastFrame } = render(<PortfolioView />);
+    const { lastFrame } = renderWide();
     const frame = lastFrame() ?? "";
 
     expect(frame).toContain("AAPL");
@@ -246,7 +150,6 @@ describe("PortfolioView", () => {
         totalEquity: 15050,
         positionsMarketValue: 15050,
         cashBalance: 0,
-        subscribePortfolio: mockSubscribe,
         initialLoadComplete: true,
         lastPortfolioUpdateAt: Date.now(),
       };
@@ -272,6 +175,7 @@ describe("PortfolioView", () => {
             marketValue: 10000,
             marketValueBase: null,
             unrealizedPnLBase: null,
+            realizedPnLBase: null,
             fxRateToBase: null,
             isFxPending: true,
           }),
@@ -281,7 +185,6 @@ describe("PortfolioView", () => {
         positionsMarketValue: 0,
         positionsPendingFxCount: 1,
         cashBalance: 0,
-        subscribePortfolio: mockSubscribe,
         initialLoadComplete: true,
         lastPortfolioUpdateAt: Date.now(),
       };
@@ -297,21 +200,20 @@ describe("PortfolioView", () => {
     expect(frame).toContain("pending FX");
   });
 
-  it("renders header row without Day P&L columns", () => {
+  it("renders header row with a Day P&L column", () => {
     mockUseStore.mockImplementation((selector) => {
       const state: AppState = {
         ...createBaseState(),
         positions: [createMockPosition()],
         totalEquity: 15050,
         cashBalance: 0,
-        subscribePortfolio: mockSubscribe,
         initialLoadComplete: true,
         lastPortfolioUpdateAt: Date.now(),
       };
       return selector ? selector(state) : state;
     });
 
-    const { lastFrame } = render(<PortfolioView />);
+    const { lastFrame } = renderWide();
     const frame = lastFrame() ?? "";
 
     expect(frame).toContain("Ticker");
@@ -321,7 +223,7 @@ describe("PortfolioView", () => {
     expect(frame).toContain("Unrealized");
     expect(frame).toContain("% Port");
     expect(frame).toContain("Mkt Value");
-    expect(frame).not.toContain("Day P&L");
+    expect(frame).toContain("Day P&L");
     expect(frame).not.toContain("Day %");
   });
 
@@ -332,14 +234,13 @@ describe("PortfolioView", () => {
         positions: [createMockPosition()],
         totalEquity: 15050,
         cashBalance: 0,
-        subscribePortfolio: mockSubscribe,
         initialLoadComplete: true,
         lastPortfolioUpdateAt: Date.now(),
       };
       return selector ? selector(state) : state;
     });
 
-    const { lastFrame } = render(<PortfolioView />);
+    const { lastFrame } = renderWide();
     const frame = lastFrame() ?? "";
 
     expect(frame).toContain("Pos Tot");
@@ -357,14 +258,13 @@ describe("PortfolioView", () => {
         positionsMarketValue: 10000,
         totalEquity: 10000,
         cashBalance: 0,
-        subscribePortfolio: mockSubscribe,
         initialLoadComplete: true,
         lastPortfolioUpdateAt: Date.now(),
       };
       return selector ? selector(state) : state;
     });
 
-    const { lastFrame } = render(<PortfolioView />);
+    const { lastFrame } = renderWide();
     const frame = lastFrame() ?? "";
 
     expect(frame).toContain("75.0%");
@@ -382,7 +282,6 @@ describe("PortfolioView", () => {
         ],
         totalEquity: 45150,
         cashBalance: 0,
-        subscribePortfolio: mockSubscribe,
         initialLoadComplete: true,
         lastPortfolioUpdateAt: Date.now(),
       };
@@ -405,11 +304,11 @@ describe("PortfolioView", () => {
           createMockPosition({
             unrealizedPnL: -500,
             unrealizedPnLBase: -500,
+            realizedPnLBase: 0,
           }),
         ],
         totalEquity: 15050,
         cashBalance: 0,
-        subscribePortfolio: mockSubscribe,
         initialLoadComplete: true,
         lastPortfolioUpdateAt: Date.now(),
       };
@@ -430,11 +329,11 @@ describe("PortfolioView", () => {
           createMockPosition({
             unrealizedPnL: 1000,
             unrealizedPnLBase: 1000,
+            realizedPnLBase: 0,
           }),
         ],
         totalEquity: 15050,
         cashBalance: 0,
-        subscribePortfolio: mockSubscribe,
         initialLoadComplete: true,
         lastPortfolioUpdateAt: Date.now(),
       };
@@ -457,7 +356,6 @@ describe("PortfolioView", () => {
         positions: [createMockPosition()],
         totalEquity: 15050,
         cashBalance: 0,
-        subscribePortfolio: mockSubscribe,
         initialLoadComplete: true,
         lastPortfolioUpdateAt: now - 5000,
       };
@@ -480,6 +378,7 @@ describe("PortfolioView", () => {
           createMockPosition({
             marketHours: {
               timeZoneId: "America/New_York",
+              exchange: null,
               liquidHours: "20260210:0930-1600;20260211:0930-1600",
               tradingHours: null,
             },
@@ -487,7 +386,6 @@ describe("PortfolioView", () => {
         ],
         totalEquity: 15050,
         cashBalance: 0,
-        subscribePortfolio: mockSubscribe,
         initialLoadComplete: true,
         lastPortfolioUpdateAt: Date.now(),
       };
@@ -499,6 +397,33 @@ describe("PortfolioView", () => {
     expect(frame).toContain("6h 0m to close");
   });
 
+  it("renders the pre-market countdown to the regular open", () => {
+    vi.spyOn(Date, "now").mockReturnValue(Date.parse("2026-02-10T13:00:00.000Z")); // 08:00 New York
+    mockUseStore.mockImplementation((selector) => {
+      const state: AppState = {
+        ...createBaseState(),
+        positions: [
+          createMockPosition({
+            marketHours: {
+              timeZoneId: "America/New_York",
+              exchange: null,
+              liquidHours: "20260210:0930-1600;20260211:0930-1600",
+              tradingHours: "20260210:0400-2000;20260211:0400-2000",
+            },
+          }),
+        ],
+        totalEquity: 15050,
+        cashBalance: 0,
+        initialLoadComplete: true,
+        lastPortfolioUpdateAt: Date.now(),
+      };
+      return selector ? selector(state) : state;
+    });
+
+    const { lastFrame } = render(<PortfolioView />);
+    expect(lastFrame()).toContain("1h 30m to open");
+  });
+
   it("renders different countdowns for different asset markets at same UTC time", () => {
     // 2026-02-10T15:00:00Z = 10:00 NY (market open) = 00:00+1 Tokyo (market closed)
     vi.spyOn(Date, "now").mockReturnValue(Date.parse("2026-02-10T15:00:00.000Z"));
@@ -511,6 +436,7 @@ describe("PortfolioView", () => {
             symbol: "AAPL",
             marketHours: {
               timeZoneId: "America/New_York",
+              exchange: null,
               liquidHours: "20260210:0930-1600;20260211:0930-1600",
               tradingHours: null,
             },
@@ -520,6 +446,7 @@ describe("PortfolioView", () => {
             symbol: "7203",
             marketHours: {
               timeZoneId: "Asia/Tokyo",
+              exchange: null,
               liquidHours: "20260210:0900-1500;20260211:0900-1500",
               tradingHours: null,
             },
@@ -527,7 +454,6 @@ describe("PortfolioView", () => {
         ],
         totalEquity: 30100,
         cashBalance: 0,
-        subscribePortfolio: mockSubscribe,
         initialLoadComplete: true,
         lastPortfolioUpdateAt: Date.now(),
       };
@@ -547,7 +473,6 @@ describe("PortfolioView", () => {
         positions: [createMockPosition()],
         totalEquity: 15050,
         cashBalance: 0,
-        subscribePortfolio: mockSubscribe,
         initialLoadComplete: true,
         lastPortfolioUpdateAt: Date.now(),
       };
@@ -573,7 +498,6 @@ describe("PortfolioView", () => {
         baseCurrencyCode: "USD",
         displayCurrencyCode: "USD",
         displayFxRate: 1,
-        subscribePortfolio: mockSubscribe,
         initialLoadComplete: true,
         lastPortfolioUpdateAt: Date.now(),
       };
@@ -609,7 +533,6 @@ describe("PortfolioView", () => {
         baseCurrencyCode: "USD",
         displayCurrencyCode: "EUR",
         displayFxRate,
-        subscribePortfolio: mockSubscribe,
         initialLoadComplete: true,
         lastPortfolioUpdateAt: Date.now(),
       };
@@ -636,7 +559,6 @@ describe("PortfolioView", () => {
         cashBalancesByCurrency: { USD: 2000 },
         cashExchangeRatesByCurrency: { USD: 1 },
         baseCurrencyCode: "USD",
-        subscribePortfolio: mockSubscribe,
         initialLoadComplete: true,
         lastPortfolioUpdateAt: Date.now(),
       };
@@ -661,7 +583,6 @@ describe("PortfolioView", () => {
         totalEquity: 16250,
         cashBalance: 1200,
         cashBalancesByCurrency: {},
-        subscribePortfolio: mockSubscribe,
         initialLoadComplete: true,
         lastPortfolioUpdateAt: Date.now(),
       };
@@ -691,10 +612,14 @@ describe("PortfolioView", () => {
             marketValueBase: 15050,
             unrealizedPnL: 550,
             unrealizedPnLBase: 550,
+            realizedPnLBase: 0,
           }),
         ],
         positionsMarketValue: 15050,
         positionsUnrealizedPnL: 550,
+        positionsDailyPnL: 0,
+        positionsRealizedPnL: 0,
+        dailyPnL: null,
         totalEquity: 20050,
         cashBalance: 5000,
         cashBalancesByCurrency: { USD: 5000 },
@@ -703,7 +628,6 @@ describe("PortfolioView", () => {
         displayCurrencyCode: "EUR",
         displayFxRate,
         availableDisplayCurrencies: ["EUR", "USD"],
-        subscribePortfolio: mockSubscribe,
         initialLoadComplete: true,
         lastPortfolioUpdateAt: Date.now(),
       };
@@ -725,4 +649,122 @@ describe("PortfolioView", () => {
     expect(frame).toContain("Display:");
     expect(frame).toContain("EUR");
   });
+
+  it("shows per-position Day P&L and daily totals converted to display currency", () => {
+    const displayFxRate = 1 / 1.1;
+    mockUseStore.mockImplementation((selector) => {
+      const state: AppState = {
+        ...createBaseState(),
+        positions: [createMockPosition({ dailyPnL: 220 })],
+        positionsMarketValue: 15050,
+        positionsUnrealizedPnL: 550,
+        positionsDailyPnL: 220,
+        positionsRealizedPnL: 0,
+        dailyPnL: 330,
+        totalEquity: 15050,
+        cashExchangeRatesByCurrency: { EUR: 1.1, USD: 1 },
+        baseCurrencyCode: "USD",
+        displayCurrencyCode: "EUR",
+        displayFxRate,
+        availableDisplayCurrencies: ["EUR", "USD"],
+        initialLoadComplete: true,
+        lastPortfolioUpdateAt: Date.now(),
+      };
+      return selector ? selector(state) : state;
+    });
+
+    const { lastFrame } = render(<PortfolioView />);
+    const frame = lastFrame() ?? "";
+    const posTotLine = frame.split("\n").find((line) => line.startsWith("Pos Tot")) ?? "";
+    const totLine = frame.split("\n").find((line) => line.startsWith("Tot ")) ?? "";
+
+    // Position and positions total: 220 * (1/1.1) = 200.00
+    expect(frame).toContain("€200.00");
+    expect(posTotLine).toContain("€200.00");
+    // Account day P&L from reqPnL: 330 * (1/1.1) = 300.00
+    expect(totLine).toContain("€300.00");
+  });
+
+  it("keeps positions closed today and shows realized P&L in display currency at any width", () => {
+    const displayFxRate = 1 / 1.1;
+    mockUseStore.mockImplementation((selector) => {
+      const state: AppState = {
+        ...createBaseState(),
+        positions: [
+          createMockPosition({ realizedPnL: 110, realizedPnLBase: 110 }),
+          createMockPosition({
+            symbol: "MSFT",
+            conId: 272093,
+            quantity: 0,
+            avgCost: 0,
+            marketValue: 0,
+            unrealizedPnL: 0,
+            realizedPnL: 440,
+            marketValueBase: null,
+            unrealizedPnLBase: null,
+            realizedPnLBase: 440,
+          }),
+        ],
+        positionsMarketValue: 15050,
+        positionsUnrealizedPnL: 550,
+        positionsRealizedPnL: 550,
+        totalEquity: 15050,
+        cashExchangeRatesByCurrency: { EUR: 1.1, USD: 1 },
+        baseCurrencyCode: "USD",
+        displayCurrencyCode: "EUR",
+        displayFxRate,
+        availableDisplayCurrencies: ["EUR", "USD"],
+        initialLoadComplete: true,
+        lastPortfolioUpdateAt: Date.now(),
+      };
+      return selector ? selector(state) : state;
+    });
+
+    const { lastFrame, stdout, rerender } = render(<PortfolioView />);
+    const lineStarting = (prefix: string) => (lastFrame() ?? "").split("\n").find((line) => line.startsWith(prefix)) ?? "";
+
+    for (const columns of [80, 100, 140]) {
+      setColumns(stdout, columns);
+      rerender(<PortfolioView />);
+
+      expect(lineStarting("Ticker")).toContain("Realized");
+      // 440 * (1/1.1) = 400.00; total 550 * (1/1.1) = 500.00
+      expect(lineStarting("MSFT")).toContain("€400.00");
+      expect(lineStarting("MSFT")).toContain("closed");
+      expect(lineStarting("Pos Tot")).toContain("€500.00");
+      expect(lineStarting("Ticker").length).toBeLessThanOrEqual(columns - 2);
+    }
+  });
+
+  it("drops % Port, then Avg Cost, then Mkt Hrs on narrow terminals", () => {
+    mockUseStore.mockImplementation((selector) => {
+      const state: AppState = {
+        ...createBaseState(),
+        positions: [createMockPosition()],
+        totalEquity: 15050,
+        cashBalancesByCurrency: { EUR: 100 },
+        cashExchangeRatesByCurrency: { EUR: 1.1, USD: 1 },
+        baseCurrencyCode: "USD",
+        displayCurrencyCode: "USD",
+      };
+      return selector ? selector(state) : state;
+    });
+
+    const { lastFrame, stdout, rerender } = render(<PortfolioView />);
+    const header = () => (lastFrame() ?? "").split("\n").find((line) => line.startsWith("Ticker")) ?? "";
+    const eurLine = () => (lastFrame() ?? "").split("\n").find((line) => line.startsWith("EUR")) ?? "";
+
+    setColumns(stdout, 100);
+    rerender(<PortfolioView />);
+    expect(header()).not.toContain("% Port");
+    expect(header()).not.toContain("Avg Cost");
+    expect(header()).toContain("Mkt Hrs");
+
+    setColumns(stdout, 80);
+    rerender(<PortfolioView />);
+    expect(header()).not.toContain("Mkt Hrs");
+    // Cash FX rates move into the Price column.
+    expect(lastFrame()).toMatch(/CCY\s+FX Rate\s+Mkt Value/);
+    expect(eurLine()).toMatch(/EUR\s+1\.1000\s+\$100\.00/);
+  });
 });
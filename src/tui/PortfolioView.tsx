@@ -1,59 +1,55 @@
 import React, { useEffect, useState } from "react";
-import { Box, Text } from "ink";
+import { Box, Text, useStdout } from "ink";
 import { useStore } from "../state/store.js";
 import type { Position } from "../broker/types.js";
 import { resolveMarketHours, formatMarketHoursCountdown } from "../broker/ibkr/market-hours/index.js";
+import type { MarketHoursState } from "../broker/ibkr/market-hours/index.js";
+import { formatMoney, formatNumber, padLeft, padRight } from "./format.js";
 
 export const STALE_THRESHOLD_MS = 180_000;
 
+// Extended-hours sessions get their own colors so prints outside regular hours stand out.
+export const MARKET_HOURS_COLORS: Record<MarketHoursState, string | undefined> = {
+  "pre-market": "cyan",
+  regular: "green",
+  "post-market": "magenta",
+  closed: "yellow",
+  unknown: undefined,
+};
+
 const COLUMNS = {
   ticker: 8,
   ccy: 5,
-  quantity: 8,
+  quantity: 7,
   price: 10,
   avgCost: 10,
-  unrealizedPnL: 12,
-  portfolioPct: 8,
-  nextTransition: 17,
+  unrealizedPnL: 11,
+  dailyPnL: 11,
+  realizedPnL: 11,
+  portfolioPct: 7,
+  nextTransition: 16,
   marketValue: 14,
 };
 
-const formatNumber = (value: number, decimals = 2): string => {
-  return value.toLocaleString("en-US", {
-    minimumFractionDigits: decimals,
-    maximumFractionDigits: decimals,
-  });
-};
-
-const CURRENCY_SYMBOLS: Record<string, string> = {
-  USD: "$",
-  EUR: "€",
-  GBP: "£",
-  JPY: "¥",
-  CNY: "¥",
-  CNH: "¥",
-  CHF: "CHF ",
-  CAD: "C$",
-  AUD: "A$",
-  HKD: "HK$",
-  SGD: "S$",
-  SEK: "kr",
-  NOK: "kr",
-  DKK: "kr",
-  ILS: "₪",
-  MXN: "MX$",
-  KRW: "₩",
-  INR: "₹",
-  ZAR: "R",
-};
-
-const getCurrencySymbol = (currencyCode: string | null): string => {
-  if (!currencyCode) return "$";
-  return CURRENCY_SYMBOLS[currencyCode] ?? `${currencyCode} `;
-};
-
-const formatMoney = (value: number, currencyCode: string | null): string => {
-  return `${getCurrencySymbol(currencyCode)}${formatNumber(value)}`;
+const TABLE_WIDTH = Object.values(COLUMNS).reduce((sum, width) => sum + width, 0);
+// The main view is padded by one column on each side.
+const VIEW_PADDING = 2;
+
+// Dropped in this order until the table fits the terminal, so the P&L columns
+// always show. Without Mkt Hrs, cash FX rates move to the Price column.
+const OPTIONAL_COLUMNS = ["portfolioPct", "avgCost", "nextTransition"] as const;
+type OptionalColumn = (typeof OPTIONAL_COLUMNS)[number];
+type HiddenColumns = ReadonlySet<OptionalColumn>;
+
+const hiddenColumnsFor = (width: number): HiddenColumns => {
+  const hidden = new Set<OptionalColumn>();
+  let tableWidth = TABLE_WIDTH;
+  for (const column of OPTIONAL_COLUMNS) {
+    if (tableWidth <= width) break;
+    hidden.add(column);
+    tableWidth -= COLUMNS[column];
+  }
+  return hidden;
 };
 
 const PnLText: React.FC<{ value: number; currencyCode: string | null }> = ({ value, currencyCode }) => {
@@ -61,25 +57,19 @@ const PnLText: React.FC<{ value: number; currencyCode: string | null }> = ({ val
   return <Text color={color}>{formatMoney(value, currencyCode)}</Text>;
 };
 
-const padRight = (str: string, width: number): string => {
-  return str.length >= width ? str.slice(0, width) : str + " ".repeat(width - str.length);
-};
-
-const padLeft = (str: string, width: number): string => {
-  return str.length >= width ? str.slice(0, width) : " ".repeat(width - str.length) + str;
-};
-
-const HeaderRow: React.FC = () => (
+const HeaderRow: React.FC<{ hidden: HiddenColumns }> = ({ hidden }) => (
   <Box>
     <Text color="cyan" bold>
       {padRight("Ticker", COLUMNS.ticker)}
       {padRight("CCY", COLUMNS.ccy)}
       {padLeft("Qty", COLUMNS.quantity)}
       {padLeft("Price", COLUMNS.price)}
-      {padLeft("Avg Cost", COLUMNS.avgCost)}
+      {!hidden.has("avgCost") && padLeft("Avg Cost", COLUMNS.avgCost)}
       {padLeft("Unrealized", COLUMNS.unrealizedPnL)}
-      {padLeft("% Port", COLUMNS.portfolioPct)}
-      {padLeft("Mkt Hrs", COLUMNS.nextTransition)}
+      {padLeft("Day P&L", COLUMNS.dailyPnL)}
+      {padLeft("Realized", COLUMNS.realizedPnL)}
+      {!hidden.has("portfolioPct") && padLeft("% Port", COLUMNS.portfolioPct)}
+      {!hidden.has("nextTransition") && padLeft("Mkt Hrs", COLUMNS.nextTransition)}
       {padLeft("Mkt Value", COLUMNS.marketValue)}
     </Text>
   </Box>
@@ -91,56 +81,74 @@ const DividerRow: React.FC = () => (
   </Box>
 );
 
-const CashHeaderRow: React.FC = () => (
+const CashHeaderRow: React.FC<{ hidden: HiddenColumns }> = ({ hidden }) => (
   <Box>
     <Text color="cyan" bold>
       {padRight("CCY", COLUMNS.ticker)}
       {padRight("", COLUMNS.ccy)}
       {padLeft("", COLUMNS.quantity)}
-      {padLeft("", COLUMNS.price)}
-      {padLeft("", COLUMNS.avgCost)}
+      {padLeft(hidden.has("nextTransition") ? "FX Rate" : "", COLUMNS.price)}
+      {!hidden.has("avgCost") && padLeft("", COLUMNS.avgCost)}
       {padLeft("", COLUMNS.unrealizedPnL)}
-      {padLeft("", COLUMNS.portfolioPct)}
-      {padLeft("FX Rate", COLUMNS.nextTransition)}
+      {padLeft("", COLUMNS.dailyPnL)}
+      {padLeft("", COLUMNS.realizedPnL)}
+      {!hidden.has("portfolioPct") && padLeft("", COLUMNS.portfolioPct)}
+      {!hidden.has("nextTransition") && padLeft("FX Rate", COLUMNS.nextTransition)}
       {padLeft("Mkt Value", COLUMNS.marketValue)}
     </Text>
   </Box>
 );
 
-const PositionRow: React.FC<{ position: Position; totalValue: number; nowMs: number; baseCurrencyCode: string | null; displayFxRate: number; displayCurrencyCode: string | null }> = ({
+const PositionRow: React.FC<{ position: Position; totalValue: number; nowMs: number; baseCurrencyCode: string | null; displayFxRate: number; displayCurrencyCode: string | null; isSelected: boolean; hidden: HiddenColumns }> = ({
   position,
   totalValue,
   nowMs,
   baseCurrencyCode,
   displayFxRate,
   displayCurrencyCode,
+  isSelected,
+  hidden,
 }) => {
   const isNonBase = baseCurrencyCode !== null && position.currency !== baseCurrencyCode;
   const isPending = position.isFxPending;
   const baseValue = isPending ? null : (position.marketValueBase ?? position.marketValue);
   const displayMarketValue = baseValue !== null ? baseValue * displayFxRate : null;
   const displayUnrealizedPnL = isPending ? position.unrealizedPnL : ((position.unrealizedPnLBase ?? position.unrealizedPnL) * displayFxRate);
-  const portfolioPct = (!isPending && totalValue > 0 && displayMarketValue !== null)
+  // Day P&L is already in base currency, so it converts even while FX is pending.
+  const displayDailyPnL = position.dailyPnL * displayFxRate;
+  const displayRealizedPnL = isPending ? position.realizedPnL : ((position.realizedPnLBase ?? position.realizedPnL) * displayFxRate);
+  const isClosed = position.quantity === 0;
+  const portfolioPct = (!isPending && !isClosed && totalValue > 0 && displayMarketValue !== null)
     ? (displayMarketValue / totalValue) * 100
     : null;
   const mktHrs = resolveMarketHours(position.marketHours, nowMs);
-  const countdownColor = mktHrs.status === "open" ? "green" : mktHrs.status === "closed" ? "yellow" : undefined;
+  const countdownColor = MARKET_HOURS_COLORS[mktHrs.status];
   const nextLabel = formatMarketHoursCountdown(mktHrs);
   const ccyColor = isNonBase ? "yellow" : undefined;
 
   return (
     <Box>
-      <Text>{padRight(position.symbol, COLUMNS.ticker)}</Text>
+      <Text inverse={isSelected} dimColor={isClosed}>{padRight(position.symbol, COLUMNS.ticker)}</Text>
       <Text color={ccyColor}>{padRight(position.currency, COLUMNS.ccy)}</Text>
       <Text>{padLeft(formatNumber(position.quantity, 0), COLUMNS.quantity)}</Text>
       <Text>{padLeft(formatMoney(position.marketPrice, position.currency), COLUMNS.price)}</Text>
-      <Text>{padLeft(formatMoney(position.avgCost, position.currency), COLUMNS.avgCost)}</Text>
+      {!hidden.has("avgCost") && <Text>{padLeft(formatMoney(position.avgCost, position.currency), COLUMNS.avgCost)}</Text>}
       <Box width={COLUMNS.unrealizedPnL} justifyContent="flex-end">
         <PnLText value={displayUnrealizedPnL} currencyCode={displayCurrencyCode} />
       </Box>
-      <Text>{padLeft(portfolioPct !== null ? formatNumber(portfolioPct, 1) + "%" : "", COLUMNS.portfolioPct)}</Text>
-      <Text color={countdownColor}>{padLeft(nextLabel, COLUMNS.nextTransition)}</Text>
-      <Text>{padLeft(isPending ? "pending" : formatMoney(displayMarketValue ?? 0, displayCurrencyCode), COLUMNS.marketValue)}</Text>
+      <Box width={COLUMNS.dailyPnL} justifyContent="flex-end">
+        <PnLText value={displayDailyPnL} currencyCode={displayCurrencyCode} />
+      </Box>
+      <Box width={COLUMNS.realizedPnL} justifyContent="flex-end">
+        <PnLText value={displayRealizedPnL} currencyCode={displayCurrencyCode} />
+      </Box>
+      {!hidden.has("portfolioPct") && (
+        <Text>{padLeft(portfolioPct !== null ? formatNumber(portfolioPct, 1) + "%" : "", COLUMNS.portfolioPct)}</Text>
+      )}
+      {!hidden.has("nextTransition") && <Text color={countdownColor}>{padLeft(nextLabel, COLUMNS.nextTransition)}</Text>}
+      <Text dimColor={isClosed}>
+        {padLeft(isClosed ? "closed" : isPending ? "pending" : formatMoney(displayMarketValue ?? 0, displayCurrencyCode), COLUMNS.marketValue)}
+      </Text>
     </Box>
   );
 };
@@ -214,10 +222,12 @@ const CashRow: React.FC<{
   holding: CashHolding;
   displayFxRate: number;
   displayCurrencyCode: string | null;
+  hidden: HiddenColumns;
 }> = ({
   holding,
   displayFxRate,
   displayCurrencyCode,
+  hidden,
 }) => {
   const displayValue = formatMoney(holding.value * displayFxRate, displayCurrencyCode);
   const fxRateLabel = holding.hideFxRate
@@ -231,11 +241,13 @@ const CashRow: React.FC<{
       <Text dimColor>{padRight(holding.label, COLUMNS.ticker)}</Text>
       <Text>{padRight("", COLUMNS.ccy)}</Text>
       <Text>{padLeft("", COLUMNS.quantity)}</Text>
-      <Text>{padLeft("", COLUMNS.price)}</Text>
-      <Text>{padLeft("", COLUMNS.avgCost)}</Text>
+      <Text>{padLeft(hidden.has("nextTransition") ? fxRateLabel : "", COLUMNS.price)}</Text>
+      {!hidden.has("avgCost") && <Text>{padLeft("", COLUMNS.avgCost)}</Text>}
       <Text>{padLeft("", COLUMNS.unrealizedPnL)}</Text>
-      <Text>{padLeft("", COLUMNS.portfolioPct)}</Text>
-      <Text>{padLeft(fxRateLabel, COLUMNS.nextTransition)}</Text>
+      <Text>{padLeft("", COLUMNS.dailyPnL)}</Text>
+      <Text>{padLeft("", COLUMNS.realizedPnL)}</Text>
+      {!hidden.has("portfolioPct") && <Text>{padLeft("", COLUMNS.portfolioPct)}</Text>}
+      {!hidden.has("nextTransition") && <Text>{padLeft(fxRateLabel, COLUMNS.nextTransition)}</Text>}
       <Text>{padLeft(displayValue, COLUMNS.marketValue)}</Text>
     </Box>
   );
@@ -245,17 +257,20 @@ const SummaryRow: React.FC<{
   label: string;
   totalValue: number;
   unrealizedPnL: number | null;
+  dailyPnL: number | null;
+  realizedPnL: number | null;
   portfolioPct: number | null;
   currencyCode: string | null;
+  hidden: HiddenColumns;
   marginTop?: number;
-}> = ({ label, totalValue, unrealizedPnL, portfolioPct, currencyCode, marginTop = 1 }) => {
+}> = ({ label, totalValue, unrealizedPnL, dailyPnL, realizedPnL, portfolioPct, currencyCode, hidden, marginTop = 1 }) => {
   return (
     <Box marginTop={marginTop}>
       <Text bold>{padRight(label, COLUMNS.ticker)}</Text>
       <Text>{padRight("", COLUMNS.ccy)}</Text>
       <Text>{padLeft("", COLUMNS.quantity)}</Text>
       <Text>{padLeft("", COLUMNS.price)}</Text>
-      <Text>{padLeft("", COLUMNS.avgCost)}</Text>
+      {!hidden.has("avgCost") && <Text>{padLeft("", COLUMNS.avgCost)}</Text>}
       <Box width={COLUMNS.unrealizedPnL} justifyContent="flex-end">
         {unrealizedPnL === null ? (
           <Text>{padLeft("", COLUMNS.unrealizedPnL)}</Text>
@@ -265,8 +280,28 @@ const SummaryRow: React.FC<{
           </Text>
         )}
       </Box>
-      <Text>{padLeft(portfolioPct === null ? "" : `${formatNumber(portfolioPct, 1)}%`, COLUMNS.portfolioPct)}</Text>
-      <Text>{padLeft("", COLUMNS.nextTransition)}</Text>
+      <Box width={COLUMNS.dailyPnL} justifyContent="flex-end">
+        {dailyPnL === null ? (
+          <Text>{padLeft("", COLUMNS.dailyPnL)}</Text>
+        ) : (
+          <Text bold>
+            <PnLText value={dailyPnL} currencyCode={currencyCode} />
+          </Text>
+        )}
+      </Box>
+      <Box width={COLUMNS.realizedPnL} justifyContent="flex-end">
+        {realizedPnL === null ? (
+          <Text>{padLeft("", COLUMNS.realizedPnL)}</Text>
+        ) : (
+          <Text bold>
+            <PnLText value={realizedPnL} currencyCode={currencyCode} />
+          </Text>
+        )}
+      </Box>
+      {!hidden.has("portfolioPct") && (
+        <Text>{padLeft(portfolioPct === null ? "" : `${formatNumber(portfolioPct, 1)}%`, COLUMNS.portfolioPct)}</Text>
+      )}
+      {!hidden.has("nextTransition") && <Text>{padLeft("", COLUMNS.nextTransition)}</Text>}
       <Text bold>{padLeft(formatMoney(totalValue, currencyCode), COLUMNS.marketValue)}</Text>
     </Box>
   );
@@ -301,36 +336,34 @@ const CurrencyStatusLine: React.FC<{
 export const PortfolioView: React.FC<{
   isPortfolioFocused?: boolean;
   isCashFocused?: boolean;
-}> = ({ isPortfolioFocused = false, isCashFocused = false }) => {
-  const connectionStatus = useStore((s) => s.connectionStatus);
+  selectedConId?: number | null;
+}> = ({ isPortfolioFocused = false, isCashFocused = false, selectedConId = null }) => {
   const positions = useStore((s) => s.positions);
   const totalEquity = useStore((s) => s.totalEquity);
   const cashBalance = useStore((s) => s.cashBalance);
   const cashBalancesByCurrency = useStore((s) => s.cashBalancesByCurrency);
   const cashExchangeRatesByCurrency = useStore((s) => s.cashExchangeRatesByCurrency);
   const baseCurrencyCode = useStore((s) => s.baseCurrencyCode);
-  const subscribePortfolio = useStore((s) => s.subscribePortfolio);
   const initialLoadComplete = useStore((s) => s.initialLoadComplete);
   const positionsMarketValue = useStore((s) => s.positionsMarketValue);
   const positionsUnrealizedPnL = useStore((s) => s.positionsUnrealizedPnL);
+  const positionsDailyPnL = useStore((s) => s.positionsDailyPnL);
+  const dailyPnL = useStore((s) => s.dailyPnL);
+  const positionsRealizedPnL = useStore((s) => s.positionsRealizedPnL);
   const displayCurrencyCode = useStore((s) => s.displayCurrencyCode);
   const displayCurrencyWarning = useStore((s) => s.displayCurrencyWarning);
   const positionsPendingFxCount = useStore((s) => s.positionsPendingFxCount);
   const displayFxRate = useStore((s) => s.displayFxRate);
 
   const [nowMs, setNowMs] = useState(Date.now());
+  const { stdout } = useStdout();
+  const hidden = hiddenColumnsFor((stdout.columns || 80) - VIEW_PADDING);
 
   useEffect(() => {
     const interval = setInterval(() => setNowMs(Date.now()), 30_000);
     return () => clearInterval(interval);
   }, []);
 
-  useEffect(() => {
-    if (connectionStatus !== "connected") return;
-    const unsubscribe = subscribePortfolio();
-    return () => unsubscribe();
-  }, [connectionStatus, subscribePortfolio]);
-
   const cashHoldings = deriveCashHoldings(
     cashBalance,
     cashBalancesByCurrency,
@@ -340,6 +373,9 @@ export const PortfolioView: React.FC<{
   );
   const displayPositionsMV = positionsMarketValue * displayFxRate;
   const displayPositionsPnL = positionsUnrealizedPnL * displayFxRate;
+  const displayPositionsDailyPnL = positionsDailyPnL * displayFxRate;
+  const displayDailyPnL = dailyPnL === null ? null : dailyPnL * displayFxRate;
+  const displayRealizedPnL = positionsRealizedPnL * displayFxRate;
   const displayCashBalance = cashBalance * displayFxRate;
   const displayTotalEquity = totalEquity * displayFxRate;
   const positionsPortfolioPct = displayTotalEquity > 0 ? (displayPositionsMV / displayTotalEquity) * 100 : 0;
@@ -372,7 +408,7 @@ export const PortfolioView: React.FC<{
           <Text color="yellow">{displayCurrencyWarning}</Text>
         </Box>
       )}
-      <HeaderRow />
+      <HeaderRow hidden={hidden} />
       <DividerRow />
       {positions.map((position) => (
         <PositionRow
@@ -383,6 +419,8 @@ export const PortfolioView: React.FC<{
           baseCurrencyCode={baseCurrencyCode}
           displayFxRate={displayFxRate}
           displayCurrencyCode={displayCurrencyCode}
+          isSelected={isPortfolioFocused && position.conId === selectedConId}
+          hidden={hidden}
         />
       ))}
       <DividerRow />
@@ -390,8 +428,11 @@ export const PortfolioView: React.FC<{
         label="Pos Tot"
         totalValue={displayPositionsMV}
         unrealizedPnL={displayPositionsPnL}
+        dailyPnL={displayPositionsDailyPnL}
+        realizedPnL={displayRealizedPnL}
         portfolioPct={positionsPortfolioPct}
         currencyCode={displayCurrencyCode}
+        hidden={hidden}
         marginTop={0}
       />
       {cashHoldings.length > 0 && (
@@ -402,7 +443,7 @@ export const PortfolioView: React.FC<{
               {isCashFocused ? ">[3] Cash<" : "[3] Cash"}
             </Text>
           </Box>
-          <CashHeaderRow />
+          <CashHeaderRow hidden={hidden} />
           <DividerRow />
           {cashHoldings.map((holding) => (
             <CashRow
@@ -410,6 +451,7 @@ export const PortfolioView: React.FC<{
               holding={holding}
               displayFxRate={displayFxRate}
               displayCurrencyCode={displayCurrencyCode}
+              hidden={hidden}
             />
           ))}
           <DividerRow />
@@ -417,8 +459,11 @@ export const PortfolioView: React.FC<{
             label="Cash Tot"
             totalValue={displayCashBalance}
             unrealizedPnL={null}
+            dailyPnL={null}
+            realizedPnL={null}
             portfolioPct={null}
             currencyCode={displayCurrencyCode}
+            hidden={hidden}
             marginTop={0}
           />
         </>
@@ -427,8 +472,11 @@ export const PortfolioView: React.FC<{
         label="Tot"
         totalValue={displayTotalEquity}
         unrealizedPnL={null}
+        dailyPnL={displayDailyPnL}
+        realizedPnL={null}
         portfolioPct={null}
         currencyCode={displayCurrencyCode}
+        hidden={hidden}
         marginTop={0}
       />
     </Box>
@@ -0,0 +1,100 @@
+import React from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { render } from "ink-testing-library";
+import { WatchlistView } from "./WatchlistView.js";
+import { useStore } from "../state/store.js";
+import type { AppState } from "../state/store.js";
+import type { Quote } from "../broker/types.js";
+import { createState } from "./testStore.js";
+
+const mockUnsubscribe = vi.fn();
+const mockSubscribeWatchlist = vi.fn(() => mockUnsubscribe);
+
+vi.mock("../state/store.js", () => ({
+  useStore: vi.fn(),
+}));
+
+const mockUseStore = vi.mocked(useStore);
+
+describe("WatchlistView", () => {
+  const createMockQuote = (overrides: Partial<Quote> = {}): Quote => ({
+    symbol: "AAPL",
+    bid: 209.95,
+    ask: 210.05,
+    last: 210,
+    volume: 1_234_567,
+    close: 200,
+    changePercent: 5,
+    isDelayed: false,
+    error: null,
+    updatedAt: 1_000,
+    ...overrides,
+  });
+
+  const createBaseState = (): AppState => createState({ subscribeWatchlist: mockSubscribeWatchlist });
+
+  const mockState = (state: AppState): void => {
+    mockUseStore.mockImplementation((selector) => (selector ? selector(state) : state));
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("subscribes to quotes only while connected", async () => {
+    let state: AppState = { ...createBaseState(), connectionStatus: "disconnected" };
+    mockUseStore.mockImplementation((selector) => (selector ? selector(state) : state));
+
+    const app = render(<WatchlistView />);
+    expect(mockSubscribeWatchlist).not.toHaveBeenCalled();
+
+    state = { ...state, connectionStatus: "connected" };
+    app.rerender(<WatchlistView />);
+    await vi.waitFor(() => {
+      expect(mockSubscribeWatchlist).toHaveBeenCalledTimes(1);
+    });
+
+    state = { ...state, connectionStatus: "disconnected" };
+    app.rerender(<WatchlistView />);
+    await vi.waitFor(() => {
+      expect(mockUnsubscribe).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it("renders the focus marker, empty state and add prompt", () => {
+    mockState(createBaseState());
+
+    const { lastFrame } = render(<WatchlistView isFocused inputValue="MS" />);
+
+    expect(lastFrame()).toContain(">[5] Watchlist<");
+    expect(lastFrame()).toContain("No symbols");
+    expect(lastFrame()).toContain("Add symbol: MS");
+  });
+
+  it("renders bid, ask, last, volume and change for each symbol", () => {
+    mockState({
+      ...createBaseState(),
+      watchlist: ["AAPL", "MSFT", "NEW"],
+      quotes: {
+        AAPL: createMockQuote(),
+        MSFT: createMockQuote({ symbol: "MSFT", bid: null, ask: null, last: 380, changePercent: -1.25, isDelayed: true }),
+      },
+    });
+
+    const frame = render(<WatchlistView />).lastFrame() ?? "";
+
+    expect(frame).toContain("Chg%");
+    expect(frame).toContain("209.95");
+    expect(frame).toContain("210.05");
+    expect(frame).toContain("1,234,567");
+    expect(frame).toContain("+5.00%");
+    expect(frame).toContain("-1.25%");
+    expect(frame).toContain("delayed");
+    expect(frame).toContain("NEW");
+    expect(frame.indexOf("AAPL")).toBeLessThan(frame.indexOf("MSFT"));
+  });
+});
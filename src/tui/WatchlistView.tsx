@@ -0,0 +1,108 @@
+import React, { useEffect } from "react";
+import { Box, Text } from "ink";
+import { useStore } from "../state/store.js";
+import type { Quote } from "../broker/types.js";
+import { formatNumber, padLeft, padRight } from "./format.js";
+
+const COLUMNS = {
+  ticker: 8,
+  bid: 11,
+  ask: 11,
+  last: 11,
+  volume: 13,
+  change: 9,
+};
+
+const formatPrice = (value: number | null | undefined): string =>
+  value === null || value === undefined ? "-" : formatNumber(value);
+
+const formatVolume = (value: number | null | undefined): string =>
+  value === null || value === undefined ? "-" : formatNumber(value, 0);
+
+const formatChange = (value: number | null | undefined): string => {
+  if (value === null || value === undefined) return "-";
+  return `${value > 0 ? "+" : ""}${formatNumber(value)}%`;
+};
+
+const getChangeColor = (value: number | null | undefined): string | undefined => {
+  if (value === null || value === undefined || value === 0) return undefined;
+  return value > 0 ? "green" : "red";
+};
+
+const HeaderRow: React.FC = () => (
+  <Box>
+    <Text color="cyan" bold>
+      {padRight("Ticker", COLUMNS.ticker)}
+      {padLeft("Bid", COLUMNS.bid)}
+      {padLeft("Ask", COLUMNS.ask)}
+      {padLeft("Last", COLUMNS.last)}
+      {padLeft("Volume", COLUMNS.volume)}
+      {padLeft("Chg%", COLUMNS.change)}
+    </Text>
+  </Box>
+);
+
+const QuoteRow: React.FC<{ symbol: string; quote: Quote | undefined; isSelected: boolean }> = ({
+  symbol,
+  quote,
+  isSelected,
+}) => (
+  <Box>
+    <Text inverse={isSelected}>{padRight(symbol, COLUMNS.ticker)}</Text>
+    <Text>{padLeft(formatPrice(quote?.bid), COLUMNS.bid)}</Text>
+    <Text>{padLeft(formatPrice(quote?.ask), COLUMNS.ask)}</Text>
+    <Text>{padLeft(formatPrice(quote?.last), COLUMNS.last)}</Text>
+    <Text>{padLeft(formatVolume(quote?.volume), COLUMNS.volume)}</Text>
+    <Text color={getChangeColor(quote?.changePercent)}>{padLeft(formatChange(quote?.changePercent), COLUMNS.change)}</Text>
+    {quote?.isDelayed && <Text color="yellow"> delayed</Text>}
+    {quote?.error && <Text color="red"> {quote.error}</Text>}
+  </Box>
+);
+
+export const WatchlistView: React.FC<{
+  isFocused?: boolean;
+  selectedSymbol?: string | null;
+  inputValue?: string | null;
+}> = ({ isFocused = false, selectedSymbol = null, inputValue = null }) => {
+  const connectionStatus = useStore((s) => s.connectionStatus);
+  const watchlist = useStore((s) => s.watchlist);
+  const quotes = useStore((s) => s.quotes);
+  const subscribeWatchlist = useStore((s) => s.subscribeWatchlist);
+
+  useEffect(() => {
+    if (connectionStatus !== "connected") return;
+    const unsubscribe = subscribeWatchlist();
+    return () => unsubscribe();
+  }, [connectionStatus, subscribeWatchlist]);
+
+  return (
+    <Box flexDirection="column" marginTop={1}>
+      <Box marginBottom={1}>
+        <Text color="cyan" bold>
+          {isFocused ? ">[5] Watchlist<" : "[5] Watchlist"}
+        </Text>
+      </Box>
+      {watchlist.length === 0 ? (
+        <Text dimColor>No symbols</Text>
+      ) : (
+        <>
+          <HeaderRow />
+          {watchlist.map((symbol) => (
+            <QuoteRow
+              key={symbol}
+              symbol={symbol}
+              quote={quotes[symbol]}
+              isSelected={isFocused && symbol === selectedSymbol}
+            />
+          ))}
+        </>
+      )}
+      {inputValue !== null && (
+        <Box>
+          <Text color="cyan">Add symbol: </Text>
+          <Text inverse>{inputValue || " "}</Text>
+        </Box>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { renderAsciiChart } from "./chart.js";
+
+describe("renderAsciiChart", () => {
+  it("draws a rising then falling series with y-axis labels", () => {
+    const lines = renderAsciiChart([0, 1, 2, 1], { height: 3, width: 10, formatLabel: (value) => value.toFixed(0) });
+
+    expect(lines).toEqual([
+      "2 ┤  ╭╮",
+      "1 ┤ ╭╯╰",
+      "0 ┤─╯  ",
+    ]);
+  });
+
+  it("keeps the latest value when downsampling to the plot width", () => {
+    const lines = renderAsciiChart([5, 5, 5, 5, 5, 9], { height: 2, width: 3, formatLabel: (value) => value.toFixed(0) });
+
+    expect(lines).toEqual([
+      "9 ┤  ╭",
+      "5 ┤──╯",
+    ]);
+  });
+
+  it("centers a flat series and returns nothing without data", () => {
+    expect(renderAsciiChart([3, 3], { height: 3, width: 5, formatLabel: (value) => value.toFixed(0) })).toEqual([
+      "4 ┤  ",
+      "3 ┤──",
+      "2 ┤  ",
+    ]);
+    expect(renderAsciiChart([], { height: 3, width: 5 })).toEqual([]);
+  });
+});
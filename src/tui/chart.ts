@@ -0,0 +1,61 @@
+export type AsciiChartOptions = {
+  height: number;
+  width: number;
+  formatLabel?: (value: number) => string;
+};
+
+// Keeps the last value of each bucket so the right edge always shows the latest sample.
+const downsample = (values: number[], width: number): number[] => {
+  if (values.length <= width) return values;
+  return Array.from({ length: width }, (_, column) => values[Math.floor(((column + 1) * values.length) / width) - 1]);
+};
+
+/**
+ * Renders a line chart with box-drawing characters, one string per row from top
+ * to bottom. Each row is prefixed with a y-axis label; `width` is the plot width
+ * excluding labels.
+ */
+export const renderAsciiChart = (
+  values: number[],
+  { height, width, formatLabel = (value) => value.toFixed(2) }: AsciiChartOptions,
+): string[] => {
+  const series = downsample(values, Math.max(1, width));
+  if (series.length === 0 || height < 1) return [];
+
+  let min = Math.min(...series);
+  let max = Math.max(...series);
+  if (max === min) {
+    min -= 1;
+    max += 1;
+  }
+  const rows = Math.max(2, height);
+  const toRow = (value: number): number => Math.round(((value - min) / (max - min)) * (rows - 1));
+
+  const grid = Array.from({ length: rows }, () => Array.from({ length: series.length }, () => " "));
+  series.forEach((value, column) => {
+    const row = toRow(value);
+    if (column === 0) {
+      grid[row][column] = "─";
+      return;
+    }
+    const prevRow = toRow(series[column - 1]);
+    if (row === prevRow) {
+      grid[row][column] = "─";
+      return;
+    }
+    const rising = row > prevRow;
+    grid[prevRow][column] = rising ? "╯" : "╮";
+    grid[row][column] = rising ? "╭" : "╰";
+    for (let between = Math.min(row, prevRow) + 1; between < Math.max(row, prevRow); between++) {
+      grid[between][column] = "│";
+    }
+  });
+
+  const labels = Array.from({ length: rows }, (_, index) => formatLabel(max - (index / (rows - 1)) * (max - min)));
+  const labelWidth = Math.max(...labels.map((label) => label.length));
+
+  return grid
+    .slice()
+    .reverse()
+    .map((cells, index) => `${labels[index].padStart(labelWidth)} ┤${cells.join("")}`);
+};
@@ -0,0 +1,45 @@
+export const formatNumber = (value: number, decimals = 2): string => {
+  return value.toLocaleString("en-US", {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  });
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  USD: "$",
+  EUR: "€",
+  GBP: "£",
+  JPY: "¥",
+  CNY: "¥",
+  CNH: "¥",
+  CHF: "CHF ",
+  CAD: "C$",
+  AUD: "A$",
+  HKD: "HK$",
+  SGD: "S$",
+  SEK: "kr",
+  NOK: "kr",
+  DKK: "kr",
+  ILS: "₪",
+  MXN: "MX$",
+  KRW: "₩",
+  INR: "₹",
+  ZAR: "R",
+};
+
+const getCurrencySymbol = (currencyCode: string | null): string => {
+  if (!currencyCode) return "$";
+  return CURRENCY_SYMBOLS[currencyCode] ?? `${currencyCode} `;
+};
+
+export const formatMoney = (value: number, currencyCode: string | null): string => {
+  return `${getCurrencySymbol(currencyCode)}${formatNumber(value)}`;
+};
+
+export const padRight = (str: string, width: number): string => {
+  return str.length >= width ? str.slice(0, width) : str + " ".repeat(width - str.length);
+};
+
+export const padLeft = (str: string, width: number): string => {
+  return str.length >= width ? str.slice(0, width) : " ".repeat(width - str.length) + str;
+};
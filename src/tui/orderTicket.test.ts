@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import type { Key } from "ink";
+import type { Position } from "../broker/types.js";
+import { applyTicketInput, createOrderTicket, estimateNotional, toOrderRequest } from "./orderTicket.js";
+import type { OrderTicketState } from "./orderTicket.js";
+
+const createKey = (overrides: Partial<Key> = {}): Key => ({
+  upArrow: false,
+  downArrow: false,
+  leftArrow: false,
+  rightArrow: false,
+  pageDown: false,
+  pageUp: false,
+  return: false,
+  escape: false,
+  ctrl: false,
+  shift: false,
+  tab: false,
+  backspace: false,
+  delete: false,
+  meta: false,
+  ...overrides,
+});
+
+const createPosition = (overrides: Partial<Position> = {}): Position => ({
+  symbol: "SAP",
+  quantity: 20,
+  avgCost: 180,
+  marketValue: 4000,
+  unrealizedPnL: 400,
+  dailyPnL: 0,
+  realizedPnL: 0,
+  marketPrice: 200,
+  currency: "EUR",
+  conId: 14204,
+  marketValueBase: 4400,
+  unrealizedPnLBase: 440,
+  realizedPnLBase: 0,
+  fxRateToBase: 1.1,
+  isFxPending: false,
+  ...overrides,
+});
+
+const press = (ticket: OrderTicketState, ...keys: Array<string | Partial<Key>>): OrderTicketState | null => {
+  let current: OrderTicketState | null = ticket;
+  for (const key of keys) {
+    if (!current) return null;
+    current = typeof key === "string" ? applyTicketInput(current, key, createKey()) : applyTicketInput(current, "", createKey(key));
+  }
+  return current;
+};
+
+describe("orderTicket", () => {
+  it("pre-fills contract details and a limit at the last mark", () => {
+    const ticket = createOrderTicket(createPosition(), "U111");
+
+    expect(ticket).toEqual(expect.objectContaining({
+      step: "edit",
+      field: "quantity",
+      symbol: "SAP",
+      conId: 14204,
+      currency: "EUR",
+      account: "U111",
+      action: "BUY",
+      orderType: "LMT",
+      limitPrice: "200.00",
+      multiplier: 1,
+    }));
+  });
+
+  it("infers the contract multiplier from market value", () => {
+    const ticket = createOrderTicket(createPosition({ quantity: 2, marketPrice: 5, marketValue: 1000 }), "U111");
+    expect(ticket.multiplier).toBe(100);
+  });
+
+  it("edits fields, cycles order types and exposes the matching price fields", () => {
+    const ticket = createOrderTicket(createPosition(), "U111");
+
+    const edited = press(ticket, "1", "2", ".", "5", ".", { backspace: true }, { upArrow: true }, { rightArrow: true }, { rightArrow: true });
+    expect(edited).toEqual(expect.objectContaining({ quantity: "12.", field: "orderType", orderType: "STP_LMT" }));
+
+    const sell = press(ticket, { upArrow: true }, { upArrow: true }, "s");
+    expect(sell?.action).toBe("SELL");
+  });
+
+  it("blocks review until the ticket is valid", () => {
+    const ticket = createOrderTicket(createPosition(), "U111");
+
+    const missingQty = press(ticket, { return: true });
+    expect(missingQty).toEqual(expect.objectContaining({ step: "edit", error: "Enter a positive quantity" }));
+
+    const stopOrder = press(ticket, "5", { upArrow: true }, { rightArrow: true }, { return: true });
+    expect(stopOrder).toEqual(expect.objectContaining({ orderType: "STP", step: "edit", error: "Enter a positive stop price" }));
+
+    const review = press(ticket, "5", { return: true });
+    expect(review).toEqual(expect.objectContaining({ step: "review", error: null, preview: { status: "loading" } }));
+  });
+
+  it("moves review -> submitting on enter, back to edit on escape, and closes from edit", () => {
+    const review = press(createOrderTicket(createPosition(), "U111"), "5", { return: true });
+    expect(review).not.toBeNull();
+    if (!review) return;
+
+    expect(press(review, { escape: true })).toEqual(expect.objectContaining({ step: "edit", preview: null }));
+    expect(press(review, { return: true })?.step).toBe("submitting");
+    expect(press(review, { escape: true }, { escape: true })).toBeNull();
+  });
+
+  it("builds an order request carrying the contract identity", () => {
+    const ticket = press(createOrderTicket(createPosition(), "U111"), "5");
+    expect(ticket && toOrderRequest(ticket)).toEqual({
+      symbol: "SAP",
+      conId: 14204,
+      currency: "EUR",
+      account: "U111",
+      action: "BUY",
+      quantity: 5,
+      orderType: "LMT",
+      limitPrice: 200,
+      stopPrice: undefined,
+    });
+  });
+
+  it("estimates notional in local and display currency", () => {
+    const ticket = press(createOrderTicket(createPosition(), "U111"), "5");
+    if (!ticket) throw new Error("ticket closed");
+
+    expect(estimateNotional(ticket, 1)).toEqual({ local: 1000, display: 1100 });
+    expect(estimateNotional(ticket, 0.5).display).toBeCloseTo(550);
+    expect(estimateNotional({ ...ticket, fxRateToBase: null }, 1)).toEqual({ local: 1000, display: null });
+    expect(estimateNotional({ ...ticket, quantity: "" }, 1)).toEqual({ local: null, display: null });
+  });
+});
@@ -0,0 +1,190 @@
+import type { Key } from "ink";
+import type { Order, OrderPreview, OrderRequest, Position } from "../broker/types.js";
+
+export type OrderTicketStep = "edit" | "review" | "submitting" | "result";
+
+export type OrderTicketField = "action" | "orderType" | "quantity" | "limitPrice" | "stopPrice";
+
+export type OrderTicketPreview =
+  | { status: "loading" }
+  | { status: "ready"; value: OrderPreview }
+  | { status: "error"; message: string };
+
+export type OrderTicketState = {
+  step: OrderTicketStep;
+  field: OrderTicketField;
+  symbol: string;
+  conId: number;
+  currency: string;
+  referencePrice: number;
+  multiplier: number;
+  fxRateToBase: number | null;
+  // Account selected when the ticket was opened; orders are booked to it.
+  account: string | null;
+  action: Order["action"];
+  orderType: Order["orderType"];
+  quantity: string;
+  limitPrice: string;
+  stopPrice: string;
+  error: string | null;
+  preview: OrderTicketPreview | null;
+  result: string | null;
+};
+
+const ORDER_TYPES: Order["orderType"][] = ["MKT", "LMT", "STP", "STP_LMT"];
+
+// Options and futures report marketValue = qty * price * multiplier; recover the
+// multiplier so the notional estimate matches what the broker will book.
+const inferMultiplier = (position: Position): number => {
+  const denominator = position.quantity * position.marketPrice;
+  if (!Number.isFinite(denominator) || denominator === 0) return 1;
+  const ratio = Math.abs(position.marketValue / denominator);
+  if (!Number.isFinite(ratio) || ratio < 1) return 1;
+  return Math.round(ratio);
+};
+
+export const createOrderTicket = (position: Position, account: string | null): OrderTicketState => ({
+  step: "edit",
+  field: "quantity",
+  symbol: position.symbol,
+  conId: position.conId,
+  currency: position.currency,
+  referencePrice: position.marketPrice,
+  multiplier: inferMultiplier(position),
+  fxRateToBase: position.fxRateToBase,
+  account,
+  action: "BUY",
+  orderType: "LMT",
+  quantity: "",
+  limitPrice: position.marketPrice > 0 ? position.marketPrice.toFixed(2) : "",
+  stopPrice: "",
+  error: null,
+  preview: null,
+  result: null,
+});
+
+export const getTicketFields = (orderType: Order["orderType"]): OrderTicketField[] => {
+  const fields: OrderTicketField[] = ["action", "orderType", "quantity"];
+  if (orderType === "LMT" || orderType === "STP_LMT") fields.push("limitPrice");
+  if (orderType === "STP" || orderType === "STP_LMT") fields.push("stopPrice");
+  return fields;
+};
+
+const parsePositive = (raw: string): number | null => {
+  const parsed = Number.parseFloat(raw);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+export const toOrderRequest = (ticket: OrderTicketState): OrderRequest | string => {
+  const quantity = parsePositive(ticket.quantity);
+  if (quantity === null) return "Enter a positive quantity";
+
+  const fields = getTicketFields(ticket.orderType);
+  const limitPrice = fields.includes("limitPrice") ? parsePositive(ticket.limitPrice) : null;
+  const stopPrice = fields.includes("stopPrice") ? parsePositive(ticket.stopPrice) : null;
+  if (fields.includes("limitPrice") && limitPrice === null) return "Enter a positive limit price";
+  if (fields.includes("stopPrice") && stopPrice === null) return "Enter a positive stop price";
+
+  return {
+    symbol: ticket.symbol,
+    conId: ticket.conId,
+    currency: ticket.currency,
+    account: ticket.account ?? undefined,
+    action: ticket.action,
+    quantity,
+    orderType: ticket.orderType,
+    limitPrice: limitPrice ?? undefined,
+    stopPrice: stopPrice ?? undefined,
+  };
+};
+
+// Price used to value the ticket: the limit for limit orders, the trigger for
+// plain stops and the last mark for market orders.
+const resolveTicketPrice = (ticket: OrderTicketState): number | null => {
+  if (ticket.orderType === "LMT" || ticket.orderType === "STP_LMT") return parsePositive(ticket.limitPrice);
+  if (ticket.orderType === "STP") return parsePositive(ticket.stopPrice);
+  return ticket.referencePrice > 0 ? ticket.referencePrice : null;
+};
+
+export const estimateNotional = (
+  ticket: OrderTicketState,
+  displayFxRate: number,
+): { local: number | null; display: number | null } => {
+  const quantity = parsePositive(ticket.quantity);
+  const price = resolveTicketPrice(ticket);
+  if (quantity === null || price === null) return { local: null, display: null };
+  const local = quantity * price * ticket.multiplier;
+  const display = ticket.fxRateToBase === null ? null : local * ticket.fxRateToBase * displayFxRate;
+  return { local, display };
+};
+
+const cycle = <T>(values: T[], current: T, direction: 1 | -1): T => {
+  const index = values.indexOf(current);
+  return values[(index + direction + values.length) % values.length];
+};
+
+const editNumericField = (value: string, input: string, key: Key): string => {
+  if (key.backspace || key.delete) return value.slice(0, -1);
+  if (/^[0-9]$/.test(input)) return value + input;
+  if (input === "." && !value.includes(".")) return value + input;
+  return value;
+};
+
+const applyEditInput = (ticket: OrderTicketState, input: string, key: Key): OrderTicketState | null => {
+  if (key.escape) return null;
+
+  const fields = getTicketFields(ticket.orderType);
+  if (key.upArrow || key.downArrow || key.tab) {
+    const direction = key.upArrow || (key.tab && key.shift) ? -1 : 1;
+    return { ...ticket, field: cycle(fields, ticket.field, direction), error: null };
+  }
+
+  if (key.return) {
+    const request = toOrderRequest(ticket);
+    if (typeof request === "string") return { ...ticket, error: request };
+    return { ...ticket, step: "review", error: null, preview: { status: "loading" } };
+  }
+
+  if (ticket.field === "action") {
+    if (key.leftArrow || key.rightArrow || input === " ") {
+      return { ...ticket, action: ticket.action === "BUY" ? "SELL" : "BUY" };
+    }
+    if (input === "b") return { ...ticket, action: "BUY" };
+    if (input === "s") return { ...ticket, action: "SELL" };
+    return ticket;
+  }
+
+  if (ticket.field === "orderType") {
+    if (key.leftArrow || key.rightArrow || input === " ") {
+      const orderType = cycle(ORDER_TYPES, ticket.orderType, key.leftArrow ? -1 : 1);
+      return { ...ticket, orderType };
+    }
+    return ticket;
+  }
+
+  const next = editNumericField(ticket[ticket.field], input, key);
+  if (next === ticket[ticket.field]) return ticket;
+  return { ...ticket, [ticket.field]: next, error: null };
+};
+
+/**
+ * Applies a keypress to the ticket. Returns null when the ticket should close.
+ * A transition from "edit" to "review" is the caller's cue to request a what-if
+ * preview; a transition from "review" to "submitting" is the cue to transmit.
+ */
+export const applyTicketInput = (ticket: OrderTicketState, input: string, key: Key): OrderTicketState | null => {
+  if (ticket.step === "edit") return applyEditInput(ticket, input, key);
+
+  if (ticket.step === "review") {
+    if (key.escape) return { ...ticket, step: "edit", preview: null };
+    if (key.return) return { ...ticket, step: "submitting" };
+    return ticket;
+  }
+
+  if (ticket.step === "result") {
+    if (key.escape || key.return) return null;
+    return ticket;
+  }
+
+  return ticket;
+};
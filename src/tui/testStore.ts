@@ -0,0 +1,128 @@
+import type { Broker, OrderPreview } from "../broker/types.js";
+import type { AppState } from "../state/store.js";
+
+// Shared fixtures for view tests that mock `useStore`.
+
+export const EMPTY_PREVIEW: OrderPreview = {
+  initMarginChange: null,
+  maintMarginChange: null,
+  equityWithLoanChange: null,
+  initMarginAfter: null,
+  maintMarginAfter: null,
+  equityWithLoanAfter: null,
+  commission: null,
+  minCommission: null,
+  maxCommission: null,
+  commissionCurrency: null,
+  warningText: null,
+};
+
+export const createMockBroker = (overrides: Partial<Broker> = {}): Broker => ({
+  connect: async () => undefined,
+  disconnect: async () => undefined,
+  isConnected: () => true,
+  onDisconnect: () => () => {},
+  onStatus: () => () => {},
+  onAccounts: () => () => {},
+  setAccount: () => {},
+  setSessionAlerts: () => {},
+  getAccountSummary: async () => ({
+    accountId: "DU123456",
+    currency: "USD",
+    netLiquidation: 0,
+    totalCashValue: 0,
+    buyingPower: 0,
+    excessLiquidity: null,
+    initMarginReq: null,
+    maintMarginReq: null,
+    cushion: null,
+    sma: null,
+    grossPositionValue: null,
+    leverage: null,
+    updatedAt: 0,
+    positions: [],
+  }),
+  getPositions: async () => [],
+  placeOrder: async (order) => ({ ...order, id: 1, status: "Submitted", filled: 0, remaining: order.quantity, avgFillPrice: 0 }),
+  previewOrder: async () => EMPTY_PREVIEW,
+  cancelOrder: async () => undefined,
+  getOpenOrders: async () => [],
+  subscribeOrders: () => () => {},
+  subscribeExecutions: () => () => {},
+  subscribeQuote: () => () => {},
+  subscribePortfolio: () => () => {},
+  subscribeHousehold: () => () => {},
+  ...overrides,
+});
+
+// A connected, loaded store with no data; every action is a no-op.
+export const createState = (overrides: Partial<AppState> = {}): AppState => ({
+  broker: createMockBroker(),
+  connectionStatus: "connected",
+  connectionHealth: "healthy",
+  error: null,
+  brokerStatus: null,
+  retryAttempt: 0,
+  nextRetryAt: null,
+  statusHistory: [],
+  statusHistoryIndex: 0,
+  accounts: [],
+  selectedAccountId: null,
+  householdMode: false,
+  household: null,
+  accountId: null,
+  positions: [],
+  positionsMarketValue: 0,
+  positionsUnrealizedPnL: 0,
+  positionsDailyPnL: 0,
+  positionsRealizedPnL: 0,
+  dailyPnL: null,
+  totalEquity: 0,
+  cashBalance: 0,
+  cashBalancesByCurrency: {},
+  cashExchangeRatesByCurrency: {},
+  baseCurrencyCode: null,
+  initialLoadComplete: true,
+  lastPortfolioUpdateAt: Date.now(),
+  positionsPendingFxCount: 0,
+  positionsPendingFxByCurrency: {},
+  accountValues: null,
+  displayCurrencyPreference: "BASE",
+  displayCurrencyCode: null,
+  displayFxRate: 1,
+  availableDisplayCurrencies: [],
+  displayCurrencyWarning: null,
+  equityHistory: [],
+  persistedEquityHistory: [],
+  accountSummary: null,
+  cushionThresholds: { warn: 0.1, critical: 0.05 },
+  orders: [],
+  executions: [],
+  watchlist: [],
+  quotes: {},
+  connect: async () => undefined,
+  disconnect: async () => undefined,
+  startAutoConnect: () => {},
+  stopAutoConnect: () => {},
+  selectOlderStatus: () => {},
+  selectNewerStatus: () => {},
+  setConnectionStatus: () => {},
+  setError: () => {},
+  subscribePortfolio: () => () => {},
+  setDisplayCurrencyPreference: () => {},
+  cycleDisplayCurrency: () => {},
+  setAccount: () => {},
+  cycleAccount: () => {},
+  toggleHousehold: () => {},
+  subscribeHousehold: () => () => {},
+  subscribeAccountSummary: () => () => {},
+  setCushionThresholds: () => {},
+  subscribeOrders: () => () => {},
+  subscribeExecutions: () => () => {},
+  placeOrder: async (order) => ({ ...order, id: 1, status: "Submitted", filled: 0, remaining: order.quantity, avgFillPrice: 0 }),
+  previewOrder: async () => EMPTY_PREVIEW,
+  subscribeWatchlist: () => () => {},
+  addWatchlistSymbol: () => true,
+  removeWatchlistSymbol: () => {},
+  ...overrides,
+});
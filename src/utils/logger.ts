@@ -4,6 +4,11 @@ import path from "node:path";
 export const LOG_LEVELS = ["error", "warn", "info", "debug"] as const;
 export type LogLevel = (typeof LOG_LEVELS)[number];
 
+// Injected into modules that log through the caller; defaults to `noopLog`.
+export type LogFn = (level: LogLevel, stream: string, detail: string) => void;
+
+export const noopLog: LogFn = () => {};
+
 const LEVEL_ORDER: Record<LogLevel, number> = {
   error: 0,
   warn: 1,
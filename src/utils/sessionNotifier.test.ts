@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from "vitest";
+import { createSessionNotifier } from "./sessionNotifier.js";
+
+describe("createSessionNotifier", () => {
+  it("rings the bell and runs the notify command for session alerts only", () => {
+    const writeBell = vi.fn();
+    const runCommand = vi.fn();
+    const notify = createSessionNotifier({ bell: true, command: "notify-send -a ib-tui", writeBell, runCommand });
+
+    notify({ level: "warn", message: "Market data farm connection is broken", code: 2103, at: 1 });
+    notify({ level: "info", message: "NASDAQ regular session closes in 15m (AAPL)", kind: "session", at: 2 });
+
+    expect(writeBell).toHaveBeenCalledTimes(1);
+    expect(runCommand).toHaveBeenCalledTimes(1);
+    expect(runCommand).toHaveBeenCalledWith(
+      "notify-send",
+      ["-a", "ib-tui", "NASDAQ regular session closes in 15m (AAPL)"],
+      expect.any(Function),
+    );
+  });
+
+  it("logs a failing command instead of throwing", () => {
+    const log = vi.fn();
+    const notify = createSessionNotifier({
+      bell: false,
+      command: "missing-notifier",
+      writeBell: vi.fn(),
+      runCommand: (_file, _args, onError) => onError(new Error("spawn missing-notifier ENOENT")),
+      log,
+    });
+
+    notify({ level: "info", message: "NYSE opens in 5m (IBM)", kind: "session", at: 1 });
+
+    expect(log).toHaveBeenCalledWith("warn", "session.notify", expect.stringContaining("ENOENT"));
+  });
+});
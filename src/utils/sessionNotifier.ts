@@ -0,0 +1,45 @@
+import { execFile } from "node:child_process";
+import type { BrokerStatus } from "../broker/types.js";
+import { noopLog } from "./logger.js";
+import type { LogFn } from "./logger.js";
+
+const BELL = "\x07";
+
+type Params = {
+  bell: boolean;
+  // Program and leading arguments, e.g. "notify-send -a ib-tui"; the alert text is appended.
+  command: string | null;
+  writeBell?: () => void;
+  runCommand?: (file: string, args: string[], onError: (error: Error) => void) => void;
+  log?: LogFn;
+};
+
+const defaultRunCommand = (file: string, args: string[], onError: (error: Error) => void): void => {
+  execFile(file, args, { timeout: 10_000 }, (error) => {
+    if (error) onError(error);
+  });
+};
+
+/**
+ * Listener for `broker.onStatus` that rings the terminal bell and/or runs a
+ * desktop-notification command for session alerts. Other statuses are ignored.
+ */
+export const createSessionNotifier = ({
+  bell,
+  command,
+  writeBell = () => process.stdout.write(BELL),
+  runCommand = defaultRunCommand,
+  log = noopLog,
+}: Params): ((status: BrokerStatus) => void) => {
+  const [file, ...commandArgs] = (command ?? "").trim().split(/\s+/).filter(Boolean);
+
+  return (status) => {
+    if (status.kind !== "session") return;
+    if (bell) writeBell();
+    if (file) {
+      runCommand(file, [...commandArgs, status.message], (error) => {
+        log("warn", "session.notify", `command failed file=${file} error=${error.message}`);
+      });
+    }
+  };
+};
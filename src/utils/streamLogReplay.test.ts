@@ -161,8 +161,6 @@ describe("IBKR stream log replay", () => {
     const failures: string[] = [];
     const absTol = 0.05;
 
-    let sawPnlSubscription = false;
-    let sawPnlSingleSubscription = false;
     let sawNonBaseCashBalance = false;
     let sawExchangeRate = false;
     let sawContractDetailsRequest = false;
@@ -191,14 +189,6 @@ describe("IBKR stream log replay", () => {
         if (selected) state.selectedAccount = selected;
       }
 
-      // Detect any leftover pnl/pnlSingle subscriptions (should not exist after simplification)
-      if (line.stream === "subscription" && line.detail.includes("reqPnL ")) {
-        sawPnlSubscription = true;
-      }
-      if (line.stream === "subscription" && line.detail.includes("reqPnLSingle")) {
-        sawPnlSingleSubscription = true;
-      }
-
       if (line.stream === "event.updatePortfolio" && line.detail.startsWith("received")) {
         const account = line.fields.account;
         const conId = toFiniteNumber(line.fields.conId);
@@ -339,13 +329,6 @@ describe("IBKR stream log replay", () => {
       }
     }
 
-    // Regression: no pnl/pnlSingle subscriptions should appear in new logs
-    if (sawPnlSubscription) {
-      failures.push("[regression] Found reqPnL subscription in log - should not exist after simplification");
-    }
-    if (sawPnlSingleSubscription) {
-      failures.push("[regression] Found reqPnLSingle subscription in log - should not exist after simplification");
-    }
     if (sawNonBaseCashBalance && !sawExchangeRate) {
       failures.push("[regression] Found non-BASE cash balances but no ExchangeRate events in log");
     }